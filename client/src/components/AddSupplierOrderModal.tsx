@@ -7,6 +7,7 @@ import { collection, addDoc, Timestamp } from 'firebase/firestore';
 import { showSuccess, showError } from '../services/notificationService';
 import { Supplier, SupplierOrder, SupplierOrderItem } from '../types';
 import { useAuth } from '../contexts/AuthContext';
+import { findOrderByNumber } from '../services/orderService';
 import ProductTypeAutocomplete from './ProductTypeAutocomplete';
 import SupplierAutocomplete from './SupplierAutocomplete';
 
@@ -139,6 +140,30 @@ export default function AddSupplierOrderModal({ isOpen, onClose, onOrderAdded, s
     return true;
   }
 
+  /**
+   * Resolve the client order numbers typed on the items, so cancelling one of
+   * those orders also cancels the items bought for it
+   * @returns Items with orderId set, or null when a number matches no order
+   */
+  async function linkItemsToOrders(): Promise<SupplierOrderItem[] | null> {
+    const linked: SupplierOrderItem[] = [];
+    for (const item of items) {
+      const orderNumber = item.orderNumber?.trim().toUpperCase();
+      if (!orderNumber) {
+        linked.push({ ...item, orderNumber: '' });
+        continue;
+      }
+
+      const order = await findOrderByNumber(orderNumber);
+      if (!order) {
+        showError(t('suppliers.orderModal.errorOrderNotFound', { orderNumber }));
+        return null;
+      }
+      linked.push({ ...item, orderId: order.id, orderNumber });
+    }
+    return linked;
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
 
@@ -147,16 +172,21 @@ export default function AddSupplierOrderModal({ isOpen, onClose, onOrderAdded, s
     try {
       setLoading(true);
 
+      const linkedItems = await linkItemsToOrders();
+      if (!linkedItems) return;
+
       const orderData: Omit<SupplierOrder, 'id'> = {
         supplierId: selectedSupplier!.id!,
         supplierName: selectedSupplier!.name,
-        items: items.map((item) => ({
+        items: linkedItems.map((item) => ({
           id: item.id,
           productType: item.productType,
           quantity: item.quantity,
           client: item.client.trim(),
           description: item.description.trim(),
+          ...(item.orderId ? { orderId: item.orderId, orderNumber: item.orderNumber } : {}),
         })),
+        orderIds: Array.from(new Set(linkedItems.map((item) => item.orderId).filter((id): id is string => !!id))),
         status: 'active',
         createdAt: Timestamp.now(),
         updatedAt: Timestamp.now(),
@@ -304,19 +334,37 @@ export default function AddSupplierOrderModal({ isOpen, onClose, onOrderAdded, s
                     </div>
                   </div>
 
-                  {/* Client */}
-                  <div>
-                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
-                      {t('suppliers.orderModal.client')} <span className="text-red-500">*</span>
-                    </label>
-                    <input
-                      type="text"
-                      value={item.client}
-                      onChange={(e) => handleItemChange(item.id, 'client', e.target.value)}
-                      placeholder={t('suppliers.orderModal.clientPlaceholder')}
-                      className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
-                      disabled={loading}
-                    />
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {/* Client */}
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                        {t('suppliers.orderModal.client')} <span className="text-red-500">*</span>
+                      </label>
+                      <input
+                        type="text"
+                        value={item.client}
+                        onChange={(e) => handleItemChange(item.id, 'client', e.target.value)}
+                        placeholder={t('suppliers.orderModal.clientPlaceholder')}
+                        className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+                        disabled={loading}
+                      />
+                    </div>
+
+                    {/* Linked client order */}
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                        {t('suppliers.orderModal.orderNumber')}
+                      </label>
+                      <input
+                        type="text"
+                        data-testid={`supplier-item-order-number-${index}`}
+                        value={item.orderNumber || ''}
+                        onChange={(e) => handleItemChange(item.id, 'orderNumber', e.target.value)}
+                        placeholder={t('suppliers.orderModal.orderNumberPlaceholder')}
+                        className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+                        disabled={loading}
+                      />
+                    </div>
                   </div>
 
                   {/* Description */}
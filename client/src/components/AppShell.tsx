@@ -7,6 +7,7 @@ import { Bars3Icon, XMarkIcon, GlobeAltIcon, SunIcon, MoonIcon, ComputerDesktopI
 import { XMarkIcon as XMarkIconSolid } from '@heroicons/react/20/solid';
 import { db } from '../firebase';
 import { collection, query, orderBy as firestoreOrderBy, onSnapshot, limit } from 'firebase/firestore';
+import { getOrderNumber } from '../services/orderService';
 
 function classNames(...classes: string[]) {
   return classes.filter(Boolean).join(' ');
@@ -89,7 +90,7 @@ export default function AppShell({ children, title }: { children: React.ReactNod
 
           // Only show notification for orders created in the last 10 seconds (to avoid showing old ones on page load)
           if (orderAge < 10000) {
-            const message = `${order.userName || order.userEmail} a plasat comanda #${change.doc.id.substring(0, 8).toUpperCase()}`;
+            const message = `${order.userName || order.userEmail} a plasat comanda ${getOrderNumber({ id: change.doc.id, ...order })}`;
             const orderId = change.doc.id;
 
             // Play notification sound
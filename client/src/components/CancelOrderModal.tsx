@@ -0,0 +1,153 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Dialog, DialogPanel, DialogTitle } from '@headlessui/react';
+import { useAuth } from '../contexts/AuthContext';
+import { cancelOrder, getCancellationReasons } from '../services/cancellationService';
+import { getOrderNumber } from '../services/orderService';
+import { showSuccess, showError } from '../services/notificationService';
+import { OrderCancellation } from '../types';
+
+interface CancelOrderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCancelled: (cancellation: OrderCancellation) => void;
+  order: any;
+}
+
+export default function CancelOrderModal({ isOpen, onClose, onCancelled, order }: CancelOrderModalProps) {
+  const { t } = useTranslation();
+  const { currentUser, userProfile } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const [reasons, setReasons] = useState<string[]>([]);
+  const [reason, setReason] = useState('');
+  const [comment, setComment] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setReason('');
+      setComment('');
+      getCancellationReasons().then(setReasons);
+    }
+  }, [isOpen]);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!order || !currentUser) return;
+
+    if (!reason) {
+      showError(t('orderCancellation.errorReason'));
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const trimmedComment = comment.trim();
+      const cancellation = await cancelOrder(
+        order,
+        { reason, comment: trimmedComment },
+        {
+          uid: currentUser.uid,
+          name: userProfile?.displayName || currentUser.email || '',
+          email: currentUser.email
+        },
+        trimmedComment
+          ? t('orderCancellation.feedMessageWithComment', { reason, comment: trimmedComment })
+          : t('orderCancellation.feedMessage', { reason })
+      );
+      showSuccess(t('orderCancellation.success', { orderNumber: getOrderNumber(order) }));
+      onCancelled(cancellation);
+      onClose();
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error cancelling order:', error);
+      }
+      showError(t('orderCancellation.errorFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function handleClose() {
+    if (!loading) {
+      onClose();
+    }
+  }
+
+  if (!order) {
+    return null;
+  }
+
+  const inputClassName = 'w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors';
+
+  return (
+    <Dialog open={isOpen} onClose={handleClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30 dark:bg-black/50" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <DialogPanel data-testid="cancel-order-modal" className="mx-auto max-w-lg w-full bg-white dark:bg-slate-800 rounded-xl shadow-xl">
+          <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700">
+            <DialogTitle className="text-xl font-semibold text-slate-900 dark:text-white">
+              {t('orderCancellation.title', { orderNumber: getOrderNumber(order) })}
+            </DialogTitle>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <p className="text-sm text-slate-600 dark:text-slate-400">{t('orderCancellation.description')}</p>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                {t('orderCancellation.reason')} <span className="text-red-500">*</span>
+              </label>
+              <select
+                data-testid="cancel-order-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className={inputClassName}
+                disabled={loading}
+                required
+              >
+                <option value="">{t('orderCancellation.chooseReason')}</option>
+                {reasons.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                {t('orderCancellation.comment')}
+              </label>
+              <textarea
+                data-testid="cancel-order-comment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                rows={3}
+                className={inputClassName}
+                disabled={loading}
+              />
+            </div>
+
+            <div className="flex justify-end gap-3 pt-4">
+              <button
+                type="button"
+                onClick={handleClose}
+                disabled={loading}
+                className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-50"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                data-testid="cancel-order-submit"
+                type="submit"
+                disabled={loading || !reason}
+                className="px-4 py-2 text-sm font-medium text-white bg-gradient-to-r from-red-600 to-rose-500 rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50"
+              >
+                {loading ? t('orderCancellation.cancelling') : t('orderCancellation.confirm')}
+              </button>
+            </div>
+          </form>
+        </DialogPanel>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { PlusIcon, TrashIcon } from '@heroicons/react/20/solid';
+import { getCancellationReasons, saveCancellationReasons } from '../services/cancellationService';
+import { showSuccess, showError } from '../services/notificationService';
+
+export default function CancellationReasonsSettings() {
+  const { t } = useTranslation();
+  const [reasons, setReasons] = useState<string[] | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getCancellationReasons().then(setReasons);
+  }, []);
+
+  function handleReasonChange(index: number, value: string) {
+    setReasons(prev => prev!.map((reason, i) => (i === index ? value : reason)));
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!reasons) return;
+
+    const cleaned = Array.from(new Set(reasons.map(reason => reason.trim()).filter(Boolean)));
+    if (cleaned.length === 0) {
+      showError(t('orderCancellation.settings.errorEmpty'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await saveCancellationReasons(cleaned);
+      setReasons(cleaned);
+      showSuccess(t('orderCancellation.settings.saveSuccess'));
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error saving cancellation reasons:', error);
+      }
+      showError(t('orderCancellation.settings.errorFailed'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!reasons) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 dark:border-blue-400"></div>
+      </div>
+    );
+  }
+
+  const inputClassName = 'w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors';
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-slate-200 dark:border-slate-700 transition-colors">
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-slate-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          {t('orderCancellation.settings.title')}
+        </h3>
+        <p className="text-sm text-gray-500 dark:text-slate-400">{t('orderCancellation.settings.subtitle')}</p>
+      </div>
+      <form onSubmit={handleSubmit} className="p-6 space-y-3 max-w-lg">
+        {reasons.map((reason, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              data-testid={`cancellation-reason-${index}`}
+              type="text"
+              value={reason}
+              onChange={(e) => handleReasonChange(index, e.target.value)}
+              className={inputClassName}
+              disabled={saving}
+            />
+            <button
+              type="button"
+              onClick={() => setReasons(prev => prev!.filter((_, i) => i !== index))}
+              disabled={saving}
+              className="text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300 p-1 rounded transition-colors disabled:opacity-50"
+              title={t('common.delete')}
+            >
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+
+        <button
+          type="button"
+          data-testid="cancellation-reason-add"
+          onClick={() => setReasons(prev => [...prev!, ''])}
+          disabled={saving}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors disabled:opacity-50"
+        >
+          <PlusIcon className="w-4 h-4" />
+          {t('orderCancellation.settings.addReason')}
+        </button>
+
+        <div className="flex justify-end pt-2">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-cyan-500 rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50"
+          >
+            {saving ? t('common.saving') : t('common.save')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
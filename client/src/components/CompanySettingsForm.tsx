@@ -0,0 +1,116 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { getCompanySettings, saveCompanySettings } from '../services/companyService';
+import { ROMANIAN_COUNTY_CODES } from '../services/eFacturaService';
+import { showSuccess, showError } from '../services/notificationService';
+import { CompanySettings } from '../types';
+
+type CompanyField = 'name' | 'taxId' | 'registrationNumber' | 'address' | 'city' | 'iban' | 'bankName' | 'email' | 'phone';
+
+const TEXT_FIELDS: CompanyField[] = ['name', 'taxId', 'registrationNumber', 'address', 'city', 'iban', 'bankName', 'email', 'phone'];
+
+export default function CompanySettingsForm() {
+  const { t } = useTranslation();
+  const [settings, setSettings] = useState<CompanySettings | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getCompanySettings().then(setSettings);
+  }, []);
+
+  function handleChange(field: keyof CompanySettings, value: string) {
+    setSettings(prev => (prev ? { ...prev, [field]: value } : prev));
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!settings) return;
+
+    if (!settings.name?.trim()) {
+      showError(t('invoice.company.errorName'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const normalized: CompanySettings = { ...settings, countryCode: settings.countryCode || 'RO' };
+      TEXT_FIELDS.forEach(field => {
+        normalized[field] = (settings[field] || '').trim();
+      });
+      normalized.taxId = (normalized.taxId || '').replace(/\s/g, '').toUpperCase();
+      normalized.iban = (normalized.iban || '').replace(/\s/g, '').toUpperCase();
+      normalized.county = settings.county || '';
+      await saveCompanySettings(normalized);
+      showSuccess(t('invoice.company.saveSuccess'));
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error saving company settings:', error);
+      }
+      showError(t('invoice.company.errorFailed'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!settings) {
+    return null;
+  }
+
+  const inputClassName = 'w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors';
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-slate-200 dark:border-slate-700 transition-colors">
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-slate-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          {t('invoice.company.title')}
+        </h3>
+        <p className="text-sm text-gray-500 dark:text-slate-400">{t('invoice.company.subtitle')}</p>
+      </div>
+      <form onSubmit={handleSubmit} className="p-6 space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {TEXT_FIELDS.map(field => (
+            <div key={field}>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                {t(`invoice.company.${field}`)}
+              </label>
+              <input
+                data-testid={`company-settings-${field}`}
+                type={field === 'email' ? 'email' : 'text'}
+                value={settings[field] || ''}
+                onChange={(e) => handleChange(field, e.target.value)}
+                className={inputClassName}
+                disabled={saving}
+              />
+            </div>
+          ))}
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+              {t('invoice.company.county')}
+            </label>
+            <select
+              value={settings.county || ''}
+              onChange={(e) => handleChange('county', e.target.value)}
+              className={inputClassName}
+              disabled={saving}
+            >
+              <option value="">{t('clients.editModal.selectCounty')}</option>
+              {ROMANIAN_COUNTY_CODES.map(code => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex justify-end pt-2">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-cyan-500 rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50"
+          >
+            {saving ? t('common.saving') : t('common.save')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
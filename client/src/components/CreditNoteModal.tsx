@@ -0,0 +1,195 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Dialog, DialogPanel, DialogTitle } from '@headlessui/react';
+import { useAuth } from '../contexts/AuthContext';
+import { issueCreditNote, getCreditableQuantities, createInvoiceLine, calculateInvoiceTotals } from '../services/invoiceService';
+import { showSuccess, showError } from '../services/notificationService';
+import { formatCurrency } from '../utils/helpers';
+import { Invoice } from '../types';
+
+interface CreditNoteModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onIssued: (creditNote: Invoice) => void;
+  invoice: Invoice | null;
+}
+
+export default function CreditNoteModal({ isOpen, onClose, onIssued, invoice }: CreditNoteModalProps) {
+  const { t } = useTranslation();
+  const { currentUser, userProfile } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const [fullReversal, setFullReversal] = useState(true);
+  const [quantities, setQuantities] = useState<string[]>([]);
+  const [reason, setReason] = useState('');
+
+  const creditable = invoice ? getCreditableQuantities(invoice) : [];
+
+  // Start from a full reversal of whatever is still creditable
+  useEffect(() => {
+    if (isOpen && invoice) {
+      setFullReversal(true);
+      setQuantities(getCreditableQuantities(invoice).map(String));
+      setReason('');
+    }
+  }, [isOpen, invoice]);
+
+  function getSelectedQuantities(): number[] {
+    if (fullReversal) {
+      return creditable;
+    }
+    return creditable.map((max, index) => Math.min(parseInt(quantities[index]) || 0, max));
+  }
+
+  function handleQuantityChange(index: number, value: string) {
+    setQuantities(prev => prev.map((quantity, i) => (i === index ? value : quantity)));
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!invoice?.id || !currentUser) return;
+
+    if (!reason.trim()) {
+      showError(t('invoice.creditNote.errorReason'));
+      return;
+    }
+
+    const selected = getSelectedQuantities();
+    if (!selected.some(quantity => quantity > 0)) {
+      showError(t('invoice.creditNote.errorQuantities'));
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const creditNote = await issueCreditNote(invoice.id, selected, reason, {
+        uid: currentUser.uid,
+        name: userProfile?.displayName || currentUser.email || ''
+      });
+      showSuccess(t('invoice.creditNote.issueSuccess', { invoiceNumber: creditNote.invoiceNumber }));
+      onIssued(creditNote);
+      onClose();
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error issuing credit note:', error);
+      }
+      showError(t('invoice.creditNote.errorFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function handleClose() {
+    if (!loading) {
+      onClose();
+    }
+  }
+
+  if (!invoice) {
+    return null;
+  }
+
+  const selected = getSelectedQuantities();
+  const previewTotals = calculateInvoiceTotals(
+    invoice.items
+      .map((item, index) => ({ item, quantity: selected[index] || 0 }))
+      .filter(({ quantity }) => quantity > 0)
+      .map(({ item, quantity }) => createInvoiceLine(item.description, -quantity, item.unitPrice, item.details, item.vatRate))
+  );
+  const inputClassName = 'w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors';
+
+  return (
+    <Dialog open={isOpen} onClose={handleClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30 dark:bg-black/50" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <DialogPanel className="mx-auto max-w-2xl w-full bg-white dark:bg-slate-800 rounded-xl shadow-xl">
+          <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700">
+            <DialogTitle className="text-xl font-semibold text-slate-900 dark:text-white">
+              {t('invoice.creditNote.title', { invoiceNumber: invoice.invoiceNumber })}
+            </DialogTitle>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+              <input
+                data-testid="credit-note-full-reversal"
+                type="checkbox"
+                checked={fullReversal}
+                onChange={(e) => setFullReversal(e.target.checked)}
+                className="rounded border-slate-300 dark:border-slate-600"
+                disabled={loading}
+              />
+              {t('invoice.creditNote.fullReversal')}
+            </label>
+
+            {/* Lines to credit */}
+            <div className="border border-slate-200 dark:border-slate-700 rounded-lg divide-y divide-slate-200 dark:divide-slate-700 max-h-64 overflow-y-auto">
+              {invoice.items.map((item, index) => (
+                <div key={index} className="flex items-center justify-between gap-4 px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-slate-900 dark:text-white truncate">{item.description}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      {t('invoice.creditNote.creditable', { quantity: creditable[index], total: item.quantity })}
+                    </p>
+                  </div>
+                  <input
+                    data-testid={`credit-note-quantity-${index}`}
+                    type="number"
+                    min="0"
+                    max={creditable[index]}
+                    step="1"
+                    value={fullReversal ? String(creditable[index]) : quantities[index] || ''}
+                    onChange={(e) => handleQuantityChange(index, e.target.value)}
+                    className={`${inputClassName} max-w-[6rem]`}
+                    disabled={loading || fullReversal || creditable[index] === 0}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                {t('invoice.creditNote.reason')} <span className="text-red-500">*</span>
+              </label>
+              <textarea
+                data-testid="credit-note-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={2}
+                className={inputClassName}
+                disabled={loading}
+                required
+              />
+            </div>
+
+            <div className="flex justify-between text-sm">
+              <span className="text-slate-600 dark:text-slate-400">{t('invoice.creditNote.totalCredited')}:</span>
+              <span data-testid="credit-note-total" className="font-semibold text-slate-900 dark:text-white">
+                {formatCurrency(previewTotals.totalAmount)}
+              </span>
+            </div>
+
+            <div className="flex justify-end gap-3 pt-4">
+              <button
+                type="button"
+                onClick={handleClose}
+                disabled={loading}
+                className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-50"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                data-testid="credit-note-submit"
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 text-sm font-medium text-white bg-gradient-to-r from-red-600 to-rose-500 rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50"
+              >
+                {loading ? t('common.saving') : t('invoice.creditNote.issue')}
+              </button>
+            </div>
+          </form>
+        </DialogPanel>
+      </div>
+    </Dialog>
+  );
+}
@@ -4,6 +4,7 @@ import { useAuth } from '../contexts/AuthContext';
 import { db } from '../firebase';
 import { doc, setDoc, updateDoc, Timestamp, collection, addDoc } from 'firebase/firestore';
 import { showSuccess, showError } from '../services/notificationService';
+import { ROMANIAN_COUNTY_CODES } from '../services/eFacturaService';
 
 export default function EditClientModal({ isOpen, onClose, onClientUpdated, client }) {
   const { t } = useTranslation();
@@ -15,6 +16,10 @@ export default function EditClientModal({ isOpen, onClose, onClientUpdated, clie
     phone: '',
     company: '',
     address: '',
+    city: '',
+    county: '',
+    taxId: '',
+    registrationNumber: '',
     notes: ''
   });
   const [loading, setLoading] = useState(false);
@@ -29,6 +34,10 @@ export default function EditClientModal({ isOpen, onClose, onClientUpdated, clie
         phone: client.phone || '',
         company: client.company || '',
         address: client.address || '',
+        city: client.city || '',
+        county: client.county || '',
+        taxId: client.taxId || '',
+        registrationNumber: client.registrationNumber || '',
         notes: client.notes || ''
       });
       setIsEditing(false);
@@ -89,6 +98,10 @@ export default function EditClientModal({ isOpen, onClose, onClientUpdated, clie
           phone: formData.phone.trim(),
           company: formData.company.trim(),
           address: formData.address.trim(),
+          city: formData.city.trim(),
+          county: formData.county,
+          taxId: formData.taxId.replace(/\s/g, '').toUpperCase(),
+          registrationNumber: formData.registrationNumber.trim(),
           notes: formData.notes.trim(),
           createdAt: Timestamp.now(),
           updatedAt: Timestamp.now()
@@ -103,6 +116,10 @@ export default function EditClientModal({ isOpen, onClose, onClientUpdated, clie
           phone: formData.phone.trim(),
           company: formData.company.trim(),
           address: formData.address.trim(),
+          city: formData.city.trim(),
+          county: formData.county,
+          taxId: formData.taxId.replace(/\s/g, '').toUpperCase(),
+          registrationNumber: formData.registrationNumber.trim(),
           notes: formData.notes.trim(),
           updatedAt: Timestamp.now()
         }, { merge: true });
@@ -142,6 +159,10 @@ export default function EditClientModal({ isOpen, onClose, onClientUpdated, clie
         phone: client.phone || '',
         company: client.company || '',
         address: client.address || '',
+        city: client.city || '',
+        county: client.county || '',
+        taxId: client.taxId || '',
+        registrationNumber: client.registrationNumber || '',
         notes: client.notes || ''
       });
     }
@@ -237,6 +258,36 @@ export default function EditClientModal({ isOpen, onClose, onClientUpdated, clie
                   </p>
                 </div>
 
+                {/* Invoicing Details */}
+                {(client.taxId || client.registrationNumber || client.city || client.county) && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-slate-500 dark:text-slate-400 mb-1">
+                        {t('clients.viewModal.taxId')}
+                      </label>
+                      <p className="text-base text-slate-900 dark:text-white">{client.taxId || '-'}</p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-500 dark:text-slate-400 mb-1">
+                        {t('clients.viewModal.registrationNumber')}
+                      </label>
+                      <p className="text-base text-slate-900 dark:text-white">{client.registrationNumber || '-'}</p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-500 dark:text-slate-400 mb-1">
+                        {t('clients.viewModal.city')}
+                      </label>
+                      <p className="text-base text-slate-900 dark:text-white">{client.city || '-'}</p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-500 dark:text-slate-400 mb-1">
+                        {t('clients.viewModal.county')}
+                      </label>
+                      <p className="text-base text-slate-900 dark:text-white">{client.county || '-'}</p>
+                    </div>
+                  </div>
+                )}
+
                 {/* Notes */}
                 {client.notes && (
                   <div>
@@ -351,6 +402,74 @@ export default function EditClientModal({ isOpen, onClose, onClientUpdated, clie
                   />
                 </div>
 
+                {/* Invoicing Details */}
+                <div>
+                  <h4 className="text-sm font-semibold text-slate-900 dark:text-white mb-2">
+                    {t('clients.editModal.fiscalData')}
+                  </h4>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="taxId" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                        {t('clients.editModal.taxId')}
+                      </label>
+                      <input
+                        type="text"
+                        id="taxId"
+                        name="taxId"
+                        value={formData.taxId}
+                        onChange={handleChange}
+                        placeholder={t('clients.editModal.taxIdPlaceholder')}
+                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white placeholder-slate-400 dark:placeholder-slate-500 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="registrationNumber" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                        {t('clients.editModal.registrationNumber')}
+                      </label>
+                      <input
+                        type="text"
+                        id="registrationNumber"
+                        name="registrationNumber"
+                        value={formData.registrationNumber}
+                        onChange={handleChange}
+                        placeholder={t('clients.editModal.registrationNumberPlaceholder')}
+                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white placeholder-slate-400 dark:placeholder-slate-500 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="city" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                        {t('clients.editModal.city')}
+                      </label>
+                      <input
+                        type="text"
+                        id="city"
+                        name="city"
+                        value={formData.city}
+                        onChange={handleChange}
+                        placeholder={t('clients.editModal.cityPlaceholder')}
+                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white placeholder-slate-400 dark:placeholder-slate-500 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="county" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                        {t('clients.editModal.county')}
+                      </label>
+                      <select
+                        id="county"
+                        name="county"
+                        value={formData.county}
+                        onChange={handleChange}
+                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white placeholder-slate-400 dark:placeholder-slate-500 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                      >
+                        <option value="">{t('clients.editModal.selectCounty')}</option>
+                        {ROMANIAN_COUNTY_CODES.map(code => (
+                          <option key={code} value={code}>{code}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                </div>
+
                 {/* Notes */}
                 <div>
                   <label htmlFor="notes" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
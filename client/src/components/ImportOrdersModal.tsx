@@ -0,0 +1,426 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Dialog, DialogPanel, DialogTitle } from '@headlessui/react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { ArrowUpTrayIcon } from '@heroicons/react/20/solid';
+import { db } from '../firebase';
+import { collection, query, where, getDocs } from 'firebase/firestore';
+import { useAuth } from '../contexts/AuthContext';
+import { ProductType, PriceTable } from '../types';
+import { MAX_IMPORT_ROWS } from '../constants';
+import { fetchPriceTables } from '../services/pricingService';
+import {
+  IMPORT_FIELDS,
+  ImportField,
+  ColumnMapping,
+  ImportProductType,
+  ImportDepartment,
+  ImportClient,
+  parseSpreadsheetFile,
+  guessColumnMapping,
+  validateImportRows,
+  groupImportRows,
+  createImportedOrders
+} from '../services/importService';
+import { showSuccess } from '../services/notificationService';
+import ClientAutocomplete from './ClientAutocomplete';
+
+interface ImportOrdersModalProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: (orderIds: string[]) => void;
+}
+
+// Export column holding the same data as each import field, so exported files import back
+const EXPORT_COLUMN_BY_FIELD: Partial<Record<ImportField, string>> = {
+  productType: 'product',
+  quantity: 'quantity',
+  length: 'length',
+  width: 'width',
+  cmp: 'cmp',
+  deliveryTime: 'deliveryTime',
+  department: 'department',
+  orderGroup: 'orderNumber'
+};
+
+const PREVIEW_ROWS = 50;
+
+export default function ImportOrdersModal({ open, onClose, onSuccess }: ImportOrdersModalProps) {
+  const { t, i18n } = useTranslation();
+  const { currentUser, userProfile } = useAuth();
+  const [selectedClient, setSelectedClient] = useState<ImportClient | null>(null);
+  const [orderName, setOrderName] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [fileRows, setFileRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [splitByGroup, setSplitByGroup] = useState(false);
+  const [productTypes, setProductTypes] = useState<ImportProductType[]>([]);
+  const [departments, setDepartments] = useState<ImportDepartment[]>([]);
+  const [priceTables, setPriceTables] = useState<Record<string, PriceTable> | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open || !currentUser) return;
+
+    setError('');
+    fetchPriceTables().then(setPriceTables);
+    fetchProductTypes();
+    fetchDepartments();
+  }, [open, currentUser]);
+
+  async function fetchProductTypes() {
+    const defaultProductTypes: ImportProductType[] = [
+      { id: ProductType.MUGS, name: t('productType.mugs'), isCustom: false },
+      { id: ProductType.T_SHIRTS, name: t('productType.tshirts'), isCustom: false },
+      { id: ProductType.HOODIES, name: t('productType.hoodies'), isCustom: false },
+      { id: ProductType.BAGS, name: t('productType.bags'), isCustom: false },
+      { id: ProductType.CAPS, name: t('productType.caps'), isCustom: false },
+      { id: ProductType.OTHER, name: t('productType.other'), isCustom: false }
+    ];
+
+    try {
+      const snapshot = await getDocs(collection(db, 'productTypes'));
+      setProductTypes([
+        ...defaultProductTypes,
+        ...snapshot.docs.map(doc => ({ id: doc.id, name: doc.data().name || '', isCustom: true }))
+      ]);
+    } catch (error) {
+      console.error('Error fetching product types:', error);
+      setProductTypes(defaultProductTypes);
+    }
+  }
+
+  async function fetchDepartments() {
+    if (!currentUser) return;
+
+    try {
+      const ownerId = userProfile?.teamOwnerId || currentUser.uid;
+      const snapshot = await getDocs(query(collection(db, 'departments'), where('createdBy', '==', ownerId)));
+      setDepartments(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ImportDepartment)));
+    } catch (error) {
+      console.error('Error fetching departments:', error);
+      // Departments are optional; rows naming one are reported as unknown
+    }
+  }
+
+  // Headers are recognized in every app language
+  const fieldLabels = useMemo(() => {
+    const languages = Object.keys(i18n.options.resources || {});
+    return Object.fromEntries(IMPORT_FIELDS.map(field => {
+      const exportColumn = EXPORT_COLUMN_BY_FIELD[field];
+      const labels = languages.flatMap(language => {
+        const fixedT = i18n.getFixedT(language);
+        return [
+          fixedT(`orderImport.fields.${field}`),
+          ...(exportColumn ? [fixedT(`dashboard.export.columns.${exportColumn}`)] : [])
+        ];
+      });
+      return [field, labels];
+    })) as Record<ImportField, string[]>;
+  }, [i18n]);
+
+  const headerRow = hasHeader ? fileRows[0] || [] : [];
+  const dataRows = useMemo(() => (hasHeader ? fileRows.slice(1) : fileRows), [fileRows, hasHeader]);
+  const columnCount = fileRows.reduce((max, row) => Math.max(max, row.length), 0);
+
+  const importRows = useMemo(
+    () => (mapping ? validateImportRows(dataRows, mapping, productTypes, departments, hasHeader ? 2 : 1) : []),
+    [dataRows, mapping, productTypes, departments, hasHeader]
+  );
+  const validRows = importRows.filter(row => row.subOrder);
+  const invalidRows = importRows.filter(row => !row.subOrder);
+
+  function resetForm() {
+    setSelectedClient(null);
+    setOrderName('');
+    setFileName('');
+    setFileRows([]);
+    setHasHeader(true);
+    setMapping(null);
+    setSplitByGroup(false);
+    setError('');
+  }
+
+  function handleClose() {
+    resetForm();
+    onClose();
+  }
+
+  async function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setError('');
+      const rows = await parseSpreadsheetFile(file);
+      setFileName(file.name);
+      setFileRows(rows);
+      setHasHeader(true);
+      setMapping(guessColumnMapping(rows[0] || [], fieldLabels));
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setFileName('');
+      setFileRows([]);
+      setMapping(null);
+      setError(t('orderImport.errorParse'));
+    }
+  }
+
+  function handleMappingChange(field: ImportField, value: string) {
+    setMapping(prev => prev && { ...prev, [field]: value === '' ? null : parseInt(value) });
+    if (field === 'orderGroup' && value === '') {
+      setSplitByGroup(false);
+    }
+  }
+
+  function getColumnLabel(index: number) {
+    const header = headerRow[index];
+    return header ? header : t('orderImport.column', { index: index + 1 });
+  }
+
+  async function handleImport() {
+    if (!currentUser || !mapping) return;
+
+    if (!orderName.trim()) {
+      setError(t('order.errorOrderNameRequired'));
+      return;
+    }
+    if (!selectedClient) {
+      setError(t('order.errorClientRequired'));
+      return;
+    }
+    if (validRows.length === 0) {
+      setError(t('orderImport.errorNoValidRows'));
+      return;
+    }
+    if (validRows.length > MAX_IMPORT_ROWS) {
+      setError(t('orderImport.errorTooManyRows', { max: MAX_IMPORT_ROWS }));
+      return;
+    }
+
+    try {
+      setImporting(true);
+      setError('');
+
+      const baseName = orderName.trim();
+      const orders = groupImportRows(importRows, splitByGroup).map(({ group, subOrders }) => ({
+        name: group ? `${baseName} - ${group}` : baseName,
+        subOrders
+      }));
+
+      const orderIds = await createImportedOrders({
+        orders,
+        client: selectedClient,
+        priceTables: priceTables || await fetchPriceTables(),
+        user: {
+          uid: currentUser.uid,
+          name: userProfile?.displayName || currentUser.displayName || currentUser.email || currentUser.phoneNumber || '',
+          email: currentUser.email
+        },
+        feedText: t('orderImport.feedText', { fileName })
+      });
+
+      showSuccess(t('orderImport.success', { count: orderIds.length }));
+      resetForm();
+      onSuccess(orderIds);
+      onClose();
+    } catch (err: any) {
+      console.error('Error importing orders:', err);
+      setError(err?.code === 'permission-denied'
+        ? t('placeOrder.errorPermissionDenied')
+        : t('orderImport.errorFailed'));
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  const inputClassName = 'block w-full rounded-md bg-white dark:bg-slate-700 px-3 py-2 text-sm text-gray-900 dark:text-white outline-1 -outline-offset-1 outline-gray-300 dark:outline-slate-600 placeholder:text-gray-400 dark:placeholder:text-slate-400 focus:outline-2 focus:-outline-offset-2 focus:outline-blue-500 transition-colors';
+
+  return (
+    <Dialog open={open} onClose={handleClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30 dark:bg-black/50" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex w-screen items-center justify-center p-4">
+        <DialogPanel className="w-full max-w-5xl max-h-[90vh] overflow-y-auto rounded-xl bg-white dark:bg-slate-800 shadow-2xl">
+          {/* Header */}
+          <div className="sticky top-0 z-10 flex items-center justify-between border-b border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 px-6 py-4">
+            <DialogTitle className="text-lg font-semibold text-gray-900 dark:text-white">
+              {t('orderImport.title')}
+            </DialogTitle>
+            <div className="flex items-center gap-3">
+              <button
+                data-testid="import-orders-submit-button"
+                type="button"
+                onClick={handleImport}
+                disabled={importing || validRows.length === 0}
+                className="px-4 py-2 text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-cyan-500 rounded-md hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-opacity"
+              >
+                {importing ? t('orderImport.importing') : t('orderImport.import', { count: validRows.length })}
+              </button>
+              <button
+                type="button"
+                onClick={handleClose}
+                className="rounded-md p-1 text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+              >
+                <XMarkIcon className="h-6 w-6" />
+              </button>
+            </div>
+          </div>
+
+          <div className="px-6 py-6 space-y-6">
+            {error && (
+              <div className="p-3 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-md">
+                <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-900 dark:text-white mb-2">
+                  {t('order.orderName')} *
+                </label>
+                <input
+                  data-testid="import-orders-name-input"
+                  type="text"
+                  value={orderName}
+                  onChange={(e) => setOrderName(e.target.value)}
+                  placeholder={t('order.orderNamePlaceholder')}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 dark:text-white mb-2">
+                  {t('order.client')} *
+                </label>
+                <ClientAutocomplete selectedClient={selectedClient} onSelectClient={setSelectedClient} />
+              </div>
+            </div>
+
+            {/* File */}
+            <div>
+              <label className="inline-flex items-center gap-2 px-4 py-2 rounded-md border border-dashed border-gray-300 dark:border-slate-600 text-sm font-medium text-gray-700 dark:text-slate-300 hover:bg-gray-50 dark:hover:bg-slate-700 cursor-pointer transition-colors">
+                <ArrowUpTrayIcon className="w-5 h-5" />
+                {fileName || t('orderImport.chooseFile')}
+                <input
+                  data-testid="import-orders-file-input"
+                  type="file"
+                  accept=".csv,.xlsx"
+                  className="hidden"
+                  onChange={handleFileChange}
+                />
+              </label>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {t('orderImport.fileHelp', { max: MAX_IMPORT_ROWS })}
+              </p>
+            </div>
+
+            {mapping && (
+              <>
+                {/* Column mapping */}
+                <div>
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-base font-semibold text-gray-900 dark:text-white">{t('orderImport.mapping')}</h3>
+                    <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-slate-300">
+                      <input
+                        type="checkbox"
+                        checked={hasHeader}
+                        onChange={(e) => setHasHeader(e.target.checked)}
+                        className="rounded border-gray-300 dark:border-slate-600"
+                      />
+                      {t('orderImport.hasHeader')}
+                    </label>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-5 gap-3">
+                    {IMPORT_FIELDS.map(field => (
+                      <div key={field}>
+                        <label className="block text-xs font-medium text-gray-600 dark:text-slate-400 mb-1">
+                          {t(`orderImport.fields.${field}`)}
+                        </label>
+                        <select
+                          data-testid={`import-mapping-${field}`}
+                          value={mapping[field] ?? ''}
+                          onChange={(e) => handleMappingChange(field, e.target.value)}
+                          className={inputClassName}
+                        >
+                          <option value="">{t('orderImport.notMapped')}</option>
+                          {Array.from({ length: columnCount }, (_, index) => (
+                            <option key={index} value={index}>{getColumnLabel(index)}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                  <label className="mt-3 flex items-center gap-2 text-sm text-gray-700 dark:text-slate-300">
+                    <input
+                      data-testid="import-split-by-group"
+                      type="checkbox"
+                      checked={splitByGroup}
+                      disabled={mapping.orderGroup === null}
+                      onChange={(e) => setSplitByGroup(e.target.checked)}
+                      className="rounded border-gray-300 dark:border-slate-600"
+                    />
+                    {t('orderImport.splitByGroup')}
+                  </label>
+                </div>
+
+                {/* Validation summary */}
+                <div data-testid="import-summary" className="p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-md text-sm text-gray-900 dark:text-white">
+                  {t('orderImport.summary', { valid: validRows.length, total: importRows.length })}
+                  {invalidRows.length > 0 && (
+                    <span className="text-red-600 dark:text-red-400"> {t('orderImport.skipped', { count: invalidRows.length })}</span>
+                  )}
+                </div>
+
+                {/* Preview */}
+                <div className="overflow-x-auto border border-gray-200 dark:border-slate-700 rounded-md">
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-slate-700 text-sm">
+                    <thead className="bg-gray-50 dark:bg-slate-800/50">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-slate-400">#</th>
+                        {IMPORT_FIELDS.filter(field => mapping[field] !== null).map(field => (
+                          <th key={field} className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-slate-400">
+                            {t(`orderImport.fields.${field}`)}
+                          </th>
+                        ))}
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-slate-400">{t('orderImport.issues')}</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+                      {importRows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                        <tr
+                          key={row.rowNumber}
+                          data-testid={`import-row-${row.rowNumber}`}
+                          className={row.subOrder ? '' : 'bg-red-50 dark:bg-red-900/20'}
+                        >
+                          <td className="px-3 py-2 text-gray-500 dark:text-slate-400">{row.rowNumber}</td>
+                          {IMPORT_FIELDS.filter(field => mapping[field] !== null).map(field => (
+                            <td key={field} className="px-3 py-2 text-gray-900 dark:text-white whitespace-nowrap">
+                              {dataRows[index][mapping[field]!] || ''}
+                            </td>
+                          ))}
+                          <td className="px-3 py-2 text-red-600 dark:text-red-400">
+                            {row.issues.map(issue =>
+                              `${t(`orderImport.fields.${issue.field}`)}: ${t(`orderImport.rules.${issue.rule}`)}`
+                            ).join('; ')}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {importRows.length > PREVIEW_ROWS && (
+                    <p className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400">
+                      {t('orderImport.moreRows', { count: importRows.length - PREVIEW_ROWS })}
+                    </p>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </DialogPanel>
+      </div>
+    </Dialog>
+  );
+}
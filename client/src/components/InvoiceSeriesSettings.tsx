@@ -0,0 +1,162 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { getInvoiceSeries, saveInvoiceSeriesSettings, formatInvoiceNumber, getSeriesYear } from '../services/invoiceService';
+import { showSuccess, showError } from '../services/notificationService';
+import { InvoiceSeries } from '../types';
+import { DEFAULT_INVOICE_SERIES } from '../constants';
+
+const PREFIX_REGEX = /^[A-Z0-9]{1,10}$/;
+
+interface InvoiceSeriesSettingsProps {
+  seriesId?: string;
+  titleKey?: string;
+  subtitleKey?: string;
+}
+
+export default function InvoiceSeriesSettings({
+  seriesId = DEFAULT_INVOICE_SERIES,
+  titleKey = 'invoice.series.title',
+  subtitleKey = 'invoice.series.subtitle'
+}: InvoiceSeriesSettingsProps) {
+  const { t } = useTranslation();
+  const [series, setSeries] = useState<InvoiceSeries | null>(null);
+  const [prefix, setPrefix] = useState('');
+  const [yearlyReset, setYearlyReset] = useState(true);
+  const [padding, setPadding] = useState(6);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSeries();
+  }, [seriesId]);
+
+  async function fetchSeries() {
+    try {
+      const current = await getInvoiceSeries(seriesId);
+      setSeries(current);
+      setPrefix(current.prefix);
+      setYearlyReset(current.yearlyReset);
+      setPadding(current.padding);
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error fetching invoice series:', error);
+      }
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    if (!PREFIX_REGEX.test(prefix)) {
+      showError(t('invoice.series.errorPrefix'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await saveInvoiceSeriesSettings(seriesId, { prefix, yearlyReset, padding });
+      await fetchSeries();
+      showSuccess(t('invoice.series.saveSuccess'));
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error saving invoice series:', error);
+      }
+      showError(t('invoice.series.errorFailed'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!series) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 dark:border-blue-400"></div>
+      </div>
+    );
+  }
+
+  const currentYear = getSeriesYear(new Date());
+  const nextNumber = yearlyReset && series.year !== currentYear ? 1 : series.lastNumber + 1;
+  const inputClassName = 'w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors';
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-slate-200 dark:border-slate-700 transition-colors">
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-slate-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          {t(titleKey)}
+        </h3>
+        <p className="text-sm text-gray-500 dark:text-slate-400">{t(subtitleKey)}</p>
+      </div>
+      <form onSubmit={handleSubmit} className="p-6 space-y-4 max-w-lg">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+              {t('invoice.series.prefix')}
+            </label>
+            <input
+              data-testid={`invoice-series-prefix-${seriesId}`}
+              type="text"
+              value={prefix}
+              onChange={(e) => setPrefix(e.target.value.toUpperCase())}
+              className={inputClassName}
+              disabled={saving}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+              {t('invoice.series.padding')}
+            </label>
+            <select
+              value={padding}
+              onChange={(e) => setPadding(parseInt(e.target.value))}
+              className={inputClassName}
+              disabled={saving}
+            >
+              {[4, 5, 6, 7, 8].map(digits => (
+                <option key={digits} value={digits}>{digits}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+          <input
+            type="checkbox"
+            checked={yearlyReset}
+            onChange={(e) => setYearlyReset(e.target.checked)}
+            className="rounded border-slate-300 dark:border-slate-600"
+            disabled={saving}
+          />
+          {t('invoice.series.yearlyReset')}
+        </label>
+
+        <div className="text-sm space-y-1">
+          <div className="flex justify-between">
+            <span className="text-gray-600 dark:text-slate-400">{t('invoice.series.lastIssued')}:</span>
+            <span className="text-gray-900 dark:text-white font-medium">
+              {series.lastNumber > 0
+                ? formatInvoiceNumber(series, series.lastNumber, series.year ?? currentYear)
+                : t('invoice.series.noneIssued')}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600 dark:text-slate-400">{t('invoice.series.nextNumber')}:</span>
+            <span data-testid={`invoice-series-next-number-${seriesId}`} className="text-gray-900 dark:text-white font-medium">
+              {formatInvoiceNumber({ prefix, yearlyReset, padding }, nextNumber, currentYear)}
+            </span>
+          </div>
+        </div>
+
+        <div className="flex justify-end pt-2">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-cyan-500 rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50"
+          >
+            {saving ? t('common.saving') : t('common.save')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import { useState, useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Dialog, DialogPanel, DialogTitle } from '@headlessui/react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import {
+  MOCKUP_SIZE,
+  DEFAULT_PLACEMENT,
+  DesignPlacement,
+  MockupTemplate,
+  resolveMockupTemplate,
+  loadImage,
+  getDesignRect,
+  drawMockup,
+  exportMockup
+} from '../services/mockupService';
+import { showError } from '../services/notificationService';
+
+interface MockupEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onExport: (file: File) => Promise<void>;
+  designURL: string;
+  productTypeId?: string;
+  productName?: string;
+  submitLabel: string;
+}
+
+interface LoadedMockup {
+  template: MockupTemplate;
+  templateImage: HTMLImageElement;
+  design: HTMLImageElement;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+export default function MockupEditorModal({
+  isOpen,
+  onClose,
+  onExport,
+  designURL,
+  productTypeId,
+  productName,
+  submitLabel
+}: MockupEditorModalProps) {
+  const { t } = useTranslation();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragOffsetRef = useRef<{ x: number; y: number } | null>(null);
+  const [mockup, setMockup] = useState<LoadedMockup | null>(null);
+  const [placement, setPlacement] = useState<DesignPlacement>(DEFAULT_PLACEMENT);
+  const [loadError, setLoadError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setMockup(null);
+    setLoadError('');
+    setPlacement(DEFAULT_PLACEMENT);
+
+    async function load() {
+      try {
+        const template = await resolveMockupTemplate(productTypeId);
+        const [templateImage, design] = await Promise.all([loadImage(template.imageURL), loadImage(designURL)]);
+        if (!cancelled) {
+          setMockup({ template, templateImage, design });
+        }
+      } catch (error) {
+        if (import.meta.env.DEV) {
+          console.error('Error loading mockup images:', error);
+        }
+        if (!cancelled) {
+          setLoadError(t('mockup.errorDesign'));
+        }
+      }
+    }
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, designURL, productTypeId]);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (mockup && context) {
+      drawMockup(context, mockup.template, mockup.templateImage, mockup.design, placement, true);
+    }
+  }, [mockup, placement]);
+
+  // Pointer position in canvas pixels, whatever size the canvas is displayed at
+  function getCanvasPoint(e: React.PointerEvent<HTMLCanvasElement>) {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - bounds.left) / bounds.width) * MOCKUP_SIZE,
+      y: ((e.clientY - bounds.top) / bounds.height) * MOCKUP_SIZE
+    };
+  }
+
+  function handlePointerDown(e: React.PointerEvent<HTMLCanvasElement>) {
+    if (!mockup) return;
+
+    const point = getCanvasPoint(e);
+    const rect = getDesignRect(mockup.template, mockup.design, placement);
+    if (point.x < rect.x || point.x > rect.x + rect.width || point.y < rect.y || point.y > rect.y + rect.height) {
+      return;
+    }
+
+    dragOffsetRef.current = { x: point.x - (rect.x + rect.width / 2), y: point.y - (rect.y + rect.height / 2) };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  }
+
+  function handlePointerMove(e: React.PointerEvent<HTMLCanvasElement>) {
+    const offset = dragOffsetRef.current;
+    if (!mockup || !offset) return;
+
+    const point = getCanvasPoint(e);
+    const { printArea } = mockup.template;
+    setPlacement(prev => ({
+      ...prev,
+      x: clamp((point.x - offset.x - printArea.x) / printArea.width, 0, 1),
+      y: clamp((point.y - offset.y - printArea.y) / printArea.height, 0, 1)
+    }));
+  }
+
+  function handlePointerUp(e: React.PointerEvent<HTMLCanvasElement>) {
+    if (dragOffsetRef.current) {
+      dragOffsetRef.current = null;
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+  }
+
+  async function handleExport() {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!mockup || !canvas || !context) return;
+
+    try {
+      setSaving(true);
+      // Redraw without the print area outline for the exported image
+      drawMockup(context, mockup.template, mockup.templateImage, mockup.design, placement, false);
+      const file = await exportMockup(canvas, `mockup_${mockup.template.id}_${Date.now()}.png`);
+      drawMockup(context, mockup.template, mockup.templateImage, mockup.design, placement, true);
+
+      await onExport(file);
+      onClose();
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error exporting mockup:', error);
+      }
+      showError(t('mockup.errorExport'));
+      drawMockup(context, mockup.template, mockup.templateImage, mockup.design, placement, true);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function handleClose() {
+    if (!saving) {
+      onClose();
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onClose={handleClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30 dark:bg-black/50" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <DialogPanel data-testid="mockup-editor-modal" className="mx-auto max-w-xl w-full bg-white dark:bg-slate-800 rounded-xl shadow-xl max-h-[95vh] overflow-y-auto">
+          <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between">
+            <DialogTitle className="text-xl font-semibold text-slate-900 dark:text-white">
+              {productName ? t('mockup.titleFor', { product: productName }) : t('mockup.title')}
+            </DialogTitle>
+            <button
+              type="button"
+              onClick={handleClose}
+              className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 transition-colors"
+            >
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-4">
+            <p className="text-sm text-slate-600 dark:text-slate-400">{t('mockup.description')}</p>
+
+            <div className="relative aspect-square w-full rounded-lg overflow-hidden border border-slate-200 dark:border-slate-700 bg-slate-100 dark:bg-slate-900">
+              <canvas
+                ref={canvasRef}
+                data-testid="mockup-canvas"
+                width={MOCKUP_SIZE}
+                height={MOCKUP_SIZE}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                className="w-full h-full touch-none cursor-move"
+              />
+              {!mockup && (
+                <div className="absolute inset-0 flex items-center justify-center p-6 text-center">
+                  {loadError ? (
+                    <p className="text-sm text-red-600 dark:text-red-400">{loadError}</p>
+                  ) : (
+                    <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600 dark:border-blue-400"></div>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center gap-3">
+              <label htmlFor="mockup-scale" className="text-sm font-medium text-slate-700 dark:text-slate-300 whitespace-nowrap">
+                {t('mockup.scale')}
+              </label>
+              <input
+                id="mockup-scale"
+                data-testid="mockup-scale"
+                type="range"
+                min={0.2}
+                max={2}
+                step={0.05}
+                value={placement.scale}
+                onChange={(e) => setPlacement(prev => ({ ...prev, scale: Number(e.target.value) }))}
+                disabled={!mockup || saving}
+                className="flex-1"
+              />
+              <span className="text-sm text-slate-500 dark:text-slate-400 w-12 text-right">
+                {Math.round(placement.scale * 100)}%
+              </span>
+            </div>
+
+            <div className="flex justify-between gap-3 pt-2">
+              <button
+                type="button"
+                onClick={() => setPlacement(DEFAULT_PLACEMENT)}
+                disabled={!mockup || saving}
+                className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-50"
+              >
+                {t('mockup.reset')}
+              </button>
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={handleClose}
+                  disabled={saving}
+                  className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {t('common.cancel')}
+                </button>
+                <button
+                  type="button"
+                  data-testid="mockup-export"
+                  onClick={handleExport}
+                  disabled={!mockup || saving}
+                  className="px-4 py-2 text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-cyan-500 rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50"
+                >
+                  {saving ? t('mockup.saving') : submitLabel}
+                </button>
+              </div>
+            </div>
+          </div>
+        </DialogPanel>
+      </div>
+    </Dialog>
+  );
+}
@@ -2,13 +2,27 @@ import { useState, useEffect, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useAuth, hasTeamAccess, hasAdminAccess } from '../contexts/AuthContext';
 import { db } from '../firebase';
-import { collection, query, where, getDocs, doc, updateDoc, addDoc, deleteDoc, Timestamp } from 'firebase/firestore';
-import { OrderStatus } from '../types';
-import { downloadInvoice, sendInvoiceToClient } from '../services/invoiceService';
-import { uploadFile } from '../services/storageService';
+import { collection, query, where, getDocs, doc, updateDoc, addDoc, deleteDoc, Timestamp, onSnapshot } from 'firebase/firestore';
+import { OrderStatus, Invoice, InvoiceDeliveryStatus, InvoiceReversalStatus, OrderCancellation, TrashItemType } from '../types';
+import { downloadInvoice, sendInvoiceToClient, getInvoice, issueInvoice, issueProforma, invoiceToPdfData } from '../services/invoiceService';
+import { downloadEFacturaXml, EFacturaIssue } from '../services/eFacturaService';
+import { startUpload, validateUpload, UploadTask, UploadError, UploadErrorReason } from '../services/storageService';
 import { showSuccess, showError } from '../services/notificationService';
+import { getOrderNumber } from '../services/orderService';
+import { moveToTrash } from '../services/trashService';
+import { saveOrderTemplate } from '../services/templateService';
+import { isProofBlockingProduction } from '../services/proofService';
 import ConfirmDialog from './ConfirmDialog';
+import CreditNoteModal from './CreditNoteModal';
+import CancelOrderModal from './CancelOrderModal';
+import OrderPayments from './OrderPayments';
+import SubOrderProofs from './SubOrderProofs';
+import PreflightReportView from './PreflightReportView';
+import UploadProgressBar from './UploadProgressBar';
+import { ALLOWED_UPLOAD_ACCEPT } from '../constants';
 import { formatDate } from '../utils/dateUtils';
+import { formatCurrency, roundCurrency } from '../utils/helpers';
+import { canChangeOrderStatus, canChangeSubOrderStatus } from '../utils/orderStatus';
 
 interface OrderDetailsModalProps {
   isOpen: boolean;
@@ -26,12 +40,25 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [attachmentFile, setAttachmentFile] = useState<any>(null);
   const [uploadingAttachment, setUploadingAttachment] = useState(false);
+  const [attachmentProgress, setAttachmentProgress] = useState(0);
+  const [attachmentRetry, setAttachmentRetry] = useState<{ attempt: number; maxRetries: number } | null>(null);
+  const attachmentUploadRef = useRef<UploadTask | null>(null);
   const attachmentInputRef = useRef<any>(null);
   const updatesEndRef = useRef<any>(null);
   const [sendingInvoice, setSendingInvoice] = useState(false);
+  const [issuedInvoice, setIssuedInvoice] = useState<Invoice | null>(null);
+  const [showCreditNoteModal, setShowCreditNoteModal] = useState(false);
+  const [showCancelModal, setShowCancelModal] = useState(false);
+  const [proforma, setProforma] = useState<Invoice | null>(null);
+  const [generatingProforma, setGeneratingProforma] = useState(false);
+  const [exportingEFactura, setExportingEFactura] = useState(false);
+  const [eFacturaIssues, setEFacturaIssues] = useState<EFacturaIssue[]>([]);
   const [showDeleteUpdateDialog, setShowDeleteUpdateDialog] = useState(false);
   const [selectedUpdateId, setSelectedUpdateId] = useState<any>(null);
   const [selectedOrder, setSelectedOrder] = useState<any>(order);
+  const [remoteStatus, setRemoteStatus] = useState<string | null>(null);
+  const [templateName, setTemplateName] = useState('');
+  const [savingTemplate, setSavingTemplate] = useState(false);
 
   useEffect(() => {
     setSelectedOrder(order);
@@ -43,6 +70,46 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
     }
   }, [isOpen, order]);
 
+  // The parent status is rolled up from the sub-orders server-side, so keep listening for it
+  useEffect(() => {
+    if (!isOpen || !order?.id) return;
+
+    const unsubscribe = onSnapshot(doc(db, 'orders', order.id), (snapshot) => {
+      if (snapshot.exists()) {
+        setRemoteStatus(snapshot.data().status);
+      }
+    }, (error) => {
+      if (import.meta.env.DEV) {
+        console.error('Error listening to order:', error);
+      }
+    });
+
+    return unsubscribe;
+  }, [isOpen, order?.id]);
+
+  useEffect(() => {
+    if (remoteStatus && selectedOrder && remoteStatus !== selectedOrder.status) {
+      setSelectedOrder({ ...selectedOrder, status: remoteStatus });
+      fetchOrderUpdates(selectedOrder.id);
+    }
+  }, [remoteStatus]);
+
+  useEffect(() => {
+    if (isOpen && selectedOrder?.invoiceId) {
+      fetchIssuedInvoice(selectedOrder.invoiceId);
+    } else {
+      setIssuedInvoice(null);
+    }
+  }, [isOpen, selectedOrder?.invoiceId]);
+
+  useEffect(() => {
+    if (isOpen && selectedOrder?.proformaId) {
+      fetchProforma(selectedOrder.proformaId);
+    } else {
+      setProforma(null);
+    }
+  }, [isOpen, selectedOrder?.proformaId, selectedOrder?.invoiceId]);
+
   // Auto-scroll to bottom when updates change
   useEffect(() => {
     if (updatesEndRef.current) {
@@ -50,6 +117,28 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
     }
   }, [orderUpdates]);
 
+  async function fetchIssuedInvoice(invoiceId: string) {
+    try {
+      setIssuedInvoice(await getInvoice(invoiceId));
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error fetching invoice:', error);
+      }
+      setIssuedInvoice(null);
+    }
+  }
+
+  async function fetchProforma(proformaId: string) {
+    try {
+      setProforma(await getInvoice(proformaId));
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error fetching proforma:', error);
+      }
+      setProforma(null);
+    }
+  }
+
   async function fetchOrderUpdates(orderId: string) {
     try {
       const updatesRef = collection(db, 'orderUpdates');
@@ -98,20 +187,35 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
       let attachmentURL = null;
       let attachmentName = null;
       let attachmentType = null;
+      let attachmentPath = null;
 
       if (attachmentFile) {
         try {
           setUploadingAttachment(true);
-          const result = await uploadFile(attachmentFile, 'updates', currentUser!.uid);
+          setAttachmentProgress(0);
+          setAttachmentRetry(null);
+          const upload = startUpload(attachmentFile, 'updates', currentUser!.uid, {
+            onProgress: (progress) => {
+              setAttachmentProgress(progress.percent);
+              setAttachmentRetry(null);
+            },
+            onRetry: (attempt, maxRetries) => setAttachmentRetry({ attempt, maxRetries })
+          });
+          attachmentUploadRef.current = upload;
+          const result = await upload.promise;
           attachmentURL = result.url;
           attachmentName = result.name;
           attachmentType = result.type;
+          attachmentPath = result.path;
         } catch (uploadError) {
-          if (import.meta.env.DEV) {
-            console.error('Error uploading attachment:', uploadError);
+          // Keep the text and the file so posting again retries the upload
+          const error = uploadError instanceof UploadError ? uploadError : new UploadError(UploadErrorReason.UNKNOWN, 'Failed to upload file');
+          if (error.reason !== UploadErrorReason.CANCELED) {
+            showError(`${t('dashboard.orderModal.attachmentUploadFailed')}: ${t(`upload.errors.${error.reason}`, error.params)}`);
           }
-          showError(t('dashboard.orderModal.attachmentUploadFailed'));
+          return;
         } finally {
+          attachmentUploadRef.current = null;
           setUploadingAttachment(false);
         }
       }
@@ -132,6 +236,7 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
         updateData.attachmentURL = attachmentURL;
         updateData.attachmentName = attachmentName;
         updateData.attachmentType = attachmentType;
+        updateData.attachmentPath = attachmentPath;
       }
 
       await addDoc(updatesRef, updateData);
@@ -152,6 +257,17 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
   async function updateOrderStatus(newStatus: string) {
     if (!selectedOrder) return;
 
+    if (!canChangeOrderStatus(selectedOrder.status, newStatus, hasTeamAccess(userProfile))) {
+      showError(t('order.invalidStatusTransition'));
+      return;
+    }
+
+    // Production waits for the client to approve the latest proof of every sub-order
+    if (newStatus === OrderStatus.IN_PROGRESS && selectedOrder.subOrders?.some(isProofBlockingProduction)) {
+      showError(t('proofs.errorNotApproved'));
+      return;
+    }
+
     // Check if trying to complete order
     if (newStatus === OrderStatus.COMPLETED) {
       // Check if all sub-orders are completed
@@ -197,6 +313,18 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
   async function updateSubOrderStatus(subOrderId: string, newStatus: string) {
     if (!selectedOrder) return;
 
+    const subOrder = selectedOrder.subOrders.find((so: any) => so.id === subOrderId);
+    if (!subOrder || !canChangeSubOrderStatus(selectedOrder.status, subOrder.status, newStatus, hasTeamAccess(userProfile))) {
+      showError(t('order.invalidStatusTransition'));
+      return;
+    }
+
+    // Production waits for the client to approve the latest proof
+    if (newStatus === OrderStatus.IN_PROGRESS && isProofBlockingProduction(subOrder)) {
+      showError(t('proofs.errorNotApproved'));
+      return;
+    }
+
     try {
       const subOrderRef = doc(db, 'orders', selectedOrder.id, 'subOrders', subOrderId);
       await updateDoc(subOrderRef, {
@@ -236,6 +364,11 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
   async function confirmOrder() {
     if (!selectedOrder) return;
 
+    if (!canChangeOrderStatus(selectedOrder.status, OrderStatus.PENDING, hasTeamAccess(userProfile))) {
+      showError(t('order.invalidStatusTransition'));
+      return;
+    }
+
     try {
       const orderRef = doc(db, 'orders', selectedOrder.id);
       await updateDoc(orderRef, {
@@ -261,7 +394,7 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
         userId: currentUser!.uid,
         type: 'order_confirmed',
         title: 'Comandă confirmată',
-        message: `Comanda #${selectedOrder.id.substring(0, 8).toUpperCase()} a fost confirmată și este gata de procesare`,
+        message: `Comanda ${getOrderNumber(selectedOrder)} a fost confirmată și este gata de procesare`,
         orderId: selectedOrder.id,
         read: false,
         createdAt: Timestamp.now()
@@ -278,26 +411,11 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
     }
   }
 
-  async function deleteOrder() {
+  async function handleDeleteOrder() {
     if (!selectedOrder) return;
 
     try {
-      const subOrdersRef = collection(db, 'orders', selectedOrder.id, 'subOrders');
-      const subOrdersSnapshot = await getDocs(subOrdersRef);
-      await Promise.all(subOrdersSnapshot.docs.map(doc => deleteDoc(doc.ref)));
-
-      const updatesRef = collection(db, 'orderUpdates');
-      const updatesQuery = query(updatesRef, where('orderId', '==', selectedOrder.id));
-      const updatesSnapshot = await getDocs(updatesQuery);
-      await Promise.all(updatesSnapshot.docs.map(doc => deleteDoc(doc.ref)));
-
-      const notificationsRef = collection(db, 'notifications');
-      const notificationsQuery = query(notificationsRef, where('orderId', '==', selectedOrder.id));
-      const notificationsSnapshot = await getDocs(notificationsQuery);
-      await Promise.all(notificationsSnapshot.docs.map(doc => deleteDoc(doc.ref)));
-
-      const orderRef = doc(db, 'orders', selectedOrder.id);
-      await deleteDoc(orderRef);
+      await moveToTrash(TrashItemType.ORDER, selectedOrder.id);
 
       onClose();
       setShowDeleteDialog(false);
@@ -308,7 +426,7 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
         console.error('Error deleting order:', error);
       }
       let errorMessage = t('dashboard.orderModal.deleteError');
-      if (error?.code === 'permission-denied') {
+      if (error?.code === 'functions/permission-denied') {
         errorMessage = t('dashboard.orderModal.deletePermissionError');
       }
       showError(errorMessage);
@@ -337,23 +455,39 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
     }
   }
 
-  function handleDownloadInvoice() {
+  // Issued invoices are rendered from their stored record; team members issue one on first use
+  async function loadOrIssueInvoice(): Promise<Invoice | null> {
+    if (selectedOrder.invoiceId) {
+      return getInvoice(selectedOrder.invoiceId);
+    }
+
+    if (!hasTeamAccess(userProfile) || !currentUser) {
+      showError(t('invoice.notIssuedYet'));
+      return null;
+    }
+
+    const invoice = await issueInvoice(selectedOrder, getProductLabel, {
+      uid: currentUser.uid,
+      name: userProfile?.displayName || currentUser.email || ''
+    });
+    setSelectedOrder({
+      ...selectedOrder,
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      invoiceTotal: invoice.totals.totalAmount
+    });
+    onOrderUpdated?.();
+    return invoice;
+  }
+
+  async function handleDownloadInvoice() {
     if (!selectedOrder) return;
 
     try {
-      downloadInvoice({
-        orderId: selectedOrder.id,
-        orderNumber: selectedOrder.id.substring(0, 8).toUpperCase(),
-        clientName: selectedOrder.userName || selectedOrder.userEmail || 'Client',
-        clientEmail: selectedOrder.userEmail || '',
-        clientPhone: selectedOrder.contactPhone,
-        productType: getProductLabel(selectedOrder.productType),
-        quantity: selectedOrder.quantity,
-        description: selectedOrder.description,
-        createdAt: selectedOrder.createdAt?.toDate(),
-        completedAt: selectedOrder.updatedAt?.toDate(),
-        amount: undefined
-      });
+      const invoice = await loadOrIssueInvoice();
+      if (invoice) {
+        downloadInvoice(invoiceToPdfData(invoice));
+      }
     } catch (error) {
       if (import.meta.env.DEV) {
         console.error('Error downloading invoice:', error);
@@ -362,24 +496,46 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
     }
   }
 
+  async function handleGenerateProforma() {
+    if (!selectedOrder || !currentUser) return;
+
+    try {
+      setGeneratingProforma(true);
+      const issued = await issueProforma(selectedOrder, getProductLabel, {
+        uid: currentUser.uid,
+        name: userProfile?.displayName || currentUser.email || ''
+      });
+      setSelectedOrder({ ...selectedOrder, proformaId: issued.id, proformaNumber: issued.invoiceNumber });
+      setProforma(issued);
+      downloadInvoice(invoiceToPdfData(issued));
+      showSuccess(t('invoice.proforma.generateSuccess', { invoiceNumber: issued.invoiceNumber }));
+      onOrderUpdated?.();
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error generating proforma:', error);
+      }
+      showError(t('invoice.proforma.generateError'));
+    } finally {
+      setGeneratingProforma(false);
+    }
+  }
+
+  function handleDownloadProforma() {
+    if (proforma) {
+      downloadInvoice(invoiceToPdfData(proforma));
+    }
+  }
+
   async function handleSendInvoice() {
     if (!selectedOrder) return;
 
+    let invoiceId: string | undefined;
     try {
       setSendingInvoice(true);
-      await sendInvoiceToClient({
-        orderId: selectedOrder.id,
-        orderNumber: selectedOrder.id.substring(0, 8).toUpperCase(),
-        clientName: selectedOrder.userName || selectedOrder.userEmail || 'Client',
-        clientEmail: selectedOrder.userEmail || '',
-        clientPhone: selectedOrder.contactPhone,
-        productType: getProductLabel(selectedOrder.productType),
-        quantity: selectedOrder.quantity,
-        description: selectedOrder.description,
-        createdAt: selectedOrder.createdAt?.toDate(),
-        completedAt: selectedOrder.updatedAt?.toDate(),
-        amount: undefined
-      });
+      const invoice = await loadOrIssueInvoice();
+      if (!invoice) return;
+      invoiceId = invoice.id;
+      await sendInvoiceToClient(invoice);
       showSuccess(t('dashboard.orderModal.invoiceSent'));
     } catch (error) {
       if (import.meta.env.DEV) {
@@ -388,9 +544,132 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
       showError(t('dashboard.orderModal.sendInvoiceError'));
     } finally {
       setSendingInvoice(false);
+      // The function records the outcome on the invoice, successful or not
+      if (invoiceId) {
+        fetchIssuedInvoice(invoiceId);
+      }
+    }
+  }
+
+  async function handleOrderCancelled(cancellation: OrderCancellation) {
+    setSelectedOrder({
+      ...selectedOrder,
+      status: OrderStatus.CANCELLED,
+      cancellation,
+      subOrders: selectedOrder.subOrders?.map((subOrder: any) =>
+        subOrder.status === OrderStatus.COMPLETED ? subOrder : { ...subOrder, status: OrderStatus.CANCELLED }
+      )
+    });
+    await fetchOrderUpdates(selectedOrder.id);
+    if (onOrderUpdated) onOrderUpdated();
+  }
+
+  async function handleCreditNoteIssued(creditNote: Invoice) {
+    try {
+      const updatesRef = collection(db, 'orderUpdates');
+      await addDoc(updatesRef, {
+        orderId: selectedOrder.id,
+        userId: currentUser!.uid,
+        userName: t('dashboard.orderModal.system'),
+        userEmail: currentUser!.email,
+        text: t('invoice.creditNote.feedMessage', {
+          creditNoteNumber: creditNote.invoiceNumber,
+          invoiceNumber: creditNote.originalInvoiceNumber,
+          amount: formatCurrency(creditNote.totals.totalAmount)
+        }),
+        creditNoteId: creditNote.id,
+        isSystem: true,
+        createdAt: Timestamp.now()
+      });
+      await fetchOrderUpdates(selectedOrder.id);
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error posting credit note update:', error);
+      }
+    }
+
+    if (creditNote.originalInvoiceId) {
+      fetchIssuedInvoice(creditNote.originalInvoiceId);
+    }
+    if (typeof selectedOrder.invoiceTotal === 'number') {
+      setSelectedOrder({
+        ...selectedOrder,
+        invoiceTotal: roundCurrency(selectedOrder.invoiceTotal + creditNote.totals.totalAmount)
+      });
+    }
+  }
+
+  async function handleSaveTemplate(e: React.FormEvent) {
+    e.preventDefault();
+    if (!selectedOrder || !currentUser || !templateName.trim()) return;
+
+    try {
+      setSavingTemplate(true);
+      await saveOrderTemplate(selectedOrder, templateName.trim(), currentUser.uid);
+      showSuccess(t('orderTemplates.saveSuccess', { name: templateName.trim() }));
+      setTemplateName('');
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error saving order template:', error);
+      }
+      showError(t('orderTemplates.saveError'));
+    } finally {
+      setSavingTemplate(false);
+    }
+  }
+
+  async function handleDownloadCreditNote(creditNoteId: string) {
+    try {
+      const creditNote = await getInvoice(creditNoteId);
+      if (creditNote) {
+        downloadInvoice(invoiceToPdfData(creditNote));
+      }
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error downloading credit note:', error);
+      }
+      showError(t('dashboard.orderModal.downloadInvoiceError'));
     }
   }
 
+  async function handleExportEFactura() {
+    if (!selectedOrder) return;
+
+    try {
+      setExportingEFactura(true);
+      setEFacturaIssues([]);
+      const invoice = await loadOrIssueInvoice();
+      if (!invoice) return;
+
+      // The XML is built from the issue-time snapshot only. Invoices issued before
+      // they stored their due date take it from the order, where it was set at issue.
+      const issues = downloadEFacturaXml({
+        ...invoice,
+        paymentDueDate: invoice.paymentDueDate || selectedOrder.paymentDueDate
+      });
+      setEFacturaIssues(issues);
+      if (issues.length > 0) {
+        showError(t('eFactura.validationFailed'));
+      }
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error exporting e-Factura XML:', error);
+      }
+      showError(t('eFactura.exportError'));
+    } finally {
+      setExportingEFactura(false);
+    }
+  }
+
+  function describeEFacturaIssue(issue: EFacturaIssue) {
+    const [scope, indexOrField, lineField] = issue.field.split('.');
+    const label = scope === 'items' && lineField
+      ? t('eFactura.lineField', { line: Number(indexOrField) + 1, field: t(`eFactura.fields.${lineField}`) })
+      : t(`eFactura.fields.${issue.field}`);
+    const message = t(`eFactura.rules.${issue.rule}`, { field: label });
+    return issue.businessTerm ? `${message} (${issue.businessTerm})` : message;
+  }
+
   function getProductLabel(productType: string) {
     const key = productType?.replace(/-/g, '') || '';
     return t(`placeOrder.products.${key}`) || productType;
@@ -431,7 +710,7 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
                 {t('dashboard.orderModal.order')}
                 {hasTeamAccess(userProfile) && (
                   <span className="ml-2 text-sm font-mono text-slate-500 dark:text-slate-400">
-                    #{selectedOrder.id.substring(0, 8).toUpperCase()}
+                    {getOrderNumber(selectedOrder)}
                   </span>
                 )}
               </h3>
@@ -509,6 +788,23 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
                 <span className={`px-3 py-1.5 text-xs font-semibold rounded-full ${getStatusColor(selectedOrder.status)}`}>
                   {getStatusLabel(selectedOrder.status)}
                 </span>
+                {selectedOrder.status === OrderStatus.CANCELLED && selectedOrder.cancellation && (
+                  <div data-testid="order-cancellation-details" className="mt-3 text-sm space-y-1">
+                    <p className="text-gray-900 dark:text-white">
+                      <span className="text-gray-600 dark:text-slate-400">{t('orderCancellation.reason')}:</span>{' '}
+                      {selectedOrder.cancellation.reason}
+                    </p>
+                    {selectedOrder.cancellation.comment && (
+                      <p className="text-gray-700 dark:text-slate-300 whitespace-pre-wrap">{selectedOrder.cancellation.comment}</p>
+                    )}
+                    <p className="text-xs text-gray-500 dark:text-slate-400">
+                      {t('orderCancellation.cancelledBy', {
+                        name: selectedOrder.cancellation.cancelledByName,
+                        date: formatDate(selectedOrder.cancellation.cancelledAt)
+                      })}
+                    </p>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -553,6 +849,18 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
                             </span>
                           </div>
                         )}
+                        {subOrder.unitPrice != null && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-600 dark:text-slate-400">{t('pricing.unitPrice')}:</span>
+                            <span className="text-gray-900 dark:text-white font-medium">{formatCurrency(subOrder.unitPrice)}</span>
+                          </div>
+                        )}
+                        {subOrder.lineTotal != null && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-600 dark:text-slate-400">{t('pricing.lineTotal')}:</span>
+                            <span className="text-gray-900 dark:text-white font-semibold">{formatCurrency(subOrder.lineTotal)}</span>
+                          </div>
+                        )}
                         {subOrder.deliveryTime && (
                           <div className="flex justify-between">
                             <span className="text-gray-600 dark:text-slate-400">{t('placeOrder.deliveryTime')}:</span>
@@ -582,6 +890,17 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
                         {subOrder.designFile && (
                           <div className="pt-2 border-t border-gray-200 dark:border-slate-600">
                             <span className="text-gray-600 dark:text-slate-400">{t('dashboard.orderModal.designFile')}:</span>
+                            {subOrder.designPreview && (
+                              <a href={subOrder.designPreview.previewURL} target="_blank" rel="noopener noreferrer" className="block mt-1">
+                                <img
+                                  data-testid={`sub-order-design-thumbnail-${subOrder.id}`}
+                                  src={subOrder.designPreview.thumbnailURL}
+                                  alt={t('dashboard.orderModal.designFile')}
+                                  loading="lazy"
+                                  className="h-32 rounded-lg border border-gray-200 dark:border-slate-600 object-contain bg-white hover:opacity-90 transition-opacity"
+                                />
+                              </a>
+                            )}
                             <a
                               href={subOrder.designFile}
                               target="_blank"
@@ -592,22 +911,59 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
                             </a>
                           </div>
                         )}
+                        {subOrder.preflight && hasTeamAccess(userProfile) && (
+                          <div className="pt-2 border-t border-gray-200 dark:border-slate-600">
+                            <PreflightReportView report={subOrder.preflight} testId={`order-preflight-${subOrder.id}`} />
+                          </div>
+                        )}
+                        {subOrder.mockupFile && (
+                          <div className="pt-2 border-t border-gray-200 dark:border-slate-600">
+                            <span className="text-gray-600 dark:text-slate-400">{t('mockup.clientMockup')}:</span>
+                            <a
+                              href={subOrder.mockupFile}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-blue-600 dark:text-blue-400 hover:underline block mt-1"
+                            >
+                              {t('mockup.view')}
+                            </a>
+                          </div>
+                        )}
                       </div>
 
+                      <SubOrderProofs
+                        order={selectedOrder}
+                        subOrder={subOrder}
+                        onProofChanged={(subOrderId, changes) => setSelectedOrder((prev: any) => ({
+                          ...prev,
+                          subOrders: prev.subOrders.map((so: any) => (so.id === subOrderId ? { ...so, ...changes } : so))
+                        }))}
+                      />
+
                       {/* Sub-order Status Update - Only for Team Members */}
                       {hasTeamAccess(userProfile) && (
                         <div className="mt-4 pt-4 border-t border-gray-200 dark:border-slate-600">
                           <h6 className="text-xs font-semibold text-gray-700 dark:text-slate-300 mb-2 uppercase tracking-wide">
                             {t('order.updateSubOrderStatus')}
                           </h6>
+                          {selectedOrder.status === OrderStatus.PENDING_CONFIRMATION && (
+                            <p data-testid={`sub-order-awaiting-confirmation-${subOrder.id}`} className="text-xs text-amber-700 dark:text-amber-400 mb-2">
+                              {t('order.subOrderAwaitingConfirmation')}
+                            </p>
+                          )}
+                          {isProofBlockingProduction(subOrder) && (
+                            <p data-testid={`sub-order-proof-blocked-${subOrder.id}`} className="text-xs text-amber-700 dark:text-amber-400 mb-2">
+                              {t('proofs.productionBlocked')}
+                            </p>
+                          )}
                           <div className="flex gap-2 flex-wrap">
                             {Object.values(OrderStatus).map((status) => (
                               <button
                                 key={status}
                                 onClick={() => updateSubOrderStatus(subOrder.id, status)}
-                                disabled={subOrder.status === status || status === OrderStatus.PENDING_CONFIRMATION}
+                                disabled={!canChangeSubOrderStatus(selectedOrder.status, subOrder.status, status, true)}
                                 className={`px-2.5 py-1 text-xs rounded-lg transition-colors ${
-                                  subOrder.status === status || status === OrderStatus.PENDING_CONFIRMATION
+                                  !canChangeSubOrderStatus(selectedOrder.status, subOrder.status, status, true)
                                     ? 'bg-gray-200 dark:bg-slate-600 text-gray-500 dark:text-slate-400 cursor-not-allowed'
                                     : 'bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-slate-200 hover:bg-gray-200 dark:hover:bg-slate-600'
                                 }`}
@@ -624,6 +980,68 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
               </div>
             )}
 
+            {/* Proforma Section */}
+            {(proforma || (hasTeamAccess(userProfile) &&
+              (selectedOrder.status === OrderStatus.PENDING_CONFIRMATION || selectedOrder.status === OrderStatus.PENDING))) && (
+              <div data-testid="order-proforma-section" className="mb-6 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-800 rounded-lg p-4">
+                <h4 className="text-sm font-semibold text-amber-900 dark:text-amber-200 mb-1">{t('invoice.proforma.title')}</h4>
+                <p className="text-sm text-amber-800 dark:text-amber-300 mb-3">{t('invoice.proforma.description')}</p>
+                {proforma && (
+                  <div className="text-sm text-amber-900 dark:text-amber-200 mb-3 space-y-0.5">
+                    <p data-testid="order-proforma-number" className="font-medium">
+                      {t('invoice.proforma.issuedAs', { invoiceNumber: proforma.invoiceNumber })}
+                    </p>
+                    {proforma.validUntil && (
+                      <p>
+                        {proforma.validUntil.toMillis() < Date.now()
+                          ? t('invoice.proforma.expired', { date: formatDate(proforma.validUntil) })
+                          : t('invoice.proforma.validUntil', { date: formatDate(proforma.validUntil) })}
+                      </p>
+                    )}
+                    {proforma.convertedInvoiceNumber && (
+                      <p data-testid="order-proforma-converted">
+                        {t('invoice.proforma.convertedTo', { invoiceNumber: proforma.convertedInvoiceNumber })}
+                      </p>
+                    )}
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  {proforma && (
+                    <button
+                      data-testid="order-proforma-download-button"
+                      onClick={handleDownloadProforma}
+                      className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-slate-700 border border-amber-600 dark:border-amber-500 text-amber-700 dark:text-amber-300 rounded-lg hover:bg-amber-50 dark:hover:bg-amber-900/50 font-medium transition-colors"
+                    >
+                      {t('invoice.proforma.download')}
+                    </button>
+                  )}
+                  {hasTeamAccess(userProfile) &&
+                    (selectedOrder.status === OrderStatus.PENDING_CONFIRMATION || selectedOrder.status === OrderStatus.PENDING) && (
+                    <button
+                      data-testid="order-generate-proforma-button"
+                      onClick={handleGenerateProforma}
+                      disabled={generatingProforma}
+                      className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-amber-500 to-orange-500 text-white rounded-lg hover:opacity-90 font-medium transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {generatingProforma
+                        ? t('invoice.proforma.generating')
+                        : proforma ? t('invoice.proforma.regenerate') : t('invoice.proforma.generate')}
+                    </button>
+                  )}
+                  {hasTeamAccess(userProfile) && proforma && !proforma.convertedInvoiceId &&
+                    selectedOrder.status === OrderStatus.COMPLETED && !selectedOrder.invoiceId && (
+                    <button
+                      data-testid="order-convert-proforma-button"
+                      onClick={handleDownloadInvoice}
+                      className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-green-600 to-emerald-500 text-white rounded-lg hover:opacity-90 font-medium transition-opacity"
+                    >
+                      {t('invoice.proforma.convert')}
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Invoice Section */}
             {selectedOrder.status === OrderStatus.COMPLETED && (
               <div className="mb-6 bg-green-50 dark:bg-green-900/30 border border-green-200 dark:border-green-800 rounded-lg p-4">
@@ -636,7 +1054,29 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
                     <p className="text-sm text-green-800 dark:text-green-300 mb-3">
                       {t('dashboard.orderModal.orderCompletedDesc')}
                     </p>
-                    <div className="flex gap-2">
+                    {selectedOrder.invoiceNumber && (
+                      <p data-testid="order-invoice-number" className="text-sm font-medium text-green-900 dark:text-green-200 mb-3">
+                        {t('invoice.issuedAs', { invoiceNumber: selectedOrder.invoiceNumber })}
+                      </p>
+                    )}
+                    {issuedInvoice?.delivery && (
+                      <p
+                        data-testid="order-invoice-delivery"
+                        className={`text-sm mb-3 ${issuedInvoice.delivery.status === InvoiceDeliveryStatus.SENT ? 'text-green-800 dark:text-green-300' : 'text-red-700 dark:text-red-300'}`}
+                      >
+                        {issuedInvoice.delivery.status === InvoiceDeliveryStatus.SENT
+                          ? t('invoice.delivery.sent', { recipient: issuedInvoice.delivery.recipient, date: formatDate(issuedInvoice.delivery.attemptedAt) })
+                          : t('invoice.delivery.failed', { recipient: issuedInvoice.delivery.recipient, date: formatDate(issuedInvoice.delivery.attemptedAt) })}
+                      </p>
+                    )}
+                    {issuedInvoice?.reversalStatus && (
+                      <p data-testid="order-invoice-reversal" className="text-sm font-medium text-red-700 dark:text-red-300 mb-3">
+                        {issuedInvoice.reversalStatus === InvoiceReversalStatus.FULL
+                          ? t('invoice.creditNote.reversedFull', { creditNoteNumbers: (issuedInvoice.creditNoteNumbers || []).join(', ') })
+                          : t('invoice.creditNote.reversedPartial', { creditNoteNumbers: (issuedInvoice.creditNoteNumbers || []).join(', ') })}
+                      </p>
+                    )}
+                    <div className="flex flex-wrap gap-2">
                       <button
                         onClick={handleDownloadInvoice}
                         className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-slate-700 border border-green-600 dark:border-green-500 text-green-700 dark:text-green-300 rounded-lg hover:bg-green-50 dark:hover:bg-green-900/50 font-medium transition-colors"
@@ -646,22 +1086,68 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
                         </svg>
                         {t('dashboard.orderModal.downloadInvoice')}
                       </button>
-                      <button
-                        onClick={handleSendInvoice}
-                        disabled={sendingInvoice}
-                        className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-green-600 to-emerald-500 text-white rounded-lg hover:opacity-90 font-medium transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
-                      >
-                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
-                        </svg>
-                        {sendingInvoice ? t('dashboard.orderModal.sending') : t('dashboard.orderModal.sendToClient')}
-                      </button>
+                      {hasTeamAccess(userProfile) && (
+                        <button
+                          onClick={handleSendInvoice}
+                          disabled={sendingInvoice}
+                          className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-green-600 to-emerald-500 text-white rounded-lg hover:opacity-90 font-medium transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+                          </svg>
+                          {sendingInvoice ? t('dashboard.orderModal.sending') : t('dashboard.orderModal.sendToClient')}
+                        </button>
+                      )}
+                      {hasTeamAccess(userProfile) && (
+                        <button
+                          data-testid="order-export-efactura-button"
+                          onClick={handleExportEFactura}
+                          disabled={exportingEFactura}
+                          className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-slate-700 border border-green-600 dark:border-green-500 text-green-700 dark:text-green-300 rounded-lg hover:bg-green-50 dark:hover:bg-green-900/50 font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
+                          </svg>
+                          {exportingEFactura ? t('eFactura.exporting') : t('eFactura.export')}
+                        </button>
+                      )}
+                      {hasTeamAccess(userProfile) && issuedInvoice && issuedInvoice.reversalStatus !== InvoiceReversalStatus.FULL && (
+                        <button
+                          data-testid="order-credit-note-button"
+                          onClick={() => setShowCreditNoteModal(true)}
+                          className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-slate-700 border border-red-600 dark:border-red-500 text-red-700 dark:text-red-300 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/50 font-medium transition-colors"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+                          </svg>
+                          {t('invoice.creditNote.issue')}
+                        </button>
+                      )}
                     </div>
+                    {eFacturaIssues.length > 0 && (
+                      <div data-testid="efactura-issues" className="mt-3 p-3 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg">
+                        <p className="text-sm font-semibold text-red-800 dark:text-red-300 mb-1">{t('eFactura.issuesTitle')}</p>
+                        <ul className="list-disc list-inside text-sm text-red-700 dark:text-red-300 space-y-0.5">
+                          {eFacturaIssues.map((issue, index) => (
+                            <li key={index}>{describeEFacturaIssue(issue)}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
             )}
 
+            {/* Payments Section */}
+            <OrderPayments
+              order={selectedOrder}
+              onPaymentRecorded={(amountPaid) => {
+                setSelectedOrder({ ...selectedOrder, amountPaid });
+                onOrderUpdated?.();
+              }}
+            />
+
             {/* Confirmation Section */}
             {selectedOrder.status === OrderStatus.PENDING_CONFIRMATION && !selectedOrder.confirmedByClient && (
               <div className="mb-6 bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
@@ -695,10 +1181,10 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
                     <button
                       key={status}
                       data-testid={`order-status-button-${status}`}
-                      onClick={() => updateOrderStatus(status)}
-                      disabled={selectedOrder.status === status || status === OrderStatus.PENDING_CONFIRMATION}
+                      onClick={() => status === OrderStatus.CANCELLED ? setShowCancelModal(true) : updateOrderStatus(status)}
+                      disabled={!canChangeOrderStatus(selectedOrder.status, status, true)}
                       className={`px-3 py-1 text-sm rounded-lg transition-colors ${
-                        selectedOrder.status === status || status === OrderStatus.PENDING_CONFIRMATION
+                        !canChangeOrderStatus(selectedOrder.status, status, true)
                           ? 'bg-gray-200 dark:bg-slate-600 text-gray-500 dark:text-slate-400 cursor-not-allowed'
                           : 'bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-slate-200 hover:bg-gray-200 dark:hover:bg-slate-600'
                       }`}
@@ -710,6 +1196,32 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
               </div>
             )}
 
+            {/* Save as Template Section */}
+            {hasTeamAccess(userProfile) && selectedOrder.subOrders?.length > 0 && (
+              <div className="mb-6">
+                <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-1">{t('orderTemplates.saveTitle')}</h4>
+                <p className="text-sm text-gray-500 dark:text-slate-400 mb-3">{t('orderTemplates.saveDescription')}</p>
+                <form onSubmit={handleSaveTemplate} className="flex gap-2">
+                  <input
+                    type="text"
+                    data-testid="order-template-name-input"
+                    value={templateName}
+                    onChange={(e) => setTemplateName(e.target.value)}
+                    placeholder={t('orderTemplates.namePlaceholder')}
+                    className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <button
+                    type="submit"
+                    data-testid="order-save-template-button"
+                    disabled={savingTemplate || !templateName.trim()}
+                    className="px-4 py-2 text-sm bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-slate-200 rounded-lg hover:bg-gray-200 dark:hover:bg-slate-600 disabled:opacity-50 transition-colors"
+                  >
+                    {savingTemplate ? t('orderTemplates.saving') : t('orderTemplates.save')}
+                  </button>
+                </form>
+              </div>
+            )}
+
             {/* Updates Section */}
             <div>
               <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">{t('dashboard.orderModal.updatesComments')}</h4>
@@ -811,10 +1323,10 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
                             </p>
                             {update.attachmentURL && (
                               <div className="mt-2">
-                                {update.attachmentType?.startsWith('image/') ? (
+                                {update.attachmentType?.startsWith('image/') || update.attachmentPreview ? (
                                   <a href={update.attachmentURL} target="_blank" rel="noopener noreferrer" data-testid="order-update-attachment-link">
                                     <img
-                                      src={update.attachmentURL}
+                                      src={update.attachmentPreview?.previewURL || update.attachmentURL}
                                       alt={update.attachmentName}
                                       className="max-w-full rounded-lg border border-gray-200 dark:border-slate-600 hover:opacity-90 transition-opacity cursor-pointer"
                                       style={{ maxHeight: '200px' }}
@@ -840,6 +1352,15 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
                                 )}
                               </div>
                             )}
+                            {update.creditNoteId && (
+                              <button
+                                data-testid="order-update-credit-note-link"
+                                onClick={() => handleDownloadCreditNote(update.creditNoteId)}
+                                className="mt-2 text-sm font-medium text-blue-700 dark:text-blue-300 hover:underline"
+                              >
+                                {t('invoice.creditNote.download')}
+                              </button>
+                            )}
                           </div>
 
                           {!isSystemMessage && isClientMessage && (
@@ -899,6 +1420,7 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
                     <span className="text-sm text-blue-800 dark:text-blue-200 flex-1 truncate">{attachmentFile.name}</span>
                     <button
                       onClick={() => setAttachmentFile(null)}
+                      disabled={uploadingAttachment}
                       className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
                     >
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -908,17 +1430,28 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
                   </div>
                 )}
 
+                {uploadingAttachment && (
+                  <UploadProgressBar
+                    testId="order-update-upload-progress"
+                    percent={attachmentProgress}
+                    retry={attachmentRetry}
+                    onCancel={() => attachmentUploadRef.current?.cancel()}
+                  />
+                )}
+
                 <div className="flex flex-col sm:flex-row gap-2 sm:justify-between sm:items-center">
                   <div className="w-full sm:w-auto">
                     <input
                       data-testid="order-update-file-input"
                       ref={attachmentInputRef}
                       type="file"
+                      accept={ALLOWED_UPLOAD_ACCEPT}
                       onChange={(e) => {
                         const file = e.target.files?.[0];
                         if (file) {
-                          if (file.size > 10 * 1024 * 1024) {
-                            showError(t('dashboard.orderModal.fileSizeError'));
+                          const rejection = validateUpload(file, 'updates');
+                          if (rejection) {
+                            showError(t(`upload.errors.${rejection.reason}`, rejection.params));
                             return;
                           }
                           setAttachmentFile(file);
@@ -959,9 +1492,9 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
         <ConfirmDialog
           isOpen={showDeleteDialog}
           onClose={() => setShowDeleteDialog(false)}
-          onConfirm={deleteOrder}
+          onConfirm={handleDeleteOrder}
           title="Șterge comandă"
-          message="Sigur doriți să ștergeți această comandă? Această acțiune nu poate fi anulată."
+          message="Sigur doriți să ștergeți această comandă? Va fi mutată în coș, de unde un administrator o poate restaura."
           confirmText="Șterge"
           cancelText="Anulează"
           type="danger"
@@ -986,6 +1519,21 @@ export default function OrderDetailsModal({ isOpen, onClose, order, onOrderUpdat
           inline={true}
         />
       )}
+
+      {/* Credit Note Modal */}
+      <CreditNoteModal
+        isOpen={showCreditNoteModal}
+        onClose={() => setShowCreditNoteModal(false)}
+        onIssued={handleCreditNoteIssued}
+        invoice={issuedInvoice}
+      />
+
+      <CancelOrderModal
+        isOpen={showCancelModal}
+        onClose={() => setShowCancelModal(false)}
+        onCancelled={handleOrderCancelled}
+        order={selectedOrder}
+      />
     </>
   );
 }
@@ -0,0 +1,291 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAuth, hasTeamAccess } from '../contexts/AuthContext';
+import { fetchOrderPayments, getPaymentSummary, recordPayment, reversePayment } from '../services/paymentService';
+import { showSuccess, showError } from '../services/notificationService';
+import { formatDate } from '../utils/dateUtils';
+import { formatCurrency } from '../utils/helpers';
+import { Payment, PaymentMethod, PaymentMethodType } from '../types';
+
+interface OrderPaymentsProps {
+  order: any;
+  onPaymentRecorded?: (amountPaid: number) => void;
+}
+
+function toDateInputValue(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export default function OrderPayments({ order, onPaymentRecorded }: OrderPaymentsProps) {
+  const { t } = useTranslation();
+  const { currentUser, userProfile } = useAuth();
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PaymentMethodType>(PaymentMethod.BANK_TRANSFER);
+  const [paidAt, setPaidAt] = useState(toDateInputValue(new Date()));
+  const [reference, setReference] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [reversingId, setReversingId] = useState<string | null>(null);
+  const [reverseReason, setReverseReason] = useState('');
+
+  const isTeam = hasTeamAccess(userProfile);
+  const summary = getPaymentSummary(order);
+
+  useEffect(() => {
+    if (order?.id && currentUser) {
+      fetchPayments();
+    }
+  }, [order?.id, currentUser]);
+
+  async function fetchPayments() {
+    try {
+      setPayments(await fetchOrderPayments(order.id, isTeam ? undefined : currentUser?.uid));
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error fetching payments:', error);
+      }
+      setPayments([]);
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!currentUser) return;
+
+    const value = parseFloat(amount);
+    if (isNaN(value) || value <= 0) {
+      showError(t('payments.errorAmount'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const payment = await recordPayment(order, {
+        amount: value,
+        method,
+        paidAt: new Date(paidAt),
+        reference
+      }, {
+        uid: currentUser.uid,
+        name: userProfile?.displayName || currentUser.email || ''
+      });
+      showSuccess(t('payments.recordSuccess'));
+      setAmount('');
+      setReference('');
+      setPayments(prev => [...prev, payment]);
+      onPaymentRecorded?.(summary.paid + payment.amount);
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error recording payment:', error);
+      }
+      showError(t('payments.errorFailed'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleReverse(e: React.FormEvent, payment: Payment) {
+    e.preventDefault();
+    if (!currentUser || !reverseReason.trim()) return;
+
+    try {
+      setSaving(true);
+      const reversal = await reversePayment(payment, reverseReason, {
+        uid: currentUser.uid,
+        name: userProfile?.displayName || currentUser.email || ''
+      });
+      showSuccess(t('payments.reverseSuccess'));
+      setReversingId(null);
+      setReverseReason('');
+      setPayments(prev => [
+        ...prev.map(other => (other.id === payment.id ? { ...other, reversedByPaymentId: reversal.id } : other)),
+        reversal
+      ]);
+      onPaymentRecorded?.(summary.paid + reversal.amount);
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error reversing payment:', error);
+      }
+      showError(t('payments.errorReverse'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const inputClassName = 'w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors';
+
+  return (
+    <div data-testid="order-payments" className="mb-6">
+      <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">{t('payments.title')}</h4>
+
+      {/* Balance */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-3">
+        <div className="bg-gray-50 dark:bg-slate-700 rounded-lg p-3">
+          <p className="text-xs text-gray-500 dark:text-slate-400">{t('payments.total')}</p>
+          <p className="text-sm font-semibold text-gray-900 dark:text-white">{formatCurrency(summary.total)}</p>
+        </div>
+        <div className="bg-gray-50 dark:bg-slate-700 rounded-lg p-3">
+          <p className="text-xs text-gray-500 dark:text-slate-400">{t('payments.paid')}</p>
+          <p data-testid="order-payments-paid" className="text-sm font-semibold text-green-700 dark:text-green-400">{formatCurrency(summary.paid)}</p>
+        </div>
+        <div className="bg-gray-50 dark:bg-slate-700 rounded-lg p-3">
+          <p className="text-xs text-gray-500 dark:text-slate-400">{t('payments.due')}</p>
+          <p data-testid="order-payments-due" className="text-sm font-semibold text-gray-900 dark:text-white">{formatCurrency(summary.due)}</p>
+        </div>
+        <div className="bg-gray-50 dark:bg-slate-700 rounded-lg p-3">
+          <p className="text-xs text-gray-500 dark:text-slate-400">{t('payments.overdue')}</p>
+          <p data-testid="order-payments-overdue" className={`text-sm font-semibold ${summary.overdue > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+            {formatCurrency(summary.overdue)}
+          </p>
+        </div>
+      </div>
+      {order.paymentDueDate && (
+        <p className="text-xs text-gray-500 dark:text-slate-400 mb-3">
+          {t('payments.dueDate', { date: formatDate(order.paymentDueDate) })}
+        </p>
+      )}
+
+      {/* Payment history */}
+      {payments.length > 0 && (
+        <ul className="border border-gray-200 dark:border-slate-700 rounded-lg divide-y divide-gray-200 dark:divide-slate-700 mb-3">
+          {payments.map(payment => (
+            <li key={payment.id} className="px-3 py-2 text-sm">
+              <div className="flex items-center justify-between gap-4">
+                <div className={payment.reversedByPaymentId ? 'line-through opacity-60' : ''}>
+                  <span className="text-gray-900 dark:text-white">{formatDate(payment.paidAt)}</span>
+                  <span className="ml-2 text-gray-500 dark:text-slate-400">{t(`payments.methods.${payment.method}`)}</span>
+                  {payment.isAdvance && (
+                    <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300">
+                      {t('payments.advance')}
+                    </span>
+                  )}
+                  {payment.reference && (
+                    <span className="ml-2 text-xs text-gray-400 dark:text-slate-500">{payment.reference}</span>
+                  )}
+                  {payment.reversesPaymentId && (
+                    <span className="ml-2 text-xs text-red-600 dark:text-red-400">
+                      {t('payments.reversal', { reason: payment.reason })}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-3">
+                  {isTeam && !payment.reversesPaymentId && !payment.reversedByPaymentId && reversingId !== payment.id && (
+                    <button
+                      data-testid={`payment-reverse-button-${payment.id}`}
+                      type="button"
+                      onClick={() => {
+                        setReversingId(payment.id!);
+                        setReverseReason('');
+                      }}
+                      disabled={saving}
+                      className="text-xs font-medium text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+                    >
+                      {t('payments.reverse')}
+                    </button>
+                  )}
+                  <span className="font-medium text-gray-900 dark:text-white">{formatCurrency(payment.amount)}</span>
+                </div>
+              </div>
+              {reversingId === payment.id && (
+                <form onSubmit={(e) => handleReverse(e, payment)} className="flex items-center gap-2 mt-2">
+                  <input
+                    data-testid="payment-reverse-reason-input"
+                    type="text"
+                    value={reverseReason}
+                    onChange={(e) => setReverseReason(e.target.value)}
+                    placeholder={t('payments.reverseReason')}
+                    className={inputClassName}
+                    disabled={saving}
+                    required
+                  />
+                  <button
+                    data-testid="payment-reverse-confirm-button"
+                    type="submit"
+                    disabled={saving || !reverseReason.trim()}
+                    className="px-3 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 whitespace-nowrap"
+                  >
+                    {t('payments.reverseConfirm')}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setReversingId(null)}
+                    disabled={saving}
+                    className="px-3 py-2 text-sm font-medium text-gray-700 dark:text-slate-300 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                  >
+                    {t('common.cancel')}
+                  </button>
+                </form>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Record payment - Only for team members */}
+      {isTeam && (
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-5 gap-2 items-end">
+          <div>
+            <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">{t('payments.amount')}</label>
+            <input
+              data-testid="payment-amount-input"
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder={summary.due > 0 ? String(summary.due) : ''}
+              className={inputClassName}
+              disabled={saving}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">{t('payments.method')}</label>
+            <select
+              data-testid="payment-method-select"
+              value={method}
+              onChange={(e) => setMethod(e.target.value as PaymentMethodType)}
+              className={inputClassName}
+              disabled={saving}
+            >
+              {Object.values(PaymentMethod).map(value => (
+                <option key={value} value={value}>{t(`payments.methods.${value}`)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">{t('payments.paidAt')}</label>
+            <input
+              type="date"
+              value={paidAt}
+              onChange={(e) => setPaidAt(e.target.value)}
+              className={inputClassName}
+              disabled={saving}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">{t('payments.reference')}</label>
+            <input
+              type="text"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              className={inputClassName}
+              disabled={saving}
+            />
+          </div>
+          <button
+            data-testid="payment-record-button"
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-cyan-500 rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50"
+          >
+            {saving ? t('common.saving') : t('payments.record')}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Dialog, DialogPanel, DialogTitle } from '@headlessui/react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { Timestamp } from 'firebase/firestore';
+import { OrderTemplate, RecurrenceFrequency, RecurrenceFrequencyType } from '../types';
+import {
+  fetchClientTemplates,
+  updateTemplateSchedule,
+  deleteOrderTemplate,
+  getNextRunDate
+} from '../services/templateService';
+import { showSuccess, showError } from '../services/notificationService';
+import { formatDate } from '../utils/dateUtils';
+import ConfirmDialog from './ConfirmDialog';
+
+interface OrderTemplatesModalProps {
+  open: boolean;
+  onClose: () => void;
+  client: { id: string; name: string } | null;
+  onPlaceOrder: (template: OrderTemplate) => void;
+}
+
+interface ScheduleDraft {
+  frequency: RecurrenceFrequencyType | '';
+  nextRunDate: string; // YYYY-MM-DD
+  active: boolean;
+}
+
+function toDateInputValue(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function getScheduleDraft(template: OrderTemplate): ScheduleDraft {
+  return template.schedule
+    ? {
+        frequency: template.schedule.frequency,
+        nextRunDate: toDateInputValue(template.schedule.nextRunAt.toDate()),
+        active: template.schedule.active
+      }
+    : { frequency: '', nextRunDate: '', active: true };
+}
+
+export default function OrderTemplatesModal({ open, onClose, client, onPlaceOrder }: OrderTemplatesModalProps) {
+  const { t } = useTranslation();
+  const [templates, setTemplates] = useState<OrderTemplate[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, ScheduleDraft>>({});
+  const [loading, setLoading] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open && client) {
+      loadTemplates(client.id);
+    }
+  }, [open, client]);
+
+  async function loadTemplates(clientId: string) {
+    try {
+      setLoading(true);
+      const clientTemplates = await fetchClientTemplates(clientId);
+      setTemplates(clientTemplates);
+      setDrafts(Object.fromEntries(clientTemplates.map(template => [template.id!, getScheduleDraft(template)])));
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error fetching order templates:', error);
+      }
+      showError(t('orderTemplates.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function handleDraftChange(templateId: string, changes: Partial<ScheduleDraft>) {
+    setDrafts(prev => {
+      const draft = { ...prev[templateId], ...changes };
+      // Choosing a frequency suggests the first run one period from today
+      if (changes.frequency && !draft.nextRunDate) {
+        draft.nextRunDate = toDateInputValue(getNextRunDate(changes.frequency, new Date()));
+      }
+      return { ...prev, [templateId]: draft };
+    });
+  }
+
+  async function handleSaveSchedule(template: OrderTemplate) {
+    const draft = drafts[template.id!];
+    if (draft.frequency && !draft.nextRunDate) {
+      showError(t('orderTemplates.errorNextRunRequired'));
+      return;
+    }
+
+    try {
+      setSavingId(template.id!);
+      const schedule = draft.frequency
+        ? {
+            frequency: draft.frequency,
+            active: draft.active,
+            // Local midnight - the daily run at 06:00 picks it up that morning
+            nextRunAt: Timestamp.fromDate(new Date(`${draft.nextRunDate}T00:00`))
+          }
+        : null;
+      await updateTemplateSchedule(template.id!, schedule);
+      setTemplates(prev => prev.map(item => item.id === template.id
+        ? { ...item, schedule: schedule ? { ...item.schedule, ...schedule } : null }
+        : item));
+      showSuccess(t('orderTemplates.scheduleSaved'));
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error saving template schedule:', error);
+      }
+      showError(t('orderTemplates.scheduleError'));
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  async function handleDelete() {
+    if (!deleteId) return;
+
+    try {
+      await deleteOrderTemplate(deleteId);
+      setTemplates(prev => prev.filter(template => template.id !== deleteId));
+      showSuccess(t('orderTemplates.deleteSuccess'));
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error deleting order template:', error);
+      }
+      showError(t('orderTemplates.deleteError'));
+    } finally {
+      setDeleteId(null);
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30 dark:bg-black/50" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex w-screen items-center justify-center p-4">
+        <DialogPanel
+          data-testid="order-templates-modal"
+          className="relative w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-xl bg-white dark:bg-slate-800 shadow-2xl"
+        >
+          {/* Header */}
+          <div className="sticky top-0 z-10 flex items-center justify-between border-b border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 px-6 py-4">
+            <DialogTitle className="text-lg font-semibold text-gray-900 dark:text-white">
+              {t('orderTemplates.title', { name: client?.name || '' })}
+            </DialogTitle>
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-md p-1 text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+            >
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          </div>
+
+          <div className="px-6 py-6 space-y-4">
+            {loading ? (
+              <p className="text-sm text-gray-500 dark:text-slate-400">{t('orderTemplates.loading')}</p>
+            ) : templates.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-slate-400">{t('orderTemplates.empty')}</p>
+            ) : (
+              templates.map(template => {
+                const draft = drafts[template.id!];
+                return (
+                  <div
+                    key={template.id}
+                    data-testid={`order-template-${template.id}`}
+                    className="rounded-lg border border-gray-200 dark:border-slate-600 bg-gray-50 dark:bg-slate-700 p-4"
+                  >
+                    <div className="flex items-start justify-between gap-4 mb-3">
+                      <div>
+                        <h4 className="text-sm font-semibold text-gray-900 dark:text-white">{template.name}</h4>
+                        <p className="text-xs text-gray-500 dark:text-slate-400">
+                          {t('orderTemplates.items', { count: template.items.length })}
+                          {': '}
+                          {template.items.map(item => `${item.productTypeName || item.productType} × ${item.quantity}`).join(', ')}
+                        </p>
+                        {template.schedule?.lastRunAt && (
+                          <p className="text-xs text-gray-500 dark:text-slate-400">
+                            {t('orderTemplates.lastRun', { date: formatDate(template.schedule.lastRunAt) })}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <button
+                          type="button"
+                          data-testid={`order-template-place-${template.id}`}
+                          onClick={() => onPlaceOrder(template)}
+                          className="px-3 py-1.5 text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-cyan-500 rounded-md hover:opacity-90 transition-opacity"
+                        >
+                          {t('orderTemplates.placeOrder')}
+                        </button>
+                        <button
+                          type="button"
+                          data-testid={`order-template-delete-${template.id}`}
+                          onClick={() => setDeleteId(template.id!)}
+                          className="px-3 py-1.5 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-md transition-colors"
+                        >
+                          {t('orderTemplates.delete')}
+                        </button>
+                      </div>
+                    </div>
+
+                    {/* Recurring schedule */}
+                    <div className="flex flex-wrap items-end gap-3 pt-3 border-t border-gray-200 dark:border-slate-600">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 dark:text-slate-300 mb-1">
+                          {t('orderTemplates.frequency')}
+                        </label>
+                        <select
+                          data-testid={`order-template-frequency-${template.id}`}
+                          value={draft.frequency}
+                          onChange={(e) => handleDraftChange(template.id!, { frequency: e.target.value as RecurrenceFrequencyType | '' })}
+                          className="px-2 py-1.5 text-sm border border-gray-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-gray-900 dark:text-white"
+                        >
+                          <option value="">{t('orderTemplates.frequencies.none')}</option>
+                          {Object.values(RecurrenceFrequency).map(frequency => (
+                            <option key={frequency} value={frequency}>{t(`orderTemplates.frequencies.${frequency}`)}</option>
+                          ))}
+                        </select>
+                      </div>
+                      {draft.frequency && (
+                        <>
+                          <div>
+                            <label className="block text-xs font-medium text-gray-700 dark:text-slate-300 mb-1">
+                              {t('orderTemplates.nextRun')}
+                            </label>
+                            <input
+                              type="date"
+                              data-testid={`order-template-next-run-${template.id}`}
+                              value={draft.nextRunDate}
+                              onChange={(e) => handleDraftChange(template.id!, { nextRunDate: e.target.value })}
+                              className="px-2 py-1.5 text-sm border border-gray-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-gray-900 dark:text-white"
+                            />
+                          </div>
+                          <label className="flex items-center gap-2 py-1.5 text-sm text-gray-700 dark:text-slate-300">
+                            <input
+                              type="checkbox"
+                              data-testid={`order-template-active-${template.id}`}
+                              checked={draft.active}
+                              onChange={(e) => handleDraftChange(template.id!, { active: e.target.checked })}
+                              className="rounded border-gray-300 dark:border-slate-600"
+                            />
+                            {t('orderTemplates.active')}
+                          </label>
+                        </>
+                      )}
+                      <button
+                        type="button"
+                        data-testid={`order-template-save-schedule-${template.id}`}
+                        onClick={() => handleSaveSchedule(template)}
+                        disabled={savingId === template.id}
+                        className="px-3 py-1.5 text-sm bg-gray-200 dark:bg-slate-600 text-gray-700 dark:text-slate-200 rounded-md hover:bg-gray-300 dark:hover:bg-slate-500 disabled:opacity-50 transition-colors"
+                      >
+                        {savingId === template.id ? t('orderTemplates.saving') : t('orderTemplates.saveSchedule')}
+                      </button>
+                    </div>
+                    <p className="mt-2 text-xs text-gray-500 dark:text-slate-400">{t('orderTemplates.scheduleHelp')}</p>
+                  </div>
+                );
+              })
+            )}
+          </div>
+
+          <ConfirmDialog
+            isOpen={deleteId !== null}
+            onClose={() => setDeleteId(null)}
+            onConfirm={handleDelete}
+            title={t('orderTemplates.deleteDialog.title')}
+            message={t('orderTemplates.deleteDialog.message')}
+            confirmText={t('orderTemplates.deleteDialog.confirm')}
+            cancelText={t('orderTemplates.deleteDialog.cancel')}
+            type="danger"
+            inline
+          />
+        </DialogPanel>
+      </div>
+    </Dialog>
+  );
+}
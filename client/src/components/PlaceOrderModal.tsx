@@ -1,12 +1,17 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useAuth, hasTeamAccess } from '../contexts/AuthContext';
 import { Dialog, DialogPanel, DialogTitle } from '@headlessui/react';
 import { XMarkIcon } from '@heroicons/react/24/outline';
 import { PlusIcon } from '@heroicons/react/20/solid';
 import { db } from '../firebase';
-import { collection, Timestamp, writeBatch, doc, query, where, getDocs } from 'firebase/firestore';
-import { OrderStatus, Department } from '../types';
+import { collection, Timestamp, doc, query, where, getDocs } from 'firebase/firestore';
+import { OrderStatus, Department, PriceTable, OrderTemplate } from '../types';
+import { fetchPriceTables, quoteSubOrder, toSubOrderPricing, estimateOrderTotal } from '../services/pricingService';
+import { createNumberedOrders, getOrderProductTypes } from '../services/orderService';
+import { buildPreflightReport } from '../services/preflightService';
+import { templateToSubOrders } from '../services/templateService';
+import { formatCurrency } from '../utils/helpers';
 import ClientAutocomplete from './ClientAutocomplete';
 import SubOrderItem, { SubOrderData } from './SubOrderItem';
 
@@ -23,9 +28,10 @@ interface PlaceOrderModalProps {
   open: boolean;
   onClose: () => void;
   onSuccess: (order?: any) => void;
+  template?: OrderTemplate | null; // Pre-fills the form from a saved order template
 }
 
-export default function PlaceOrderModal({ open, onClose, onSuccess }: PlaceOrderModalProps) {
+export default function PlaceOrderModal({ open, onClose, onSuccess, template }: PlaceOrderModalProps) {
   const { currentUser, userProfile } = useAuth();
   const { t } = useTranslation();
   const [loading, setLoading] = useState(false);
@@ -42,6 +48,9 @@ export default function PlaceOrderModal({ open, onClose, onSuccess }: PlaceOrder
   // Departments data
   const [departments, setDepartments] = useState<Department[]>([]);
 
+  // Price tables for live estimates
+  const [priceTables, setPriceTables] = useState<Record<string, PriceTable> | null>(null);
+
   // Clear errors and pre-fill phone when modal opens
   useEffect(() => {
     if (open) {
@@ -58,6 +67,8 @@ export default function PlaceOrderModal({ open, onClose, onSuccess }: PlaceOrder
       if (hasTeamAccess(userProfile) && currentUser) {
         fetchDepartments();
       }
+
+      fetchPriceTables().then(setPriceTables);
     }
   }, [open, currentUser, contactPhone, userProfile]);
 
@@ -113,6 +124,26 @@ export default function PlaceOrderModal({ open, onClose, onSuccess }: PlaceOrder
     }
   ]);
 
+  // Pre-fill the form from the template, with deliveries shifted to today
+  useEffect(() => {
+    if (open && template) {
+      setOrderName(template.orderName || template.name);
+      setSelectedClient({
+        id: template.clientId,
+        name: template.clientName,
+        email: template.clientEmail,
+        phone: template.clientPhone,
+        company: template.clientCompany
+      });
+      setSubOrders(templateToSubOrders(template));
+    }
+  }, [open, template]);
+
+  const orderEstimate = useMemo(
+    () => (priceTables ? estimateOrderTotal(priceTables, subOrders) : null),
+    [priceTables, subOrders]
+  );
+
   function handleSubOrderChange(id: string, field: string, value: any) {
     setSubOrders(prev =>
       prev.map(so => (so.id === id ? { ...so, [field]: value } : so))
@@ -251,9 +282,8 @@ export default function PlaceOrderModal({ open, onClose, onSuccess }: PlaceOrder
       setLoading(true);
       setError('');
 
-      // Use batch write for atomic operations
-      const batch = writeBatch(db);
       const timestamp = Timestamp.now();
+      const tables = priceTables || await fetchPriceTables();
 
       // Create parent order reference
       const ordersRef = collection(db, 'orders');
@@ -263,64 +293,72 @@ export default function PlaceOrderModal({ open, onClose, onSuccess }: PlaceOrder
       // Prioritize Firestore userProfile.displayName over Firebase Auth
       const userName = userProfile?.displayName || currentUser.displayName || currentUser.email || currentUser.phoneNumber || '';
 
-      const orderData = {
-        ...(isTeamMember && orderName.trim() ? { orderName: orderName.trim() } : {}),
-        ...clientData,
-        userId: clientAuthUid,
-        userName: userName,
-        userEmail: currentUser.email,
-        status: isTeamMember
-          ? OrderStatus.PENDING
-          : OrderStatus.PENDING_CONFIRMATION,
-        createdAt: timestamp,
-        updatedAt: timestamp
-      };
-
-      batch.set(orderRef, orderData);
-
-      // Create sub-orders in subcollection
-      subOrders.forEach((so) => {
-        const subOrderRef = doc(collection(db, 'orders', orderRef.id, 'subOrders'));
-        const subOrderData = {
-          userId: clientAuthUid,  // Store userId for security rules
-          productType: so.productType?.id || '',
-          productTypeName: so.productType?.name || '',
-          productTypeCustom: so.productType?.isCustom || false,
-          quantity: parseInt(so.quantity),
-          length: so.length ? parseFloat(so.length) : null,
-          width: so.width ? parseFloat(so.width) : null,
-          cmp: so.cmp ? parseFloat(so.cmp) : null,
-          description: so.description,
-          designFile: so.designFile || '',
-          designFilePath: so.designFilePath || '',
-          deliveryTime: so.deliveryTime || null,
-          notes: so.notes || '',
-          departmentId: so.departmentId || null,
-          departmentName: so.departmentName || null,
-          status: OrderStatus.PENDING,
+      // The order, its sub-orders and the first feed entry are written atomically with the order number
+      const createdOrder = await createNumberedOrders(1, (transaction, [orderNumber]) => {
+        const orderData = {
+          orderNumber,
+          productTypes: getOrderProductTypes(subOrders),
+          ...(isTeamMember && orderName.trim() ? { orderName: orderName.trim() } : {}),
+          ...clientData,
+          userId: clientAuthUid,
+          userName: userName,
+          userEmail: currentUser.email,
+          status: isTeamMember
+            ? OrderStatus.PENDING
+            : OrderStatus.PENDING_CONFIRMATION,
           createdAt: timestamp,
           updatedAt: timestamp
         };
-        batch.set(subOrderRef, subOrderData);
-      });
 
-      // Create initial order update
-      const updateRef = doc(collection(db, 'orderUpdates'));
-      batch.set(updateRef, {
-        orderId: orderRef.id,
-        userId: currentUser.uid,
-        userName: userName,
-        userEmail: currentUser.email,
-        text: hasTeamAccess(userProfile)
-          ? t('dashboard.orderModal.orderCreatedByTeam')
-          : t('dashboard.orderModal.orderCreatedByClient'),
-        isSystem: true,
-        createdAt: timestamp
+        transaction.set(orderRef, orderData);
+
+        // Create sub-orders in subcollection
+        subOrders.forEach((so) => {
+          const subOrderRef = doc(collection(db, 'orders', orderRef.id, 'subOrders'));
+          const subOrderData = {
+            userId: clientAuthUid,  // Store userId for security rules
+            productType: so.productType?.id || '',
+            productTypeName: so.productType?.name || '',
+            productTypeCustom: so.productType?.isCustom || false,
+            quantity: parseInt(so.quantity),
+            length: so.length ? parseFloat(so.length) : null,
+            width: so.width ? parseFloat(so.width) : null,
+            cmp: so.cmp ? parseFloat(so.cmp) : null,
+            ...toSubOrderPricing(quoteSubOrder(tables, so.productType?.id, so)),
+            description: so.description,
+            designFile: so.designFile || '',
+            designFilePath: so.designFilePath || '',
+            mockupFile: so.mockupFile || '',
+            mockupFilePath: so.mockupFilePath || '',
+            preflight: so.designFile && so.designInfo ? buildPreflightReport(so.designInfo, so.length, so.width) : null,
+            deliveryTime: so.deliveryTime || null,
+            notes: so.notes || '',
+            departmentId: so.departmentId || null,
+            departmentName: so.departmentName || null,
+            status: OrderStatus.PENDING,
+            createdAt: timestamp,
+            updatedAt: timestamp
+          };
+          transaction.set(subOrderRef, subOrderData);
+        });
+
+        // Create initial order update
+        const updateRef = doc(collection(db, 'orderUpdates'));
+        transaction.set(updateRef, {
+          orderId: orderRef.id,
+          userId: currentUser.uid,
+          userName: userName,
+          userEmail: currentUser.email,
+          text: hasTeamAccess(userProfile)
+            ? t('dashboard.orderModal.orderCreatedByTeam')
+            : t('dashboard.orderModal.orderCreatedByClient'),
+          isSystem: true,
+          createdAt: timestamp
+        });
+
+        return orderData;
       });
 
-      // Commit all writes atomically
-      await batch.commit();
-
       // Reset form
       setOrderName('');
       setSelectedClient(null);
@@ -340,7 +378,7 @@ export default function PlaceOrderModal({ open, onClose, onSuccess }: PlaceOrder
         }
       ]);
 
-      onSuccess({ id: orderRef.id, ...orderData });
+      onSuccess({ id: orderRef.id, ...createdOrder });
       onClose();
     } catch (err: any) {
       console.error('Error creating order:', err);
@@ -541,10 +579,26 @@ export default function PlaceOrderModal({ open, onClose, onSuccess }: PlaceOrder
                       onRemove={handleRemoveSubOrder}
                       canRemove={subOrders.length > 1}
                       departments={departments}
+                      priceTables={priceTables || undefined}
                     />
                   </div>
                 ))}
               </div>
+
+              {/* Order Estimate */}
+              {orderEstimate && (
+                <div data-testid="admin-place-order-estimate" className="mt-4 flex items-center justify-between p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-md">
+                  <div>
+                    <p className="text-sm font-semibold text-gray-900 dark:text-white">{t('pricing.orderEstimate')}</p>
+                    {orderEstimate.unpricedCount > 0 && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {t('pricing.unpricedItems', { count: orderEstimate.unpricedCount })}
+                      </p>
+                    )}
+                  </div>
+                  <span className="text-base font-semibold text-gray-900 dark:text-white">{formatCurrency(orderEstimate.total)}</span>
+                </div>
+              )}
             </div>
           </form>
         </DialogPanel>
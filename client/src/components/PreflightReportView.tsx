@@ -0,0 +1,51 @@
+import { useTranslation } from 'react-i18next';
+import { CheckCircleIcon, ExclamationTriangleIcon, XCircleIcon } from '@heroicons/react/20/solid';
+import { PreflightReport, PreflightStatus, PreflightStatusType } from '../types';
+
+interface PreflightReportViewProps {
+  report: PreflightReport;
+  testId?: string;
+}
+
+const statusIcons: Record<PreflightStatusType, { icon: typeof CheckCircleIcon; className: string }> = {
+  [PreflightStatus.PASS]: { icon: CheckCircleIcon, className: 'text-green-600 dark:text-green-400' },
+  [PreflightStatus.WARN]: { icon: ExclamationTriangleIcon, className: 'text-yellow-600 dark:text-yellow-400' },
+  [PreflightStatus.FAIL]: { icon: XCircleIcon, className: 'text-red-600 dark:text-red-400' }
+};
+
+const statusBadges: Record<PreflightStatusType, string> = {
+  [PreflightStatus.PASS]: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300',
+  [PreflightStatus.WARN]: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300',
+  [PreflightStatus.FAIL]: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+};
+
+export default function PreflightReportView({ report, testId }: PreflightReportViewProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div data-testid={testId} className="text-sm bg-white dark:bg-slate-800 rounded-md p-3 border border-gray-200 dark:border-slate-600">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <span className="font-medium text-gray-900 dark:text-white truncate">
+          {t('preflight.title')} - {report.fileName}
+        </span>
+        <span className={`px-2 py-0.5 text-xs font-semibold rounded-full whitespace-nowrap ${statusBadges[report.status]}`}>
+          {t(`preflight.status.${report.status}`)}
+        </span>
+      </div>
+      <ul className="space-y-1">
+        {report.items.map(item => {
+          const { icon: Icon, className } = statusIcons[item.status];
+          return (
+            <li key={item.check} className="flex items-start gap-2">
+              <Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${className}`} />
+              <span className="text-gray-700 dark:text-slate-300">
+                <span className="font-medium">{t(`preflight.checks.${item.check}`)}:</span>{' '}
+                {t(`preflight.messages.${item.message}`, item.params)}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
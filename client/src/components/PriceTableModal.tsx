@@ -0,0 +1,293 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Dialog, DialogPanel, DialogTitle } from '@headlessui/react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '../contexts/AuthContext';
+import { savePriceTable } from '../services/pricingService';
+import { showSuccess, showError } from '../services/notificationService';
+import { PricingMode, PricingModeType, PriceTable } from '../types';
+import { MAX_QUANTITY_TIERS } from '../constants';
+
+interface PriceTableModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+  productType: { id: string; name: string } | null;
+  priceTable: PriceTable | null;
+}
+
+interface TierFormRow {
+  minQuantity: string;
+  discountPercent: string;
+}
+
+export default function PriceTableModal({ isOpen, onClose, onSaved, productType, priceTable }: PriceTableModalProps) {
+  const { t } = useTranslation();
+  const { currentUser } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const [mode, setMode] = useState<PricingModeType>(PricingMode.UNIT);
+  const [basePrice, setBasePrice] = useState('');
+  const [areaRate, setAreaRate] = useState('');
+  const [setupFee, setSetupFee] = useState('');
+  const [tiers, setTiers] = useState<TierFormRow[]>([]);
+
+  // Load the current table into the form whenever the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setMode(priceTable?.mode || PricingMode.UNIT);
+      setBasePrice(priceTable ? String(priceTable.basePrice) : '');
+      setAreaRate(priceTable?.areaRate ? String(priceTable.areaRate) : '');
+      setSetupFee(priceTable?.setupFee ? String(priceTable.setupFee) : '');
+      setTiers((priceTable?.tiers || []).map(tier => ({
+        minQuantity: String(tier.minQuantity),
+        discountPercent: String(tier.discountPercent)
+      })));
+    }
+  }, [isOpen, priceTable]);
+
+  function handleTierChange(index: number, field: keyof TierFormRow, value: string) {
+    setTiers(prev => prev.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)));
+  }
+
+  function handleAddTier() {
+    if (tiers.length >= MAX_QUANTITY_TIERS) return;
+    setTiers(prev => [...prev, { minQuantity: '', discountPercent: '' }]);
+  }
+
+  function handleRemoveTier(index: number) {
+    setTiers(prev => prev.filter((_, i) => i !== index));
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!productType || !currentUser) return;
+
+    const base = parseFloat(basePrice);
+    if (isNaN(base) || base < 0) {
+      showError(t('pricing.modal.errorBasePrice'));
+      return;
+    }
+
+    const rate = parseFloat(areaRate);
+    if (mode === PricingMode.AREA && (isNaN(rate) || rate <= 0)) {
+      showError(t('pricing.modal.errorAreaRate'));
+      return;
+    }
+
+    const parsedTiers = tiers.map(tier => ({
+      minQuantity: parseInt(tier.minQuantity),
+      discountPercent: parseFloat(tier.discountPercent)
+    }));
+    const invalidTier = parsedTiers.some(tier =>
+      isNaN(tier.minQuantity) || tier.minQuantity < 1 ||
+      isNaN(tier.discountPercent) || tier.discountPercent < 0 || tier.discountPercent >= 100
+    );
+    if (invalidTier) {
+      showError(t('pricing.modal.errorTier'));
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const table: PriceTable = {
+        productTypeName: productType.name,
+        mode,
+        basePrice: base,
+        setupFee: parseFloat(setupFee) || 0,
+        tiers: parsedTiers
+      };
+      if (mode === PricingMode.AREA) {
+        table.areaRate = rate;
+      }
+
+      await savePriceTable(productType.id, table, currentUser.uid);
+
+      showSuccess(t('pricing.modal.saveSuccess'));
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('Error saving price table:', error);
+      showError(t('pricing.modal.errorFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function handleClose() {
+    if (!loading) {
+      onClose();
+    }
+  }
+
+  const inputClassName = 'w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors';
+
+  return (
+    <Dialog open={isOpen} onClose={handleClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30 dark:bg-black/50" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <DialogPanel className="mx-auto max-w-lg w-full bg-white dark:bg-slate-800 rounded-xl shadow-xl">
+          <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700">
+            <DialogTitle className="text-xl font-semibold text-slate-900 dark:text-white">
+              {t('pricing.modal.title', { productType: productType?.name || '' })}
+            </DialogTitle>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            {/* Pricing Mode */}
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                {t('pricing.modal.mode')}
+              </label>
+              <select
+                data-testid="price-table-mode"
+                value={mode}
+                onChange={(e) => setMode(e.target.value as PricingModeType)}
+                className={inputClassName}
+                disabled={loading}
+              >
+                <option value={PricingMode.UNIT}>{t('pricing.modes.unit')}</option>
+                <option value={PricingMode.AREA}>{t('pricing.modes.area')}</option>
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {/* Base Price */}
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                  {mode === PricingMode.AREA ? t('pricing.modal.minimumPrice') : t('pricing.modal.basePrice')} <span className="text-red-500">*</span>
+                </label>
+                <input
+                  data-testid="price-table-base-price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={basePrice}
+                  onChange={(e) => setBasePrice(e.target.value)}
+                  className={inputClassName}
+                  disabled={loading}
+                  required
+                />
+              </div>
+
+              {/* Setup Fee */}
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                  {t('pricing.setupFee')}
+                </label>
+                <input
+                  data-testid="price-table-setup-fee"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={setupFee}
+                  onChange={(e) => setSetupFee(e.target.value)}
+                  className={inputClassName}
+                  disabled={loading}
+                />
+              </div>
+            </div>
+
+            {/* Area Rate */}
+            {mode === PricingMode.AREA && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                  {t('pricing.modal.areaRate')} <span className="text-red-500">*</span>
+                </label>
+                <input
+                  data-testid="price-table-area-rate"
+                  type="number"
+                  min="0"
+                  step="0.0001"
+                  value={areaRate}
+                  onChange={(e) => setAreaRate(e.target.value)}
+                  className={inputClassName}
+                  disabled={loading}
+                  required
+                />
+                <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">{t('pricing.modal.areaRateHint')}</p>
+              </div>
+            )}
+
+            {/* Quantity Tiers */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                  {t('pricing.modal.tiers')}
+                </label>
+                <button
+                  type="button"
+                  onClick={handleAddTier}
+                  disabled={loading || tiers.length >= MAX_QUANTITY_TIERS}
+                  className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 disabled:opacity-50"
+                >
+                  {t('pricing.modal.addTier')}
+                </button>
+              </div>
+              {tiers.length === 0 ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400">{t('pricing.modal.noTiers')}</p>
+              ) : (
+                <div className="space-y-2">
+                  {tiers.map((tier, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min="1"
+                        value={tier.minQuantity}
+                        onChange={(e) => handleTierChange(index, 'minQuantity', e.target.value)}
+                        placeholder={t('pricing.modal.minQuantity')}
+                        className={inputClassName}
+                        disabled={loading}
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        max="99"
+                        step="0.1"
+                        value={tier.discountPercent}
+                        onChange={(e) => handleTierChange(index, 'discountPercent', e.target.value)}
+                        placeholder={t('pricing.modal.discountPercent')}
+                        className={inputClassName}
+                        disabled={loading}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveTier(index)}
+                        disabled={loading}
+                        className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md transition-colors"
+                        title={t('common.delete')}
+                      >
+                        <XMarkIcon className="w-5 h-5" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Actions */}
+            <div className="flex justify-end gap-3 pt-4">
+              <button
+                type="button"
+                onClick={handleClose}
+                disabled={loading}
+                className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-50"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                data-testid="price-table-save"
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-cyan-500 rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50"
+              >
+                {loading ? t('common.saving') : t('common.save')}
+              </button>
+            </div>
+          </form>
+        </DialogPanel>
+      </div>
+    </Dialog>
+  );
+}
@@ -12,6 +12,7 @@ interface ProductTypeOption {
   name: string;
   description?: string;
   isCustom?: boolean;
+  mockupTemplate?: string;
 }
 
 interface ProductTypeAutocompleteProps {
@@ -37,7 +38,8 @@ export default function ProductTypeAutocomplete({
   // New product type form state
   const [newProductType, setNewProductType] = useState({
     name: '',
-    description: ''
+    description: '',
+    mockupTemplate: ProductType.OTHER as string
   });
 
   // Default product types
@@ -197,6 +199,7 @@ export default function ProductTypeAutocomplete({
       const productTypeDoc = await addDoc(productTypesRef, {
         name: newProductType.name,
         description: newProductType.description,
+        mockupTemplate: newProductType.mockupTemplate,
         userId: currentUser.uid,
         createdAt: Timestamp.now(),
         updatedAt: Timestamp.now()
@@ -206,6 +209,7 @@ export default function ProductTypeAutocomplete({
         id: productTypeDoc.id,
         name: newProductType.name,
         description: newProductType.description,
+        mockupTemplate: newProductType.mockupTemplate,
         isCustom: true
       };
 
@@ -219,7 +223,8 @@ export default function ProductTypeAutocomplete({
       // Reset form
       setNewProductType({
         name: '',
-        description: ''
+        description: '',
+        mockupTemplate: ProductType.OTHER
       });
       setShowAddForm(false);
       setShowDropdown(false);
@@ -360,12 +365,27 @@ export default function ProductTypeAutocomplete({
                       />
                     </div>
 
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        {t('productType.mockupTemplate')}
+                      </label>
+                      <select
+                        value={newProductType.mockupTemplate}
+                        onChange={(e) => setNewProductType({ ...newProductType, mockupTemplate: e.target.value })}
+                        className="block w-full rounded-md bg-white dark:bg-slate-700 px-3 py-2 text-sm text-gray-900 dark:text-white outline-1 -outline-offset-1 outline-gray-300 dark:outline-slate-600 focus:outline-2 focus:-outline-offset-2 focus:outline-blue-500 transition-colors"
+                      >
+                        {Object.values(ProductType).map(type => (
+                          <option key={type} value={type}>{t(`productType.${type}`)}</option>
+                        ))}
+                      </select>
+                    </div>
+
                     <div className="flex gap-2 pt-2">
                       <button
                         type="button"
                         onClick={() => {
                           setShowAddForm(false);
-                          setNewProductType({ name: '', description: '' });
+                          setNewProductType({ name: '', description: '', mockupTemplate: ProductType.OTHER });
                         }}
                         className="flex-1 px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md hover:bg-gray-50 dark:hover:bg-slate-600 transition-colors"
                       >
@@ -1,9 +1,17 @@
-import { useState, memo } from 'react';
+import { useState, useMemo, useRef, memo } from 'react';
 import { useTranslation } from 'react-i18next';
-import { PhotoIcon, TrashIcon } from '@heroicons/react/24/solid';
+import { PhotoIcon, TrashIcon, CubeIcon } from '@heroicons/react/24/solid';
 import ProductTypeAutocomplete from './ProductTypeAutocomplete';
-import { uploadFile } from '../services/storageService';
+import MockupEditorModal from './MockupEditorModal';
+import PreflightReportView from './PreflightReportView';
+import UploadProgressBar from './UploadProgressBar';
+import { uploadFile, startUpload, UploadTask, UploadError, UploadErrorReason } from '../services/storageService';
 import { useAuth, hasTeamAccess } from '../contexts/AuthContext';
+import { quoteSubOrder } from '../services/pricingService';
+import { analyzeDesignFile, buildPreflightReport } from '../services/preflightService';
+import { formatCurrency } from '../utils/helpers';
+import { ALLOWED_UPLOAD_ACCEPT } from '../constants';
+import { Department, DesignFileInfo, PriceSource, PriceTable } from '../types';
 
 interface ProductTypeOption {
   id: string;
@@ -22,6 +30,9 @@ export interface SubOrderData {
   description: string;
   designFile: string;
   designFilePath?: string;
+  designInfo?: DesignFileInfo | null; // Preflight facts of an uploaded file
+  mockupFile?: string;
+  mockupFilePath?: string;
   deliveryTime: string;
   notes: string;
   departmentId?: string;
@@ -30,13 +41,6 @@ export interface SubOrderData {
   status?: string;
 }
 
-interface Department {
-  id: string;
-  name: string;
-  managerId: string;
-  managerName?: string;
-}
-
 interface SubOrderItemProps {
   subOrder: SubOrderData;
   index: number;
@@ -44,40 +48,102 @@ interface SubOrderItemProps {
   onRemove: (id: string) => void;
   canRemove: boolean;
   departments?: Department[];
+  priceTables?: Record<string, PriceTable>;
 }
 
-function SubOrderItem({ subOrder, index, onChange, onRemove, canRemove, departments = [] }: SubOrderItemProps) {
+function SubOrderItem({ subOrder, index, onChange, onRemove, canRemove, departments = [], priceTables }: SubOrderItemProps) {
   const { t } = useTranslation();
   const { currentUser, userProfile } = useAuth();
   const [uploadingFile, setUploadingFile] = useState(false);
   const [uploadError, setUploadError] = useState('');
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [uploadPaused, setUploadPaused] = useState(false);
+  const [uploadRetry, setUploadRetry] = useState<{ attempt: number; maxRetries: number } | null>(null);
+  const [failedFile, setFailedFile] = useState<File | null>(null);
+  const uploadRef = useRef<UploadTask | null>(null);
+  const [showMockupEditor, setShowMockupEditor] = useState(false);
+
+  // Live price estimate from the product's price table (or the manual unit cost)
+  const priceQuote = useMemo(() => {
+    if (!priceTables) return null;
+    return quoteSubOrder(priceTables, subOrder.productType?.id, subOrder);
+  }, [priceTables, subOrder]);
+
+  // Print-readiness of the uploaded design at the entered print size
+  const preflightReport = useMemo(
+    () => (subOrder.designInfo ? buildPreflightReport(subOrder.designInfo, subOrder.length, subOrder.width) : null),
+    [subOrder.designInfo, subOrder.length, subOrder.width]
+  );
 
   async function handleFileUpload(e: React.ChangeEvent<HTMLInputElement>) {
     const file = e.target.files?.[0];
     if (!file || !currentUser) return;
 
-    // Check file size (max 10MB)
-    if (file.size > 10 * 1024 * 1024) {
-      setUploadError(t('placeOrder.fileSizeError'));
-      return;
-    }
+    // Allow picking the same file again after a failed or cancelled upload
+    e.target.value = '';
+    await uploadDesign(file);
+  }
+
+  async function uploadDesign(file: File) {
+    if (!currentUser) return;
 
     try {
       setUploadingFile(true);
       setUploadError('');
+      setFailedFile(null);
+      setUploadProgress(0);
+      setUploadPaused(false);
+      setUploadRetry(null);
+
+      const upload = startUpload(file, 'designs', currentUser.uid, {
+        onProgress: (progress) => {
+          setUploadProgress(progress.percent);
+          setUploadRetry(null);
+        },
+        onRetry: (attempt, maxRetries) => setUploadRetry({ attempt, maxRetries })
+      });
+      uploadRef.current = upload;
 
-      const result = await uploadFile(file, 'designs', currentUser.uid);
+      const [result, designInfo] = await Promise.all([upload.promise, analyzeDesignFile(file)]);
 
       onChange(subOrder.id, 'designFile', result.url);
       onChange(subOrder.id, 'designFilePath', result.path);
+      onChange(subOrder.id, 'designInfo', designInfo);
     } catch (error) {
-      console.error('Error uploading file:', error);
-      setUploadError(t('placeOrder.uploadError'));
+      const uploadError = error instanceof UploadError ? error : new UploadError(UploadErrorReason.UNKNOWN, 'Failed to upload file');
+      if (uploadError.reason === UploadErrorReason.CANCELED) return;
+
+      setUploadError(t(`upload.errors.${uploadError.reason}`, uploadError.params));
+      // Refused files would only be refused again
+      if (uploadError.reason !== UploadErrorReason.FILE_TYPE && uploadError.reason !== UploadErrorReason.FILE_TOO_LARGE) {
+        setFailedFile(file);
+      }
     } finally {
+      uploadRef.current = null;
       setUploadingFile(false);
     }
   }
 
+  function handlePauseUpload() {
+    if (uploadRef.current?.pause()) {
+      setUploadPaused(true);
+    }
+  }
+
+  function handleResumeUpload() {
+    if (uploadRef.current?.resume()) {
+      setUploadPaused(false);
+    }
+  }
+
+  async function handleMockupExport(file: File) {
+    if (!currentUser) return;
+
+    const result = await uploadFile(file, 'designs', currentUser.uid);
+    onChange(subOrder.id, 'mockupFile', result.url);
+    onChange(subOrder.id, 'mockupFilePath', result.path);
+  }
+
   function handleChange(field: string, value: any) {
     onChange(subOrder.id, field, value);
   }
@@ -201,6 +267,47 @@ function SubOrderItem({ subOrder, index, onChange, onRemove, canRemove, departme
           </div>
         </div>
 
+        {/* Price Estimate */}
+        {priceTables && (
+          <div data-testid={`sub-order-price-estimate-${index}`} className="p-3 bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md text-sm">
+            {priceQuote ? (
+              <div className="space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-slate-400">{t('pricing.unitPrice')}:</span>
+                  <span className="text-gray-900 dark:text-white font-medium">{formatCurrency(priceQuote.unitPrice)}</span>
+                </div>
+                {priceQuote.printAreaCm2 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-slate-400">{t('pricing.printArea')}:</span>
+                    <span className="text-gray-900 dark:text-white">{priceQuote.printAreaCm2} cm²</span>
+                  </div>
+                )}
+                {priceQuote.discountPercent > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-slate-400">{t('pricing.quantityDiscount')}:</span>
+                    <span className="text-green-600 dark:text-green-400">-{priceQuote.discountPercent}%</span>
+                  </div>
+                )}
+                {priceQuote.setupFee > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-slate-400">{t('pricing.setupFee')}:</span>
+                    <span className="text-gray-900 dark:text-white">{formatCurrency(priceQuote.setupFee)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between pt-1 border-t border-gray-200 dark:border-slate-600">
+                  <span className="text-gray-900 dark:text-white font-semibold">{t('pricing.lineTotal')}:</span>
+                  <span className="text-gray-900 dark:text-white font-semibold">{formatCurrency(priceQuote.lineTotal)}</span>
+                </div>
+                {priceQuote.source === PriceSource.MANUAL && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{t('pricing.manualPriceHint')}</p>
+                )}
+              </div>
+            ) : (
+              <p className="text-gray-500 dark:text-gray-400">{t('pricing.noEstimate')}</p>
+            )}
+          </div>
+        )}
+
         {/* Description */}
         <div>
           <label className="block text-sm font-medium text-gray-900 dark:text-white mb-1">
@@ -240,6 +347,9 @@ function SubOrderItem({ subOrder, index, onChange, onRemove, canRemove, departme
                 onClick={() => {
                   handleChange('designFile', '');
                   handleChange('designFilePath', '');
+                  handleChange('designInfo', null);
+                  handleChange('mockupFile', '');
+                  handleChange('mockupFilePath', '');
                 }}
                 className="ml-2 text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300"
               >
@@ -265,10 +375,24 @@ function SubOrderItem({ subOrder, index, onChange, onRemove, canRemove, departme
                   className="hidden"
                   onChange={handleFileUpload}
                   disabled={uploadingFile}
-                  accept="image/*,.pdf"
+                  accept={ALLOWED_UPLOAD_ACCEPT}
                 />
               </label>
 
+              {uploadingFile && (
+                <div className="mt-2">
+                  <UploadProgressBar
+                    testId={`sub-order-upload-progress-${index}`}
+                    percent={uploadProgress}
+                    paused={uploadPaused}
+                    retry={uploadRetry}
+                    onPause={handlePauseUpload}
+                    onResume={handleResumeUpload}
+                    onCancel={() => uploadRef.current?.cancel()}
+                  />
+                </div>
+              )}
+
               {/* URL input as alternative */}
               <div className="mt-2">
                 <input
@@ -283,7 +407,49 @@ function SubOrderItem({ subOrder, index, onChange, onRemove, canRemove, departme
           )}
 
           {uploadError && (
-            <p className="mt-1 text-sm text-red-600 dark:text-red-400">{uploadError}</p>
+            <div className="mt-1 flex items-center gap-3">
+              <p className="text-sm text-red-600 dark:text-red-400">{uploadError}</p>
+              {failedFile && (
+                <button
+                  type="button"
+                  onClick={() => uploadDesign(failedFile)}
+                  className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline whitespace-nowrap"
+                >
+                  {t('upload.retry')}
+                </button>
+              )}
+            </div>
+          )}
+
+          {subOrder.designFile && preflightReport && (
+            <div className="mt-2">
+              <PreflightReportView report={preflightReport} testId={`sub-order-preflight-${index}`} />
+            </div>
+          )}
+
+          {/* Preview of the design on the product */}
+          {subOrder.designFile && (
+            <div className="mt-2 flex flex-wrap items-center gap-3">
+              <button
+                type="button"
+                data-testid={`sub-order-mockup-button-${index}`}
+                onClick={() => setShowMockupEditor(true)}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md transition-colors"
+              >
+                <CubeIcon className="w-4 h-4" />
+                {subOrder.mockupFile ? t('mockup.edit') : t('mockup.open')}
+              </button>
+              {subOrder.mockupFile && (
+                <a
+                  href={subOrder.mockupFile}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  {t('mockup.view')}
+                </a>
+              )}
+            </div>
           )}
         </div>
 
@@ -316,6 +482,16 @@ function SubOrderItem({ subOrder, index, onChange, onRemove, canRemove, departme
           />
         </div>
       </div>
+
+      <MockupEditorModal
+        isOpen={showMockupEditor}
+        onClose={() => setShowMockupEditor(false)}
+        onExport={handleMockupExport}
+        designURL={subOrder.designFile}
+        productTypeId={subOrder.productType?.id}
+        productName={subOrder.productType?.name}
+        submitLabel={t('mockup.saveToOrder')}
+      />
     </div>
   );
 }
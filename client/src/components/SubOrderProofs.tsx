@@ -0,0 +1,270 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAuth, hasTeamAccess } from '../contexts/AuthContext';
+import { fetchSubOrderProofs, uploadProof, decideProof } from '../services/proofService';
+import { showSuccess, showError } from '../services/notificationService';
+import MockupEditorModal from './MockupEditorModal';
+import { formatDate } from '../utils/dateUtils';
+import { Proof, ProofStatus, ProofStatusType } from '../types';
+
+interface SubOrderProofsProps {
+  order: any;
+  subOrder: any;
+  onProofChanged: (subOrderId: string, changes: { proofVersion: number; proofStatus: ProofStatusType }) => void;
+}
+
+function formatDateTime(timestamp: any): string {
+  const date = timestamp?.toDate?.();
+  if (!date) return '';
+  return `${formatDate(date)} ${date.toLocaleTimeString('ro-RO', { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+export default function SubOrderProofs({ order, subOrder, onProofChanged }: SubOrderProofsProps) {
+  const { t } = useTranslation();
+  const { currentUser, userProfile } = useAuth();
+  const [proofs, setProofs] = useState<Proof[]>([]);
+  const [file, setFile] = useState<File | null>(null);
+  const [note, setNote] = useState('');
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [showMockupEditor, setShowMockupEditor] = useState(false);
+
+  const isTeam = hasTeamAccess(userProfile);
+  const latest = proofs[proofs.length - 1];
+  // The order owner decides; for clients without an account that is the team member who placed it
+  const canDecide = latest?.status === ProofStatus.PENDING && order.userId === currentUser?.uid;
+
+  useEffect(() => {
+    if (order?.id && subOrder?.id && currentUser) {
+      fetchProofs();
+    }
+  }, [order?.id, subOrder?.id, subOrder?.proofVersion, currentUser]);
+
+  async function fetchProofs() {
+    try {
+      setProofs(await fetchSubOrderProofs(order.id, subOrder.id, isTeam ? undefined : currentUser?.uid));
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error fetching proofs:', error);
+      }
+      setProofs([]);
+    }
+  }
+
+  function getActor() {
+    return {
+      uid: currentUser!.uid,
+      name: userProfile?.displayName || currentUser!.displayName || currentUser!.email || '',
+      email: currentUser!.email
+    };
+  }
+
+  async function submitProof(proofFile: File) {
+    const version = await uploadProof(order, subOrder.id, proofFile, note.trim(), getActor(), (v) =>
+      t('proofs.feedUploaded', { version: v, product: subOrder.productTypeName || subOrder.productType })
+    );
+    showSuccess(t('proofs.uploadSuccess', { version }));
+    setFile(null);
+    setNote('');
+    onProofChanged(subOrder.id, { proofVersion: version, proofStatus: ProofStatus.PENDING });
+  }
+
+  async function handleUpload(e: React.FormEvent) {
+    e.preventDefault();
+    if (!file || !currentUser) return;
+
+    try {
+      setSaving(true);
+      await submitProof(file);
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error uploading proof:', error);
+      }
+      showError(t('proofs.uploadError'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDecision(status: typeof ProofStatus.APPROVED | typeof ProofStatus.CHANGES_REQUESTED) {
+    if (!latest || !currentUser) return;
+
+    const trimmedComment = comment.trim();
+    if (status === ProofStatus.CHANGES_REQUESTED && !trimmedComment) {
+      showError(t('proofs.errorCommentRequired'));
+      return;
+    }
+
+    const product = subOrder.productTypeName || subOrder.productType;
+    const feedText = status === ProofStatus.APPROVED
+      ? t('proofs.feedApproved', { version: latest.version, product })
+      : t('proofs.feedChangesRequested', { version: latest.version, product, comment: trimmedComment });
+
+    try {
+      setSaving(true);
+      await decideProof(order, latest, { status, comment: trimmedComment }, getActor(), feedText);
+      showSuccess(status === ProofStatus.APPROVED ? t('proofs.approveSuccess') : t('proofs.changesSuccess'));
+      setComment('');
+      onProofChanged(subOrder.id, { proofVersion: latest.version, proofStatus: status });
+      await fetchProofs();
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error deciding proof:', error);
+      }
+      showError(t('proofs.decisionError'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function getProofStatusColor(status: ProofStatusType) {
+    const colors: Record<ProofStatusType, string> = {
+      [ProofStatus.PENDING]: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300',
+      [ProofStatus.APPROVED]: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300',
+      [ProofStatus.CHANGES_REQUESTED]: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+    };
+    return colors[status];
+  }
+
+  if (!isTeam && proofs.length === 0) {
+    return null;
+  }
+
+  const inputClassName = 'w-full px-3 py-2 text-sm bg-white dark:bg-slate-800 border border-gray-300 dark:border-slate-600 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors';
+
+  return (
+    <div data-testid={`sub-order-proofs-${subOrder.id}`} className="mt-4 pt-4 border-t border-gray-200 dark:border-slate-600">
+      <h6 className="text-xs font-semibold text-gray-700 dark:text-slate-300 mb-2 uppercase tracking-wide">
+        {t('proofs.title')}
+      </h6>
+
+      {proofs.length === 0 ? (
+        <p className="text-xs text-gray-500 dark:text-slate-400 mb-3">{t('proofs.none')}</p>
+      ) : (
+        <div className="space-y-2 mb-3">
+          {[...proofs].reverse().map(proof => (
+            <div key={proof.id} data-testid={`proof-version-${proof.version}`} className="text-sm bg-white dark:bg-slate-800 rounded-lg p-3 border border-gray-200 dark:border-slate-600">
+              <div className="flex items-center justify-between gap-2">
+                <a
+                  href={proof.fileURL}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-blue-600 dark:text-blue-400 hover:underline truncate"
+                >
+                  v{proof.version} - {proof.fileName}
+                </a>
+                <span className={`px-2 py-0.5 text-xs font-semibold rounded-full whitespace-nowrap ${getProofStatusColor(proof.status)}`}>
+                  {t(`proofs.status.${proof.status}`)}
+                </span>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">
+                {t('proofs.uploadedBy', { name: proof.uploadedByName, date: formatDateTime(proof.createdAt) })}
+              </p>
+              {proof.note && <p className="text-gray-700 dark:text-slate-300 mt-1 whitespace-pre-wrap">{proof.note}</p>}
+              {proof.decidedAt && (
+                <div className="mt-2 pt-2 border-t border-gray-100 dark:border-slate-700">
+                  <p className="text-xs text-gray-500 dark:text-slate-400">
+                    {t(proof.status === ProofStatus.APPROVED ? 'proofs.approvedBy' : 'proofs.changesRequestedBy', {
+                      name: proof.decidedByName,
+                      date: formatDateTime(proof.decidedAt)
+                    })}
+                  </p>
+                  {proof.decisionComment && (
+                    <p className="text-gray-700 dark:text-slate-300 mt-1 whitespace-pre-wrap">{proof.decisionComment}</p>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Client decision on the latest version */}
+      {canDecide && (
+        <div className="space-y-2 mb-3">
+          <textarea
+            data-testid={`proof-comment-${subOrder.id}`}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={t('proofs.commentPlaceholder')}
+            rows={2}
+            className={inputClassName}
+            disabled={saving}
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              data-testid={`proof-approve-${subOrder.id}`}
+              onClick={() => handleDecision(ProofStatus.APPROVED)}
+              disabled={saving}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {t('proofs.approve', { version: latest.version })}
+            </button>
+            <button
+              type="button"
+              data-testid={`proof-request-changes-${subOrder.id}`}
+              onClick={() => handleDecision(ProofStatus.CHANGES_REQUESTED)}
+              disabled={saving}
+              className="px-3 py-1.5 text-sm font-medium text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/30 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {t('proofs.requestChanges')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Team upload of the next version */}
+      {isTeam && (
+        <form onSubmit={handleUpload} className="space-y-2">
+          <input
+            type="file"
+            data-testid={`proof-file-input-${subOrder.id}`}
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+            className="block w-full text-sm text-gray-700 dark:text-slate-300"
+            disabled={saving}
+          />
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={t('proofs.notePlaceholder')}
+            className={inputClassName}
+            disabled={saving}
+          />
+          <button
+            type="submit"
+            data-testid={`proof-upload-button-${subOrder.id}`}
+            disabled={saving || !file}
+            className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-slate-200 rounded-lg hover:bg-gray-200 dark:hover:bg-slate-600 disabled:opacity-50 transition-colors"
+          >
+            {saving ? t('proofs.uploading') : t('proofs.upload', { version: (subOrder.proofVersion || 0) + 1 })}
+          </button>
+          {subOrder.designFile && (
+            <button
+              type="button"
+              data-testid={`proof-mockup-button-${subOrder.id}`}
+              onClick={() => setShowMockupEditor(true)}
+              disabled={saving}
+              className="ml-2 px-3 py-1.5 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg disabled:opacity-50 transition-colors"
+            >
+              {t('mockup.createProof')}
+            </button>
+          )}
+        </form>
+      )}
+
+      {isTeam && subOrder.designFile && (
+        <MockupEditorModal
+          isOpen={showMockupEditor}
+          onClose={() => setShowMockupEditor(false)}
+          onExport={submitProof}
+          designURL={subOrder.designFile}
+          productTypeId={subOrder.productType}
+          productName={subOrder.productTypeName}
+          submitLabel={t('mockup.attachAsProof', { version: (subOrder.proofVersion || 0) + 1 })}
+        />
+      )}
+    </div>
+  );
+}
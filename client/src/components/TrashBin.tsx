@@ -0,0 +1,242 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ArrowUturnLeftIcon, TrashIcon } from '@heroicons/react/20/solid';
+import ConfirmDialog from './ConfirmDialog';
+import {
+  fetchTrashItems,
+  restoreFromTrash,
+  purgeFromTrash,
+  getTrashRetentionDays,
+  saveTrashRetentionDays,
+  getPurgeDate
+} from '../services/trashService';
+import { showSuccess, showError } from '../services/notificationService';
+import { TrashItem, TrashItemType, TrashItemTypeType } from '../types';
+import { formatDate } from '../utils/dateUtils';
+
+const typeBadges: Record<TrashItemTypeType, string> = {
+  [TrashItemType.ORDER]: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300',
+  [TrashItemType.CLIENT]: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300',
+  [TrashItemType.SUPPLIER]: 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300',
+  [TrashItemType.SUPPLIER_ORDER]: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300',
+  [TrashItemType.DEPARTMENT]: 'bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-slate-300'
+};
+
+export default function TrashBin() {
+  const { t } = useTranslation();
+  const [items, setItems] = useState<TrashItem[] | null>(null);
+  const [typeFilter, setTypeFilter] = useState<TrashItemTypeType | ''>('');
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [retentionInput, setRetentionInput] = useState('');
+  const [savingRetention, setSavingRetention] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [purgeId, setPurgeId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadItems();
+    getTrashRetentionDays().then(days => {
+      setRetentionDays(days);
+      setRetentionInput(String(days));
+    });
+  }, []);
+
+  async function loadItems() {
+    try {
+      setItems(await fetchTrashItems());
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error fetching trash:', error);
+      }
+      showError(t('trash.errors.load'));
+      setItems([]);
+    }
+  }
+
+  async function handleSaveRetention(e: React.FormEvent) {
+    e.preventDefault();
+    const days = Number(retentionInput);
+    if (!Number.isInteger(days) || days < 1) {
+      showError(t('trash.retention.invalid'));
+      return;
+    }
+
+    try {
+      setSavingRetention(true);
+      await saveTrashRetentionDays(days);
+      setRetentionDays(days);
+      showSuccess(t('trash.retention.saved'));
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error saving trash retention:', error);
+      }
+      showError(t('trash.retention.error'));
+    } finally {
+      setSavingRetention(false);
+    }
+  }
+
+  async function handleRestore(item: TrashItem) {
+    try {
+      setBusyId(item.id);
+      await restoreFromTrash(item.id);
+      setItems(prev => prev!.filter(other => other.id !== item.id));
+      showSuccess(t('trash.restored', { name: item.name || item.itemId }));
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error restoring from trash:', error);
+      }
+      showError(t('trash.errors.restore'));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handlePurge() {
+    if (!purgeId) return;
+
+    try {
+      setBusyId(purgeId);
+      await purgeFromTrash(purgeId);
+      setItems(prev => prev!.filter(other => other.id !== purgeId));
+      showSuccess(t('trash.purged'));
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error purging from trash:', error);
+      }
+      showError(t('trash.errors.purge'));
+    } finally {
+      setBusyId(null);
+      setPurgeId(null);
+    }
+  }
+
+  if (!items || retentionDays === null) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 dark:border-blue-400"></div>
+      </div>
+    );
+  }
+
+  const visibleItems = typeFilter ? items.filter(item => item.type === typeFilter) : items;
+  const inputClassName = 'px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-slate-200 dark:border-slate-700 transition-colors">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-slate-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            {t('trash.retention.title')}
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-slate-400">{t('trash.retention.subtitle')}</p>
+        </div>
+        <form onSubmit={handleSaveRetention} className="p-6 flex items-center gap-3">
+          <input
+            data-testid="trash-retention-days"
+            type="number"
+            min={1}
+            step={1}
+            value={retentionInput}
+            onChange={(e) => setRetentionInput(e.target.value)}
+            className={`${inputClassName} w-28`}
+            disabled={savingRetention}
+          />
+          <span className="text-sm text-gray-700 dark:text-slate-300">{t('trash.retention.days')}</span>
+          <button
+            type="submit"
+            disabled={savingRetention}
+            className="ml-auto px-4 py-2 text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-cyan-500 rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50"
+          >
+            {savingRetention ? t('common.saving') : t('common.save')}
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-slate-200 dark:border-slate-700 transition-colors">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-slate-700 flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {t('trash.title')} ({items.length})
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-slate-400">{t('trash.subtitle')}</p>
+          </div>
+          <select
+            data-testid="trash-type-filter"
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as TrashItemTypeType | '')}
+            className={`${inputClassName} text-sm`}
+          >
+            <option value="">{t('trash.allTypes')}</option>
+            {Object.values(TrashItemType).map(type => (
+              <option key={type} value={type}>{t(`trash.types.${type}`)}</option>
+            ))}
+          </select>
+        </div>
+        <div className="p-6">
+          {visibleItems.length === 0 ? (
+            <p className="text-center text-gray-500 dark:text-slate-400 py-8">
+              {t('trash.empty')}
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {visibleItems.map(item => (
+                <div
+                  key={item.id}
+                  data-testid={`trash-item-${item.id}`}
+                  className="flex flex-wrap items-center justify-between gap-3 p-4 border border-gray-200 dark:border-slate-700 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className={`px-2 py-0.5 text-xs font-semibold rounded-full whitespace-nowrap ${typeBadges[item.type]}`}>
+                        {t(`trash.types.${item.type}`)}
+                      </span>
+                      <p className="font-medium text-gray-900 dark:text-white truncate">{item.name || item.itemId}</p>
+                    </div>
+                    <p className="text-sm text-gray-500 dark:text-slate-400">
+                      {t('trash.deletedBy', { name: item.deletedByName || '-', date: formatDate(item.deletedAt) })}
+                      {item.documentCount > 1 && ` · ${t('trash.relatedRecords', { count: item.documentCount - 1 })}`}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-slate-400">
+                      {t('trash.purgeOn', { date: formatDate(getPurgeDate(item, retentionDays)) })}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      data-testid={`trash-restore-${item.id}`}
+                      onClick={() => handleRestore(item)}
+                      disabled={busyId !== null}
+                      className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      <ArrowUturnLeftIcon className="w-4 h-4" />
+                      {t('trash.restore')}
+                    </button>
+                    <button
+                      data-testid={`trash-purge-${item.id}`}
+                      onClick={() => setPurgeId(item.id)}
+                      disabled={busyId !== null}
+                      className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                      {t('trash.purge')}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={purgeId !== null}
+        onClose={() => setPurgeId(null)}
+        onConfirm={handlePurge}
+        title={t('trash.purgeDialog.title')}
+        message={t('trash.purgeDialog.message')}
+        confirmText={t('trash.purgeDialog.confirm')}
+        cancelText={t('trash.purgeDialog.cancel')}
+        type="danger"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { useTranslation } from 'react-i18next';
+
+interface UploadProgressBarProps {
+  percent: number;
+  paused?: boolean;
+  retry?: { attempt: number; maxRetries: number } | null;
+  onPause?: () => void;
+  onResume?: () => void;
+  onCancel: () => void;
+  testId?: string;
+}
+
+export default function UploadProgressBar({ percent, paused, retry, onPause, onResume, onCancel, testId }: UploadProgressBarProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div data-testid={testId} className="space-y-1">
+      <div className="flex items-center justify-between gap-2 text-xs text-gray-600 dark:text-slate-400">
+        <span>
+          {retry
+            ? t('upload.retrying', { attempt: retry.attempt, max: retry.maxRetries })
+            : paused
+              ? t('upload.paused', { percent })
+              : t('upload.progress', { percent })}
+        </span>
+        <div className="flex items-center gap-2">
+          {onPause && onResume && !retry && (
+            <button
+              type="button"
+              onClick={paused ? onResume : onPause}
+              className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {paused ? t('upload.resume') : t('upload.pause')}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onCancel}
+            className="font-medium text-red-600 dark:text-red-400 hover:underline"
+          >
+            {t('upload.cancel')}
+          </button>
+        </div>
+      </div>
+      <div className="h-2 w-full rounded-full bg-gray-200 dark:bg-slate-600 overflow-hidden">
+        <div
+          role="progressbar"
+          aria-valuenow={percent}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          className={`h-full rounded-full transition-all ${paused ? 'bg-yellow-500' : 'bg-gradient-to-r from-blue-600 to-cyan-500'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
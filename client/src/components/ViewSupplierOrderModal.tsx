@@ -94,6 +94,15 @@ export default function ViewSupplierOrderModal({ isOpen, onClose, order, onDelet
                       <h5 className="text-sm font-semibold text-slate-900 dark:text-white">
                         {t('suppliers.orderDetails.item')} #{index + 1}
                       </h5>
+                      {item.status === 'cancelled' && (
+                        <span
+                          data-testid={`supplier-item-cancelled-${index}`}
+                          className="px-2 py-1 text-xs font-semibold rounded-full bg-gray-100 dark:bg-gray-900/30 text-gray-700 dark:text-gray-300"
+                          title={item.cancelledAt ? formatDate(item.cancelledAt) : undefined}
+                        >
+                          {t('suppliers.orderDetails.itemCancelled')}
+                        </span>
+                      )}
                     </div>
                     <div className="space-y-2 text-sm">
                       <div className="flex justify-between">
@@ -108,6 +117,12 @@ export default function ViewSupplierOrderModal({ isOpen, onClose, order, onDelet
                         <span className="text-slate-600 dark:text-slate-400">{t('suppliers.orderModal.client')}:</span>
                         <span className="text-slate-900 dark:text-white font-medium">{item.client}</span>
                       </div>
+                      {item.orderNumber && (
+                        <div className="flex justify-between">
+                          <span className="text-slate-600 dark:text-slate-400">{t('suppliers.orderModal.orderNumber')}:</span>
+                          <span className="text-slate-900 dark:text-white font-medium font-mono">{item.orderNumber}</span>
+                        </div>
+                      )}
                       {item.description && (
                         <div className="pt-2 border-t border-slate-200 dark:border-slate-600">
                           <span className="text-slate-600 dark:text-slate-400">{t('suppliers.orderModal.description')}:</span>
@@ -6,6 +6,26 @@
 export const MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024; // 10MB
 export const MAX_FILE_SIZE_MB = 10;
 
+// Accepted design formats: file extension -> content type the file is uploaded as.
+// storage.rules repeats this list and the size caps below; keep them in sync.
+export const ALLOWED_UPLOAD_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  ai: 'application/postscript',
+  eps: 'application/postscript',
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  psd: 'image/vnd.adobe.photoshop'
+};
+export const ALLOWED_UPLOAD_ACCEPT = Object.keys(ALLOWED_UPLOAD_TYPES).map(extension => `.${extension}`).join(','); // <input accept>
+
+// Upload size caps per Storage folder, in MB
+export const UPLOAD_SIZE_LIMITS_MB: Record<string, number> = {
+  designs: 50,
+  updates: 10
+};
+
 // Time Constants
 export const INVITATION_EXPIRY_DAYS = 7;
 export const INVITATION_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000;
@@ -14,6 +34,29 @@ export const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
 // Order Limits
 export const MAX_SUB_ORDERS = 10;
 
+// Spreadsheet import - at most three writes per row, within one 500-write Firestore transaction
+export const MAX_IMPORT_ROWS = 150;
+
+// Order numbers (e.g. CMD-2026-0457), restarting every year - also in functions/src/orderNumbers.ts
+export const ORDER_NUMBER_PREFIX = 'CMD';
+export const ORDER_NUMBER_PADDING = 4;
+// Time zone the numbering year is counted in, like generateRecurringOrders
+export const ORDER_NUMBER_TIME_ZONE = 'Europe/Bucharest';
+
+// Pricing
+export const CURRENCY = 'RON';
+export const MAX_QUANTITY_TIERS = 6;
+export const VAT_RATE_PERCENT = 19; // Standard Romanian VAT rate
+
+// Invoicing
+export const DEFAULT_INVOICE_SERIES = 'SB';
+export const DEFAULT_CREDIT_NOTE_SERIES = 'SBST';
+export const DEFAULT_PROFORMA_SERIES = 'PF';
+export const PROFORMA_VALIDITY_DAYS = 15;
+export const PAYMENT_TERM_DAYS = 30; // Invoices are due this many days after issue
+export const DEFAULT_INVOICE_NUMBER_PADDING = 6;
+export const INVOICE_SERIES_UTC_OFFSET_HOURS = 2; // Romanian time in winter, when series years roll over
+
 // Validation
 export const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 export const PHONE_REGEX = /^[+]?[(]?[0-9]{1,4}[)]?[-\s.]?[(]?[0-9]{1,4}[)]?[-\s.]?[0-9]{1,9}$/;
@@ -22,6 +65,10 @@ export const PHONE_REGEX = /^[+]?[(]?[0-9]{1,4}[)]?[-\s.]?[(]?[0-9]{1,4}[)]?[-\s
 export const DEFAULT_PAGE_SIZE = 20;
 export const MAX_PAGE_SIZE = 100;
 
+// Order search keywords, matching functions/src/orderListFields.ts
+export const SEARCH_KEYWORD_MIN_LENGTH = 2;
+export const SEARCH_KEYWORD_MAX_LENGTH = 15;
+
 // Debounce Delays (ms)
 export const SEARCH_DEBOUNCE_MS = 300;
 export const INPUT_DEBOUNCE_MS = 500;
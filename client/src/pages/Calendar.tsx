@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { useAuth, hasTeamAccess } from '../contexts/AuthContext';
@@ -9,6 +9,7 @@ import AppShell from '../components/AppShell';
 import OrderDetailsModal from '../components/OrderDetailsModal';
 import { ChevronLeft, ChevronRight, ChevronDown } from 'lucide-react';
 import { formatMonthYear } from '../utils/dateUtils';
+import { getOrderNumber, hasOrderSummary, fetchSubOrders } from '../services/orderService';
 
 const PRODUCT_COLORS: { [key: string]: string } = {
   [ProductType.MUGS]: '#8b5cf6',
@@ -38,6 +39,9 @@ export default function Calendar() {
   const [filterProduct, setFilterProduct] = useState<string>('all');
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [orders, setOrders] = useState<any[]>([]);
+  const [subOrdersByOrder, setSubOrdersByOrder] = useState<Record<string, any[]>>({});
+  // subOrdersUpdatedAt of the sub-orders already read, per order
+  const loadedSubOrders = useRef(new Map<string, number | null>());
   const [selectedOrder, setSelectedOrder] = useState<any>(null);
   const [showOrderModal, setShowOrderModal] = useState(false);
 
@@ -55,40 +59,8 @@ export default function Calendar() {
       q = query(ordersRef, where('userId', '==', currentUser.uid));
     }
 
-    const unsubscribe = onSnapshot(q, async (snapshot) => {
-      // Fetch orders with their sub-orders
-      const ordersWithSubOrders = await Promise.all(
-        snapshot.docs.map(async (orderDoc) => {
-          const orderData = {
-            id: orderDoc.id,
-            ...orderDoc.data()
-          };
-
-          // Fetch sub-orders for this order
-          try {
-            const subOrdersRef = collection(db, 'orders', orderDoc.id, 'subOrders');
-            const subOrdersSnapshot = await getDocs(subOrdersRef);
-            const subOrders = subOrdersSnapshot.docs.map(subDoc => ({
-              id: subDoc.id,
-              orderId: orderDoc.id,  // Add parent order ID for reference
-              ...subDoc.data()
-            }));
-
-            return {
-              ...orderData,
-              subOrders: subOrders || []
-            };
-          } catch (error) {
-            console.error(`Error fetching sub-orders for order ${orderDoc.id}:`, error);
-            return {
-              ...orderData,
-              subOrders: []
-            };
-          }
-        })
-      );
-
-      setOrders(ordersWithSubOrders);
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      setOrders(snapshot.docs.map(orderDoc => ({ id: orderDoc.id, ...orderDoc.data() })));
     });
 
     return () => unsubscribe();
@@ -137,12 +109,47 @@ export default function Calendar() {
     return days;
   };
 
+  // Sub-orders are only read for orders delivering in the visible range,
+  // according to their summary, and read again only when they change
+  useEffect(() => {
+    const visibleDays = viewMode === 'week' ? getDaysInWeek() : getDaysInMonth();
+    const rangeStart = new Date(visibleDays[0] as Date);
+    rangeStart.setHours(0, 0, 0, 0);
+    const rangeEnd = new Date(visibleDays[visibleDays.length - 1] as Date);
+    rangeEnd.setHours(23, 59, 59, 999);
+
+    orders.forEach(async (order) => {
+      if (hasOrderSummary(order)) {
+        if (!order.earliestDeliveryTime ||
+            new Date(order.latestDeliveryTime) < rangeStart ||
+            new Date(order.earliestDeliveryTime) > rangeEnd) {
+          return;
+        }
+      }
+
+      const version = order.subOrdersUpdatedAt?.toMillis() ?? null;
+      if (loadedSubOrders.current.has(order.id) && loadedSubOrders.current.get(order.id) === version) {
+        return;
+      }
+      loadedSubOrders.current.set(order.id, version);
+
+      try {
+        const subOrders = await fetchSubOrders(order.id);
+        setSubOrdersByOrder(prev => ({ ...prev, [order.id]: subOrders }));
+      } catch (error) {
+        console.error(`Error fetching sub-orders for order ${order.id}:`, error);
+        loadedSubOrders.current.delete(order.id);
+      }
+    });
+  }, [orders, currentDate, viewMode]);
+
   const getOrdersForDay = (date: Date) => {
     // Flatten all sub-orders from all orders, keeping parent info
     const allSubOrders = orders.flatMap(order =>
-      (order.subOrders || []).map(subOrder => ({
+      (subOrdersByOrder[order.id] || []).map(subOrder => ({
         ...subOrder,
         parentOrderId: order.id,
+        parentOrderNumber: getOrderNumber(order),
         clientName: order.clientName,
         clientCompany: order.clientCompany,
         parentStatus: order.status
@@ -401,6 +408,9 @@ export default function Calendar() {
                             className="text-xs rounded bg-white dark:bg-slate-700 hover:shadow-md transition-shadow cursor-pointer border-l-[3px] border border-gray-100 dark:border-gray-900 p-1.5"
                             style={{ borderLeftColor: productColor }}
                           >
+                            <div className="text-[10px] font-mono text-gray-500 dark:text-gray-400 truncate">
+                              {subOrder.parentOrderNumber}
+                            </div>
                             <div className="font-medium text-gray-900 dark:text-gray-100 truncate mb-1">
                               {subOrder.productTypeName || subOrder.productType} ({subOrder.quantity})
                             </div>
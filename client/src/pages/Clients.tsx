@@ -3,14 +3,20 @@ import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { useAuth, hasTeamAccess, isRegularUser as isRegularUserRole } from '../contexts/AuthContext';
 import { db } from '../firebase';
-import { collection, query, getDocs, addDoc, Timestamp, deleteDoc, doc } from 'firebase/firestore';
+import { collection, query, getDocs, addDoc, Timestamp } from 'firebase/firestore';
 import AppShell from '../components/AppShell';
 import AddClientModal from '../components/AddClientModal';
 import EditClientModal from '../components/EditClientModal';
 import InviteClientModal from '../components/InviteClientModal';
 import ConfirmDialog from '../components/ConfirmDialog';
+import OrderTemplatesModal from '../components/OrderTemplatesModal';
+import PlaceOrderModal from '../components/PlaceOrderModal';
 import { formatDate } from '../utils/dateUtils';
 import { showError, showSuccess } from '../services/notificationService';
+import { moveToTrash } from '../services/trashService';
+import { getPaymentSummary, sumPaymentSummaries } from '../services/paymentService';
+import { formatCurrency } from '../utils/helpers';
+import { PaymentSummary, OrderTemplate, TrashItemType } from '../types';
 
 export default function Clients() {
   const { currentUser, userProfile } = useAuth();
@@ -27,6 +33,9 @@ export default function Clients() {
   const [sortBy, setSortBy] = useState('date-desc');
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [selectedClientId, setSelectedClientId] = useState(null);
+  const [orders, setOrders] = useState<any[]>([]);
+  const [templatesClient, setTemplatesClient] = useState<any>(null);
+  const [orderTemplate, setOrderTemplate] = useState<OrderTemplate | null>(null);
   const [userAccounts, setUserAccounts] = useState<Map<string, { email: string; provider: string; displayName: string; photoURL?: string; isRegularUser: boolean }>>(new Map());
 
   useEffect(() => {
@@ -37,6 +46,7 @@ export default function Clients() {
     }
     fetchClients();
     fetchUserAccounts();
+    fetchOrders();
   }, [currentUser, userProfile, navigate]);
 
   useEffect(() => {
@@ -63,6 +73,29 @@ export default function Clients() {
     }
   }
 
+  async function fetchOrders() {
+    try {
+      const snapshot = await getDocs(collection(db, 'orders'));
+      setOrders(snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })));
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error fetching orders:', error);
+      }
+    }
+  }
+
+  // Orders placed for a client record, or by the client's own account
+  function getClientBalance(client: any): PaymentSummary {
+    const email = client.email?.toLowerCase();
+    const clientOrders = orders.filter(order =>
+      order.clientId === client.id || (email && order.clientEmail?.toLowerCase() === email)
+    );
+    return sumPaymentSummaries(clientOrders.map(order => getPaymentSummary(order)));
+  }
+
   async function fetchUserAccounts() {
     try {
       const usersRef = collection(db, 'users');
@@ -164,8 +197,7 @@ export default function Clients() {
     if (!selectedClientId) return;
 
     try {
-      const clientRef = doc(db, 'clients', selectedClientId);
-      await deleteDoc(clientRef);
+      await moveToTrash(TrashItemType.CLIENT, selectedClientId);
       await fetchClients();
     } catch (error) {
       if (import.meta.env.DEV) {
@@ -389,18 +421,33 @@ export default function Clients() {
                         )}
                       </div>
                     </div>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        promptDeleteClient(client.id);
-                      }}
-                      className="text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300 p-1 rounded transition-colors"
-                      title={t('clients.deleteClient')}
-                    >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                      </svg>
-                    </button>
+                    <div className="flex items-center gap-1">
+                      <button
+                        data-testid={`client-templates-button-${client.id}`}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setTemplatesClient(client);
+                        }}
+                        className="text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 p-1 rounded transition-colors"
+                        title={t('orderTemplates.open')}
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                        </svg>
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          promptDeleteClient(client.id);
+                        }}
+                        className="text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300 p-1 rounded transition-colors"
+                        title={t('clients.deleteClient')}
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                      </button>
+                    </div>
                   </div>
 
                   <div className="space-y-2 text-sm">
@@ -429,6 +476,27 @@ export default function Clients() {
                         <span className="flex-1">{client.address}</span>
                       </div>
                     )}
+                    {(() => {
+                      const balance = getClientBalance(client);
+                      return (
+                        <div data-testid="client-balance" className="grid grid-cols-3 gap-2 pt-2 border-t border-slate-200 dark:border-slate-700 text-xs">
+                          <div>
+                            <p className="text-slate-500 dark:text-slate-400">{t('payments.paid')}</p>
+                            <p className="font-medium text-green-700 dark:text-green-400">{formatCurrency(balance.paid)}</p>
+                          </div>
+                          <div>
+                            <p className="text-slate-500 dark:text-slate-400">{t('payments.due')}</p>
+                            <p className="font-medium text-slate-900 dark:text-white">{formatCurrency(balance.due)}</p>
+                          </div>
+                          <div>
+                            <p className="text-slate-500 dark:text-slate-400">{t('payments.overdue')}</p>
+                            <p className={`font-medium ${balance.overdue > 0 ? 'text-red-600 dark:text-red-400' : 'text-slate-900 dark:text-white'}`}>
+                              {formatCurrency(balance.overdue)}
+                            </p>
+                          </div>
+                        </div>
+                      );
+                    })()}
                     <div className="flex items-center text-xs text-slate-500 dark:text-slate-400 pt-2 border-t border-slate-200 dark:border-slate-700">
                       <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -466,6 +534,28 @@ export default function Clients() {
         client={selectedClient}
       />
 
+      {/* Order Templates Modal */}
+      <OrderTemplatesModal
+        open={templatesClient !== null}
+        onClose={() => setTemplatesClient(null)}
+        client={templatesClient}
+        onPlaceOrder={(template) => {
+          setTemplatesClient(null);
+          setOrderTemplate(template);
+        }}
+      />
+
+      {/* Place Order Modal - pre-filled from a template */}
+      <PlaceOrderModal
+        open={orderTemplate !== null}
+        onClose={() => setOrderTemplate(null)}
+        onSuccess={() => {
+          setOrderTemplate(null);
+          fetchOrders();
+        }}
+        template={orderTemplate}
+      />
+
       {/* Delete Client Dialog */}
       <ConfirmDialog
         isOpen={showDeleteDialog}
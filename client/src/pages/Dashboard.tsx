@@ -3,35 +3,66 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { useAuth, hasTeamAccess } from '../contexts/AuthContext';
 import { db } from '../firebase';
-import { collection, query, where, getDocs, orderBy as firestoreOrderBy, doc, updateDoc, addDoc, deleteDoc, Timestamp, onSnapshot } from 'firebase/firestore';
-import { OrderStatus, ProductType } from '../types';
+import { collection, query, where, getDocs, doc, updateDoc, addDoc, deleteDoc, Timestamp, onSnapshot } from 'firebase/firestore';
+import { OrderStatus, ProductType, OrderPaymentStatus, OrderPaymentStatusType } from '../types';
 import InviteTeamModal from '../components/InviteTeamModal';
 import PlaceOrderModal from '../components/PlaceOrderModal';
+import ImportOrdersModal from '../components/ImportOrdersModal';
 import Notifications from '../components/Notifications';
 import ConfirmDialog from '../components/ConfirmDialog';
 import AppShell from '../components/AppShell';
 import OrderDetailsModal from '../components/OrderDetailsModal';
-import { downloadInvoice, sendInvoiceToClient } from '../services/invoiceService';
+import { downloadInvoice, sendInvoiceToClient, getInvoice, issueInvoice, invoiceToPdfData } from '../services/invoiceService';
 import { uploadFile } from '../services/storageService';
 import { showSuccess, showError } from '../services/notificationService';
+import { getOrderNumber, buildOrdersQuery, fetchOrdersPage, fetchAllOrders, fetchOrder, fetchSubOrders, getOrderSummary, hasOrderSummary, getSearchTerms, refineOrders, OrderListFilters, OrderPage, OrderSortField } from '../services/orderService';
+import { DEFAULT_PAGE_SIZE, SEARCH_DEBOUNCE_MS } from '../constants';
 import { formatDate } from '../utils/dateUtils';
+import { canChangeOrderStatus } from '../utils/orderStatus';
+import { downloadOrderExport, ORDER_EXPORT_COLUMNS, ExportFormat, OrderExportColumn } from '../services/exportService';
+
+const EMPTY_PAGE: OrderPage = { orders: [], cursor: null, hasMore: false };
+
+// Dashboard sort options, each backed by the field Firestore orders the list by
+const ORDER_SORTS: Record<string, { field: OrderSortField; direction: 'asc' | 'desc' }> = {
+  'delivery-asc': { field: 'earliestDeliveryTime', direction: 'asc' },
+  'delivery-desc': { field: 'earliestDeliveryTime', direction: 'desc' },
+  'date-desc': { field: 'createdAt', direction: 'desc' },
+  'date-asc': { field: 'createdAt', direction: 'asc' },
+  'quantity-desc': { field: 'totalQuantity', direction: 'desc' },
+  'quantity-asc': { field: 'totalQuantity', direction: 'asc' },
+  'status': { field: 'status', direction: 'asc' }
+};
+
+// Payment filters, matched against the `paymentStatus` of completed orders
+const PAYMENT_FILTER_STATUSES: Record<string, OrderPaymentStatusType[]> = {
+  unpaid: [OrderPaymentStatus.UNPAID, OrderPaymentStatus.OVERDUE],
+  overdue: [OrderPaymentStatus.OVERDUE],
+  paid: [OrderPaymentStatus.PAID]
+};
 
 export default function Dashboard() {
   const { currentUser, userProfile } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
   const { t } = useTranslation();
-  const [orders, setOrders] = useState<any[]>([]);
+  const [firstPage, setFirstPage] = useState<OrderPage>(EMPTY_PAGE);
+  const [morePages, setMorePages] = useState<OrderPage>(EMPTY_PAGE);
+  const [subOrdersByOrder, setSubOrdersByOrder] = useState<Record<string, any[]>>({});
+  const requestedSubOrders = useRef(new Set<string>());
+  const [stats, setStats] = useState({ total: 0, pending: 0, in_progress: 0, completed: 0 });
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [exporting, setExporting] = useState(false);
   const [showInviteModal, setShowInviteModal] = useState(false);
   const [showPlaceOrderModal, setShowPlaceOrderModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [initialOrderData, setInitialOrderData] = useState(null);
-  const [selectedOrder, setSelectedOrder] = useState(null);
+  const [selectedOrder, setSelectedOrder] = useState<any>(null);
   const [showOrderModal, setShowOrderModal] = useState(false);
   const [updateText, setUpdateText] = useState('');
   const [postingUpdate, setPostingUpdate] = useState(false);
   const [orderUpdates, setOrderUpdates] = useState<any[]>([]);
-  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [attachmentFile, setAttachmentFile] = useState(null);
   const [uploadingAttachment, setUploadingAttachment] = useState(false);
   const attachmentInputRef = useRef(null);
@@ -44,23 +75,18 @@ export default function Dashboard() {
   const [activeTab, setActiveTab] = useState('current'); // 'current' or 'past'
   const [statusFilter, setStatusFilter] = useState('all');
   const [productFilter, setProductFilter] = useState('all');
+  const [paymentFilter, setPaymentFilter] = useState('all');
   const [sortBy, setSortBy] = useState('delivery-asc');
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
 
-  // Helper function to get earliest delivery time from sub-orders
-  const getEarliestDeliveryTime = useCallback((subOrders) => {
-    if (!subOrders || subOrders.length === 0) return null;
-
-    const times = subOrders
-      .map(so => so.deliveryTime)
-      .filter(dt => dt); // Filter out null/undefined
-
-    if (times.length === 0) return null;
-
-    return times.reduce((earliest, current) => {
-      return new Date(current) < new Date(earliest) ? current : earliest;
-    });
-  }, []);
+  // Each search starts a new query; wait until the user stops typing
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearchQuery(searchQuery), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
 
   const fetchOrderUpdates = useCallback(async (orderId) => {
     try {
@@ -94,99 +120,234 @@ export default function Dashboard() {
   }, []);
 
   const openOrderDetails = useCallback(async (order) => {
-    setSelectedOrder(order);
+    const subOrders = order.subOrders || await fetchSubOrders(order.id);
+    setSelectedOrder({ ...order, subOrders });
     setShowOrderModal(true);
     await fetchOrderUpdates(order.id);
   }, [fetchOrderUpdates]);
 
-  useEffect(() => {
-    if (!currentUser || !userProfile) return;
+  // Creation date ranges are only indexed together with the creation date sort
+  const hasDateRange = !!(dateFrom || dateTo);
+  const effectiveSortBy = hasDateRange && ORDER_SORTS[sortBy].field !== 'createdAt' ? 'date-desc' : sortBy;
+
+  // Every filter and sort runs in Firestore, see buildOrdersQuery
+  const listFilters = useMemo<OrderListFilters | null>(() => {
+    if (!currentUser || !userProfile) return null;
+
+    const isTeam = hasTeamAccess(userProfile);
+    const tabStatuses: string[] = activeTab === 'current'
+      ? [OrderStatus.PENDING_CONFIRMATION, OrderStatus.PENDING, OrderStatus.IN_PROGRESS]
+      : [OrderStatus.COMPLETED, OrderStatus.CANCELLED];
+    const paymentStatuses = isTeam ? PAYMENT_FILTER_STATUSES[paymentFilter] : undefined;
+    let statuses = isTeam && statusFilter !== 'all' ? tabStatuses.filter(status => status === statusFilter) : tabStatuses;
+    // Payment balances only exist on completed orders
+    if (paymentStatuses) {
+      statuses = statuses.filter(status => status === OrderStatus.COMPLETED);
+    }
 
-    // Set up real-time listener for orders
-    const ordersRef = collection(db, 'orders');
-    let q;
+    return {
+      statuses,
+      ownerId: isTeam ? undefined : currentUser.uid,
+      productType: isTeam && productFilter !== 'all' ? productFilter : undefined,
+      paymentStatuses,
+      searchTerms: isTeam ? getSearchTerms(debouncedSearchQuery) : undefined,
+      createdFrom: isTeam && dateFrom ? new Date(`${dateFrom}T00:00:00`) : undefined,
+      createdTo: isTeam && dateTo ? new Date(`${dateTo}T23:59:59.999`) : undefined,
+      sortField: ORDER_SORTS[effectiveSortBy].field,
+      direction: ORDER_SORTS[effectiveSortBy].direction
+    };
+  }, [currentUser, userProfile, activeTab, statusFilter, productFilter, paymentFilter, debouncedSearchQuery, dateFrom, dateTo, effectiveSortBy]);
 
-    // Team members see all orders
-    if (hasTeamAccess(userProfile)) {
-      q = query(
-        ordersRef,
-        firestoreOrderBy('createdAt', 'desc')
-      );
-    } else {
-      // Regular clients only see their own orders
-      q = query(
-        ordersRef,
-        where('userId', '==', currentUser.uid)
-      );
+  const listFiltersRef = useRef(listFilters);
+  listFiltersRef.current = listFilters;
+
+  // The first page is kept live; older pages are loaded on demand
+  useEffect(() => {
+    if (!listFilters) return;
+
+    setMorePages(EMPTY_PAGE);
+    if (listFilters.statuses.length === 0) {
+      setFirstPage(EMPTY_PAGE);
+      setLoading(false);
+      return;
     }
 
     setLoading(true);
-    const unsubscribe = onSnapshot(q, async (snapshot) => {
-      // Fetch orders with their sub-orders
-      const ordersWithSubOrders = await Promise.all(
-        snapshot.docs.map(async (orderDoc) => {
-          const orderData = {
-            id: orderDoc.id,
-            ...orderDoc.data()
-          };
-
-          // Fetch sub-orders for this order
-          try {
-            const subOrdersRef = collection(db, 'orders', orderDoc.id, 'subOrders');
-            const subOrdersSnapshot = await getDocs(subOrdersRef);
-            const subOrders = subOrdersSnapshot.docs.map(subDoc => ({
-              id: subDoc.id,
-              ...subDoc.data()
-            }));
-
-            return {
-              ...orderData,
-              subOrders: subOrders || []
-            };
-          } catch (error) {
-            if (import.meta.env.DEV) {
-              console.error(`Error fetching sub-orders for order ${orderDoc.id}:`, error);
-            }
-            return {
-              ...orderData,
-              subOrders: []
-            };
-          }
-        })
+    const unsubscribe = onSnapshot(buildOrdersQuery(listFilters, DEFAULT_PAGE_SIZE), (snapshot) => {
+      setFirstPage({
+        orders: snapshot.docs.map(orderDoc => ({
+          id: orderDoc.id,
+          ...orderDoc.data()
+        })),
+        cursor: snapshot.docs[snapshot.docs.length - 1] || null,
+        hasMore: snapshot.docs.length === DEFAULT_PAGE_SIZE
+      });
+      setLoading(false);
+    }, (error) => {
+      if (import.meta.env.DEV) {
+        console.error('Error fetching orders:', error);
+      }
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [listFilters]);
+
+  async function loadMoreOrders() {
+    const filters = listFilters;
+    if (!filters || loadingMore) return;
+
+    try {
+      setLoadingMore(true);
+      const page = await fetchOrdersPage(filters, morePages.cursor || firstPage.cursor);
+      // Drop the page if the filters changed while it was loading
+      if (listFiltersRef.current !== filters) return;
+      setMorePages(prev => ({
+        orders: [...prev.orders, ...page.orders],
+        cursor: page.cursor,
+        hasMore: page.hasMore
+      }));
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error fetching more orders:', error);
+      }
+      showError(t('dashboard.errorLoadingOrders'));
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  const hasMoreOrders = morePages.cursor ? morePages.hasMore : firstPage.hasMore;
+
+  // Exports every order matching the current tab and filters, not only the loaded pages
+  async function exportOrders(format: ExportFormat) {
+    if (!listFilters || exporting) return;
+
+    try {
+      setExporting(true);
+      const matchingOrders = refineOrders(await fetchAllOrders(listFilters), listFilters);
+      const exportedOrders = await Promise.all(matchingOrders.map(async (order) => ({
+        ...order,
+        subOrders: await fetchSubOrders(order.id)
+      })));
+
+      if (exportedOrders.length === 0) {
+        showError(t('dashboard.export.empty'));
+        return;
+      }
+
+      const headers = Object.fromEntries(
+        ORDER_EXPORT_COLUMNS.map(column => [column, t(`dashboard.export.columns.${column}`)])
+      ) as Record<OrderExportColumn, string>;
+      const rowCount = downloadOrderExport(
+        exportedOrders,
+        format,
+        { headers, getProductLabel, getStatusLabel },
+        t('dashboard.export.fileName')
       );
+      showSuccess(t('dashboard.export.success', { count: rowCount }));
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error exporting orders:', error);
+      }
+      showError(t('dashboard.export.error'));
+    } finally {
+      setExporting(false);
+    }
+  }
 
-      // Sort in memory for client queries (to avoid composite index requirement)
-      if (!hasTeamAccess(userProfile)) {
-        ordersWithSubOrders.sort((a, b) => {
-          const timeA = a.createdAt?.toMillis() || 0;
-          const timeB = b.createdAt?.toMillis() || 0;
-          return timeB - timeA; // desc order
-        });
+  // Rows are drawn from the order summaries; sub-orders are only read for
+  // loaded orders created before summaries existed
+  useEffect(() => {
+    const orderIds = [...firstPage.orders, ...morePages.orders]
+      .filter(order => !hasOrderSummary(order))
+      .map(order => order.id)
+      .filter(orderId => !requestedSubOrders.current.has(orderId));
+
+    orderIds.forEach(async (orderId) => {
+      requestedSubOrders.current.add(orderId);
+      try {
+        const subOrders = await fetchSubOrders(orderId);
+        setSubOrdersByOrder(prev => ({ ...prev, [orderId]: subOrders }));
+      } catch (error) {
+        if (import.meta.env.DEV) {
+          console.error(`Error fetching sub-orders for order ${orderId}:`, error);
+        }
+        setSubOrdersByOrder(prev => ({ ...prev, [orderId]: [] }));
       }
+    });
+  }, [firstPage, morePages]);
 
-      setOrders(ordersWithSubOrders);
-      setLoading(false);
+  const orders = useMemo(() => {
+    const seen = new Set<string>();
+    return [...firstPage.orders, ...morePages.orders]
+      .filter(order => !seen.has(order.id) && !!seen.add(order.id))
+      .map(order => ({ ...order, subOrders: subOrdersByOrder[order.id] }));
+  }, [firstPage, morePages, subOrdersByOrder]);
+
+  // Reload an order changed from the details modal; the first page updates itself
+  const refreshOrder = useCallback(async (orderId: string) => {
+    try {
+      const [order, subOrders] = await Promise.all([fetchOrder(orderId), fetchSubOrders(orderId)]);
+      setSubOrdersByOrder(prev => ({ ...prev, [orderId]: subOrders }));
+      setMorePages(prev => ({
+        ...prev,
+        orders: order
+          ? prev.orders.map(loaded => (loaded.id === orderId ? order : loaded))
+          : prev.orders.filter(loaded => loaded.id !== orderId)
+      }));
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error(`Error refreshing order ${orderId}:`, error);
+      }
+    }
+  }, []);
+
+  // Team stats come from the counters kept by the updateOrderStats Cloud Function
+  useEffect(() => {
+    if (!hasTeamAccess(userProfile)) return;
+
+    const unsubscribe = onSnapshot(doc(db, 'stats', 'orders'), (statsDoc) => {
+      const data = statsDoc.data();
+      setStats({
+        total: data?.total || 0,
+        pending: data?.byStatus?.[OrderStatus.PENDING] || 0,
+        in_progress: data?.byStatus?.[OrderStatus.IN_PROGRESS] || 0,
+        completed: data?.byStatus?.[OrderStatus.COMPLETED] || 0
+      });
     }, (error) => {
       if (import.meta.env.DEV) {
-        console.error('Error fetching orders:', error);
+        console.error('Error loading order stats:', error);
       }
-      setLoading(false);
     });
 
     return () => unsubscribe();
-  }, [currentUser, userProfile]);
+  }, [userProfile]);
 
   // Check if we need to open a specific order from notification
   useEffect(() => {
-    if (location.state?.openOrderId && orders.length > 0) {
-      const orderToOpen = orders.find(o => o.id === location.state.openOrderId);
-      if (orderToOpen) {
-        openOrderDetails(orderToOpen);
-        // Clear the state so it doesn't reopen on refresh
-        navigate(location.pathname, { replace: true, state: {} });
-      }
+    const openOrderId = location.state?.openOrderId;
+    if (!openOrderId || !currentUser || !userProfile) return;
+
+    // Clear the state so it doesn't reopen on refresh
+    navigate(location.pathname, { replace: true, state: {} });
+
+    // The order may be on a page that is not loaded yet
+    const loadedOrder = orders.find(o => o.id === openOrderId);
+    if (loadedOrder) {
+      openOrderDetails(loadedOrder);
+      return;
     }
-  }, [location.state, orders, openOrderDetails, navigate, location.pathname]);
+    fetchOrder(openOrderId)
+      .then(order => {
+        if (order) openOrderDetails(order);
+      })
+      .catch((error) => {
+        if (import.meta.env.DEV) {
+          console.error('Error opening order:', error);
+        }
+      });
+  }, [location.state, currentUser, userProfile, orders, openOrderDetails, navigate, location.pathname]);
 
   // Handle Escape key to close order details modal
   useEffect(() => {
@@ -209,121 +370,10 @@ export default function Dashboard() {
     }
   }, [orderUpdates]);
 
-  // Use useMemo to calculate filtered orders - eliminates unnecessary state and useEffect
-  const filteredOrders = useMemo(() => {
-    let filtered = [...orders];
-
-    // Apply tab filter - separate current and past orders
-    if (activeTab === 'current') {
-      // Current orders: pending_confirmation, pending, in_progress
-      filtered = filtered.filter(order =>
-        order.status === OrderStatus.PENDING_CONFIRMATION ||
-        order.status === OrderStatus.PENDING ||
-        order.status === OrderStatus.IN_PROGRESS
-      );
-    } else {
-      // Past orders: completed, cancelled
-      filtered = filtered.filter(order =>
-        order.status === OrderStatus.COMPLETED ||
-        order.status === OrderStatus.CANCELLED
-      );
-    }
-
-    // Apply status filter
-    if (statusFilter !== 'all') {
-      filtered = filtered.filter(order => order.status === statusFilter);
-    }
-
-    // Apply product filter - check sub-orders
-    if (productFilter !== 'all') {
-      filtered = filtered.filter(order =>
-        order.subOrders?.some(so => so.productType === productFilter)
-      );
-    }
-
-    // Apply search - check all fields in order and sub-orders
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(order => {
-        // Search in parent order fields
-        const orderMatches =
-          order.id.toLowerCase().includes(query) ||
-          order.orderName?.toLowerCase().includes(query) ||
-          order.clientName?.toLowerCase().includes(query) ||
-          order.clientEmail?.toLowerCase().includes(query) ||
-          order.clientPhone?.toLowerCase().includes(query) ||
-          order.clientCompany?.toLowerCase().includes(query) ||
-          order.userName?.toLowerCase().includes(query) ||
-          order.userEmail?.toLowerCase().includes(query) ||
-          order.status?.toLowerCase().includes(query);
-
-        // Search in sub-order fields
-        const subOrderMatches = order.subOrders?.some(so =>
-          so.productType?.toLowerCase().includes(query) ||
-          so.productTypeName?.toLowerCase().includes(query) ||
-          so.quantity?.toString().includes(query) ||
-          so.length?.toString().includes(query) ||
-          so.width?.toString().includes(query) ||
-          so.cmp?.toString().includes(query) ||
-          so.description?.toLowerCase().includes(query) ||
-          so.designFile?.toLowerCase().includes(query) ||
-          so.notes?.toLowerCase().includes(query) ||
-          so.status?.toLowerCase().includes(query)
-        );
-
-        return orderMatches || subOrderMatches;
-      });
-    }
-
-    // Apply sorting - use earliest delivery time from sub-orders
-    switch (sortBy) {
-      case 'delivery-asc':
-        filtered.sort((a, b) => {
-          const aEarliest = getEarliestDeliveryTime(a.subOrders);
-          const bEarliest = getEarliestDeliveryTime(b.subOrders);
-          if (!aEarliest) return 1;
-          if (!bEarliest) return -1;
-          return new Date(aEarliest).getTime() - new Date(bEarliest).getTime();
-        });
-        break;
-      case 'delivery-desc':
-        filtered.sort((a, b) => {
-          const aEarliest = getEarliestDeliveryTime(a.subOrders);
-          const bEarliest = getEarliestDeliveryTime(b.subOrders);
-          if (!aEarliest) return 1;
-          if (!bEarliest) return -1;
-          return new Date(bEarliest).getTime() - new Date(aEarliest).getTime();
-        });
-        break;
-      case 'date-desc':
-        filtered.sort((a, b) => b.createdAt?.toMillis() - a.createdAt?.toMillis());
-        break;
-      case 'date-asc':
-        filtered.sort((a, b) => a.createdAt?.toMillis() - b.createdAt?.toMillis());
-        break;
-      case 'quantity-desc':
-        filtered.sort((a, b) => {
-          const aTotal = (a.subOrders || []).reduce((sum, so) => sum + (so.quantity || 0), 0);
-          const bTotal = (b.subOrders || []).reduce((sum, so) => sum + (so.quantity || 0), 0);
-          return bTotal - aTotal;
-        });
-        break;
-      case 'quantity-asc':
-        filtered.sort((a, b) => {
-          const aTotal = (a.subOrders || []).reduce((sum, so) => sum + (so.quantity || 0), 0);
-          const bTotal = (b.subOrders || []).reduce((sum, so) => sum + (so.quantity || 0), 0);
-          return aTotal - bTotal;
-        });
-        break;
-      case 'status':
-        filtered.sort((a, b) => a.status.localeCompare(b.status));
-        break;
-      default:
-        break;
-    }
-
-    return filtered;
-  }, [orders, activeTab, statusFilter, productFilter, sortBy, searchQuery, getEarliestDeliveryTime]);
+  const filteredOrders = useMemo(
+    () => (listFilters ? refineOrders(orders, listFilters) : orders),
+    [orders, listFilters]
+  );
 
   function handleReorder(e, order) {
     e.stopPropagation(); // Prevent row click from opening order details
@@ -410,41 +460,13 @@ export default function Dashboard() {
     }
   }
 
-  async function updateOrderStatus(newStatus) {
+  async function confirmOrder() {
     if (!selectedOrder) return;
 
-    try {
-      const orderRef = doc(db, 'orders', selectedOrder.id);
-      await updateDoc(orderRef, {
-        status: newStatus,
-        updatedAt: Timestamp.now()
-      });
-
-      // Add system update
-      const updatesRef = collection(db, 'orderUpdates');
-      await addDoc(updatesRef, {
-        orderId: selectedOrder.id,
-        userId: currentUser.uid,
-        userName: t('dashboard.orderModal.system'),
-        userEmail: currentUser.email,
-        text: `${t('dashboard.orderModal.statusChangedTo')} ${getStatusLabel(newStatus)}`,
-        isSystem: true,
-        createdAt: Timestamp.now()
-      });
-
-      // Refresh updates
-      await fetchOrderUpdates(selectedOrder.id);
-      setSelectedOrder({ ...selectedOrder, status: newStatus });
-    } catch (error) {
-      if (import.meta.env.DEV) {
-        console.error('Error updating order status:', error);
-      }
-      showError('Failed to update order status');
+    if (!canChangeOrderStatus(selectedOrder.status, OrderStatus.PENDING, hasTeamAccess(userProfile))) {
+      showError(t('order.invalidStatusTransition'));
+      return;
     }
-  }
-
-  async function confirmOrder() {
-    if (!selectedOrder) return;
 
     try {
       const orderRef = doc(db, 'orders', selectedOrder.id);
@@ -473,7 +495,7 @@ export default function Dashboard() {
         userId: currentUser.uid,
         type: 'order_confirmed',
         title: 'Comandă confirmată',
-        message: `Comanda #${selectedOrder.id.substring(0, 8).toUpperCase()} a fost confirmată și este gata de procesare`,
+        message: `Comanda ${getOrderNumber(selectedOrder)} a fost confirmată și este gata de procesare`,
         orderId: selectedOrder.id,
         read: false,
         createdAt: Timestamp.now()
@@ -490,56 +512,6 @@ export default function Dashboard() {
     }
   }
 
-  async function deleteOrder() {
-    if (!selectedOrder) return;
-
-    try {
-      // Delete sub-orders first
-      const subOrdersRef = collection(db, 'orders', selectedOrder.id, 'subOrders');
-      const subOrdersSnapshot = await getDocs(subOrdersRef);
-      const deleteSubOrderPromises = subOrdersSnapshot.docs.map(doc => deleteDoc(doc.ref));
-      await Promise.all(deleteSubOrderPromises);
-
-      // Delete all updates related to this order
-      const updatesRef = collection(db, 'orderUpdates');
-      const updatesQuery = query(updatesRef, where('orderId', '==', selectedOrder.id));
-      const updatesSnapshot = await getDocs(updatesQuery);
-      const deletePromises = updatesSnapshot.docs.map(doc => deleteDoc(doc.ref));
-      await Promise.all(deletePromises);
-
-      // Delete all notifications related to this order
-      const notificationsRef = collection(db, 'notifications');
-      const notificationsQuery = query(notificationsRef, where('orderId', '==', selectedOrder.id));
-      const notificationsSnapshot = await getDocs(notificationsQuery);
-      const deleteNotifPromises = notificationsSnapshot.docs.map(doc => deleteDoc(doc.ref));
-      await Promise.all(deleteNotifPromises);
-
-      // Delete the order document itself
-      const orderRef = doc(db, 'orders', selectedOrder.id);
-      await deleteDoc(orderRef);
-
-      // Close modal and dialog - orders will update automatically via listener
-      setShowOrderModal(false);
-      setShowDeleteDialog(false);
-
-      // Show success notification
-      showSuccess(t('dashboard.orderModal.orderDeleted'));
-    } catch (error: any) {
-      console.error('Error deleting order:', error);
-
-      // Show user-friendly error message
-      let errorMessage = t('dashboard.orderModal.deleteError');
-      if (error?.code === 'permission-denied') {
-        errorMessage = t('dashboard.orderModal.deletePermissionError');
-      }
-
-      showError(errorMessage);
-
-      // Re-throw error so ConfirmDialog knows it failed
-      throw error;
-    }
-  }
-
   async function handleDeleteUpdate() {
     if (!selectedUpdateId) return;
 
@@ -562,23 +534,30 @@ export default function Dashboard() {
     }
   }
 
-  function handleDownloadInvoice() {
+  async function loadOrIssueInvoice(order: any) {
+    if (order.invoiceId) {
+      return getInvoice(order.invoiceId);
+    }
+
+    if (!hasTeamAccess(userProfile) || !currentUser) {
+      showError(t('invoice.notIssuedYet'));
+      return null;
+    }
+
+    return issueInvoice(order, getProductLabel, {
+      uid: currentUser.uid,
+      name: userProfile?.displayName || currentUser.email || ''
+    });
+  }
+
+  async function handleDownloadInvoice() {
     if (!selectedOrder) return;
 
     try {
-      downloadInvoice({
-        orderId: selectedOrder.id,
-        orderNumber: selectedOrder.id.substring(0, 8).toUpperCase(),
-        clientName: selectedOrder.userName || selectedOrder.userEmail || 'Client',
-        clientEmail: selectedOrder.userEmail || '',
-        clientPhone: selectedOrder.contactPhone,
-        productType: getProductLabel(selectedOrder.productType),
-        quantity: selectedOrder.quantity,
-        description: selectedOrder.description,
-        createdAt: selectedOrder.createdAt?.toDate(),
-        completedAt: selectedOrder.updatedAt?.toDate(),
-        amount: undefined // You can add pricing logic here
-      });
+      const invoice = await loadOrIssueInvoice(selectedOrder);
+      if (invoice) {
+        downloadInvoice(invoiceToPdfData(invoice));
+      }
     } catch (error) {
       if (import.meta.env.DEV) {
         console.error('Error downloading invoice:', error);
@@ -592,19 +571,9 @@ export default function Dashboard() {
 
     try {
       setSendingInvoice(true);
-      await sendInvoiceToClient({
-        orderId: selectedOrder.id,
-        orderNumber: selectedOrder.id.substring(0, 8).toUpperCase(),
-        clientName: selectedOrder.userName || selectedOrder.userEmail || 'Client',
-        clientEmail: selectedOrder.userEmail || '',
-        clientPhone: selectedOrder.contactPhone,
-        productType: getProductLabel(selectedOrder.productType),
-        quantity: selectedOrder.quantity,
-        description: selectedOrder.description,
-        createdAt: selectedOrder.createdAt?.toDate(),
-        completedAt: selectedOrder.updatedAt?.toDate(),
-        amount: undefined // You can add pricing logic here
-      });
+      const invoice = await loadOrIssueInvoice(selectedOrder);
+      if (!invoice) return;
+      await sendInvoiceToClient(invoice);
       showSuccess(t('dashboard.orderModal.invoiceSentSuccess'));
     } catch (error) {
       if (import.meta.env.DEV) {
@@ -669,17 +638,6 @@ export default function Dashboard() {
     }
   }
 
-  function getOrderStats() {
-    return {
-      total: orders.length,
-      pending: orders.filter(o => o.status === OrderStatus.PENDING).length,
-      in_progress: orders.filter(o => o.status === OrderStatus.IN_PROGRESS).length,
-      completed: orders.filter(o => o.status === OrderStatus.COMPLETED).length
-    };
-  }
-
-  const stats = getOrderStats();
-
   return (
     <AppShell title={t('dashboard.title')}>
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -738,6 +696,26 @@ export default function Dashboard() {
               </select>
             </div>
 
+            {/* Payment Filter */}
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">{t('dashboard.filters.payment')}</label>
+              <select
+                data-testid="payment-filter-dropdown"
+                value={paymentFilter}
+                onChange={(e) => {
+                  setPaymentFilter(e.target.value);
+                  // Payment balances belong to completed orders, listed under past orders
+                  if (e.target.value !== 'all') setActiveTab('past');
+                }}
+                className="w-full h-10 px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+              >
+                <option value="all">{t('dashboard.filters.allPayments')}</option>
+                <option value="unpaid">{t('dashboard.filters.unpaid')}</option>
+                <option value="overdue">{t('dashboard.filters.overdue')}</option>
+                <option value="paid">{t('dashboard.filters.paid')}</option>
+              </select>
+            </div>
+
             {/* Product Filter */}
             <div>
               <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">{t('dashboard.filters.product')}</label>
@@ -756,21 +734,45 @@ export default function Dashboard() {
               </select>
             </div>
 
+            {/* Created Date Range */}
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">{t('dashboard.filters.createdFrom')}</label>
+              <input
+                data-testid="date-from-filter"
+                type="date"
+                value={dateFrom}
+                max={dateTo || undefined}
+                onChange={(e) => setDateFrom(e.target.value)}
+                className="w-full h-10 px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">{t('dashboard.filters.createdTo')}</label>
+              <input
+                data-testid="date-to-filter"
+                type="date"
+                value={dateTo}
+                min={dateFrom || undefined}
+                onChange={(e) => setDateTo(e.target.value)}
+                className="w-full h-10 px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+              />
+            </div>
+
             {/* Sort */}
             <div>
               <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">{t('dashboard.filters.sortBy')}</label>
               <select
-                value={sortBy}
+                value={effectiveSortBy}
                 onChange={(e) => setSortBy(e.target.value)}
                 className="w-full h-10 px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
               >
-                <option value="delivery-asc">{t('dashboard.filters.deliveryEarliest')}</option>
-                <option value="delivery-desc">{t('dashboard.filters.deliveryLatest')}</option>
+                <option value="delivery-asc" disabled={hasDateRange}>{t('dashboard.filters.deliveryEarliest')}</option>
+                <option value="delivery-desc" disabled={hasDateRange}>{t('dashboard.filters.deliveryLatest')}</option>
                 <option value="date-desc">{t('dashboard.filters.dateNewest')}</option>
                 <option value="date-asc">{t('dashboard.filters.dateOldest')}</option>
-                <option value="quantity-desc">{t('dashboard.filters.quantityHigh')}</option>
-                <option value="quantity-asc">{t('dashboard.filters.quantityLow')}</option>
-                <option value="status">{t('dashboard.filters.byStatus')}</option>
+                <option value="quantity-desc" disabled={hasDateRange}>{t('dashboard.filters.quantityHigh')}</option>
+                <option value="quantity-asc" disabled={hasDateRange}>{t('dashboard.filters.quantityLow')}</option>
+                <option value="status" disabled={hasDateRange}>{t('dashboard.filters.byStatus')}</option>
               </select>
             </div>
           </div>
@@ -817,6 +819,35 @@ export default function Dashboard() {
             <h2 className="text-base sm:text-lg font-semibold text-slate-900 dark:text-white whitespace-nowrap">
               {t(hasTeamAccess(userProfile) ? 'dashboard.table.orders' : 'dashboard.table.yourOrders')} ({filteredOrders.length})
             </h2>
+            <div className="flex items-center gap-2">
+            {hasTeamAccess(userProfile) && (
+              <button
+                data-testid="import-orders-button"
+                onClick={() => setShowImportModal(true)}
+                title={t('orderImport.openTitle')}
+                className="px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors flex items-center gap-1 shrink-0"
+              >
+                <svg className="w-4 h-4 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                </svg>
+                <span className="hidden sm:inline">{t('orderImport.open')}</span>
+              </button>
+            )}
+            {hasTeamAccess(userProfile) && (['csv', 'xlsx'] as ExportFormat[]).map(format => (
+              <button
+                key={format}
+                data-testid={`export-orders-${format}-button`}
+                onClick={() => exportOrders(format)}
+                disabled={exporting}
+                title={t('dashboard.export.title')}
+                className="px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1 shrink-0"
+              >
+                <svg className="w-4 h-4 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                </svg>
+                <span className="hidden sm:inline">{exporting ? t('dashboard.export.exporting') : format.toUpperCase()}</span>
+              </button>
+            ))}
             <button
               data-testid="dashboard-add-order-button"
               onClick={() => setShowPlaceOrderModal(true)}
@@ -828,6 +859,7 @@ export default function Dashboard() {
               </svg>
               <span className="whitespace-nowrap text-sm sm:text-base">{t('dashboard.addOrder')}</span>
             </button>
+            </div>
           </div>
 
           {loading ? (
@@ -871,6 +903,9 @@ export default function Dashboard() {
               <table data-testid="dashboard-orders-table" className="min-w-full divide-y divide-slate-200 dark:divide-slate-700 table-fixed">
                 <thead className="bg-slate-50 dark:bg-slate-800/50">
                   <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                      {t('dashboard.table.orderNumber')}
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
                       {t('dashboard.table.client')}
                     </th>
@@ -898,9 +933,11 @@ export default function Dashboard() {
                 </thead>
                 <tbody className="bg-white dark:bg-slate-800 divide-y divide-slate-200 dark:divide-slate-700">
                   {filteredOrders.map((order) => {
-                    const totalItems = (order.subOrders || []).length;
-                    const totalQuantity = (order.subOrders || []).reduce((sum, so) => sum + (so.quantity || 0), 0);
-                    const earliestDelivery = getEarliestDeliveryTime(order.subOrders);
+                    const {
+                      subOrderCount: totalItems,
+                      totalQuantity,
+                      earliestDeliveryTime: earliestDelivery
+                    } = getOrderSummary(order);
 
                     return (
                       <tr
@@ -909,6 +946,9 @@ export default function Dashboard() {
                         onClick={() => openOrderDetails(order)}
                         className="hover:bg-slate-50 dark:hover:bg-slate-700/50 cursor-pointer transition-colors"
                       >
+                        <td data-testid={`order-number-${order.id}`} className="px-6 py-4 whitespace-nowrap text-sm font-mono text-slate-900 dark:text-white">
+                          {getOrderNumber(order)}
+                        </td>
                         <td className="px-6 py-4 text-sm">
                           <div className="font-medium text-slate-900 dark:text-white">{order.clientName || '-'}</div>
                           {order.clientCompany && (
@@ -967,6 +1007,20 @@ export default function Dashboard() {
               </table>
             </div>
           )}
+
+          {/* Older orders are fetched one page at a time */}
+          {!loading && hasMoreOrders && (
+            <div className="px-6 py-4 border-t border-slate-200 dark:border-slate-700 text-center">
+              <button
+                data-testid="load-more-orders-button"
+                onClick={loadMoreOrders}
+                disabled={loadingMore}
+                className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-300 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 rounded-lg transition-colors disabled:opacity-50"
+              >
+                {loadingMore ? t('common.loading') : t('dashboard.loadMore')}
+              </button>
+            </div>
+          )}
         </div>
 
       {/* Order Details Modal */}
@@ -974,6 +1028,7 @@ export default function Dashboard() {
         isOpen={showOrderModal}
         onClose={() => setShowOrderModal(false)}
         order={selectedOrder}
+        onOrderUpdated={() => selectedOrder && refreshOrder(selectedOrder.id)}
       />
 
       {/* Place Order Modal */}
@@ -989,6 +1044,15 @@ export default function Dashboard() {
           // Order will appear automatically via real-time listener
         }}
       />
+
+      <ImportOrdersModal
+        open={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        onSuccess={() => {
+          // Imported orders will appear automatically via real-time listener
+          setActiveTab('current');
+        }}
+      />
       </div>
     </AppShell>
   );
@@ -1,10 +1,14 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '../contexts/AuthContext';
 import { db } from '../firebase';
-import { collection, Timestamp, writeBatch, doc } from 'firebase/firestore';
-import { OrderStatus } from '../types';
+import { collection, Timestamp, doc } from 'firebase/firestore';
+import { OrderStatus, PriceTable } from '../types';
+import { fetchPriceTables, quoteSubOrder, toSubOrderPricing, estimateOrderTotal } from '../services/pricingService';
+import { createNumberedOrders, getOrderProductTypes } from '../services/orderService';
+import { buildPreflightReport } from '../services/preflightService';
+import { formatCurrency } from '../utils/helpers';
 import { showSuccess } from '../services/notificationService';
 import AuthModal from '../components/AuthModal';
 import AppShell from '../components/AppShell';
@@ -23,6 +27,9 @@ export default function PlaceOrder() {
   const [contactPhone, setContactPhone] = useState('');
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
+  // Price tables for live estimates
+  const [priceTables, setPriceTables] = useState<Record<string, PriceTable> | null>(null);
+
   // Sub-orders state
   const [subOrders, setSubOrders] = useState<SubOrderData[]>([
     {
@@ -49,9 +56,8 @@ export default function PlaceOrder() {
       setLoading(true);
       setError('');
 
-      // Use batch write for atomic operations
-      const batch = writeBatch(db);
       const timestamp = Timestamp.now();
+      const tables = priceTables || await fetchPriceTables();
 
       // Create parent order reference
       const ordersRef = collection(db, 'orders');
@@ -61,61 +67,67 @@ export default function PlaceOrder() {
       // Prioritize Firestore userProfile.displayName over Firebase Auth
       const clientName = userProfile?.displayName || currentUser.displayName || currentUser.email || currentUser.phoneNumber || '';
 
-      const orderData = {
-        clientId: currentUser.uid,
-        clientName: clientName,
-        clientEmail: currentUser.email || '',
-        clientPhone: contactPhone || '',
-        clientCompany: '',
-        userId: currentUser.uid,
-        userName: clientName,
-        userEmail: currentUser.email,
-        status: OrderStatus.PENDING_CONFIRMATION,
-        createdAt: timestamp,
-        updatedAt: timestamp
-      };
-
-      batch.set(orderRef, orderData);
-
-      // Create sub-orders in subcollection
-      subOrders.forEach((so) => {
-        const subOrderRef = doc(collection(db, 'orders', orderRef.id, 'subOrders'));
-        const subOrderData = {
-          userId: currentUser.uid,  // Store userId for security rules
-          productType: so.productType?.id || '',
-          productTypeName: so.productType?.name || '',
-          productTypeCustom: so.productType?.isCustom || false,
-          quantity: parseInt(so.quantity),
-          length: so.length ? parseFloat(so.length) : null,
-          width: so.width ? parseFloat(so.width) : null,
-          cmp: so.cmp ? parseFloat(so.cmp) : null,
-          description: so.description,
-          designFile: so.designFile || '',
-          designFilePath: so.designFilePath || '',
-          deliveryTime: so.deliveryTime || null,
-          notes: so.notes || '',
-          status: OrderStatus.PENDING,
+      // The order, its sub-orders and the first feed entry are written atomically with the order number
+      await createNumberedOrders(1, (transaction, [orderNumber]) => {
+        const orderData = {
+          orderNumber,
+          productTypes: getOrderProductTypes(subOrders),
+          clientId: currentUser.uid,
+          clientName: clientName,
+          clientEmail: currentUser.email || '',
+          clientPhone: contactPhone || '',
+          clientCompany: '',
+          userId: currentUser.uid,
+          userName: clientName,
+          userEmail: currentUser.email,
+          status: OrderStatus.PENDING_CONFIRMATION,
           createdAt: timestamp,
           updatedAt: timestamp
         };
-        batch.set(subOrderRef, subOrderData);
-      });
 
-      // Create initial order update
-      const updateRef = doc(collection(db, 'orderUpdates'));
-      batch.set(updateRef, {
-        orderId: orderRef.id,
-        userId: currentUser.uid,
-        userName: clientName,
-        userEmail: currentUser.email,
-        text: t('dashboard.orderModal.orderCreatedByClient'),
-        isSystem: true,
-        createdAt: timestamp
+        transaction.set(orderRef, orderData);
+
+        // Create sub-orders in subcollection
+        subOrders.forEach((so) => {
+          const subOrderRef = doc(collection(db, 'orders', orderRef.id, 'subOrders'));
+          const subOrderData = {
+            userId: currentUser.uid,  // Store userId for security rules
+            productType: so.productType?.id || '',
+            productTypeName: so.productType?.name || '',
+            productTypeCustom: so.productType?.isCustom || false,
+            quantity: parseInt(so.quantity),
+            length: so.length ? parseFloat(so.length) : null,
+            width: so.width ? parseFloat(so.width) : null,
+            cmp: so.cmp ? parseFloat(so.cmp) : null,
+            ...toSubOrderPricing(quoteSubOrder(tables, so.productType?.id, so)),
+            description: so.description,
+            designFile: so.designFile || '',
+            designFilePath: so.designFilePath || '',
+            mockupFile: so.mockupFile || '',
+            mockupFilePath: so.mockupFilePath || '',
+            preflight: so.designFile && so.designInfo ? buildPreflightReport(so.designInfo, so.length, so.width) : null,
+            deliveryTime: so.deliveryTime || null,
+            notes: so.notes || '',
+            status: OrderStatus.PENDING,
+            createdAt: timestamp,
+            updatedAt: timestamp
+          };
+          transaction.set(subOrderRef, subOrderData);
+        });
+
+        // Create initial order update
+        const updateRef = doc(collection(db, 'orderUpdates'));
+        transaction.set(updateRef, {
+          orderId: orderRef.id,
+          userId: currentUser.uid,
+          userName: clientName,
+          userEmail: currentUser.email,
+          text: t('dashboard.orderModal.orderCreatedByClient'),
+          isSystem: true,
+          createdAt: timestamp
+        });
       });
 
-      // Commit all writes atomically
-      await batch.commit();
-
       // Small delay to ensure data is available in emulator/Firestore
       await new Promise(resolve => setTimeout(resolve, 500));
 
@@ -139,7 +151,7 @@ export default function PlaceOrder() {
     } finally {
       setLoading(false);
     }
-  }, [currentUser, userProfile, contactPhone, subOrders, t, navigate]);
+  }, [currentUser, userProfile, contactPhone, subOrders, priceTables, t, navigate]);
 
   // Clear error when user authenticates and submit order if pending
   useEffect(() => {
@@ -150,6 +162,16 @@ export default function PlaceOrder() {
     }
   }, [currentUser, pendingSubmit, submitOrder]);
 
+  // Load price tables once for the live estimate
+  useEffect(() => {
+    fetchPriceTables().then(setPriceTables);
+  }, []);
+
+  const orderEstimate = useMemo(
+    () => (priceTables ? estimateOrderTotal(priceTables, subOrders) : null),
+    [priceTables, subOrders]
+  );
+
   // Pre-fill contact phone with user's phone number if available
   useEffect(() => {
     if (currentUser?.phoneNumber && !contactPhone) {
@@ -303,10 +325,26 @@ export default function PlaceOrder() {
                       onChange={handleSubOrderChange}
                       onRemove={handleRemoveSubOrder}
                       canRemove={subOrders.length > 1}
+                      priceTables={priceTables || undefined}
                     />
                   </div>
                 ))}
               </div>
+
+              {/* Order Estimate */}
+              {orderEstimate && (
+                <div data-testid="place-order-estimate" className="mt-4 flex items-center justify-between p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-md">
+                  <div>
+                    <p className="text-sm font-semibold text-gray-900 dark:text-white">{t('pricing.orderEstimate')}</p>
+                    {orderEstimate.unpricedCount > 0 && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {t('pricing.unpricedItems', { count: orderEstimate.unpricedCount })}
+                      </p>
+                    )}
+                  </div>
+                  <span className="text-base font-semibold text-gray-900 dark:text-white">{formatCurrency(orderEstimate.total)}</span>
+                </div>
+              )}
             </div>
 
             <div className="mt-6 flex items-center justify-end gap-x-6">
@@ -401,10 +439,26 @@ export default function PlaceOrder() {
                     onChange={handleSubOrderChange}
                     onRemove={handleRemoveSubOrder}
                     canRemove={subOrders.length > 1}
+                    priceTables={priceTables || undefined}
                   />
                 </div>
               ))}
             </div>
+
+            {/* Order Estimate */}
+            {orderEstimate && (
+              <div data-testid="place-order-estimate" className="mt-4 flex items-center justify-between p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-md">
+                <div>
+                  <p className="text-sm font-semibold text-gray-900 dark:text-white">{t('pricing.orderEstimate')}</p>
+                  {orderEstimate.unpricedCount > 0 && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {t('pricing.unpricedItems', { count: orderEstimate.unpricedCount })}
+                    </p>
+                  )}
+                </div>
+                <span className="text-base font-semibold text-gray-900 dark:text-white">{formatCurrency(orderEstimate.total)}</span>
+              </div>
+            )}
           </div>
 
           <div className="mt-6 flex items-center justify-end gap-x-6">
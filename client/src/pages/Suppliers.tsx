@@ -3,7 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { useAuth, hasTeamAccess } from '../contexts/AuthContext';
 import { db } from '../firebase';
-import { collection, query, getDocs, deleteDoc, doc, orderBy, updateDoc, Timestamp } from 'firebase/firestore';
+import { collection, query, getDocs, doc, orderBy, updateDoc, Timestamp } from 'firebase/firestore';
 import { ChevronDownIcon } from '@heroicons/react/16/solid';
 import { EllipsisVerticalIcon, TrashIcon, CheckIcon } from '@heroicons/react/20/solid';
 import { Menu, MenuButton, MenuItem, MenuItems } from '@headlessui/react';
@@ -13,9 +13,10 @@ import EditSupplierModal from '../components/EditSupplierModal';
 import AddSupplierOrderModal from '../components/AddSupplierOrderModal';
 import ViewSupplierOrderModal from '../components/ViewSupplierOrderModal';
 import ConfirmDialog from '../components/ConfirmDialog';
-import { Supplier, SupplierOrder } from '../types';
+import { Supplier, SupplierOrder, TrashItemType } from '../types';
 import { formatDate } from '../utils/dateUtils';
 import { showSuccess, showError } from '../services/notificationService';
+import { moveToTrash } from '../services/trashService';
 
 function classNames(...classes: string[]) {
   return classes.filter(Boolean).join(' ');
@@ -185,8 +186,7 @@ export default function Suppliers() {
     if (!selectedSupplierId) return;
 
     try {
-      const supplierRef = doc(db, 'suppliers', selectedSupplierId);
-      await deleteDoc(supplierRef);
+      await moveToTrash(TrashItemType.SUPPLIER, selectedSupplierId);
       await fetchSuppliers();
     } catch (error) {
       if (import.meta.env.DEV) {
@@ -208,8 +208,7 @@ export default function Suppliers() {
     if (!selectedOrderId) return;
 
     try {
-      const orderRef = doc(db, 'supplierOrders', selectedOrderId);
-      await deleteDoc(orderRef);
+      await moveToTrash(TrashItemType.SUPPLIER_ORDER, selectedOrderId);
       await fetchSupplierOrders();
       showSuccess(t('suppliers.deleteOrderSuccess'));
     } catch (error) {
@@ -1,22 +1,31 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { useAuth, isOwner } from '../contexts/AuthContext';
+import { useAuth, isOwner, hasAdminAccess } from '../contexts/AuthContext';
 import { db } from '../firebase';
 import { collection, query, where, getDocs, orderBy, doc, getDoc, deleteDoc, updateDoc } from 'firebase/firestore';
-import { TeamRole, Department } from '../types';
+import { TeamRole, Department, ProductType, PriceTable, PricingMode, TrashItemType } from '../types';
 import InviteTeamModal from '../components/InviteTeamModal';
 import AddDepartmentModal from '../components/AddDepartmentModal';
+import PriceTableModal from '../components/PriceTableModal';
+import InvoiceSeriesSettings from '../components/InvoiceSeriesSettings';
+import CompanySettingsForm from '../components/CompanySettingsForm';
+import CancellationReasonsSettings from '../components/CancellationReasonsSettings';
+import TrashBin from '../components/TrashBin';
 import ConfirmDialog from '../components/ConfirmDialog';
 import AppShell from '../components/AppShell';
 import { formatDate } from '../utils/dateUtils';
 import { showError, showSuccess } from '../services/notificationService';
+import { fetchPriceTables, DEFAULT_PRICE_TABLES } from '../services/pricingService';
+import { moveToTrash } from '../services/trashService';
+import { formatCurrency } from '../utils/helpers';
+import { DEFAULT_CREDIT_NOTE_SERIES, DEFAULT_PROFORMA_SERIES } from '../constants';
 
 export default function TeamManagement() {
   const { currentUser, userProfile } = useAuth();
   const navigate = useNavigate();
   const { t } = useTranslation();
-  const [activeTab, setActiveTab] = useState<'team' | 'departments'>('team');
+  const [activeTab, setActiveTab] = useState<'team' | 'departments' | 'pricing' | 'invoicing' | 'orders' | 'trash'>('team');
   const [owners, setOwners] = useState<any[]>([]);
   const [admins, setAdmins] = useState<any[]>([]);
   const [members, setMembers] = useState<any[]>([]);
@@ -31,10 +40,14 @@ export default function TeamManagement() {
   const [selectedInvitationId, setSelectedInvitationId] = useState(null);
   const [selectedMemberId, setSelectedMemberId] = useState(null);
   const [selectedDepartmentId, setSelectedDepartmentId] = useState<string | null>(null);
+  const [customProductTypes, setCustomProductTypes] = useState<Array<{ id: string; name: string }>>([]);
+  const [priceTables, setPriceTables] = useState<Record<string, PriceTable>>({});
+  const [editingProductType, setEditingProductType] = useState<{ id: string; name: string } | null>(null);
 
   useEffect(() => {
     fetchTeamData();
     fetchDepartments();
+    fetchPricing();
   }, [currentUser]);
 
   async function fetchTeamData() {
@@ -115,6 +128,24 @@ export default function TeamManagement() {
     }
   }
 
+  async function fetchPricing() {
+    try {
+      const [tables, productTypesSnapshot] = await Promise.all([
+        fetchPriceTables(),
+        getDocs(collection(db, 'productTypes'))
+      ]);
+      setPriceTables(tables);
+      setCustomProductTypes(productTypesSnapshot.docs.map(doc => ({
+        id: doc.id,
+        name: doc.data().name
+      })));
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error fetching pricing:', error);
+      }
+    }
+  }
+
   function promptDeleteDepartment(departmentId: string) {
     setSelectedDepartmentId(departmentId);
     setShowDeleteDepartmentDialog(true);
@@ -124,7 +155,7 @@ export default function TeamManagement() {
     if (!selectedDepartmentId) return;
 
     try {
-      await deleteDoc(doc(db, 'departments', selectedDepartmentId));
+      await moveToTrash(TrashItemType.DEPARTMENT, selectedDepartmentId);
       await fetchDepartments();
     } catch (error) {
       if (import.meta.env.DEV) {
@@ -202,6 +233,16 @@ export default function TeamManagement() {
     }
   }
 
+  // Built-in product types (except "other") followed by the team's custom ones
+  const pricedProductTypes = [
+    { id: ProductType.MUGS, name: t('productType.mugs') },
+    { id: ProductType.T_SHIRTS, name: t('productType.tshirts') },
+    { id: ProductType.HOODIES, name: t('productType.hoodies') },
+    { id: ProductType.BAGS, name: t('productType.bags') },
+    { id: ProductType.CAPS, name: t('productType.caps') },
+    ...customProductTypes
+  ];
+
   return (
     <AppShell title={t('team.title')}>
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -234,6 +275,52 @@ export default function TeamManagement() {
             >
               {t('team.tabs.departments')}
             </button>
+            <button
+              data-testid="team-tab-pricing"
+              onClick={() => setActiveTab('pricing')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                activeTab === 'pricing'
+                  ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                  : 'border-transparent text-gray-500 dark:text-slate-400 hover:text-gray-700 dark:hover:text-slate-300 hover:border-gray-300 dark:hover:border-slate-600'
+              }`}
+            >
+              {t('team.tabs.pricing')}
+            </button>
+            <button
+              data-testid="team-tab-invoicing"
+              onClick={() => setActiveTab('invoicing')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                activeTab === 'invoicing'
+                  ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                  : 'border-transparent text-gray-500 dark:text-slate-400 hover:text-gray-700 dark:hover:text-slate-300 hover:border-gray-300 dark:hover:border-slate-600'
+              }`}
+            >
+              {t('team.tabs.invoicing')}
+            </button>
+            <button
+              data-testid="team-tab-orders"
+              onClick={() => setActiveTab('orders')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                activeTab === 'orders'
+                  ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                  : 'border-transparent text-gray-500 dark:text-slate-400 hover:text-gray-700 dark:hover:text-slate-300 hover:border-gray-300 dark:hover:border-slate-600'
+              }`}
+            >
+              {t('team.tabs.orders')}
+            </button>
+            {hasAdminAccess(userProfile) && (
+              <button
+                data-testid="team-tab-trash"
+                onClick={() => setActiveTab('trash')}
+                className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                  activeTab === 'trash'
+                    ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                    : 'border-transparent text-gray-500 dark:text-slate-400 hover:text-gray-700 dark:hover:text-slate-300 hover:border-gray-300 dark:hover:border-slate-600'
+                }`}
+              >
+                {t('team.tabs.trash')}
+              </button>
+            )}
           </nav>
         </div>
 
@@ -499,6 +586,83 @@ export default function TeamManagement() {
                 </div>
               </div>
             )}
+
+            {/* Pricing Tab */}
+            {activeTab === 'pricing' && (
+              <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-slate-200 dark:border-slate-700 transition-colors">
+                <div className="px-6 py-4 border-b border-gray-200 dark:border-slate-700">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                    {t('pricing.title')}
+                  </h3>
+                  <p className="text-sm text-gray-500 dark:text-slate-400">{t('pricing.subtitle')}</p>
+                </div>
+                <div className="p-6">
+                  <div className="space-y-3">
+                    {pricedProductTypes.map((productType) => {
+                      const table = priceTables[productType.id];
+                      return (
+                        <div key={productType.id} data-testid={`price-table-row-${productType.id}`} className="flex items-center justify-between p-4 border border-gray-200 dark:border-slate-700 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
+                          <div>
+                            <p className="font-medium text-gray-900 dark:text-white">
+                              {productType.name}
+                              {table && (
+                                <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300">
+                                  {table.updatedAt || !DEFAULT_PRICE_TABLES[productType.id] ? t('pricing.customTable') : t('pricing.defaultTable')}
+                                </span>
+                              )}
+                            </p>
+                            <p className="text-sm text-gray-500 dark:text-slate-400">
+                              {!table
+                                ? t('pricing.noTable')
+                                : table.mode === PricingMode.AREA
+                                  ? t('pricing.summaryArea', { rate: formatCurrency(table.areaRate || 0), price: formatCurrency(table.basePrice) })
+                                  : t('pricing.summaryUnit', { price: formatCurrency(table.basePrice) })}
+                              {table && table.tiers?.length > 0 && ` · ${t('pricing.tierCount', { count: table.tiers.length })}`}
+                            </p>
+                          </div>
+                          <button
+                            onClick={() => setEditingProductType(productType)}
+                            className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 text-sm font-medium transition-colors"
+                          >
+                            {t('pricing.editTable')}
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Invoicing Tab */}
+            {activeTab === 'invoicing' && (
+              <div className="space-y-6">
+                <CompanySettingsForm />
+                <InvoiceSeriesSettings />
+                <InvoiceSeriesSettings
+                  seriesId={DEFAULT_CREDIT_NOTE_SERIES}
+                  titleKey="invoice.series.creditNoteTitle"
+                  subtitleKey="invoice.series.creditNoteSubtitle"
+                />
+                <InvoiceSeriesSettings
+                  seriesId={DEFAULT_PROFORMA_SERIES}
+                  titleKey="invoice.series.proformaTitle"
+                  subtitleKey="invoice.series.proformaSubtitle"
+                />
+              </div>
+            )}
+
+            {/* Orders Tab */}
+            {activeTab === 'orders' && (
+              <div className="space-y-6">
+                <CancellationReasonsSettings />
+              </div>
+            )}
+
+            {/* Trash Tab */}
+            {activeTab === 'trash' && hasAdminAccess(userProfile) && (
+              <TrashBin />
+            )}
           </>
         )}
 
@@ -557,6 +721,15 @@ export default function TeamManagement() {
         ]}
       />
 
+      {/* Price Table Modal */}
+      <PriceTableModal
+        isOpen={!!editingProductType}
+        onClose={() => setEditingProductType(null)}
+        onSaved={fetchPricing}
+        productType={editingProductType}
+        priceTable={editingProductType ? priceTables[editingProductType.id] || null : null}
+      />
+
       {/* Delete Department Confirm Dialog */}
       <ConfirmDialog
         isOpen={showDeleteDepartmentDialog}
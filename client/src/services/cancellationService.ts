@@ -0,0 +1,119 @@
+import { collection, doc, getDoc, setDoc, writeBatch, Timestamp } from 'firebase/firestore';
+import { db } from '../firebase';
+import { OrderStatus, OrderCancellation } from '../types';
+import { fetchSubOrders, getOrderNumber } from './orderService';
+
+/**
+ * Fallback cancellation reasons used until the team saves its own list
+ */
+export const DEFAULT_CANCELLATION_REASONS = [
+  'Anulată la cererea clientului',
+  'Termen de livrare imposibil de respectat',
+  'Materiale indisponibile',
+  'Plata nu a fost efectuată',
+  'Comandă duplicată',
+  'Alt motiv'
+];
+
+// Sub-orders already finished keep their status when the order is cancelled
+const FINAL_STATUSES: string[] = [OrderStatus.COMPLETED, OrderStatus.CANCELLED];
+
+/**
+ * Fetch the reasons a team member can choose from when cancelling an order
+ * @returns Stored reasons, or the defaults
+ */
+export async function getCancellationReasons(): Promise<string[]> {
+  try {
+    const settingsDoc = await getDoc(doc(db, 'settings', 'cancellationReasons'));
+    const reasons = settingsDoc.exists() ? settingsDoc.data().reasons : null;
+    if (Array.isArray(reasons) && reasons.length > 0) {
+      return reasons;
+    }
+  } catch (error) {
+    if (import.meta.env.DEV) {
+      console.error('Error fetching cancellation reasons:', error);
+    }
+  }
+  return DEFAULT_CANCELLATION_REASONS;
+}
+
+/**
+ * Save the list of cancellation reasons
+ * @param reasons - Reasons, in display order
+ */
+export async function saveCancellationReasons(reasons: string[]): Promise<void> {
+  await setDoc(doc(db, 'settings', 'cancellationReasons'), {
+    reasons,
+    updatedAt: Timestamp.now()
+  });
+}
+
+/**
+ * Cancel an order together with its active sub-orders, in one batch.
+ * Posts the reason to the order feed and notifies the client in the app; the
+ * onOrderCancelled Cloud Function then cancels linked supplier order items and
+ * emails the client.
+ * @param order - Order to cancel
+ * @param reason - Chosen reason and optional comment
+ * @param user - Team member cancelling the order
+ * @param feedText - Translated text posted to the order feed
+ * @returns The cancellation record stored on the order
+ */
+export async function cancelOrder(
+  order: any,
+  reason: { reason: string; comment: string },
+  user: { uid: string; name: string; email: string | null },
+  feedText: string
+): Promise<OrderCancellation> {
+  const subOrders = await fetchSubOrders(order.id);
+  const batch = writeBatch(db);
+  const timestamp = Timestamp.now();
+  const cancellation: OrderCancellation = {
+    reason: reason.reason,
+    comment: reason.comment,
+    cancelledBy: user.uid,
+    cancelledByName: user.name,
+    cancelledAt: timestamp
+  };
+
+  batch.update(doc(db, 'orders', order.id), {
+    status: OrderStatus.CANCELLED,
+    cancellation,
+    updatedAt: timestamp
+  });
+
+  subOrders
+    .filter(subOrder => !FINAL_STATUSES.includes(subOrder.status))
+    .forEach(subOrder => {
+      batch.update(doc(db, 'orders', order.id, 'subOrders', subOrder.id), {
+        status: OrderStatus.CANCELLED,
+        updatedAt: timestamp
+      });
+    });
+
+  batch.set(doc(collection(db, 'orderUpdates')), {
+    orderId: order.id,
+    userId: user.uid,
+    userName: user.name,
+    userEmail: user.email,
+    text: feedText,
+    isSystem: true,
+    createdAt: timestamp
+  });
+
+  // Orders of clients without an account belong to the team member who placed them
+  if (order.userId && order.userId !== user.uid) {
+    batch.set(doc(collection(db, 'notifications')), {
+      userId: order.userId,
+      type: 'order_cancelled',
+      title: 'Comandă anulată',
+      message: `Comanda ${getOrderNumber(order)} a fost anulată. Motiv: ${reason.reason}`,
+      orderId: order.id,
+      read: false,
+      createdAt: timestamp
+    });
+  }
+
+  await batch.commit();
+  return cancellation;
+}
@@ -0,0 +1,44 @@
+import { doc, getDoc, setDoc, Timestamp } from 'firebase/firestore';
+import { db } from '../firebase';
+import { CompanySettings } from '../types';
+
+/**
+ * Fallback company details used until the team saves its own in settings/company
+ */
+export const DEFAULT_COMPANY_SETTINGS: CompanySettings = {
+  name: 'SERIGRAFIE BRASOV',
+  city: 'Brasov',
+  county: 'BV',
+  countryCode: 'RO',
+  email: 'contact@serigrafie-brasov.ro'
+};
+
+/**
+ * Fetch the company (seller) details printed on invoices
+ * @returns Stored settings merged over the defaults
+ */
+export async function getCompanySettings(): Promise<CompanySettings> {
+  try {
+    const settingsDoc = await getDoc(doc(db, 'settings', 'company'));
+    if (settingsDoc.exists()) {
+      return { ...DEFAULT_COMPANY_SETTINGS, ...settingsDoc.data() } as CompanySettings;
+    }
+  } catch (error) {
+    if (import.meta.env.DEV) {
+      console.error('Error fetching company settings:', error);
+    }
+  }
+  return DEFAULT_COMPANY_SETTINGS;
+}
+
+/**
+ * Save the company (seller) details
+ * @param settings - Company details
+ */
+export async function saveCompanySettings(settings: CompanySettings): Promise<void> {
+  const { updatedAt: _updatedAt, ...data } = settings;
+  await setDoc(doc(db, 'settings', 'company'), {
+    ...data,
+    updatedAt: Timestamp.now()
+  });
+}
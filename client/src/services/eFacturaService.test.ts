@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { buildEFacturaXml, validateEFacturaInvoice } from './eFacturaService';
+import { Invoice, InvoiceType } from '../types';
+
+const party = {
+  name: 'Serigrafie Brașov SRL',
+  taxId: 'RO12345678',
+  address: 'Str. Lungă 1',
+  city: 'Brașov',
+  county: 'BV',
+  countryCode: 'RO'
+};
+
+function makeInvoice(overrides: Partial<Invoice> = {}): Invoice {
+  return {
+    type: InvoiceType.INVOICE,
+    series: 'SB',
+    number: 1,
+    invoiceNumber: 'SB-2026-000001',
+    orderId: 'order-1',
+    orderNumber: 'CMD-0001',
+    userId: 'user-1',
+    clientName: 'Client',
+    clientEmail: 'client@example.com',
+    seller: { ...party },
+    buyer: { ...party, name: 'Client SRL' },
+    items: [{ description: 'Căni', quantity: 2, unitPrice: 10, netAmount: 20, vatRate: 19, vatAmount: 3.8, totalAmount: 23.8 }],
+    totals: { netAmount: 20, vatAmount: 3.8, totalAmount: 23.8 },
+    currency: 'RON',
+    issuedAt: Timestamp.fromDate(new Date(2026, 2, 1)),
+    issuedBy: 'team-1',
+    paymentDueDate: Timestamp.fromDate(new Date(2026, 2, 31)),
+    ...overrides
+  } as Invoice;
+}
+
+describe('validateEFacturaInvoice', () => {
+  it('accepts a complete invoice', () => {
+    expect(validateEFacturaInvoice(makeInvoice())).toEqual([]);
+  });
+
+  it('requires a due date when an amount is payable (BR-CO-25)', () => {
+    expect(validateEFacturaInvoice(makeInvoice({ paymentDueDate: undefined }))).toEqual([
+      { field: 'paymentDueDate', rule: 'required', businessTerm: 'BT-9' }
+    ]);
+  });
+});
+
+describe('buildEFacturaXml', () => {
+  it('emits the due date after the issue date', () => {
+    const xml = buildEFacturaXml(makeInvoice());
+    expect(xml).toContain('<cbc:IssueDate>2026-03-01</cbc:IssueDate>\n<cbc:DueDate>2026-03-31</cbc:DueDate>');
+  });
+});
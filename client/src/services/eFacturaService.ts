@@ -0,0 +1,275 @@
+import { Invoice, InvoiceParty } from '../types';
+import { roundCurrency } from '../utils/helpers';
+
+/**
+ * e-Factura export (ANAF) - UBL 2.1 invoices following the CIUS-RO national specification
+ */
+
+export const CIUS_RO_CUSTOMIZATION_ID = 'urn:cen.eu:en16931:2017#compliant#urn:efactura.mfinante.ro:CIUS-RO:1.0.1';
+
+const UBL_INVOICE_TYPE_CODE = '380'; // Commercial invoice
+const UNIT_CODE_PIECE = 'H87';
+const STANDARD_VAT_CATEGORY = 'S';
+const PAYMENT_MEANS_CREDIT_TRANSFER = '42';
+const ANONYMOUS_BUYER_ID = '0000000000000'; // Used by CIUS-RO for individuals without a CNP
+
+// ISO 3166-2:RO county codes (without the "RO-" prefix)
+export const ROMANIAN_COUNTY_CODES = [
+  'AB', 'AG', 'AR', 'B', 'BC', 'BH', 'BN', 'BR', 'BT', 'BV', 'BZ', 'CJ', 'CL', 'CS', 'CT', 'CV',
+  'DB', 'DJ', 'GJ', 'GL', 'GR', 'HD', 'HR', 'IF', 'IL', 'IS', 'MH', 'MM', 'MS', 'NT', 'OT', 'PH',
+  'SB', 'SJ', 'SM', 'SV', 'TL', 'TM', 'TR', 'VL', 'VN', 'VS'
+];
+
+const TAX_ID_REGEX = /^(RO)?[0-9]{2,10}$/;
+const BUCHAREST_SECTOR_REGEX = /^SECTOR[1-6]$/;
+
+export interface EFacturaIssue {
+  field: string; // Dotted path of the offending field, e.g. "seller.taxId" or "items.2.unitPrice"
+  rule: 'required' | 'format';
+  businessTerm?: string; // EN 16931 business term, e.g. BT-31
+}
+
+/**
+ * Validate the fields required by EN 16931 / CIUS-RO before building the XML
+ * @returns The list of problems, empty when the invoice can be exported
+ */
+export function validateEFacturaInvoice(invoice: Invoice): EFacturaIssue[] {
+  const issues: EFacturaIssue[] = [];
+
+  function required(value: unknown, field: string, businessTerm?: string) {
+    if (value === undefined || value === null || String(value).trim() === '') {
+      issues.push({ field, rule: 'required', businessTerm });
+      return false;
+    }
+    return true;
+  }
+
+  function validateParty(party: InvoiceParty | undefined, prefix: 'seller' | 'buyer') {
+    const terms = prefix === 'seller'
+      ? { name: 'BT-27', street: 'BT-35', city: 'BT-37', county: 'BT-39', country: 'BT-40', taxId: 'BT-31' }
+      : { name: 'BT-44', street: 'BT-50', city: 'BT-52', county: 'BT-54', country: 'BT-55', taxId: 'BT-48' };
+
+    required(party?.name, `${prefix}.name`, terms.name);
+    required(party?.address, `${prefix}.address`, terms.street);
+    if (required(party?.city, `${prefix}.city`, terms.city) && party?.county === 'B' &&
+        !BUCHAREST_SECTOR_REGEX.test(normalizeSector(party.city!))) {
+      issues.push({ field: `${prefix}.city`, rule: 'format', businessTerm: terms.city });
+    }
+
+    const countryCode = party?.countryCode || 'RO';
+    if (countryCode === 'RO') {
+      if (required(party?.county, `${prefix}.county`, terms.county) &&
+          !ROMANIAN_COUNTY_CODES.includes(party!.county!)) {
+        issues.push({ field: `${prefix}.county`, rule: 'format', businessTerm: terms.county });
+      }
+    }
+
+    // The seller must be identified for VAT; the buyer may be an individual
+    if (prefix === 'seller') {
+      if (required(party?.taxId, `${prefix}.taxId`, terms.taxId) && !TAX_ID_REGEX.test(normalizeTaxId(party!.taxId!))) {
+        issues.push({ field: `${prefix}.taxId`, rule: 'format', businessTerm: terms.taxId });
+      }
+    } else if (party?.taxId && !TAX_ID_REGEX.test(normalizeTaxId(party.taxId))) {
+      issues.push({ field: `${prefix}.taxId`, rule: 'format', businessTerm: terms.taxId });
+    }
+  }
+
+  required(invoice.invoiceNumber, 'invoiceNumber', 'BT-1');
+  required(invoice.issuedAt, 'issuedAt', 'BT-2');
+  // BR-CO-25: a due date (or payment terms) is required when an amount is payable
+  if (invoice.totals?.totalAmount > 0) {
+    required(invoice.paymentDueDate, 'paymentDueDate', 'BT-9');
+  }
+  validateParty(invoice.seller, 'seller');
+  validateParty(invoice.buyer, 'buyer');
+
+  if (!invoice.items || invoice.items.length === 0) {
+    issues.push({ field: 'items', rule: 'required', businessTerm: 'BG-25' });
+  }
+
+  (invoice.items || []).forEach((item, index) => {
+    required(item.description, `items.${index}.description`, 'BT-153');
+    if (!(item.quantity > 0)) {
+      issues.push({ field: `items.${index}.quantity`, rule: 'required', businessTerm: 'BT-129' });
+    }
+    if (item.unitPrice === null || item.unitPrice === undefined) {
+      issues.push({ field: `items.${index}.unitPrice`, rule: 'required', businessTerm: 'BT-146' });
+    }
+  });
+
+  return issues;
+}
+
+function normalizeTaxId(taxId: string): string {
+  return taxId.replace(/\s/g, '').toUpperCase();
+}
+
+function normalizeSector(city: string): string {
+  return city.replace(/\s/g, '').toUpperCase();
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function amount(value: number): string {
+  return roundCurrency(value).toFixed(2);
+}
+
+function isoDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+function partyXml(party: InvoiceParty, isSeller: boolean): string {
+  const countryCode = party.countryCode || 'RO';
+  const taxId = party.taxId ? normalizeTaxId(party.taxId) : '';
+  const isVatRegistered = taxId.startsWith('RO');
+  const city = countryCode === 'RO' && party.county === 'B' ? normalizeSector(party.city || '') : party.city || '';
+  // BT-30 / BT-47: trade register number, falling back to the tax id
+  const legalId = party.registrationNumber || taxId || (isSeller ? '' : ANONYMOUS_BUYER_ID);
+
+  const lines = [
+    '<cac:Party>',
+    '<cac:PostalAddress>',
+    `<cbc:StreetName>${escapeXml(party.address || '')}</cbc:StreetName>`,
+    `<cbc:CityName>${escapeXml(city)}</cbc:CityName>`,
+    countryCode === 'RO' && party.county ? `<cbc:CountrySubentity>RO-${escapeXml(party.county)}</cbc:CountrySubentity>` : '',
+    `<cac:Country><cbc:IdentificationCode>${escapeXml(countryCode)}</cbc:IdentificationCode></cac:Country>`,
+    '</cac:PostalAddress>',
+    isVatRegistered
+      ? `<cac:PartyTaxScheme><cbc:CompanyID>${escapeXml(taxId)}</cbc:CompanyID><cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:PartyTaxScheme>`
+      : '',
+    '<cac:PartyLegalEntity>',
+    `<cbc:RegistrationName>${escapeXml(party.name)}</cbc:RegistrationName>`,
+    legalId ? `<cbc:CompanyID>${escapeXml(legalId)}</cbc:CompanyID>` : '',
+    '</cac:PartyLegalEntity>',
+    party.email || party.phone
+      ? `<cac:Contact>${party.phone ? `<cbc:Telephone>${escapeXml(party.phone)}</cbc:Telephone>` : ''}${party.email ? `<cbc:ElectronicMail>${escapeXml(party.email)}</cbc:ElectronicMail>` : ''}</cac:Contact>`
+      : '',
+    '</cac:Party>'
+  ];
+
+  const wrapper = isSeller ? 'cac:AccountingSupplierParty' : 'cac:AccountingCustomerParty';
+  return `<${wrapper}>${lines.filter(Boolean).join('')}</${wrapper}>`;
+}
+
+/**
+ * Build the CIUS-RO UBL 2.1 XML of an issued invoice.
+ * Call validateEFacturaInvoice first - this function assumes the required fields are present.
+ */
+export function buildEFacturaXml(invoice: Invoice): string {
+  const currency = invoice.currency || 'RON';
+  const issueDate = invoice.issuedAt.toDate();
+  const seller = invoice.seller!;
+  const buyer = invoice.buyer!;
+
+  // Group VAT by rate (BG-23)
+  const vatRates = Array.from(new Set(invoice.items.map(item => item.vatRate)));
+  const taxSubtotals = vatRates.map(rate => {
+    const rateItems = invoice.items.filter(item => item.vatRate === rate);
+    const taxableAmount = rateItems.reduce((sum, item) => sum + item.netAmount, 0);
+    const taxAmount = rateItems.reduce((sum, item) => sum + item.vatAmount, 0);
+    return [
+      '<cac:TaxSubtotal>',
+      `<cbc:TaxableAmount currencyID="${currency}">${amount(taxableAmount)}</cbc:TaxableAmount>`,
+      `<cbc:TaxAmount currencyID="${currency}">${amount(taxAmount)}</cbc:TaxAmount>`,
+      '<cac:TaxCategory>',
+      `<cbc:ID>${STANDARD_VAT_CATEGORY}</cbc:ID>`,
+      `<cbc:Percent>${rate}</cbc:Percent>`,
+      '<cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme>',
+      '</cac:TaxCategory>',
+      '</cac:TaxSubtotal>'
+    ].join('');
+  });
+
+  const invoiceLines = invoice.items.map((item, index) => [
+    '<cac:InvoiceLine>',
+    `<cbc:ID>${index + 1}</cbc:ID>`,
+    `<cbc:InvoicedQuantity unitCode="${UNIT_CODE_PIECE}">${item.quantity}</cbc:InvoicedQuantity>`,
+    `<cbc:LineExtensionAmount currencyID="${currency}">${amount(item.netAmount)}</cbc:LineExtensionAmount>`,
+    '<cac:Item>',
+    item.details ? `<cbc:Description>${escapeXml(item.details)}</cbc:Description>` : '',
+    `<cbc:Name>${escapeXml(item.description.substring(0, 100))}</cbc:Name>`,
+    '<cac:ClassifiedTaxCategory>',
+    `<cbc:ID>${STANDARD_VAT_CATEGORY}</cbc:ID>`,
+    `<cbc:Percent>${item.vatRate}</cbc:Percent>`,
+    '<cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme>',
+    '</cac:ClassifiedTaxCategory>',
+    '</cac:Item>',
+    `<cac:Price><cbc:PriceAmount currencyID="${currency}">${item.unitPrice}</cbc:PriceAmount></cac:Price>`,
+    '</cac:InvoiceLine>'
+  ].filter(Boolean).join(''));
+
+  const paymentMeans = seller.iban
+    ? [
+        '<cac:PaymentMeans>',
+        `<cbc:PaymentMeansCode>${PAYMENT_MEANS_CREDIT_TRANSFER}</cbc:PaymentMeansCode>`,
+        `<cac:PayeeFinancialAccount><cbc:ID>${escapeXml(seller.iban.replace(/\s/g, ''))}</cbc:ID>`,
+        seller.bankName ? `<cbc:Name>${escapeXml(seller.bankName)}</cbc:Name>` : '',
+        '</cac:PayeeFinancialAccount>',
+        '</cac:PaymentMeans>'
+      ].join('')
+    : '';
+
+  const body = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"',
+    ' xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"',
+    ' xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">',
+    `<cbc:CustomizationID>${CIUS_RO_CUSTOMIZATION_ID}</cbc:CustomizationID>`,
+    `<cbc:ID>${escapeXml(invoice.invoiceNumber)}</cbc:ID>`,
+    `<cbc:IssueDate>${isoDate(issueDate)}</cbc:IssueDate>`,
+    invoice.paymentDueDate ? `<cbc:DueDate>${isoDate(invoice.paymentDueDate.toDate())}</cbc:DueDate>` : '',
+    `<cbc:InvoiceTypeCode>${UBL_INVOICE_TYPE_CODE}</cbc:InvoiceTypeCode>`,
+    `<cbc:Note>${escapeXml(`Comanda ${invoice.orderNumber}`)}</cbc:Note>`,
+    `<cbc:DocumentCurrencyCode>${currency}</cbc:DocumentCurrencyCode>`,
+    `<cac:OrderReference><cbc:ID>${escapeXml(invoice.orderNumber)}</cbc:ID></cac:OrderReference>`,
+    partyXml(seller, true),
+    partyXml(buyer, false),
+    paymentMeans,
+    '<cac:TaxTotal>',
+    `<cbc:TaxAmount currencyID="${currency}">${amount(invoice.totals.vatAmount)}</cbc:TaxAmount>`,
+    ...taxSubtotals,
+    '</cac:TaxTotal>',
+    '<cac:LegalMonetaryTotal>',
+    `<cbc:LineExtensionAmount currencyID="${currency}">${amount(invoice.totals.netAmount)}</cbc:LineExtensionAmount>`,
+    `<cbc:TaxExclusiveAmount currencyID="${currency}">${amount(invoice.totals.netAmount)}</cbc:TaxExclusiveAmount>`,
+    `<cbc:TaxInclusiveAmount currencyID="${currency}">${amount(invoice.totals.totalAmount)}</cbc:TaxInclusiveAmount>`,
+    `<cbc:PayableAmount currencyID="${currency}">${amount(invoice.totals.totalAmount)}</cbc:PayableAmount>`,
+    '</cac:LegalMonetaryTotal>',
+    ...invoiceLines,
+    '</Invoice>'
+  ];
+
+  return body.filter(Boolean).join('\n');
+}
+
+/**
+ * Validate an invoice and download its e-Factura XML
+ * @returns The validation issues; the file is only downloaded when there are none
+ */
+export function downloadEFacturaXml(invoice: Invoice): EFacturaIssue[] {
+  const issues = validateEFacturaInvoice(invoice);
+  if (issues.length > 0) {
+    return issues;
+  }
+
+  const xml = buildEFacturaXml(invoice);
+  const blob = new Blob([xml], { type: 'application/xml' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `eFactura_${invoice.invoiceNumber}.xml`;
+  link.click();
+  URL.revokeObjectURL(url);
+
+  return [];
+}
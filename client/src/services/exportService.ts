@@ -0,0 +1,188 @@
+import { zipSync, strToU8 } from 'fflate';
+import { getOrderNumber } from './orderService';
+
+/**
+ * Spreadsheet export of the order list - one row per sub-order
+ */
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+type ExportCell = string | number | null;
+
+export const ORDER_EXPORT_COLUMNS = [
+  'orderNumber',
+  'orderName',
+  'client',
+  'company',
+  'product',
+  'quantity',
+  'length',
+  'width',
+  'cmp',
+  'department',
+  'deliveryTime',
+  'status'
+] as const;
+
+export type OrderExportColumn = typeof ORDER_EXPORT_COLUMNS[number];
+
+export interface OrderExportLabels {
+  headers: Record<OrderExportColumn, string>;
+  getProductLabel: (productType: string) => string;
+  getStatusLabel: (status: string) => string;
+}
+
+const CSV_MIME_TYPE = 'text/csv;charset=utf-8';
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const UTF8_BOM = '\uFEFF'; // Lets Excel detect UTF-8 diacritics in CSV files
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/; // Cells Excel would evaluate as formulas
+
+/**
+ * Build the header and data rows of the export
+ * @param orders - Orders with their `subOrders` loaded, in display order
+ */
+export function buildOrderExportRows(orders: any[], labels: OrderExportLabels): ExportCell[][] {
+  const rows: ExportCell[][] = [ORDER_EXPORT_COLUMNS.map(column => labels.headers[column])];
+
+  orders.forEach(order => {
+    (order.subOrders || []).forEach((subOrder: any) => {
+      const cells: Record<OrderExportColumn, ExportCell> = {
+        orderNumber: getOrderNumber(order),
+        orderName: order.orderName || '',
+        client: order.clientName || '',
+        company: order.clientCompany || '',
+        product: subOrder.productTypeName || labels.getProductLabel(subOrder.productType),
+        quantity: subOrder.quantity ?? null,
+        length: subOrder.length ?? null,
+        width: subOrder.width ?? null,
+        cmp: subOrder.cmp ?? null,
+        department: subOrder.departmentName || '',
+        // datetime-local strings, e.g. 2026-03-14T10:30
+        deliveryTime: subOrder.deliveryTime ? subOrder.deliveryTime.replace('T', ' ') : '',
+        status: labels.getStatusLabel(subOrder.status || order.status)
+      };
+      rows.push(ORDER_EXPORT_COLUMNS.map(column => cells[column]));
+    });
+  });
+
+  return rows;
+}
+
+function escapeCsvCell(cell: ExportCell): string {
+  if (cell === null) return '';
+  if (typeof cell === 'number') return String(cell);
+
+  const text = CSV_FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize rows as RFC 4180 CSV
+ */
+export function buildCsv(rows: ExportCell[][]): string {
+  return UTF8_BOM + rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+}
+
+function escapeXml(text: string): string {
+  return text
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Spreadsheet column name of a zero-based index: 0 → A, 26 → AA
+ */
+function getColumnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function buildSheetXml(rows: ExportCell[][]): string {
+  const sheetRows = rows.map((row, rowIndex) => {
+    const cells = row.map((cell, columnIndex) => {
+      const ref = `${getColumnName(columnIndex)}${rowIndex + 1}`;
+      if (cell === null || cell === '') return '';
+      if (typeof cell === 'number') return `<c r="${ref}"><v>${cell}</v></c>`;
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    // Keep the header row visible while scrolling
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData>${sheetRows.join('')}</sheetData>` +
+    '</worksheet>';
+}
+
+/**
+ * Package rows as a single-sheet Office Open XML workbook
+ */
+export function buildXlsx(rows: ExportCell[][], sheetName: string): Uint8Array {
+  // Sheet names are limited to 31 characters and may not contain []:*?/\
+  const safeSheetName = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, '').substring(0, 31) || 'Sheet1');
+
+  return zipSync({
+    '[Content_Types].xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>'
+    ),
+    '_rels/.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'
+    ),
+    'xl/workbook.xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>'
+    ),
+    'xl/_rels/workbook.xml.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '</Relationships>'
+    ),
+    'xl/worksheets/sheet1.xml': strToU8(buildSheetXml(rows))
+  });
+}
+
+/**
+ * Download orders as a CSV or XLSX file named `{fileName}_{YYYY-MM-DD}`
+ * @returns The number of exported sub-order rows
+ */
+export function downloadOrderExport(
+  orders: any[],
+  format: ExportFormat,
+  labels: OrderExportLabels,
+  fileName: string
+): number {
+  const rows = buildOrderExportRows(orders, labels);
+  const blob = format === 'csv'
+    ? new Blob([buildCsv(rows)], { type: CSV_MIME_TYPE })
+    : new Blob([buildXlsx(rows, fileName) as BlobPart], { type: XLSX_MIME_TYPE });
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName}_${new Date().toISOString().split('T')[0]}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+
+  return rows.length - 1;
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../firebase', () => ({ db: {}, storage: {}, functions: {} }));
+
+const { parseDecimal, validateImportRows } = await import('./importService');
+
+describe('parseDecimal', () => {
+  it('reads a single separator as the decimal one, whichever it is', () => {
+    expect(parseDecimal('12,5')).toBe('12.5');
+    expect(parseDecimal('12.5')).toBe('12.5');
+    expect(parseDecimal('1,250')).toBe('1.250');
+    expect(parseDecimal('1.250')).toBe('1.250');
+  });
+
+  it('reads Romanian and English thousands grouping', () => {
+    expect(parseDecimal('1.234,56')).toBe('1234.56');
+    expect(parseDecimal('1,234.56')).toBe('1234.56');
+    expect(parseDecimal('1.234.567')).toBe('1234567');
+    expect(parseDecimal('1 234,5')).toBe('1234.5');
+  });
+
+  it('keeps plain numbers as they are', () => {
+    expect(parseDecimal('42')).toBe('42');
+    expect(parseDecimal(' 42 ')).toBe('42');
+    expect(parseDecimal('')).toBe('');
+  });
+
+  it('rejects separators in the wrong places', () => {
+    expect(parseDecimal('1,23.456')).toBeNull();
+    expect(parseDecimal('1.234,5.6')).toBeNull();
+    expect(parseDecimal('1.23.4')).toBeNull();
+    expect(parseDecimal('12,')).toBeNull();
+    expect(parseDecimal('12 cm')).toBeNull();
+  });
+});
+
+describe('validateImportRows', () => {
+  const mapping = {
+    orderGroup: null, productType: 0, quantity: 1, length: 2, width: 3, cmp: 4,
+    description: null, deliveryTime: 5, department: null, notes: null
+  };
+  const productTypes = [{ id: 'mugs', name: 'Căni' }];
+
+  it('stores decimals with a dot and flags malformed numbers', () => {
+    const [valid, invalid] = validateImportRows([
+      ['Căni', '10', '12,5', '1.234,5', '7', '2026-03-01'],
+      ['Căni', '10', '1,23.4', '5', '7', '2026-03-01']
+    ], mapping, productTypes, [], 2);
+
+    expect(valid.issues).toEqual([]);
+    expect(valid.subOrder).toMatchObject({ length: '12.5', width: '1234.5', cmp: '7' });
+    expect(invalid.issues).toEqual([{ field: 'length', rule: 'format' }]);
+  });
+});
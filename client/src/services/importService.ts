@@ -0,0 +1,497 @@
+import { unzipSync, strFromU8 } from 'fflate';
+import { collection, doc, getDocs, query, where, Timestamp } from 'firebase/firestore';
+import { db } from '../firebase';
+import { OrderStatus, PriceTable } from '../types';
+import { MAX_IMPORT_ROWS } from '../constants';
+import { isRequired, isPositiveNumber, isPositiveInteger, sanitizeInput } from '../utils/validation';
+import { quoteSubOrder, toSubOrderPricing } from './pricingService';
+import { createNumberedOrders, getOrderProductTypes } from './orderService';
+import type { SubOrderData } from '../components/SubOrderItem';
+
+/**
+ * Bulk order import from CSV and XLSX files
+ */
+
+export const IMPORT_FIELDS = [
+  'productType',
+  'quantity',
+  'length',
+  'width',
+  'cmp',
+  'description',
+  'deliveryTime',
+  'notes',
+  'department',
+  'orderGroup'
+] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportProductType {
+  id: string;
+  name: string;
+  isCustom?: boolean;
+}
+
+export interface ImportDepartment {
+  id?: string;
+  name: string;
+  managerName?: string;
+}
+
+export interface ImportRowIssue {
+  field: ImportField;
+  rule: 'required' | 'format' | 'unknown';
+}
+
+export interface ImportRow {
+  rowNumber: number; // 1-based row in the file
+  subOrder: SubOrderData | null; // Set when the row has no issues
+  group: string;
+  issues: ImportRowIssue[];
+}
+
+export interface ImportClient {
+  id: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  company?: string;
+  authUid?: string;
+}
+
+const REQUIRED_FIELDS: ImportField[] = ['productType', 'quantity', 'deliveryTime'];
+const DEFAULT_DELIVERY_TIME = '09:00'; // Used when a row only has a delivery date
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30); // Day 0 of Excel serial dates
+
+/**
+ * Lowercase and strip Romanian diacritics, for matching names and headers
+ */
+function normalizeName(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove combining diacritical marks
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Split CSV text into rows of cells, detecting `,`, `;` or tab separators
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [';', '\t', ','].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Zero-based column index of a cell reference: A1 → 0, AA7 → 26
+ */
+function getColumnIndex(cellRef: string): number {
+  const letters = cellRef.replace(/[0-9]/g, '').toUpperCase();
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Descendant elements by local name, whatever namespace prefix the file uses
+ */
+function getElements(parent: Document | Element | null | undefined, localName: string): Element[] {
+  return parent ? Array.from(parent.getElementsByTagName('*')).filter(element => element.localName === localName) : [];
+}
+
+function getText(element: Element): string {
+  return getElements(element, 't').map(text => text.textContent || '').join('');
+}
+
+/**
+ * Read the first worksheet of an XLSX workbook into rows of cells
+ */
+export function parseXlsx(data: Uint8Array): string[][] {
+  const files = unzipSync(data);
+  const readXml = (path: string) => files[path]
+    ? new DOMParser().parseFromString(strFromU8(files[path]), 'application/xml')
+    : null;
+
+  const workbook = readXml('xl/workbook.xml');
+  const relationships = readXml('xl/_rels/workbook.xml.rels');
+  const firstSheet = getElements(workbook, 'sheet')[0];
+  const sheetRelationId = Array.from(firstSheet?.attributes || []).find(attribute => attribute.name.split(':').pop() === 'id')?.value;
+  const sheetTarget = getElements(relationships, 'Relationship')
+    .find(relationship => relationship.getAttribute('Id') === sheetRelationId)
+    ?.getAttribute('Target');
+  if (!sheetTarget) {
+    throw new Error('The workbook has no worksheet');
+  }
+
+  const sheet = readXml(sheetTarget.startsWith('/') ? sheetTarget.substring(1) : `xl/${sheetTarget}`);
+  if (!sheet) {
+    throw new Error('The workbook has no worksheet');
+  }
+
+  // Text cells usually point into the shared string table
+  const sharedStrings = getElements(readXml('xl/sharedStrings.xml'), 'si').map(getText);
+
+  return getElements(sheet, 'row').map(rowElement => {
+    const row: string[] = [];
+    getElements(rowElement, 'c').forEach((cellElement, position) => {
+      const ref = cellElement.getAttribute('r');
+      const index = ref ? getColumnIndex(ref) : position;
+      const type = cellElement.getAttribute('t');
+      const value = getElements(cellElement, 'v')[0]?.textContent || '';
+
+      if (type === 's') {
+        row[index] = sharedStrings[parseInt(value)] || '';
+      } else if (type === 'inlineStr') {
+        row[index] = getText(cellElement);
+      } else {
+        row[index] = value;
+      }
+    });
+    return Array.from(row, cell => cell || '');
+  });
+}
+
+/**
+ * Read a CSV or XLSX file into rows of cells, dropping empty rows
+ */
+export async function parseSpreadsheetFile(file: File): Promise<string[][]> {
+  const rows = file.name.toLowerCase().endsWith('.xlsx')
+    ? parseXlsx(new Uint8Array(await file.arrayBuffer()))
+    : parseCsv(await file.text());
+
+  return rows
+    .map(row => row.map(cell => cell.trim()))
+    .filter(row => row.some(cell => cell !== ''));
+}
+
+/**
+ * Map file columns to import fields by their header
+ * @param fieldLabels - Accepted header names per field, e.g. the localized export headers
+ */
+export function guessColumnMapping(headers: string[], fieldLabels: Record<ImportField, string[]>): ColumnMapping {
+  const normalizedHeaders = headers.map(normalizeName);
+
+  return Object.fromEntries(IMPORT_FIELDS.map(field => {
+    const labels = [field, ...fieldLabels[field]].map(normalizeName);
+    const index = normalizedHeaders.findIndex(header => labels.includes(header));
+    return [field, index === -1 ? null : index];
+  })) as ColumnMapping;
+}
+
+/**
+ * Read a decimal number written the Romanian way (`1.234,5`) or the English way
+ * (`1,234.5`); spaces between digits are ignored. When both `.` and `,` appear,
+ * the last one separates the decimals and the other must group thousands.
+ * A separator repeated only groups thousands (`1.234.567`), while a single one
+ * always separates decimals: `1,250` reads as 1.25, never as 1250.
+ * @returns The number with `.` as the decimal separator, '' for an empty value,
+ * or null when the value is not a number in either format
+ */
+export function parseDecimal(value: string): string | null {
+  const compact = value.replace(/\s/g, '');
+  if (!compact) return '';
+
+  const separators = compact.match(/[.,]/g) || [];
+  const lastSeparator = separators[separators.length - 1] || null;
+  let decimal: string | null = null;
+  let thousands: string | null = null;
+  if (new Set(separators).size === 2) {
+    decimal = lastSeparator;
+    thousands = decimal === '.' ? ',' : '.';
+  } else if (separators.length === 1) {
+    decimal = lastSeparator;
+  } else if (separators.length > 1) {
+    thousands = lastSeparator;
+  }
+
+  const integerPattern = thousands ? `\\d{1,3}(?:\\${thousands}\\d{3})+` : '\\d+';
+  const decimalPattern = decimal ? `(?:\\${decimal}(\\d+))` : '()';
+  const match = compact.match(new RegExp(`^(${integerPattern})${decimalPattern}$`));
+  if (!match) return null;
+
+  const integerPart = thousands ? match[1].split(thousands).join('') : match[1];
+  return match[2] ? `${integerPart}.${match[2]}` : integerPart;
+}
+
+/**
+ * Convert a delivery date to the datetime-local format used by sub-orders
+ * Accepts ISO dates, DD.MM.YYYY dates (with optional HH:mm) and Excel serial dates.
+ * @returns The YYYY-MM-DDTHH:mm string, or null when the value is not a date
+ */
+export function parseDeliveryTime(value: string): string | null {
+  const pad = (n: number | string) => String(n).padStart(2, '0');
+  const isoMatch = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s](\d{1,2}):(\d{2}))?/);
+  const roMatch = value.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})(?:\s+(\d{1,2}):(\d{2}))?/);
+
+  let parts: [string, string, string, string | undefined, string | undefined] | null = null;
+  if (isoMatch) {
+    parts = [isoMatch[1], isoMatch[2], isoMatch[3], isoMatch[4], isoMatch[5]];
+  } else if (roMatch) {
+    parts = [roMatch[3], roMatch[2], roMatch[1], roMatch[4], roMatch[5]];
+  } else if (/^\d+(\.\d+)?$/.test(value)) {
+    const date = new Date(EXCEL_EPOCH_MS + Math.round(parseFloat(value) * 24 * 60) * 60 * 1000);
+    parts = [
+      String(date.getUTCFullYear()),
+      String(date.getUTCMonth() + 1),
+      String(date.getUTCDate()),
+      String(date.getUTCHours()),
+      String(date.getUTCMinutes())
+    ];
+  }
+  if (!parts) return null;
+
+  const [year, month, day, hours, minutes] = parts;
+  const time = hours !== undefined ? `${pad(hours)}:${pad(minutes!)}` : DEFAULT_DELIVERY_TIME;
+  const result = `${year}-${pad(month)}-${pad(day)}T${time}`;
+
+  // Reject impossible dates such as 31.02.2026
+  const parsed = new Date(result);
+  return !isNaN(parsed.getTime()) && parsed.getDate() === parseInt(day) ? result : null;
+}
+
+/**
+ * Validate data rows and convert the valid ones to sub-orders
+ * @param rows - Data rows, without the header row
+ * @param firstRowNumber - File row number of the first data row
+ */
+export function validateImportRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  productTypes: ImportProductType[],
+  departments: ImportDepartment[],
+  firstRowNumber: number
+): ImportRow[] {
+  return rows.map((row, index) => {
+    const issues: ImportRowIssue[] = [];
+    const read = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null ? '' : sanitizeInput(row[column] || '');
+    };
+
+    REQUIRED_FIELDS.forEach(field => {
+      if (!isRequired(read(field))) {
+        issues.push({ field, rule: 'required' });
+      }
+    });
+
+    const productName = normalizeName(read('productType'));
+    const productType = productName
+      ? productTypes.find(pt => normalizeName(pt.name) === productName || normalizeName(pt.id) === productName)
+      : null;
+    if (productName && !productType) {
+      issues.push({ field: 'productType', rule: 'unknown' });
+    }
+
+    const quantity = read('quantity');
+    if (quantity && !isPositiveInteger(quantity)) {
+      issues.push({ field: 'quantity', rule: 'format' });
+    }
+
+    const numbers = { length: parseDecimal(read('length')), width: parseDecimal(read('width')), cmp: parseDecimal(read('cmp')) };
+    (Object.keys(numbers) as ('length' | 'width' | 'cmp')[]).forEach(field => {
+      const number = numbers[field];
+      if (number === null || (number && !isPositiveNumber(number))) {
+        issues.push({ field, rule: 'format' });
+      }
+    });
+
+    const deliveryTimeValue = read('deliveryTime');
+    const deliveryTime = deliveryTimeValue ? parseDeliveryTime(deliveryTimeValue) : null;
+    if (deliveryTimeValue && !deliveryTime) {
+      issues.push({ field: 'deliveryTime', rule: 'format' });
+    }
+
+    const departmentName = normalizeName(read('department'));
+    const department = departmentName
+      ? departments.find(d => normalizeName(d.name) === departmentName)
+      : null;
+    if (departmentName && !department) {
+      issues.push({ field: 'department', rule: 'unknown' });
+    }
+
+    return {
+      rowNumber: firstRowNumber + index,
+      group: read('orderGroup'),
+      issues,
+      subOrder: issues.length > 0 ? null : {
+        id: crypto.randomUUID(),
+        productType: productType || null,
+        quantity,
+        length: numbers.length || '',
+        width: numbers.width || '',
+        cmp: numbers.cmp || '',
+        description: read('description'),
+        designFile: '',
+        deliveryTime: deliveryTime || '',
+        notes: read('notes'),
+        ...(department ? {
+          departmentId: department.id,
+          departmentName: department.name,
+          departmentManagerName: department.managerName
+        } : {})
+      }
+    };
+  });
+}
+
+/**
+ * Group valid rows into orders: all in one order, or one order per `orderGroup` value
+ */
+export function groupImportRows(rows: ImportRow[], splitByGroup: boolean): { group: string; subOrders: SubOrderData[] }[] {
+  const groups = new Map<string, SubOrderData[]>();
+
+  rows.forEach(row => {
+    if (!row.subOrder) return;
+    const key = splitByGroup ? row.group : '';
+    groups.set(key, [...(groups.get(key) || []), row.subOrder]);
+  });
+
+  return Array.from(groups, ([group, subOrders]) => ({ group, subOrders }));
+}
+
+/**
+ * Auth UID of the client's account, or the team member's UID when the client has none
+ */
+async function resolveClientAuthUid(client: ImportClient, fallbackUid: string): Promise<string> {
+  if (client.authUid) return client.authUid;
+  if (!client.email) return fallbackUid;
+
+  try {
+    const userQuery = query(collection(db, 'users'), where('email', '==', client.email.toLowerCase()));
+    const userSnapshot = await getDocs(userQuery);
+    return userSnapshot.empty ? fallbackUid : userSnapshot.docs[0].id;
+  } catch (error) {
+    if (import.meta.env.DEV) {
+      console.error('Error looking up client Auth UID:', error);
+    }
+    return fallbackUid;
+  }
+}
+
+/**
+ * Create the imported orders, their sub-orders and feed entries in a single
+ * transaction that also reserves their order numbers
+ * @returns The ids of the created orders
+ */
+export async function createImportedOrders(params: {
+  orders: { name: string; subOrders: SubOrderData[] }[];
+  client: ImportClient;
+  priceTables: Record<string, PriceTable>;
+  user: { uid: string; name: string; email: string | null };
+  feedText: string;
+}): Promise<string[]> {
+  const { orders, client, priceTables, user, feedText } = params;
+  const subOrderCount = orders.reduce((sum, order) => sum + order.subOrders.length, 0);
+  if (subOrderCount === 0 || subOrderCount > MAX_IMPORT_ROWS) {
+    throw new Error(`Imports must contain between 1 and ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  const clientAuthUid = await resolveClientAuthUid(client, user.uid);
+  const timestamp = Timestamp.now();
+  const orderRefs = orders.map(() => doc(collection(db, 'orders')));
+
+  // One transaction reserves a number for every order and writes them all
+  await createNumberedOrders(orders.length, (transaction, orderNumbers) => {
+    orders.forEach((order, i) => {
+      const orderRef = orderRefs[i];
+      const orderNumber = orderNumbers[i];
+
+      transaction.set(orderRef, {
+        orderNumber,
+        productTypes: getOrderProductTypes(order.subOrders),
+        orderName: order.name,
+        clientId: client.id,
+        clientName: client.name,
+        clientEmail: client.email || '',
+        clientPhone: client.phone || '',
+        clientCompany: client.company || '',
+        userId: clientAuthUid,
+        userName: user.name,
+        userEmail: user.email,
+        status: OrderStatus.PENDING,
+        createdAt: timestamp,
+        updatedAt: timestamp
+      });
+
+      order.subOrders.forEach(so => {
+        transaction.set(doc(collection(db, 'orders', orderRef.id, 'subOrders')), {
+          userId: clientAuthUid, // Store userId for security rules
+          productType: so.productType?.id || '',
+          productTypeName: so.productType?.name || '',
+          productTypeCustom: so.productType?.isCustom || false,
+          quantity: parseInt(so.quantity),
+          length: so.length ? parseFloat(so.length) : null,
+          width: so.width ? parseFloat(so.width) : null,
+          cmp: so.cmp ? parseFloat(so.cmp) : null,
+          ...toSubOrderPricing(quoteSubOrder(priceTables, so.productType?.id, so)),
+          description: so.description,
+          designFile: '',
+          designFilePath: '',
+          deliveryTime: so.deliveryTime,
+          notes: so.notes || '',
+          departmentId: so.departmentId || null,
+          departmentName: so.departmentName || null,
+          status: OrderStatus.PENDING,
+          createdAt: timestamp,
+          updatedAt: timestamp
+        });
+      });
+
+      transaction.set(doc(collection(db, 'orderUpdates')), {
+        orderId: orderRef.id,
+        userId: user.uid,
+        userName: user.name,
+        userEmail: user.email,
+        text: feedText,
+        isSystem: true,
+        createdAt: timestamp
+      });
+    });
+  });
+
+  return orderRefs.map(orderRef => orderRef.id);
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../firebase', () => ({ db: {}, storage: {}, functions: {} }));
+
+const { buildInvoiceLines, calculateInvoiceTotals, createInvoiceLine, formatInvoiceNumber, getSeriesYear } =
+  await import('./invoiceService');
+
+const getProductLabel = (productType: string) => `label:${productType}`;
+
+describe('createInvoiceLine', () => {
+  it('computes net, VAT and gross amounts', () => {
+    expect(createInvoiceLine('Căni', 3, 10.5, 'alb', 19)).toEqual({
+      description: 'Căni',
+      details: 'alb',
+      quantity: 3,
+      unitPrice: 10.5,
+      netAmount: 31.5,
+      vatRate: 19,
+      vatAmount: 5.99,
+      totalAmount: 37.49
+    });
+  });
+
+  it('leaves details out instead of writing undefined', () => {
+    expect(createInvoiceLine('Căni', 1, 10)).not.toHaveProperty('details');
+    expect(createInvoiceLine('Căni', 1, 10, '')).not.toHaveProperty('details');
+  });
+
+  it('invoices unpriced lines at zero', () => {
+    expect(createInvoiceLine('Căni', 4, null)).toMatchObject({ unitPrice: null, netAmount: 0, totalAmount: 0 });
+  });
+});
+
+describe('buildInvoiceLines', () => {
+  it('describes each sub-order by product, size and description', () => {
+    const [line] = buildInvoiceLines([
+      { productType: 't-shirts', quantity: '20', unitPrice: 30, length: 20, width: 15, description: 'logo față' }
+    ], getProductLabel);
+
+    expect(line.description).toBe('label:t-shirts');
+    expect(line.details).toBe('20 x 15 cm - logo față');
+    expect(line.quantity).toBe(20);
+    expect(line.netAmount).toBe(600);
+  });
+
+  it('prefers the stored product type name over the label', () => {
+    const [line] = buildInvoiceLines([{ productType: 'custom', productTypeName: 'Sepci', quantity: 1, unitPrice: 5 }], getProductLabel);
+    expect(line.description).toBe('Sepci');
+  });
+
+  it('falls back to the manual unit cost when the line was not priced', () => {
+    const lines = buildInvoiceLines([
+      { productType: 'mugs', quantity: 2, cmp: 12 },
+      { productType: 'mugs', quantity: 2, cmp: 0 }
+    ], getProductLabel);
+
+    expect(lines.map(line => line.unitPrice)).toEqual([12, null]);
+  });
+
+  it('invoices the setup fee as a separate line', () => {
+    const lines = buildInvoiceLines([{ productType: 'bags', quantity: 100, unitPrice: 12, setupFee: 50 }], getProductLabel);
+
+    expect(lines).toHaveLength(2);
+    expect(lines[1]).toMatchObject({ quantity: 1, unitPrice: 50, netAmount: 50 });
+    expect(lines[1].description).toContain('label:bags');
+  });
+
+  it('never produces undefined fields, which Firestore rejects', () => {
+    const lines = buildInvoiceLines([
+      { productType: 'bags', quantity: 1, unitPrice: 12, setupFee: 50 },
+      { productType: 'mugs', quantity: 1 }
+    ], getProductLabel);
+
+    lines.forEach(line => {
+      Object.values(line).forEach(value => expect(value).not.toBeUndefined());
+    });
+  });
+});
+
+describe('calculateInvoiceTotals', () => {
+  it('sums the lines', () => {
+    const items = [createInvoiceLine('A', 1, 10.01), createInvoiceLine('B', 2, 0.33)];
+    expect(calculateInvoiceTotals(items)).toEqual({ netAmount: 10.67, vatAmount: 2.03, totalAmount: 12.7 });
+  });
+});
+
+describe('formatInvoiceNumber', () => {
+  it('includes the year in series that restart every year', () => {
+    expect(formatInvoiceNumber({ prefix: 'SB', yearlyReset: true, padding: 6 }, 123, 2026)).toBe('SB-2026-000123');
+  });
+
+  it('leaves the year out of continuous series', () => {
+    expect(formatInvoiceNumber({ prefix: 'SBST', yearlyReset: false, padding: 4 }, 7, 2026)).toBe('SBST-0007');
+  });
+
+  it('never truncates numbers longer than the padding', () => {
+    expect(formatInvoiceNumber({ prefix: 'PF', yearlyReset: false, padding: 2 }, 1234, 2026)).toBe('PF-1234');
+  });
+});
+
+describe('getSeriesYear', () => {
+  it('rolls over at midnight in Romania, not in UTC', () => {
+    expect(getSeriesYear(new Date('2026-12-31T21:59:59Z'))).toBe(2026);
+    expect(getSeriesYear(new Date('2026-12-31T22:00:00Z'))).toBe(2027);
+  });
+});
@@ -1,24 +1,696 @@
 import { jsPDF } from 'jspdf';
-import { collection, addDoc, Timestamp } from 'firebase/firestore';
-import { db } from '../firebase';
+import { collection, addDoc, doc, getDoc, getDocs, runTransaction, Timestamp, Transaction, DocumentReference } from 'firebase/firestore';
+import { ref, uploadBytes } from 'firebase/storage';
+import { httpsCallable } from 'firebase/functions';
+import { db, storage, functions } from '../firebase';
 import { formatDate } from '../utils/dateUtils';
+import { formatCurrency, roundCurrency } from '../utils/helpers';
+import { getOrderNumber } from './orderService';
+import {
+  VAT_RATE_PERCENT,
+  CURRENCY,
+  DEFAULT_INVOICE_SERIES,
+  DEFAULT_CREDIT_NOTE_SERIES,
+  DEFAULT_PROFORMA_SERIES,
+  DEFAULT_INVOICE_NUMBER_PADDING,
+  INVOICE_SERIES_UTC_OFFSET_HOURS,
+  PROFORMA_VALIDITY_DAYS,
+  PAYMENT_TERM_DAYS
+} from '../constants';
+import {
+  CompanySettings,
+  Invoice,
+  InvoiceLineItem,
+  InvoiceParty,
+  InvoiceReversalStatus,
+  InvoiceSeries,
+  InvoiceTotals,
+  InvoiceType,
+  InvoiceTypeType,
+  OrderStatus
+} from '../types';
+import { DEFAULT_COMPANY_SETTINGS } from './companyService';
 
 export interface InvoiceData {
+  type?: InvoiceTypeType;
+  invoiceNumber: string;
+  originalInvoiceNumber?: string; // Credit notes only
+  reason?: string;
+  validUntil?: Date; // Proformas only
   orderId: string;
   orderNumber: string;
   clientName: string;
   clientEmail: string;
   clientPhone?: string;
-  productType: string;
-  quantity: number;
-  description: string;
+  clientCompany?: string;
+  items: InvoiceLineItem[];
   createdAt: Date;
   completedAt?: Date;
-  amount?: number;
+  issuedAt?: Date;
+  seller?: CompanySettings;
+  buyer?: InvoiceParty;
+}
+
+interface SeriesAllocation {
+  series: InvoiceSeries;
+  number: number;
+  year: number;
+}
+
+export interface InvoiceEmailResult {
+  messageId: string;
+  recipient: string;
+}
+
+export interface InvoiceIssuer {
+  uid: string;
+  name?: string;
+}
+
+// A4 layout (mm)
+const PAGE_MARGIN_X = 15;
+const TABLE_WIDTH = 180;
+const CONTENT_BOTTOM_Y = 270;
+const TABLE_HEADER_HEIGHT = 10;
+const LINE_HEIGHT = 4;
+
+// Table columns: x is the left edge, text is right-aligned for numeric columns
+const COLUMNS = [
+  { key: 'index', label: 'Nr.', x: 15, width: 8, align: 'left' },
+  { key: 'product', label: 'Produs / Product', x: 23, width: 62, align: 'left' },
+  { key: 'quantity', label: 'Cant. / Qty', x: 85, width: 15, align: 'right' },
+  { key: 'unitPrice', label: 'Preț unitar / Unit price', x: 100, width: 25, align: 'right' },
+  { key: 'net', label: 'Valoare / Net', x: 125, width: 25, align: 'right' },
+  { key: 'vat', label: 'TVA / VAT', x: 150, width: 22, align: 'right' },
+  { key: 'total', label: 'Total', x: 172, width: 23, align: 'right' }
+] as const;
+
+/**
+ * Build a priced invoice line, computing net, VAT and gross amounts.
+ * `details` is left out when empty, as Firestore rejects undefined fields.
+ */
+export function createInvoiceLine(
+  description: string,
+  quantity: number,
+  unitPrice: number | null,
+  details?: string,
+  vatRate: number = VAT_RATE_PERCENT
+): InvoiceLineItem {
+  const netAmount = unitPrice !== null ? roundCurrency(unitPrice * quantity) : 0;
+  const vatAmount = roundCurrency(netAmount * vatRate / 100);
+
+  return {
+    description,
+    ...(details ? { details } : {}),
+    quantity,
+    unitPrice,
+    netAmount,
+    vatRate,
+    vatAmount,
+    totalAmount: roundCurrency(netAmount + vatAmount)
+  };
+}
+
+/**
+ * Convert the sub-orders of an order into invoice lines.
+ * Setup fees stored by the pricing engine are invoiced as a separate line.
+ * @param subOrders - Documents from orders/{id}/subOrders
+ * @param getProductLabel - Resolves a product type id to a display name
+ */
+export function buildInvoiceLines(subOrders: any[], getProductLabel: (productType: string) => string): InvoiceLineItem[] {
+  const lines: InvoiceLineItem[] = [];
+
+  subOrders.forEach(subOrder => {
+    const name = subOrder.productTypeName || getProductLabel(subOrder.productType);
+    const quantity = Number(subOrder.quantity) || 0;
+    const unitPrice = typeof subOrder.unitPrice === 'number'
+      ? subOrder.unitPrice
+      : (typeof subOrder.cmp === 'number' && subOrder.cmp > 0 ? subOrder.cmp : null);
+
+    const detailParts = [];
+    if (subOrder.length && subOrder.width) {
+      detailParts.push(`${subOrder.length} x ${subOrder.width} cm`);
+    }
+    if (subOrder.description) {
+      detailParts.push(subOrder.description);
+    }
+
+    lines.push(createInvoiceLine(name, quantity, unitPrice, detailParts.join(' - ')));
+
+    if (subOrder.setupFee > 0) {
+      lines.push(createInvoiceLine(`Taxă pregătire / Setup fee - ${name}`, 1, subOrder.setupFee));
+    }
+  });
+
+  return lines;
+}
+
+/**
+ * Sum net, VAT and gross amounts of all invoice lines
+ */
+export function calculateInvoiceTotals(items: InvoiceLineItem[]): InvoiceTotals {
+  const netAmount = roundCurrency(items.reduce((sum, item) => sum + item.netAmount, 0));
+  const vatAmount = roundCurrency(items.reduce((sum, item) => sum + item.vatAmount, 0));
+
+  return {
+    netAmount,
+    vatAmount,
+    totalAmount: roundCurrency(netAmount + vatAmount)
+  };
+}
+
+/**
+ * Format a sequential number within a series
+ * @example formatInvoiceNumber({ prefix: 'SB', yearlyReset: true, padding: 6 }, 123, 2026) // "SB-2026-000123"
+ */
+export function formatInvoiceNumber(
+  series: Pick<InvoiceSeries, 'prefix' | 'yearlyReset' | 'padding'>,
+  number: number,
+  year: number
+): string {
+  const sequence = String(number).padStart(series.padding, '0');
+  return series.yearlyReset
+    ? `${series.prefix}-${year}-${sequence}`
+    : `${series.prefix}-${sequence}`;
+}
+
+/**
+ * Year a number is allocated in. Counted in Romanian time, which is
+ * INVOICE_SERIES_UTC_OFFSET_HOURS ahead of UTC around the new year, the same
+ * way firestore.rules checks it against the server time.
+ */
+export function getSeriesYear(date: Date): number {
+  return new Date(date.getTime() + INVOICE_SERIES_UTC_OFFSET_HOURS * 60 * 60 * 1000).getUTCFullYear();
+}
+
+function getDefaultSeries(seriesId: string): InvoiceSeries {
+  return {
+    id: seriesId,
+    prefix: seriesId,
+    yearlyReset: true,
+    padding: DEFAULT_INVOICE_NUMBER_PADDING,
+    year: null,
+    lastNumber: 0
+  };
+}
+
+/**
+ * Read a series inside a transaction and allocate its next number
+ */
+async function allocateSeriesNumber(
+  transaction: Transaction,
+  seriesRef: DocumentReference,
+  seriesId: string,
+  now: Timestamp
+): Promise<SeriesAllocation> {
+  const seriesDoc = await transaction.get(seriesRef);
+  const series = seriesDoc.exists()
+    ? (seriesDoc.data() as InvoiceSeries)
+    : getDefaultSeries(seriesId);
+
+  const year = getSeriesYear(now.toDate());
+  const startsNewYear = series.yearlyReset && series.year !== year;
+  const number = (startsNewYear ? 0 : series.lastNumber) + 1;
+
+  return { series, number, year };
+}
+
+/**
+ * Store an allocated number as the new counter of its series. The security
+ * rules only accept the new counter together with the document it numbers,
+ * written in the same transaction.
+ */
+function commitSeriesNumber(
+  transaction: Transaction,
+  seriesRef: DocumentReference,
+  allocation: SeriesAllocation,
+  invoiceRef: DocumentReference,
+  now: Timestamp
+) {
+  transaction.set(seriesRef, {
+    prefix: allocation.series.prefix,
+    yearlyReset: allocation.series.yearlyReset,
+    padding: allocation.series.padding,
+    year: allocation.year,
+    lastNumber: allocation.number,
+    lastInvoiceId: invoiceRef.id,
+    updatedAt: now
+  });
+}
+
+/**
+ * Fetch the configuration and counter of an invoice series
+ * @returns The stored series, or the defaults if no invoice was issued in it yet
+ */
+export async function getInvoiceSeries(seriesId: string = DEFAULT_INVOICE_SERIES): Promise<InvoiceSeries> {
+  const seriesDoc = await getDoc(doc(db, 'invoiceSeries', seriesId));
+  if (!seriesDoc.exists()) {
+    return getDefaultSeries(seriesId);
+  }
+  return { id: seriesDoc.id, ...seriesDoc.data() } as InvoiceSeries;
+}
+
+/**
+ * Update the numbering settings of a series. The counter itself is never changed
+ * here; reading and writing in one transaction keeps a number issued meanwhile.
+ */
+export async function saveInvoiceSeriesSettings(
+  seriesId: string,
+  settings: Pick<InvoiceSeries, 'prefix' | 'yearlyReset' | 'padding'>
+): Promise<void> {
+  const seriesRef = doc(db, 'invoiceSeries', seriesId);
+
+  await runTransaction(db, async (transaction) => {
+    const seriesDoc = await transaction.get(seriesRef);
+    const update = {
+      prefix: settings.prefix,
+      yearlyReset: settings.yearlyReset,
+      padding: settings.padding,
+      updatedAt: Timestamp.now()
+    };
+
+    if (seriesDoc.exists()) {
+      transaction.update(seriesRef, update);
+    } else {
+      transaction.set(seriesRef, { ...update, year: null, lastNumber: 0 });
+    }
+  });
+}
+
+/**
+ * Fetch an issued invoice
+ */
+export async function getInvoice(invoiceId: string): Promise<Invoice | null> {
+  const invoiceDoc = await getDoc(doc(db, 'invoices', invoiceId));
+  return invoiceDoc.exists() ? ({ id: invoiceDoc.id, ...invoiceDoc.data() } as Invoice) : null;
+}
+
+/**
+ * Build the buyer party from the order and, when available, its clients document
+ */
+function buildBuyerParty(order: any, client: any | null): InvoiceParty {
+  return {
+    name: client?.company || order.clientCompany || client?.name || order.clientName || order.userName || '',
+    taxId: client?.taxId || '',
+    registrationNumber: client?.registrationNumber || '',
+    address: client?.address || '',
+    city: client?.city || '',
+    county: client?.county || '',
+    countryCode: client?.countryCode || 'RO',
+    email: client?.email || order.clientEmail || order.userEmail || '',
+    phone: client?.phone || order.clientPhone || ''
+  };
+}
+
+/**
+ * Snapshot seller and buyer fiscal data inside a transaction, so later edits
+ * don't alter documents already issued
+ */
+async function readPartySnapshots(
+  transaction: Transaction,
+  order: any
+): Promise<{ seller: CompanySettings; buyer: InvoiceParty }> {
+  const companyDoc = await transaction.get(doc(db, 'settings', 'company'));
+  const clientDoc = order.clientId
+    ? await transaction.get(doc(db, 'clients', order.clientId))
+    : null;
+  const { updatedAt: _updatedAt, ...companyData } = companyDoc.exists() ? companyDoc.data() : {};
+
+  return {
+    seller: { ...DEFAULT_COMPANY_SETTINGS, ...companyData },
+    buyer: buildBuyerParty(order, clientDoc?.exists() ? clientDoc.data() : null)
+  };
+}
+
+/**
+ * Read the sub-orders of an order inside a transaction, so documents are issued
+ * from their current prices. Transactions only read single documents, so the
+ * sub-orders are listed with a query first. Once the order is placed, only the
+ * team may add, remove or reprice sub-orders (see firestore.rules).
+ */
+async function readSubOrders(transaction: Transaction, orderRef: DocumentReference): Promise<any[]> {
+  const snapshot = await getDocs(collection(orderRef, 'subOrders'));
+  const subOrderDocs = await Promise.all(snapshot.docs.map(subOrderDoc => transaction.get(subOrderDoc.ref)));
+  return subOrderDocs
+    .filter(subOrderDoc => subOrderDoc.exists())
+    .map(subOrderDoc => ({ id: subOrderDoc.id, ...subOrderDoc.data() }));
+}
+
+/**
+ * Issue the fiscal invoice of a completed order.
+ *
+ * The next number is allocated from the series counter inside a transaction, so
+ * concurrent issuers never share or skip a number. If the order already has an
+ * invoice, that invoice is returned instead of issuing a second one. The lines
+ * are always built from the sub-orders as they are now; an open proforma of the
+ * order is only linked to the new invoice.
+ *
+ * @param order - Order to invoice
+ * @param getProductLabel - Resolves a product type id to a display name
+ * @param issuer - The team member issuing the invoice
+ * @param seriesId - Invoice series to number in
+ */
+export async function issueInvoice(
+  order: any,
+  getProductLabel: (productType: string) => string,
+  issuer: InvoiceIssuer,
+  seriesId: string = DEFAULT_INVOICE_SERIES
+): Promise<Invoice> {
+  const orderRef = doc(db, 'orders', order.id);
+  const seriesRef = doc(db, 'invoiceSeries', seriesId);
+  const invoiceRef = doc(collection(db, 'invoices'));
+
+  return runTransaction(db, async (transaction) => {
+    const orderDoc = await transaction.get(orderRef);
+    if (!orderDoc.exists()) {
+      throw new Error('Order not found');
+    }
+
+    const existingInvoiceId = orderDoc.data().invoiceId;
+    if (existingInvoiceId) {
+      const existingInvoice = await transaction.get(doc(db, 'invoices', existingInvoiceId));
+      if (existingInvoice.exists()) {
+        return { id: existingInvoice.id, ...existingInvoice.data() } as Invoice;
+      }
+    }
+
+    if (orderDoc.data().status !== OrderStatus.COMPLETED) {
+      throw new Error('Invoices can only be issued for completed orders');
+    }
+
+    const proformaId = orderDoc.data().proformaId;
+    const proformaDoc = proformaId
+      ? await transaction.get(doc(db, 'invoices', proformaId))
+      : null;
+    const proforma = proformaDoc?.exists() && !proformaDoc.data().convertedInvoiceId
+      ? ({ id: proformaDoc.id, ...proformaDoc.data() } as Invoice)
+      : null;
+    const items = buildInvoiceLines(await readSubOrders(transaction, orderRef), getProductLabel);
+
+    const now = Timestamp.now();
+    const allocation = await allocateSeriesNumber(transaction, seriesRef, seriesId, now);
+    const { seller, buyer } = await readPartySnapshots(transaction, order);
+    const paymentDueDate = now.toDate();
+    paymentDueDate.setDate(paymentDueDate.getDate() + PAYMENT_TERM_DAYS);
+
+    const invoice: Invoice = {
+      type: InvoiceType.INVOICE,
+      series: seriesId,
+      number: allocation.number,
+      invoiceNumber: formatInvoiceNumber(allocation.series, allocation.number, allocation.year),
+      orderId: order.id,
+      orderNumber: getOrderNumber(order),
+      userId: orderDoc.data().userId,
+      clientId: order.clientId || '',
+      clientName: order.clientName || order.userName || order.userEmail || 'Client',
+      clientEmail: order.clientEmail || order.userEmail || '',
+      clientPhone: order.clientPhone || order.contactPhone || '',
+      clientCompany: order.clientCompany || '',
+      seller,
+      buyer,
+      items,
+      totals: calculateInvoiceTotals(items),
+      currency: CURRENCY,
+      issuedAt: now,
+      issuedBy: issuer.uid,
+      issuedByName: issuer.name || '',
+      paymentDueDate: Timestamp.fromDate(paymentDueDate)
+    };
+    if (proforma) {
+      invoice.proformaId = proforma.id;
+      invoice.proformaNumber = proforma.invoiceNumber;
+    }
+
+    commitSeriesNumber(transaction, seriesRef, allocation, invoiceRef, now);
+    transaction.set(invoiceRef, invoice);
+    if (proforma?.id) {
+      transaction.update(doc(db, 'invoices', proforma.id), {
+        convertedInvoiceId: invoiceRef.id,
+        convertedInvoiceNumber: invoice.invoiceNumber
+      });
+    }
+    // Denormalized for payment tracking
+    transaction.update(orderRef, {
+      invoiceId: invoiceRef.id,
+      invoiceNumber: invoice.invoiceNumber,
+      invoiceTotal: invoice.totals.totalAmount,
+      paymentDueDate: invoice.paymentDueDate
+    });
+
+    return { id: invoiceRef.id, ...invoice };
+  });
+}
+
+/**
+ * Issue a non-fiscal proforma for an order that is still awaiting payment.
+ *
+ * Proformas are numbered in their own series and stay valid for
+ * PROFORMA_VALIDITY_DAYS. The latest proforma is linked from the order and is
+ * converted when the order's invoice is issued.
+ *
+ * @param order - Order to issue the proforma for
+ * @param getProductLabel - Resolves a product type id to a display name
+ * @param issuer - The team member issuing the proforma
+ * @param seriesId - Proforma series to number in
+ */
+export async function issueProforma(
+  order: any,
+  getProductLabel: (productType: string) => string,
+  issuer: InvoiceIssuer,
+  seriesId: string = DEFAULT_PROFORMA_SERIES
+): Promise<Invoice> {
+  const orderRef = doc(db, 'orders', order.id);
+  const seriesRef = doc(db, 'invoiceSeries', seriesId);
+  const proformaRef = doc(collection(db, 'invoices'));
+
+  return runTransaction(db, async (transaction) => {
+    const orderDoc = await transaction.get(orderRef);
+    if (!orderDoc.exists()) {
+      throw new Error('Order not found');
+    }
+
+    const status = orderDoc.data().status;
+    if (status !== OrderStatus.PENDING_CONFIRMATION && status !== OrderStatus.PENDING) {
+      throw new Error('Proformas can only be issued for pending orders');
+    }
+    const items = buildInvoiceLines(await readSubOrders(transaction, orderRef), getProductLabel);
+
+    const now = Timestamp.now();
+    const allocation = await allocateSeriesNumber(transaction, seriesRef, seriesId, now);
+    const { seller, buyer } = await readPartySnapshots(transaction, order);
+
+    const validUntil = now.toDate();
+    validUntil.setDate(validUntil.getDate() + PROFORMA_VALIDITY_DAYS);
+
+    const proforma: Invoice = {
+      type: InvoiceType.PROFORMA,
+      series: seriesId,
+      number: allocation.number,
+      invoiceNumber: formatInvoiceNumber(allocation.series, allocation.number, allocation.year),
+      orderId: order.id,
+      orderNumber: getOrderNumber(order),
+      userId: orderDoc.data().userId,
+      clientId: order.clientId || '',
+      clientName: order.clientName || order.userName || order.userEmail || 'Client',
+      clientEmail: order.clientEmail || order.userEmail || '',
+      clientPhone: order.clientPhone || order.contactPhone || '',
+      clientCompany: order.clientCompany || '',
+      seller,
+      buyer,
+      items,
+      totals: calculateInvoiceTotals(items),
+      currency: CURRENCY,
+      issuedAt: now,
+      issuedBy: issuer.uid,
+      issuedByName: issuer.name || '',
+      validUntil: Timestamp.fromDate(validUntil)
+    };
+
+    commitSeriesNumber(transaction, seriesRef, allocation, proformaRef, now);
+    transaction.set(proformaRef, proforma);
+    transaction.update(orderRef, {
+      proformaId: proformaRef.id,
+      proformaNumber: proforma.invoiceNumber
+    });
+
+    return { id: proformaRef.id, ...proforma };
+  });
+}
+
+/**
+ * Quantity of each invoice line that can still be credited
+ */
+export function getCreditableQuantities(invoice: Invoice): number[] {
+  return invoice.items.map((item, index) =>
+    Math.max(item.quantity - (invoice.creditedQuantities?.[index] || 0), 0)
+  );
+}
+
+/**
+ * Issue a credit note (storno) reversing all or part of an invoice.
+ *
+ * Credit notes are numbered in their own series and repeat the reversed lines
+ * with negative quantities. The original invoice keeps track of how much of
+ * each line was credited and is marked as partially or fully reversed.
+ *
+ * @param originalInvoiceId - Invoice to reverse
+ * @param quantities - Quantity to credit per invoice line, aligned with its items
+ * @param reason - Why the invoice is reversed, printed on the credit note
+ * @param issuer - The team member issuing the credit note
+ * @param seriesId - Credit note series to number in
+ */
+export async function issueCreditNote(
+  originalInvoiceId: string,
+  quantities: number[],
+  reason: string,
+  issuer: InvoiceIssuer,
+  seriesId: string = DEFAULT_CREDIT_NOTE_SERIES
+): Promise<Invoice> {
+  const originalRef = doc(db, 'invoices', originalInvoiceId);
+  const seriesRef = doc(db, 'invoiceSeries', seriesId);
+  const creditNoteRef = doc(collection(db, 'invoices'));
+
+  return runTransaction(db, async (transaction) => {
+    const originalDoc = await transaction.get(originalRef);
+    if (!originalDoc.exists()) {
+      throw new Error('Invoice not found');
+    }
+
+    const original = { id: originalDoc.id, ...originalDoc.data() } as Invoice;
+    if (original.type !== InvoiceType.INVOICE) {
+      throw new Error('Only invoices can be reversed');
+    }
+    const orderRef = doc(db, 'orders', original.orderId);
+    const orderDoc = await transaction.get(orderRef);
+
+    // Re-check against the stored record so concurrent credit notes can't over-credit a line
+    const creditable = getCreditableQuantities(original);
+    const invalidQuantity = quantities.some((quantity, index) =>
+      !Number.isInteger(quantity) || quantity < 0 || quantity > (creditable[index] || 0)
+    );
+    if (invalidQuantity || !quantities.some(quantity => quantity > 0)) {
+      throw new Error('Invalid credit note quantities');
+    }
+
+    const items = original.items
+      .map((item, index) => ({ item, quantity: quantities[index] || 0 }))
+      .filter(({ quantity }) => quantity > 0)
+      .map(({ item, quantity }) =>
+        createInvoiceLine(item.description, -quantity, item.unitPrice, item.details, item.vatRate)
+      );
+
+    const now = Timestamp.now();
+    const allocation = await allocateSeriesNumber(transaction, seriesRef, seriesId, now);
+
+    const creditNote: Invoice = {
+      type: InvoiceType.CREDIT_NOTE,
+      series: seriesId,
+      number: allocation.number,
+      invoiceNumber: formatInvoiceNumber(allocation.series, allocation.number, allocation.year),
+      orderId: original.orderId,
+      orderNumber: original.orderNumber,
+      userId: original.userId,
+      clientId: original.clientId || '',
+      clientName: original.clientName,
+      clientEmail: original.clientEmail,
+      clientPhone: original.clientPhone || '',
+      clientCompany: original.clientCompany || '',
+      seller: original.seller,
+      buyer: original.buyer,
+      items,
+      totals: calculateInvoiceTotals(items),
+      currency: original.currency,
+      issuedAt: now,
+      issuedBy: issuer.uid,
+      issuedByName: issuer.name || '',
+      originalInvoiceId: original.id,
+      originalInvoiceNumber: original.invoiceNumber,
+      reason: reason.trim()
+    };
+
+    const creditedQuantities = original.items.map((_, index) =>
+      (original.creditedQuantities?.[index] || 0) + (quantities[index] || 0)
+    );
+    const fullyReversed = original.items.every((item, index) => creditedQuantities[index] >= item.quantity);
+
+    commitSeriesNumber(transaction, seriesRef, allocation, creditNoteRef, now);
+    transaction.set(creditNoteRef, creditNote);
+    transaction.update(originalRef, {
+      reversalStatus: fullyReversed ? InvoiceReversalStatus.FULL : InvoiceReversalStatus.PARTIAL,
+      creditedQuantities,
+      creditNoteIds: [...(original.creditNoteIds || []), creditNoteRef.id],
+      creditNoteNumbers: [...(original.creditNoteNumbers || []), creditNote.invoiceNumber]
+    });
+    if (orderDoc.exists()) {
+      const invoiceTotal = orderDoc.data().invoiceTotal ?? original.totals.totalAmount;
+      transaction.update(orderRef, {
+        invoiceTotal: roundCurrency(invoiceTotal + creditNote.totals.totalAmount)
+      });
+    }
+
+    return { id: creditNoteRef.id, ...creditNote };
+  });
+}
+
+/**
+ * Map an issued invoice to the data rendered on the PDF
+ */
+export function invoiceToPdfData(invoice: Invoice): InvoiceData {
+  return {
+    type: invoice.type,
+    invoiceNumber: invoice.invoiceNumber,
+    originalInvoiceNumber: invoice.originalInvoiceNumber,
+    reason: invoice.reason,
+    validUntil: invoice.validUntil?.toDate(),
+    orderId: invoice.orderId,
+    orderNumber: invoice.orderNumber,
+    clientName: invoice.clientName,
+    clientEmail: invoice.clientEmail,
+    clientPhone: invoice.clientPhone,
+    clientCompany: invoice.clientCompany,
+    items: invoice.items,
+    createdAt: invoice.issuedAt.toDate(),
+    issuedAt: invoice.issuedAt.toDate(),
+    seller: invoice.seller,
+    buyer: invoice.buyer
+  };
+}
+
+function drawTableHeader(doc: jsPDF, y: number): number {
+  doc.setFillColor(59, 130, 246); // Blue
+  doc.rect(PAGE_MARGIN_X, y, TABLE_WIDTH, TABLE_HEADER_HEIGHT, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'bold');
+
+  COLUMNS.forEach(column => {
+    const label = doc.splitTextToSize(column.label, column.width - 2);
+    if (column.align === 'right') {
+      doc.text(label, column.x + column.width - 1, y + 4, { align: 'right' });
+    } else {
+      doc.text(label, column.x + 1, y + 4);
+    }
+  });
+
+  doc.setTextColor(0, 0, 0);
+  doc.setFont('helvetica', 'normal');
+  return y + TABLE_HEADER_HEIGHT + 5;
+}
+
+function drawFooter(doc: jsPDF, pageNumber: number, pageCount: number) {
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'italic');
+  doc.text('Mulțumim pentru comandă! / Thank you for your order!', 105, 280, { align: 'center' });
+  doc.text('Pentru întrebări, vă rugăm să ne contactați la contact@serigrafie-brasov.ro', 105, 286, { align: 'center' });
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Pagina / Page ${pageNumber} / ${pageCount}`, 195, 292, { align: 'right' });
 }
 
 export function generateInvoicePDF(invoiceData: InvoiceData): jsPDF {
   const doc = new jsPDF();
+  const totals = calculateInvoiceTotals(invoiceData.items);
+  const isCreditNote = invoiceData.type === InvoiceType.CREDIT_NOTE;
+  const isProforma = invoiceData.type === InvoiceType.PROFORMA;
 
   // Company Header
   doc.setFontSize(24);
@@ -29,102 +701,213 @@ export function generateInvoicePDF(invoiceData: InvoiceData): jsPDF {
   doc.setFont('helvetica', 'normal');
   doc.text('Custom Printing Solutions', 105, 28, { align: 'center' });
   doc.text('Brasov, Romania', 105, 34, { align: 'center' });
+  if (invoiceData.seller?.taxId) {
+    const sellerIds = [`CUI: ${invoiceData.seller.taxId}`];
+    if (invoiceData.seller.registrationNumber) {
+      sellerIds.push(`Reg. Com.: ${invoiceData.seller.registrationNumber}`);
+    }
+    doc.setFontSize(8);
+    doc.text(sellerIds.join('   '), 105, 40, { align: 'center' });
+  }
 
   // Invoice Title
   doc.setFontSize(18);
   doc.setFont('helvetica', 'bold');
-  doc.text('FACTURĂ / INVOICE', 105, 50, { align: 'center' });
+  const title = isCreditNote
+    ? 'FACTURĂ STORNO / CREDIT NOTE'
+    : isProforma ? 'FACTURĂ PROFORMĂ / PROFORMA INVOICE' : 'FACTURĂ / INVOICE';
+  doc.text(title, 105, 50, { align: 'center' });
+  if (isProforma) {
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'italic');
+    doc.text('Document fără valoare fiscală / Non-fiscal document', 105, 56, { align: 'center' });
+  }
 
   // Invoice Number and Date
   doc.setFontSize(10);
   doc.setFont('helvetica', 'normal');
-  doc.text(`Număr factură / Invoice Number: ${invoiceData.orderNumber}`, 20, 65);
-  doc.text(`Data / Date: ${invoiceData.completedAt ? formatDate(invoiceData.completedAt) : formatDate(new Date())}`, 20, 72);
+  doc.text(`Număr factură / Invoice Number: ${invoiceData.invoiceNumber}`, 20, 65);
+  doc.text(`Data / Date: ${formatDate(invoiceData.issuedAt || invoiceData.completedAt || new Date())}`, 20, 72);
+  doc.text(`Comandă / Order: ${invoiceData.orderNumber}`, 20, 79);
+  let headerY = 79;
+  if (isCreditNote && invoiceData.originalInvoiceNumber) {
+    headerY += 7;
+    doc.text(`Stornează factura / Reverses invoice: ${invoiceData.originalInvoiceNumber}`, 20, headerY);
+  }
+  if (isCreditNote && invoiceData.reason) {
+    headerY += 7;
+    doc.text(doc.splitTextToSize(`Motiv / Reason: ${invoiceData.reason}`, 170)[0], 20, headerY);
+  }
+  if (isProforma && invoiceData.validUntil) {
+    headerY += 7;
+    doc.text(`Valabilă până la / Valid until: ${formatDate(invoiceData.validUntil)}`, 20, headerY);
+  }
 
   // Client Information
   doc.setFontSize(12);
   doc.setFont('helvetica', 'bold');
-  doc.text('Date client / Client Information:', 20, 85);
+  doc.text('Date client / Client Information:', 20, headerY + 11);
 
   doc.setFontSize(10);
   doc.setFont('helvetica', 'normal');
-  doc.text(`Nume / Name: ${invoiceData.clientName}`, 20, 93);
-  doc.text(`Email: ${invoiceData.clientEmail}`, 20, 100);
+  let clientY = headerY + 19;
+  doc.text(`Nume / Name: ${invoiceData.clientName}`, 20, clientY);
+  if (invoiceData.clientCompany) {
+    clientY += 7;
+    doc.text(`Companie / Company: ${invoiceData.clientCompany}`, 20, clientY);
+  }
+  clientY += 7;
+  doc.text(`Email: ${invoiceData.clientEmail}`, 20, clientY);
   if (invoiceData.clientPhone) {
-    doc.text(`Telefon / Phone: ${invoiceData.clientPhone}`, 20, 107);
+    clientY += 7;
+    doc.text(`Telefon / Phone: ${invoiceData.clientPhone}`, 20, clientY);
+  }
+  if (invoiceData.buyer?.taxId) {
+    clientY += 7;
+    doc.text(`CUI / Tax ID: ${invoiceData.buyer.taxId}`, 20, clientY);
+  }
+  const buyerAddress = [invoiceData.buyer?.address, invoiceData.buyer?.city, invoiceData.buyer?.county]
+    .filter(Boolean)
+    .join(', ');
+  if (buyerAddress) {
+    clientY += 7;
+    doc.text(`Adresă / Address: ${buyerAddress}`, 20, clientY);
   }
 
   // Order Details
   doc.setFontSize(12);
   doc.setFont('helvetica', 'bold');
-  doc.text('Detalii comandă / Order Details:', 20, 125);
+  doc.text('Detalii comandă / Order Details:', 20, clientY + 15);
 
-  // Table Header
-  doc.setFillColor(59, 130, 246); // Blue
-  doc.rect(20, 132, 170, 8, 'F');
-  doc.setTextColor(255, 255, 255);
-  doc.setFontSize(10);
-  doc.setFont('helvetica', 'bold');
-  doc.text('Produs / Product', 25, 137);
-  doc.text('Cantitate / Qty', 120, 137);
-  doc.text('Suma / Amount', 155, 137);
+  let y = drawTableHeader(doc, clientY + 21);
 
-  // Table Row
-  doc.setTextColor(0, 0, 0);
+  // Table Rows - start a new page (with repeated header) when a row would overflow
+  invoiceData.items.forEach((item, index) => {
+    doc.setFontSize(9);
+    const descriptionLines = doc.splitTextToSize(item.description, COLUMNS[1].width - 2);
+    doc.setFontSize(7);
+    const detailLines = item.details ? doc.splitTextToSize(item.details, COLUMNS[1].width - 2) : [];
+    const rowHeight = (descriptionLines.length + detailLines.length) * LINE_HEIGHT + 2;
+
+    if (y + rowHeight > CONTENT_BOTTOM_Y) {
+      doc.addPage();
+      y = drawTableHeader(doc, 20);
+    }
+
+    doc.setFontSize(9);
+    doc.text(String(index + 1), COLUMNS[0].x + 1, y);
+    doc.text(descriptionLines, COLUMNS[1].x + 1, y);
+    doc.text(String(item.quantity), COLUMNS[2].x + COLUMNS[2].width - 1, y, { align: 'right' });
+    doc.text(item.unitPrice !== null ? formatCurrency(item.unitPrice) : '---', COLUMNS[3].x + COLUMNS[3].width - 1, y, { align: 'right' });
+    doc.text(item.unitPrice !== null ? formatCurrency(item.netAmount) : '---', COLUMNS[4].x + COLUMNS[4].width - 1, y, { align: 'right' });
+    doc.text(item.unitPrice !== null ? formatCurrency(item.vatAmount) : '---', COLUMNS[5].x + COLUMNS[5].width - 1, y, { align: 'right' });
+    doc.text(item.unitPrice !== null ? formatCurrency(item.totalAmount) : '---', COLUMNS[6].x + COLUMNS[6].width - 1, y, { align: 'right' });
+
+    if (detailLines.length > 0) {
+      doc.setFontSize(7);
+      doc.setTextColor(100, 116, 139); // Slate
+      doc.text(detailLines, COLUMNS[1].x + 1, y + descriptionLines.length * LINE_HEIGHT);
+      doc.setTextColor(0, 0, 0);
+    }
+
+    y += rowHeight;
+    doc.setDrawColor(226, 232, 240);
+    doc.line(PAGE_MARGIN_X, y - 3, PAGE_MARGIN_X + TABLE_WIDTH, y - 3);
+  });
+
+  // VAT breakdown per rate and totals
+  const vatRates = Array.from(new Set(invoiceData.items.map(item => item.vatRate)));
+  const bankDetailsHeight = isProforma ? 20 : 0;
+  const totalsHeight = 12 + vatRates.length * 6 + 10 + bankDetailsHeight;
+  if (y + totalsHeight > CONTENT_BOTTOM_Y) {
+    doc.addPage();
+    y = 20;
+  }
+
+  y += 5;
+  doc.setFontSize(10);
   doc.setFont('helvetica', 'normal');
-  doc.text(invoiceData.productType, 25, 147);
-  doc.text(invoiceData.quantity.toString(), 125, 147);
-  doc.text(invoiceData.amount ? `${invoiceData.amount} RON` : '---', 155, 147);
-
-  // Description
-  doc.setFontSize(9);
-  const splitDescription = doc.splitTextToSize(`Descriere / Description: ${invoiceData.description}`, 170);
-  doc.text(splitDescription, 25, 155);
-
-  // Total
-  const descHeight = splitDescription.length * 5;
-  const totalY = 160 + descHeight;
+  doc.text('Total fără TVA / Subtotal:', 140, y, { align: 'right' });
+  doc.text(formatCurrency(totals.netAmount), 195, y, { align: 'right' });
+
+  vatRates.forEach(rate => {
+    const rateItems = invoiceData.items.filter(item => item.vatRate === rate);
+    const rateBase = roundCurrency(rateItems.reduce((sum, item) => sum + item.netAmount, 0));
+    const rateVat = roundCurrency(rateItems.reduce((sum, item) => sum + item.vatAmount, 0));
+    y += 6;
+    doc.text(`TVA / VAT ${rate}% (bază / base ${formatCurrency(rateBase)}):`, 140, y, { align: 'right' });
+    doc.text(formatCurrency(rateVat), 195, y, { align: 'right' });
+  });
+
+  y += 8;
   doc.setFontSize(12);
   doc.setFont('helvetica', 'bold');
-  doc.text('Total:', 140, totalY);
-  doc.text(invoiceData.amount ? `${invoiceData.amount} RON` : '---', 170, totalY);
+  doc.text(isCreditNote ? 'Total stornat / Total credited:' : 'Total de plată / Grand total:', 140, y, { align: 'right' });
+  doc.text(formatCurrency(totals.totalAmount), 195, y, { align: 'right' });
 
-  // Footer
-  doc.setFontSize(8);
-  doc.setFont('helvetica', 'italic');
-  doc.text('Mulțumim pentru comandă! / Thank you for your order!', 105, 280, { align: 'center' });
-  doc.text('Pentru întrebări, vă rugăm să ne contactați la contact@serigrafie-brasov.ro', 105, 286, { align: 'center' });
+  // Proformas are paid by bank transfer before the order goes into production
+  if (isProforma) {
+    y += 12;
+    doc.setFontSize(10);
+    doc.text('Date bancare / Bank details:', 20, y);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`IBAN: ${invoiceData.seller?.iban || '-'}`, 20, y + 6);
+    doc.text(`Banca / Bank: ${invoiceData.seller?.bankName || '-'}`, 20, y + 12);
+  }
+
+  // Footer on every page
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    drawFooter(doc, page, pageCount);
+  }
 
   return doc;
 }
 
+function getInvoiceFileName(invoiceData: InvoiceData): string {
+  const prefix = invoiceData.type === InvoiceType.CREDIT_NOTE
+    ? 'Storno'
+    : invoiceData.type === InvoiceType.PROFORMA ? 'Proforma' : 'Factura';
+  return `${prefix}_${invoiceData.invoiceNumber}.pdf`;
+}
+
 export function downloadInvoice(invoiceData: InvoiceData): void {
   const doc = generateInvoicePDF(invoiceData);
-  doc.save(`Factura_${invoiceData.orderNumber}.pdf`);
+  doc.save(getInvoiceFileName(invoiceData));
 }
 
-export async function sendInvoiceToClient(invoiceData: InvoiceData): Promise<void> {
-  // Generate PDF
-  const doc = generateInvoicePDF(invoiceData);
-  const pdfBlob = doc.output('blob');
+/**
+ * Email an issued invoice to its client - team members only, as only they may
+ * upload invoice PDFs. Uploads the rendered PDF to invoices/{invoiceId}/ and asks the sendInvoiceEmail
+ * function to send it; the function records the delivery status on the invoice
+ * @returns Recipient and message id reported by the mail server
+ */
+export async function sendInvoiceToClient(invoice: Invoice): Promise<InvoiceEmailResult> {
+  if (!invoice.id) {
+    throw new Error('Invoice has not been issued');
+  }
+
+  const invoiceData = invoiceToPdfData(invoice);
+  const pdfBlob = generateInvoicePDF(invoiceData).output('blob');
+  const pdfPath = `invoices/${invoice.id}/${getInvoiceFileName(invoiceData)}`;
+  await uploadBytes(ref(storage, pdfPath), pdfBlob, { contentType: 'application/pdf' });
 
-  // In a real application, you would upload this to Firebase Storage
-  // and send an email with the link or attachment
+  const sendInvoiceEmail = httpsCallable<{ invoiceId: string; pdfPath: string }, InvoiceEmailResult>(
+    functions,
+    'sendInvoiceEmail'
+  );
+  const result = await sendInvoiceEmail({ invoiceId: invoice.id, pdfPath });
 
-  // For now, we'll create a notification for the admin
   const notificationsRef = collection(db, 'notifications');
   await addDoc(notificationsRef, {
     type: 'invoice_sent',
     title: 'Invoice sent',
-    message: `Invoice for order #${invoiceData.orderNumber} has been sent to ${invoiceData.clientEmail}`,
+    message: `Invoice ${invoiceData.invoiceNumber} for order ${invoiceData.orderNumber} has been sent to ${result.data.recipient}`,
     orderId: invoiceData.orderId,
     read: false,
     createdAt: Timestamp.now()
   });
 
-  // TODO: Implement actual email sending via Firebase Functions or email service
-  // This would involve:
-  // 1. Upload PDF to Firebase Storage
-  // 2. Call a Cloud Function that sends the email with the PDF attachment
-  // 3. Use a service like SendGrid, AWS SES, or similar
+  return result.data;
 }
@@ -0,0 +1,186 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '../firebase';
+import { ProductType, ProductTypeType } from '../types';
+
+/**
+ * Product mockups - the client's design drawn on a template image of the
+ * product, exported as a PNG. Templates live in public/mockups, one per
+ * built-in product type; a custom product type uses the template named in its
+ * `mockupTemplate` field and falls back to the generic one.
+ */
+
+export const MOCKUP_SIZE = 600;
+
+export interface PrintArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface MockupTemplate {
+  id: ProductTypeType;
+  imageURL: string;
+  printArea: PrintArea;
+}
+
+/**
+ * Position of the design inside the print area: the centre as a fraction of
+ * the area and the scale relative to the size that fits it
+ */
+export interface DesignPlacement {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+export const DEFAULT_PLACEMENT: DesignPlacement = { x: 0.5, y: 0.5, scale: 1 };
+
+export const MOCKUP_TEMPLATES: Record<ProductTypeType, MockupTemplate> = {
+  [ProductType.MUGS]: {
+    id: ProductType.MUGS,
+    imageURL: '/mockups/mugs.svg',
+    printArea: { x: 160, y: 190, width: 220, height: 250 }
+  },
+  [ProductType.T_SHIRTS]: {
+    id: ProductType.T_SHIRTS,
+    imageURL: '/mockups/t-shirts.svg',
+    printArea: { x: 210, y: 160, width: 180, height: 220 }
+  },
+  [ProductType.HOODIES]: {
+    id: ProductType.HOODIES,
+    imageURL: '/mockups/hoodies.svg',
+    printArea: { x: 210, y: 230, width: 180, height: 170 }
+  },
+  [ProductType.BAGS]: {
+    id: ProductType.BAGS,
+    imageURL: '/mockups/bags.svg',
+    printArea: { x: 180, y: 260, width: 240, height: 240 }
+  },
+  [ProductType.CAPS]: {
+    id: ProductType.CAPS,
+    imageURL: '/mockups/caps.svg',
+    printArea: { x: 220, y: 220, width: 160, height: 120 }
+  },
+  [ProductType.OTHER]: {
+    id: ProductType.OTHER,
+    imageURL: '/mockups/other.svg',
+    printArea: { x: 130, y: 130, width: 340, height: 340 }
+  }
+};
+
+function isBuiltInType(id: string | undefined): id is ProductTypeType {
+  return !!id && id in MOCKUP_TEMPLATES;
+}
+
+/**
+ * Find the mockup template of a product type
+ * @param productTypeId - Built-in product type value or productTypes document id
+ */
+export async function resolveMockupTemplate(productTypeId?: string): Promise<MockupTemplate> {
+  if (isBuiltInType(productTypeId)) {
+    return MOCKUP_TEMPLATES[productTypeId];
+  }
+
+  if (productTypeId) {
+    try {
+      const productTypeDoc = await getDoc(doc(db, 'productTypes', productTypeId));
+      const mockupTemplate = productTypeDoc.data()?.mockupTemplate;
+      if (isBuiltInType(mockupTemplate)) {
+        return MOCKUP_TEMPLATES[mockupTemplate];
+      }
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error fetching product type:', error);
+      }
+    }
+  }
+
+  return MOCKUP_TEMPLATES[ProductType.OTHER];
+}
+
+/**
+ * Load an image for drawing on a canvas. Storage download URLs are requested
+ * with CORS so the canvas can still be exported afterwards.
+ */
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to load image ${src}`));
+    image.src = src;
+  });
+}
+
+/**
+ * Rectangle the design occupies on the template for a placement
+ */
+export function getDesignRect(template: MockupTemplate, design: HTMLImageElement, placement: DesignPlacement): PrintArea {
+  const { printArea } = template;
+  const fit = Math.min(printArea.width / design.naturalWidth, printArea.height / design.naturalHeight);
+  const width = design.naturalWidth * fit * placement.scale;
+  const height = design.naturalHeight * fit * placement.scale;
+
+  return {
+    x: printArea.x + printArea.width * placement.x - width / 2,
+    y: printArea.y + printArea.height * placement.y - height / 2,
+    width,
+    height
+  };
+}
+
+/**
+ * Draw the product with the design clipped to its print area
+ * @param showGuides - Outline the print area while editing; left out of exports
+ */
+export function drawMockup(
+  context: CanvasRenderingContext2D,
+  template: MockupTemplate,
+  templateImage: HTMLImageElement,
+  design: HTMLImageElement,
+  placement: DesignPlacement,
+  showGuides: boolean
+): void {
+  const { printArea } = template;
+  const rect = getDesignRect(template, design, placement);
+
+  context.clearRect(0, 0, MOCKUP_SIZE, MOCKUP_SIZE);
+  context.drawImage(templateImage, 0, 0, MOCKUP_SIZE, MOCKUP_SIZE);
+
+  context.save();
+  context.beginPath();
+  context.rect(printArea.x, printArea.y, printArea.width, printArea.height);
+  context.clip();
+  context.drawImage(design, rect.x, rect.y, rect.width, rect.height);
+  context.restore();
+
+  if (showGuides) {
+    context.save();
+    context.setLineDash([6, 4]);
+    context.strokeStyle = '#3b82f6';
+    context.lineWidth = 1.5;
+    context.strokeRect(printArea.x, printArea.y, printArea.width, printArea.height);
+    context.restore();
+  }
+}
+
+/**
+ * Export the canvas as a PNG file ready for storageService.uploadFile
+ */
+export function exportMockup(canvas: HTMLCanvasElement, fileName: string): Promise<File> {
+  return new Promise((resolve, reject) => {
+    // toBlob throws a SecurityError when a cross-origin image tainted the canvas
+    try {
+      canvas.toBlob((blob) => {
+        if (!blob) {
+          reject(new Error('Failed to export mockup'));
+          return;
+        }
+        resolve(new File([blob], fileName, { type: 'image/png' }));
+      }, 'image/png');
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
@@ -1,4 +1,5 @@
 import type { Notification } from '../components/NotificationContainer';
+import { getOrderNumber } from './orderService';
 
 // Global notification store
 let listeners: Array<(notifications: Notification[]) => void> = [];
@@ -90,7 +91,7 @@ export function showOrderNotification(order: any, onClickFunction: (order: any)
   // For now, just show a simple notification
   // TODO: Implement custom clickable notification component if needed
   return showInfo('Comandă nouă plasată', {
-    message: `#${order.id.substring(0, 8).toUpperCase()} - ${order.productType}`,
+    message: `${getOrderNumber(order)} - ${order.productType}`,
     duration: 10000,
   });
 }
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { OrderStatus } from '../types';
+
+vi.mock('../firebase', () => ({ db: {}, storage: {}, functions: {} }));
+
+const { formatOrderNumber, getOrderNumberYear, getSearchTerms, refineOrders } = await import('./orderService');
+
+const filters = { statuses: [OrderStatus.PENDING], sortField: 'createdAt' as const, direction: 'desc' as const };
+
+describe('formatOrderNumber', () => {
+  it('pads the number within the year', () => {
+    expect(formatOrderNumber(42, 2026)).toBe('CMD-2026-0042');
+  });
+});
+
+describe('getOrderNumberYear', () => {
+  it('counts the year in Romanian time', () => {
+    expect(getOrderNumberYear(new Date('2026-12-31T21:59:00Z'))).toBe(2026);
+    expect(getOrderNumberYear(new Date('2026-12-31T22:00:00Z'))).toBe(2027);
+  });
+});
+
+describe('getSearchTerms', () => {
+  it('matches the keywords stored by the Cloud Function', () => {
+    expect(getSearchTerms('Ștefan Țăran')).toEqual(['stefan', 'taran']);
+  });
+
+  it('puts the longest word first and drops single characters', () => {
+    expect(getSearchTerms('a cmd-2026-0042')).toEqual(['2026', '0042', 'cmd']);
+  });
+
+  it('cuts words to the longest indexed prefix', () => {
+    expect(getSearchTerms('abcdefghijklmnopqrst')).toEqual(['abcdefghijklmno']);
+  });
+
+  it('finds nothing to search in blank input', () => {
+    expect(getSearchTerms('  - ')).toEqual([]);
+  });
+});
+
+describe('refineOrders', () => {
+  const orders = [
+    { id: 'a', searchKeywords: ['ana', 'pop'], productTypes: ['mugs'] },
+    { id: 'b', searchKeywords: ['ana'], productTypes: ['caps'] }
+  ];
+
+  it('leaves query results alone when not searching', () => {
+    expect(refineOrders(orders, { ...filters, productType: 'caps' })).toBe(orders);
+  });
+
+  it('checks the search terms after the queried one', () => {
+    expect(refineOrders(orders, { ...filters, searchTerms: ['ana', 'pop'] }).map(order => order.id)).toEqual(['a']);
+  });
+
+  it('checks the product type while searching', () => {
+    expect(refineOrders(orders, { ...filters, searchTerms: ['ana'], productType: 'caps' }).map(order => order.id)).toEqual(['b']);
+  });
+});
@@ -0,0 +1,301 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  runTransaction,
+  Timestamp,
+  Transaction,
+  Query,
+  QueryConstraint,
+  QueryDocumentSnapshot
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { OrderPaymentStatusType } from '../types';
+import { ORDER_NUMBER_PREFIX, ORDER_NUMBER_PADDING, ORDER_NUMBER_TIME_ZONE, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, SEARCH_KEYWORD_MIN_LENGTH, SEARCH_KEYWORD_MAX_LENGTH } from '../constants';
+
+// Order fields the list can be sorted by; the summaries are kept by Cloud Functions
+export type OrderSortField = 'createdAt' | 'earliestDeliveryTime' | 'totalQuantity' | 'status';
+
+export interface OrderListFilters {
+  statuses: string[];
+  ownerId?: string; // Clients only list their own orders (security rules)
+  productType?: string;
+  paymentStatuses?: OrderPaymentStatusType[]; // Completed orders only
+  searchTerms?: string[]; // From getSearchTerms
+  createdFrom?: Date; // Creation date ranges are only indexed with sortField 'createdAt'
+  createdTo?: Date;
+  sortField: OrderSortField;
+  direction: 'asc' | 'desc';
+}
+
+export interface OrderSummary {
+  subOrderCount: number;
+  totalQuantity: number;
+  earliestDeliveryTime: string | null;
+  latestDeliveryTime: string | null;
+}
+
+export interface OrderPage {
+  orders: any[];
+  cursor: QueryDocumentSnapshot | null;
+  hasMore: boolean;
+}
+
+/**
+ * Format a sequential order number
+ * @example formatOrderNumber(457, 2026) // "CMD-2026-0457"
+ */
+export function formatOrderNumber(number: number, year: number): string {
+  return `${ORDER_NUMBER_PREFIX}-${year}-${String(number).padStart(ORDER_NUMBER_PADDING, '0')}`;
+}
+
+/**
+ * Human-readable identifier of an order.
+ * Orders created before sequential numbering fall back to their short document id.
+ */
+export function getOrderNumber(order: { id: string; orderNumber?: string }): string {
+  return order.orderNumber || order.id.substring(0, 8).toUpperCase();
+}
+
+/**
+ * Year an order number is allocated in, counted in Romanian time whatever the
+ * time zone of the browser, the same way the generateRecurringOrders function does
+ */
+export function getOrderNumberYear(date: Date): number {
+  return Number(new Intl.DateTimeFormat('en-CA', { timeZone: ORDER_NUMBER_TIME_ZONE, year: 'numeric' }).format(date));
+}
+
+/**
+ * Create orders together with the next order numbers of the current year.
+ *
+ * The yearly counter in `orderCounters/{year}` is advanced in the same
+ * transaction that writes the orders, so concurrent orders never share a
+ * number and a failed write uses none up. Order numbers still need not be
+ * gap-free like invoice numbers: deleted orders keep theirs.
+ * @param count - Orders created, given consecutive numbers
+ * @param writeOrders - Adds the order writes to the transaction; it may run more
+ * than once if the counter changes meanwhile
+ * @returns What writeOrders returned on the committed attempt
+ */
+export async function createNumberedOrders<T>(
+  count: number,
+  writeOrders: (transaction: Transaction, orderNumbers: string[]) => T
+): Promise<T> {
+  const year = getOrderNumberYear(new Date());
+  const counterRef = doc(db, 'orderCounters', String(year));
+
+  return runTransaction(db, async (transaction) => {
+    const counterDoc = await transaction.get(counterRef);
+    const lastNumber: number = counterDoc.exists() ? counterDoc.data().lastNumber : 0;
+
+    transaction.set(counterRef, {
+      year,
+      lastNumber: lastNumber + count,
+      updatedAt: Timestamp.now()
+    });
+
+    const orderNumbers = Array.from({ length: count }, (_, i) => formatOrderNumber(lastNumber + i + 1, year));
+    return writeOrders(transaction, orderNumbers);
+  });
+}
+
+/**
+ * Distinct product types of an order's sub-orders, stored on the order as
+ * `productTypes` so lists can filter by product without reading sub-orders
+ */
+export function getOrderProductTypes(subOrders: { productType?: { id: string } | null }[]): string[] {
+  return Array.from(new Set(subOrders.map(so => so.productType?.id).filter((id): id is string => !!id)));
+}
+
+/**
+ * Words of a search, as stored in the `searchKeywords` of orders by the
+ * updateOrderListFields Cloud Function: lowercase, without diacritics and cut
+ * to the longest indexed prefix. The longest word comes first, as the most
+ * selective one is the one queried.
+ * @example getSearchTerms('Ștefan, CMD-2026') // ["stefan", "2026", "cmd"]
+ */
+export function getSearchTerms(text: string): string[] {
+  const words = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= SEARCH_KEYWORD_MIN_LENGTH)
+    .map(word => word.substring(0, SEARCH_KEYWORD_MAX_LENGTH));
+
+  return Array.from(new Set(words)).sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Apply the filters a single Firestore query cannot hold to the orders it
+ * returned. A query allows one array-contains, which a search spends on its
+ * first term; the other terms and the product type are checked here.
+ */
+export function refineOrders(orders: any[], filters: OrderListFilters): any[] {
+  const [searchTerm, ...otherTerms] = filters.searchTerms || [];
+  if (!searchTerm) {
+    return orders;
+  }
+
+  return orders.filter(order =>
+    otherTerms.every(term => order.searchKeywords?.includes(term)) &&
+    (!filters.productType || order.productTypes?.includes(filters.productType))
+  );
+}
+
+function clampPageSize(pageSize: number): number {
+  return Math.min(Math.max(Math.floor(pageSize), 1), MAX_PAGE_SIZE);
+}
+
+/**
+ * Build the Firestore query for one page of the order list.
+ * Every combination used here is backed by an index in firestore.indexes.json.
+ * Orders missing the sort field, e.g. created before the summaries existed,
+ * are left out until rebuildOrderSummaries runs.
+ * @param filters - Status, owner, product, payment, search and creation date filters, and the sort
+ * @param pageSize - Orders per page, capped at MAX_PAGE_SIZE
+ * @param cursor - Last order of the previous page
+ */
+export function buildOrdersQuery(
+  filters: OrderListFilters,
+  pageSize: number = DEFAULT_PAGE_SIZE,
+  cursor?: QueryDocumentSnapshot | null
+): Query {
+  const constraints: QueryConstraint[] = [];
+
+  if (filters.ownerId) {
+    constraints.push(where('userId', '==', filters.ownerId));
+  }
+  constraints.push(filters.statuses.length === 1
+    ? where('status', '==', filters.statuses[0])
+    : where('status', 'in', filters.statuses));
+  const [searchTerm] = filters.searchTerms || [];
+  if (searchTerm) {
+    constraints.push(where('searchKeywords', 'array-contains', searchTerm));
+  } else if (filters.productType) {
+    constraints.push(where('productTypes', 'array-contains', filters.productType));
+  }
+  if (filters.paymentStatuses) {
+    constraints.push(filters.paymentStatuses.length === 1
+      ? where('paymentStatus', '==', filters.paymentStatuses[0])
+      : where('paymentStatus', 'in', filters.paymentStatuses));
+  }
+  if (filters.createdFrom) {
+    constraints.push(where('createdAt', '>=', Timestamp.fromDate(filters.createdFrom)));
+  }
+  if (filters.createdTo) {
+    constraints.push(where('createdAt', '<=', Timestamp.fromDate(filters.createdTo)));
+  }
+
+  constraints.push(orderBy(filters.sortField, filters.direction));
+  if (cursor) {
+    constraints.push(startAfter(cursor));
+  }
+  constraints.push(limit(clampPageSize(pageSize)));
+
+  return query(collection(db, 'orders'), ...constraints);
+}
+
+/**
+ * Fetch one page of orders, without their sub-orders
+ */
+export async function fetchOrdersPage(
+  filters: OrderListFilters,
+  cursor?: QueryDocumentSnapshot | null,
+  pageSize: number = DEFAULT_PAGE_SIZE
+): Promise<OrderPage> {
+  const snapshot = await getDocs(buildOrdersQuery(filters, pageSize, cursor));
+  const docs = snapshot.docs;
+
+  return {
+    orders: docs.map(orderDoc => ({ id: orderDoc.id, ...orderDoc.data() })),
+    cursor: docs.length > 0 ? docs[docs.length - 1] : cursor || null,
+    hasMore: docs.length === clampPageSize(pageSize)
+  };
+}
+
+/**
+ * Fetch every order matching the filters, page by page, without their sub-orders
+ */
+export async function fetchAllOrders(filters: OrderListFilters): Promise<any[]> {
+  const orders: any[] = [];
+  let cursor: QueryDocumentSnapshot | null = null;
+  let hasMore = filters.statuses.length > 0;
+
+  while (hasMore) {
+    const page = await fetchOrdersPage(filters, cursor, MAX_PAGE_SIZE);
+    orders.push(...page.orders);
+    cursor = page.cursor;
+    hasMore = page.hasMore;
+  }
+
+  return orders;
+}
+
+/**
+ * Fetch a single order, without its sub-orders
+ */
+export async function fetchOrder(orderId: string): Promise<any | null> {
+  const orderDoc = await getDoc(doc(db, 'orders', orderId));
+  return orderDoc.exists() ? { id: orderDoc.id, ...orderDoc.data() } : null;
+}
+
+/**
+ * Find an order by its number, e.g. CMD-2026-0042
+ */
+export async function findOrderByNumber(orderNumber: string): Promise<any | null> {
+  const snapshot = await getDocs(query(collection(db, 'orders'), where('orderNumber', '==', orderNumber), limit(1)));
+  return snapshot.empty ? null : { id: snapshot.docs[0].id, ...snapshot.docs[0].data() };
+}
+
+/**
+ * Fetch the sub-orders of an order
+ */
+export async function fetchSubOrders(orderId: string): Promise<any[]> {
+  const snapshot = await getDocs(collection(db, 'orders', orderId, 'subOrders'));
+  return snapshot.docs.map(subDoc => ({ id: subDoc.id, ...subDoc.data() }));
+}
+
+/**
+ * Whether the order carries the sub-order summary kept by the
+ * updateOrderSummary Cloud Function. Orders created before it have none
+ * until rebuildOrderSummaries runs.
+ */
+export function hasOrderSummary(order: any): boolean {
+  return typeof order.subOrderCount === 'number';
+}
+
+/**
+ * Sub-order count, total quantity and delivery window of an order.
+ * Read from the stored summary, or computed from loaded sub-orders when the
+ * order has none.
+ */
+export function getOrderSummary(order: any): OrderSummary {
+  if (hasOrderSummary(order)) {
+    return {
+      subOrderCount: order.subOrderCount,
+      totalQuantity: order.totalQuantity || 0,
+      earliestDeliveryTime: order.earliestDeliveryTime || null,
+      latestDeliveryTime: order.latestDeliveryTime || null
+    };
+  }
+
+  const subOrders: any[] = order.subOrders || [];
+  const deliveryTimes = subOrders
+    .map(so => so.deliveryTime)
+    .filter((deliveryTime): deliveryTime is string => !!deliveryTime)
+    .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+
+  return {
+    subOrderCount: subOrders.length,
+    totalQuantity: subOrders.reduce((sum, so) => sum + (so.quantity || 0), 0),
+    earliestDeliveryTime: deliveryTimes[0] || null,
+    latestDeliveryTime: deliveryTimes[deliveryTimes.length - 1] || null
+  };
+}
@@ -0,0 +1,202 @@
+import { collection, doc, getDocs, query, where, runTransaction, Timestamp } from 'firebase/firestore';
+import { db } from '../firebase';
+import { OrderStatus, Payment, PaymentMethodType, PaymentSummary } from '../types';
+import { roundCurrency } from '../utils/helpers';
+import { buildInvoiceLines, calculateInvoiceTotals } from './invoiceService';
+
+export interface PaymentInput {
+  amount: number;
+  method: PaymentMethodType;
+  paidAt: Date;
+  reference?: string;
+}
+
+export interface PaymentRecorder {
+  uid: string;
+  name?: string;
+}
+
+/**
+ * Gross amount the client owes for an order.
+ * Invoiced orders use the invoice total (less any credit notes); before
+ * invoicing the total is estimated from the priced sub-orders, when loaded.
+ */
+export function getOrderTotal(order: any): number {
+  if (typeof order.invoiceTotal === 'number') {
+    return order.invoiceTotal;
+  }
+  return calculateInvoiceTotals(buildInvoiceLines(order.subOrders || [], productType => productType)).totalAmount;
+}
+
+/**
+ * Paid, due and overdue amounts of an order
+ * @param order - Order document, optionally loaded with its subOrders
+ * @param now - Reference time for the overdue check (millis)
+ */
+export function getPaymentSummary(order: any, now: number = Date.now()): PaymentSummary {
+  const total = getOrderTotal(order);
+  const paid = roundCurrency(order.amountPaid || 0);
+  const due = Math.max(roundCurrency(total - paid), 0);
+  const isOverdue = !!order.paymentDueDate && order.paymentDueDate.toMillis() < now;
+
+  return {
+    total,
+    paid,
+    due,
+    overdue: isOverdue ? due : 0
+  };
+}
+
+/**
+ * Add up the payment summaries of several orders, e.g. all orders of a client
+ */
+export function sumPaymentSummaries(summaries: PaymentSummary[]): PaymentSummary {
+  return summaries.reduce((sum, summary) => ({
+    total: roundCurrency(sum.total + summary.total),
+    paid: roundCurrency(sum.paid + summary.paid),
+    due: roundCurrency(sum.due + summary.due),
+    overdue: roundCurrency(sum.overdue + summary.overdue)
+  }), { total: 0, paid: 0, due: 0, overdue: 0 });
+}
+
+/**
+ * Completed orders the client still owes money for
+ */
+export function isUnpaidCompletedOrder(order: any): boolean {
+  return order.status === OrderStatus.COMPLETED && getPaymentSummary(order).due > 0;
+}
+
+/**
+ * Fetch the payments of an order, oldest first
+ * @param orderId - Order document id
+ * @param ownerId - Required when a client lists their own payments (security rules)
+ */
+export async function fetchOrderPayments(orderId: string, ownerId?: string): Promise<Payment[]> {
+  const paymentsRef = collection(db, 'payments');
+  const q = ownerId
+    ? query(paymentsRef, where('orderId', '==', orderId), where('userId', '==', ownerId))
+    : query(paymentsRef, where('orderId', '==', orderId));
+  const snapshot = await getDocs(q);
+
+  const payments = snapshot.docs.map(paymentDoc => ({ id: paymentDoc.id, ...paymentDoc.data() } as Payment));
+  payments.sort((a, b) => a.paidAt.toMillis() - b.paidAt.toMillis());
+  return payments;
+}
+
+/**
+ * Record a full or partial payment of an order.
+ *
+ * Payments made before the order is invoiced are stored as advances. The
+ * order keeps a running `amountPaid` total, updated in the same transaction,
+ * so lists can show balances without reading every payment.
+ *
+ * @param order - Order document
+ * @param input - Amount, method, payment date and optional reference
+ * @param recorder - The team member recording the payment
+ */
+export async function recordPayment(order: any, input: PaymentInput, recorder: PaymentRecorder): Promise<Payment> {
+  if (!(input.amount > 0)) {
+    throw new Error('Payment amount must be positive');
+  }
+
+  const orderRef = doc(db, 'orders', order.id);
+  const paymentRef = doc(collection(db, 'payments'));
+
+  return runTransaction(db, async (transaction) => {
+    const orderDoc = await transaction.get(orderRef);
+    if (!orderDoc.exists()) {
+      throw new Error('Order not found');
+    }
+
+    const orderData = orderDoc.data();
+    const now = Timestamp.now();
+    const payment: Payment = {
+      orderId: order.id,
+      userId: orderData.userId,
+      clientId: orderData.clientId || '',
+      amount: roundCurrency(input.amount),
+      method: input.method,
+      isAdvance: !orderData.invoiceId,
+      reference: input.reference?.trim() || '',
+      paidAt: Timestamp.fromDate(input.paidAt),
+      recordedBy: recorder.uid,
+      recordedByName: recorder.name || '',
+      createdAt: now
+    };
+    if (orderData.invoiceId) {
+      payment.invoiceId = orderData.invoiceId;
+      payment.invoiceNumber = orderData.invoiceNumber || '';
+    }
+
+    transaction.set(paymentRef, payment);
+    transaction.update(orderRef, {
+      amountPaid: roundCurrency((orderData.amountPaid || 0) + payment.amount),
+      lastPaymentAt: now
+    });
+
+    return { id: paymentRef.id, ...payment };
+  });
+}
+
+/**
+ * Reverse a payment recorded by mistake.
+ *
+ * Payments are never edited or deleted: a reversal entry with the opposite
+ * amount is recorded instead, and the original is marked as reversed, so the
+ * history keeps both. The order's `amountPaid` is corrected in the same
+ * transaction.
+ *
+ * @param payment - Payment to reverse
+ * @param reason - Why the payment is reversed, shown in the history
+ * @param recorder - The team member reversing the payment
+ */
+export async function reversePayment(payment: Payment, reason: string, recorder: PaymentRecorder): Promise<Payment> {
+  if (!reason.trim()) {
+    throw new Error('A reason is required to reverse a payment');
+  }
+
+  const originalRef = doc(db, 'payments', payment.id!);
+  const orderRef = doc(db, 'orders', payment.orderId);
+  const reversalRef = doc(collection(db, 'payments'));
+
+  return runTransaction(db, async (transaction) => {
+    const [originalDoc, orderDoc] = await Promise.all([transaction.get(originalRef), transaction.get(orderRef)]);
+    if (!originalDoc.exists() || !orderDoc.exists()) {
+      throw new Error('Payment not found');
+    }
+
+    const original = originalDoc.data() as Payment;
+    if (original.reversedByPaymentId || original.reversesPaymentId) {
+      throw new Error('Payment already reversed');
+    }
+
+    const now = Timestamp.now();
+    const reversal: Payment = {
+      orderId: original.orderId,
+      userId: original.userId,
+      clientId: original.clientId || '',
+      amount: -original.amount,
+      method: original.method,
+      isAdvance: original.isAdvance,
+      reference: original.reference || '',
+      paidAt: now,
+      recordedBy: recorder.uid,
+      recordedByName: recorder.name || '',
+      createdAt: now,
+      reversesPaymentId: originalRef.id,
+      reason: reason.trim()
+    };
+    if (original.invoiceId) {
+      reversal.invoiceId = original.invoiceId;
+      reversal.invoiceNumber = original.invoiceNumber || '';
+    }
+
+    transaction.set(reversalRef, reversal);
+    transaction.update(originalRef, { reversedByPaymentId: reversalRef.id });
+    transaction.update(orderRef, {
+      amountPaid: roundCurrency((orderDoc.data().amountPaid || 0) - original.amount)
+    });
+
+    return { id: reversalRef.id, ...reversal };
+  });
+}
@@ -0,0 +1,320 @@
+import {
+  DesignFileInfo,
+  PreflightItem,
+  PreflightReport,
+  PreflightStatus,
+  PreflightStatusType
+} from '../types';
+
+/**
+ * Print-readiness preflight - design files are analysed in the browser when
+ * they are uploaded, before the order is confirmed. `analyzeDesignFile` reads
+ * the facts from the file (pixel size, transparency, colour mode, PDF pages);
+ * `buildPreflightReport` turns them into pass/warn/fail items for the
+ * requested print size, so the report follows the length and width fields.
+ */
+
+const TARGET_DPI = 300;
+const MIN_DPI = 150;
+const CM_PER_INCH = 2.54;
+const MM_PER_POINT = 25.4 / 72;
+// Transparency is sampled on a downscaled copy of the image
+const ALPHA_SAMPLE_SIZE = 256;
+
+type ColorMode = DesignFileInfo['colorMode'];
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function readUint16(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+function isPng(bytes: Uint8Array): boolean {
+  return bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+}
+
+function isJpeg(bytes: Uint8Array): boolean {
+  return bytes[0] === 0xff && bytes[1] === 0xd8;
+}
+
+function isPdf(bytes: Uint8Array): boolean {
+  return bytes[0] === 0x25 && bytes[1] === 0x50 && bytes[2] === 0x44 && bytes[3] === 0x46;
+}
+
+/**
+ * Size and colour mode from the PNG IHDR chunk
+ */
+function readPngHeader(bytes: Uint8Array): { width: number; height: number; colorMode: ColorMode } {
+  const colorModes: Record<number, ColorMode> = { 0: 'grayscale', 2: 'rgb', 3: 'indexed', 4: 'grayscale', 6: 'rgb' };
+  return {
+    width: readUint32(bytes, 16),
+    height: readUint32(bytes, 20),
+    colorMode: colorModes[bytes[25]] || 'unknown'
+  };
+}
+
+/**
+ * Size and colour mode from the first JPEG start-of-frame segment
+ */
+function readJpegHeader(bytes: Uint8Array): { width: number; height: number; colorMode: ColorMode } | null {
+  let offset = 2;
+  while (offset + 9 < bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const components = bytes[offset + 9];
+      return {
+        height: readUint16(bytes, offset + 5),
+        width: readUint16(bytes, offset + 7),
+        colorMode: components === 4 ? 'cmyk' : components === 1 ? 'grayscale' : components === 3 ? 'rgb' : 'unknown'
+      };
+    }
+    offset += 2 + readUint16(bytes, offset + 2);
+  }
+  return null;
+}
+
+/**
+ * Page count, first page size and colour spaces from the PDF source. Pages
+ * and resources inside compressed object streams cannot be seen this way and
+ * are reported as unknown.
+ */
+function readPdfInfo(bytes: Uint8Array): Pick<DesignFileInfo, 'pageCount' | 'pageWidthMm' | 'pageHeightMm' | 'colorMode'> {
+  const source = new TextDecoder('latin1').decode(bytes);
+
+  const pageCount = (source.match(/\/Type\s*\/Page(?![a-zA-Z])/g) || []).length;
+  const mediaBox = source.match(/\/MediaBox\s*\[\s*(-?[\d.]+)\s+(-?[\d.]+)\s+(-?[\d.]+)\s+(-?[\d.]+)\s*\]/);
+
+  let colorMode: ColorMode = 'unknown';
+  if (source.includes('/DeviceCMYK')) {
+    colorMode = 'cmyk';
+  } else if (source.includes('/DeviceRGB') || source.includes('/CalRGB')) {
+    colorMode = 'rgb';
+  } else if (source.includes('/DeviceGray')) {
+    colorMode = 'grayscale';
+  }
+
+  return {
+    pageCount: pageCount || undefined,
+    pageWidthMm: mediaBox ? Math.abs(parseFloat(mediaBox[3]) - parseFloat(mediaBox[1])) * MM_PER_POINT : undefined,
+    pageHeightMm: mediaBox ? Math.abs(parseFloat(mediaBox[4]) - parseFloat(mediaBox[2])) * MM_PER_POINT : undefined,
+    colorMode
+  };
+}
+
+function decodeImage(file: File): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Failed to decode ${file.name}`));
+    };
+    image.src = url;
+  });
+}
+
+/**
+ * Whether any pixel of the image is not fully opaque
+ */
+function hasTransparentPixels(image: HTMLImageElement): boolean {
+  const ratio = Math.min(1, ALPHA_SAMPLE_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * ratio));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * ratio));
+
+  const context = canvas.getContext('2d');
+  if (!context) return false;
+
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+}
+
+/**
+ * Read the print-relevant facts of an uploaded design file
+ */
+export async function analyzeDesignFile(file: File): Promise<DesignFileInfo> {
+  const fileName = file.name;
+
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+
+    if (isPdf(bytes)) {
+      return { fileName, kind: 'pdf', ...readPdfInfo(bytes) };
+    }
+
+    if (file.type === 'image/svg+xml' || /\.svg$/i.test(fileName)) {
+      return { fileName, kind: 'vector', colorMode: 'rgb' };
+    }
+
+    if (!file.type.startsWith('image/') && !isPng(bytes) && !isJpeg(bytes)) {
+      return { fileName, kind: 'unsupported', colorMode: 'unknown' };
+    }
+
+    if (isJpeg(bytes)) {
+      // Browsers do not all decode CMYK JPEGs, so the header is enough here
+      const header = readJpegHeader(bytes);
+      if (header) {
+        return { fileName, kind: 'raster', widthPx: header.width, heightPx: header.height, hasTransparency: false, colorMode: header.colorMode };
+      }
+    }
+
+    const header = isPng(bytes) ? readPngHeader(bytes) : null;
+    // TIFF and PSD are accepted for print but browsers cannot decode them
+    const image = await decodeImage(file).catch((error) => {
+      if (isPng(bytes) || isJpeg(bytes)) throw error;
+      return null;
+    });
+    if (!image) {
+      return { fileName, kind: 'unsupported', colorMode: 'unknown' };
+    }
+
+    return {
+      fileName,
+      kind: 'raster',
+      widthPx: header?.width || image.naturalWidth,
+      heightPx: header?.height || image.naturalHeight,
+      hasTransparency: hasTransparentPixels(image),
+      colorMode: header?.colorMode || (file.type === 'image/gif' ? 'indexed' : 'rgb')
+    };
+  } catch (error) {
+    if (import.meta.env.DEV) {
+      console.error('Error analyzing design file:', error);
+    }
+    return { fileName, kind: 'unreadable', colorMode: 'unknown' };
+  }
+}
+
+function formatNumber(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Effective resolution of a raster design printed at lengthCm x widthCm,
+ * in whichever orientation suits the image better
+ */
+function getEffectiveDpi(widthPx: number, heightPx: number, widthCm: number, lengthCm: number): number {
+  const upright = Math.min(widthPx / (widthCm / CM_PER_INCH), heightPx / (lengthCm / CM_PER_INCH));
+  const rotated = Math.min(widthPx / (lengthCm / CM_PER_INCH), heightPx / (widthCm / CM_PER_INCH));
+  return Math.round(Math.max(upright, rotated));
+}
+
+function getResolutionItem(info: DesignFileInfo, lengthCm: number, widthCm: number): PreflightItem {
+  if (!lengthCm || !widthCm) {
+    return {
+      check: 'resolution',
+      status: PreflightStatus.WARN,
+      message: 'resolutionNoPrintSize',
+      params: {
+        width: formatNumber((info.widthPx! / TARGET_DPI) * CM_PER_INCH),
+        length: formatNumber((info.heightPx! / TARGET_DPI) * CM_PER_INCH)
+      }
+    };
+  }
+
+  const dpi = getEffectiveDpi(info.widthPx!, info.heightPx!, widthCm, lengthCm);
+  if (dpi >= TARGET_DPI) {
+    return { check: 'resolution', status: PreflightStatus.PASS, message: 'resolutionOk', params: { dpi } };
+  }
+  return {
+    check: 'resolution',
+    status: dpi >= MIN_DPI ? PreflightStatus.WARN : PreflightStatus.FAIL,
+    message: dpi >= MIN_DPI ? 'resolutionLow' : 'resolutionTooLow',
+    params: { dpi, target: TARGET_DPI }
+  };
+}
+
+function getColorModeItem(colorMode: ColorMode): PreflightItem {
+  const statuses: Record<ColorMode, PreflightStatusType> = {
+    cmyk: PreflightStatus.PASS,
+    grayscale: PreflightStatus.PASS,
+    rgb: PreflightStatus.WARN,
+    indexed: PreflightStatus.WARN,
+    unknown: PreflightStatus.WARN
+  };
+  return { check: 'colorMode', status: statuses[colorMode], message: `color_${colorMode}` };
+}
+
+function getPdfItems(info: DesignFileInfo, lengthCm: number, widthCm: number): PreflightItem[] {
+  const items: PreflightItem[] = [];
+
+  if (!info.pageCount) {
+    items.push({ check: 'pages', status: PreflightStatus.WARN, message: 'pagesUnknown' });
+  } else if (info.pageCount > 1) {
+    items.push({ check: 'pages', status: PreflightStatus.WARN, message: 'pagesMultiple', params: { pages: info.pageCount } });
+  } else {
+    items.push({ check: 'pages', status: PreflightStatus.PASS, message: 'pagesSingle' });
+  }
+
+  if (!info.pageWidthMm || !info.pageHeightMm) {
+    items.push({ check: 'pageSize', status: PreflightStatus.WARN, message: 'pageSizeUnknown' });
+  } else {
+    const page = { width: Math.round(info.pageWidthMm), height: Math.round(info.pageHeightMm) };
+    // Vector pages scale freely; only a different shape than the print needs attention
+    const pageRatio = info.pageWidthMm / info.pageHeightMm;
+    const printRatio = widthCm / lengthCm;
+    const matches = !lengthCm || !widthCm ||
+      Math.abs(pageRatio - printRatio) / printRatio <= 0.05 ||
+      Math.abs(1 / pageRatio - printRatio) / printRatio <= 0.05;
+
+    items.push(matches
+      ? { check: 'pageSize', status: PreflightStatus.PASS, message: 'pageSizeOk', params: page }
+      : { check: 'pageSize', status: PreflightStatus.WARN, message: 'pageSizeMismatch', params: { ...page, printWidth: widthCm, printLength: lengthCm } });
+  }
+
+  items.push(getColorModeItem(info.colorMode));
+  return items;
+}
+
+/**
+ * Build the preflight report of a design for the requested print size
+ * @param length - Print length in cm, as entered on the sub-order
+ * @param width - Print width in cm, as entered on the sub-order
+ */
+export function buildPreflightReport(info: DesignFileInfo, length: string | number, width: string | number): PreflightReport {
+  const lengthCm = parseFloat(String(length)) || 0;
+  const widthCm = parseFloat(String(width)) || 0;
+  const items: PreflightItem[] = [];
+
+  switch (info.kind) {
+    case 'unreadable':
+      items.push({ check: 'file', status: PreflightStatus.FAIL, message: 'unreadable' });
+      break;
+    case 'unsupported':
+      items.push({ check: 'file', status: PreflightStatus.WARN, message: 'unsupported' });
+      break;
+    case 'pdf':
+      items.push(...getPdfItems(info, lengthCm, widthCm));
+      break;
+    case 'vector':
+      items.push({ check: 'resolution', status: PreflightStatus.PASS, message: 'resolutionVector' });
+      items.push(getColorModeItem(info.colorMode));
+      break;
+    case 'raster':
+      items.push({ check: 'pixels', status: PreflightStatus.PASS, message: 'pixels', params: { width: info.widthPx!, height: info.heightPx! } });
+      items.push(getResolutionItem(info, lengthCm, widthCm));
+      items.push(info.hasTransparency
+        ? { check: 'transparency', status: PreflightStatus.PASS, message: 'transparent' }
+        : { check: 'transparency', status: PreflightStatus.WARN, message: 'opaque' });
+      items.push(getColorModeItem(info.colorMode));
+      break;
+  }
+
+  const status = items.some(item => item.status === PreflightStatus.FAIL)
+    ? PreflightStatus.FAIL
+    : items.some(item => item.status === PreflightStatus.WARN)
+      ? PreflightStatus.WARN
+      : PreflightStatus.PASS;
+
+  return { status, fileName: info.fileName, items };
+}
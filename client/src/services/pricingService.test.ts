@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest';
+import firestoreRules from '../../../firestore.rules?raw';
+import { PricingMode, PriceSource, PriceTable } from '../types';
+
+vi.mock('../firebase', () => ({ db: {} }));
+
+const { calculatePrice, estimateOrderTotal, getApplicableTier, quoteSubOrder, toSubOrderPricing } =
+  await import('./pricingService');
+
+const unitTable: PriceTable = {
+  mode: PricingMode.UNIT,
+  basePrice: 25,
+  setupFee: 0,
+  tiers: [
+    { minQuantity: 100, discountPercent: 10 },
+    { minQuantity: 50, discountPercent: 5 }
+  ]
+};
+
+const areaTable: PriceTable = {
+  mode: PricingMode.AREA,
+  basePrice: 20,
+  areaRate: 0.05,
+  setupFee: 50,
+  tiers: []
+};
+
+describe('getApplicableTier', () => {
+  it('picks the highest threshold reached, whatever the order of the tiers', () => {
+    expect(getApplicableTier(unitTable.tiers, 49)).toBeNull();
+    expect(getApplicableTier(unitTable.tiers, 50)?.discountPercent).toBe(5);
+    expect(getApplicableTier(unitTable.tiers, 250)?.discountPercent).toBe(10);
+  });
+});
+
+describe('calculatePrice', () => {
+  it('cannot price a line without a positive quantity', () => {
+    expect(calculatePrice(unitTable, { quantity: '' })).toBeNull();
+    expect(calculatePrice(unitTable, { quantity: 0 })).toBeNull();
+    expect(calculatePrice(unitTable, { quantity: '-3' })).toBeNull();
+  });
+
+  it('cannot price a line without a table or a manual unit cost', () => {
+    expect(calculatePrice(null, { quantity: 10 })).toBeNull();
+  });
+
+  it('applies the quantity break discount to the unit price', () => {
+    expect(calculatePrice(unitTable, { quantity: '100' })).toEqual({
+      unitPrice: 22.5,
+      lineTotal: 2250,
+      source: PriceSource.TABLE,
+      printAreaCm2: null,
+      discountPercent: 10,
+      setupFee: 0
+    });
+  });
+
+  it('prices area mode by print area, never below the base price', () => {
+    const small = calculatePrice(areaTable, { quantity: 10, length: '10', width: '10' });
+    expect(small?.unitPrice).toBe(20);
+    expect(small?.printAreaCm2).toBe(100);
+
+    const large = calculatePrice(areaTable, { quantity: 10, length: 30, width: 20 });
+    expect(large?.unitPrice).toBe(30);
+    expect(large?.lineTotal).toBe(350);
+    expect(large?.setupFee).toBe(50);
+  });
+
+  it('lets a manual unit cost win over the table, without a setup fee', () => {
+    expect(calculatePrice(areaTable, { quantity: 3, cmp: '12.345' })).toMatchObject({
+      unitPrice: 12.35,
+      lineTotal: 37.04,
+      source: PriceSource.MANUAL,
+      setupFee: 0
+    });
+  });
+
+  it('only charges whole items', () => {
+    expect(calculatePrice(unitTable, { quantity: '2.9' })?.lineTotal).toBe(50);
+  });
+});
+
+describe('quoteSubOrder', () => {
+  it('looks the table up by product type', () => {
+    const tables = { mugs: unitTable };
+    expect(quoteSubOrder(tables, 'mugs', { quantity: 1 })?.unitPrice).toBe(25);
+    expect(quoteSubOrder(tables, 'caps', { quantity: 1 })).toBeNull();
+    expect(quoteSubOrder(tables, null, { quantity: 1 })).toBeNull();
+  });
+});
+
+describe('toSubOrderPricing', () => {
+  it('clears every pricing field when the line cannot be priced', () => {
+    expect(toSubOrderPricing(null)).toEqual({
+      unitPrice: null,
+      lineTotal: null,
+      setupFee: null,
+      priceSource: null
+    });
+  });
+});
+
+describe('firestore.rules', () => {
+  /**
+   * Fields order owners outside the team may change, from the hasOnly list of a rules function
+   */
+  function getOwnerFields(functionName: string): string[] {
+    const body = firestoreRules.match(new RegExp(`function ${functionName}\\(\\) \\{[\\s\\S]*?hasOnly\\(\\[([^\\]]*)\\]\\)`));
+    if (!body) {
+      throw new Error(`${functionName} not found in firestore.rules`);
+    }
+    return body[1].split(',').map(field => field.trim().replace(/'/g, ''));
+  }
+
+  it('keeps the priced fields of sub-orders team-only', () => {
+    const pricedFields = ['quantity', 'length', 'width', 'cmp', ...Object.keys(toSubOrderPricing(null))];
+    const ownerFields = getOwnerFields('isOwnerSubOrderUpdate');
+
+    expect(ownerFields).toContain('status');
+    pricedFields.forEach(field => expect(ownerFields).not.toContain(field));
+  });
+});
+
+describe('estimateOrderTotal', () => {
+  it('sums the priced lines and counts the others', () => {
+    const tables = { mugs: unitTable, 't-shirts': areaTable };
+    expect(estimateOrderTotal(tables, [
+      { quantity: 2, productType: { id: 'mugs' } },
+      { quantity: 1, productType: { id: 't-shirts' } },
+      { quantity: 5, productType: { id: 'unknown' } },
+      { quantity: '', productType: { id: 'mugs' } }
+    ])).toEqual({ total: 120, unpricedCount: 2 });
+  });
+});
@@ -0,0 +1,229 @@
+import { collection, doc, getDocs, setDoc, Timestamp } from 'firebase/firestore';
+import { db } from '../firebase';
+import { PricingMode, PriceSource, ProductType, PriceTable, PriceQuote, QuantityTier } from '../types';
+import { roundCurrency } from '../utils/helpers';
+
+/**
+ * Input needed to price a single sub-order line.
+ * Accepts the raw form strings from SubOrderItem as well as stored numbers.
+ */
+export interface PriceInput {
+  quantity: string | number | null | undefined;
+  length?: string | number | null;
+  width?: string | number | null;
+  cmp?: string | number | null;
+}
+
+/**
+ * Built-in price tables for the default product types.
+ * Documents in the `priceTables` collection with the same id override these.
+ * Recurring orders are priced by a copy in functions/src/pricing.ts.
+ */
+export const DEFAULT_PRICE_TABLES: Record<string, PriceTable> = {
+  [ProductType.MUGS]: {
+    id: ProductType.MUGS,
+    mode: PricingMode.UNIT,
+    basePrice: 25,
+    setupFee: 0,
+    tiers: [
+      { minQuantity: 50, discountPercent: 5 },
+      { minQuantity: 100, discountPercent: 10 },
+      { minQuantity: 500, discountPercent: 15 }
+    ]
+  },
+  [ProductType.T_SHIRTS]: {
+    id: ProductType.T_SHIRTS,
+    mode: PricingMode.AREA,
+    basePrice: 20,
+    areaRate: 0.05,
+    setupFee: 50,
+    tiers: [
+      { minQuantity: 50, discountPercent: 5 },
+      { minQuantity: 100, discountPercent: 10 },
+      { minQuantity: 500, discountPercent: 20 }
+    ]
+  },
+  [ProductType.HOODIES]: {
+    id: ProductType.HOODIES,
+    mode: PricingMode.AREA,
+    basePrice: 45,
+    areaRate: 0.05,
+    setupFee: 50,
+    tiers: [
+      { minQuantity: 50, discountPercent: 5 },
+      { minQuantity: 100, discountPercent: 10 }
+    ]
+  },
+  [ProductType.BAGS]: {
+    id: ProductType.BAGS,
+    mode: PricingMode.AREA,
+    basePrice: 12,
+    areaRate: 0.04,
+    setupFee: 50,
+    tiers: [
+      { minQuantity: 100, discountPercent: 10 },
+      { minQuantity: 500, discountPercent: 15 }
+    ]
+  },
+  [ProductType.CAPS]: {
+    id: ProductType.CAPS,
+    mode: PricingMode.UNIT,
+    basePrice: 18,
+    setupFee: 30,
+    tiers: [
+      { minQuantity: 50, discountPercent: 5 },
+      { minQuantity: 200, discountPercent: 10 }
+    ]
+  }
+};
+
+function toNumber(value: string | number | null | undefined): number {
+  if (value === null || value === undefined || value === '') return 0;
+  const num = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(num) ? 0 : num;
+}
+
+/**
+ * Fetch all price tables, merging Firestore overrides on top of the built-in defaults
+ * @returns Price tables keyed by product type id
+ */
+export async function fetchPriceTables(): Promise<Record<string, PriceTable>> {
+  const tables: Record<string, PriceTable> = { ...DEFAULT_PRICE_TABLES };
+
+  try {
+    const snapshot = await getDocs(collection(db, 'priceTables'));
+    snapshot.docs.forEach(tableDoc => {
+      tables[tableDoc.id] = { id: tableDoc.id, ...tableDoc.data() } as PriceTable;
+    });
+  } catch (error) {
+    if (import.meta.env.DEV) {
+      console.error('Error fetching price tables:', error);
+    }
+  }
+
+  return tables;
+}
+
+/**
+ * Create or replace the price table of a product type
+ * @param productTypeId - Built-in product type value or productTypes document id
+ * @param table - Price table definition
+ * @param userId - The user saving the table
+ */
+export async function savePriceTable(productTypeId: string, table: PriceTable, userId: string): Promise<void> {
+  const { id: _id, ...data } = table;
+  await setDoc(doc(db, 'priceTables', productTypeId), {
+    ...data,
+    tiers: [...data.tiers].sort((a, b) => a.minQuantity - b.minQuantity),
+    updatedAt: Timestamp.now(),
+    updatedBy: userId
+  });
+}
+
+/**
+ * Find the quantity break tier that applies to a quantity (highest threshold reached)
+ */
+export function getApplicableTier(tiers: QuantityTier[], quantity: number): QuantityTier | null {
+  return tiers
+    .filter(tier => quantity >= tier.minQuantity)
+    .reduce<QuantityTier | null>((best, tier) =>
+      !best || tier.minQuantity > best.minQuantity ? tier : best, null);
+}
+
+/**
+ * Compute the unit price and line total for a sub-order line.
+ *
+ * A unit cost entered manually in `cmp` always wins over the price table.
+ * In area mode the unit price is the print area (length × width, cm²) times the
+ * area rate, never less than the table's base price.
+ *
+ * @returns The quote, or null when the line cannot be priced yet
+ */
+export function calculatePrice(table: PriceTable | null | undefined, input: PriceInput): PriceQuote | null {
+  const quantity = Math.floor(toNumber(input.quantity));
+  if (quantity <= 0) return null;
+
+  const length = toNumber(input.length);
+  const width = toNumber(input.width);
+  const printAreaCm2 = length > 0 && width > 0 ? roundCurrency(length * width) : null;
+
+  const manualUnitPrice = toNumber(input.cmp);
+  if (manualUnitPrice > 0) {
+    return {
+      unitPrice: roundCurrency(manualUnitPrice),
+      lineTotal: roundCurrency(manualUnitPrice * quantity),
+      source: PriceSource.MANUAL,
+      printAreaCm2,
+      discountPercent: 0,
+      setupFee: 0
+    };
+  }
+
+  if (!table) return null;
+
+  let baseUnitPrice = table.basePrice;
+  if (table.mode === PricingMode.AREA && printAreaCm2 && table.areaRate) {
+    baseUnitPrice = Math.max(table.basePrice, printAreaCm2 * table.areaRate);
+  }
+
+  const tier = getApplicableTier(table.tiers || [], quantity);
+  const discountPercent = tier?.discountPercent || 0;
+  const unitPrice = roundCurrency(baseUnitPrice * (1 - discountPercent / 100));
+  const setupFee = roundCurrency(table.setupFee || 0);
+
+  return {
+    unitPrice,
+    lineTotal: roundCurrency(unitPrice * quantity + setupFee),
+    source: PriceSource.TABLE,
+    printAreaCm2,
+    discountPercent,
+    setupFee
+  };
+}
+
+/**
+ * Price a sub-order line by looking up the table for its product type
+ */
+export function quoteSubOrder(
+  tables: Record<string, PriceTable>,
+  productTypeId: string | null | undefined,
+  input: PriceInput
+): PriceQuote | null {
+  const table = productTypeId ? tables[productTypeId] : null;
+  return calculatePrice(table, input);
+}
+
+/**
+ * Fields persisted on a subOrders document for a computed quote
+ */
+export function toSubOrderPricing(quote: PriceQuote | null) {
+  return {
+    unitPrice: quote ? quote.unitPrice : null,
+    lineTotal: quote ? quote.lineTotal : null,
+    setupFee: quote ? quote.setupFee : null,
+    priceSource: quote ? quote.source : null
+  };
+}
+
+/**
+ * Sum the line totals of all priceable sub-order lines
+ * @returns The estimated order total and how many lines could not be priced
+ */
+export function estimateOrderTotal(
+  tables: Record<string, PriceTable>,
+  lines: Array<PriceInput & { productType?: { id: string } | null }>
+): { total: number; unpricedCount: number } {
+  let total = 0;
+  let unpricedCount = 0;
+
+  lines.forEach(line => {
+    const quote = quoteSubOrder(tables, line.productType?.id, line);
+    if (quote) {
+      total += quote.lineTotal;
+    } else {
+      unpricedCount++;
+    }
+  });
+
+  return { total: roundCurrency(total), unpricedCount };
+}
@@ -0,0 +1,176 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  runTransaction,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { Proof, ProofStatus, ProofStatusType } from '../types';
+import { uploadFile } from './storageService';
+import { getOrderNumber } from './orderService';
+
+/**
+ * Design proofs - numbered versions of a sub-order's artwork that the client
+ * approves or sends back with comments. The latest version and its status are
+ * copied onto the sub-order (`proofVersion`, `proofStatus`, `proofId`) in the
+ * same transaction. firestore.rules checks the copy against the proof document
+ * and only lets a sub-order with proofs start production once the latest one
+ * is approved. Upload and decision times are server timestamps.
+ */
+
+interface ProofActor {
+  uid: string;
+  name: string;
+  email: string | null;
+}
+
+/**
+ * Whether a sub-order has to wait for proof approval before production starts
+ */
+export function isProofBlockingProduction(subOrder: any): boolean {
+  return !!subOrder.proofVersion && subOrder.proofStatus !== ProofStatus.APPROVED;
+}
+
+/**
+ * Fetch the proofs of a sub-order, oldest version first
+ * @param ownerId - Order owner; required for clients so the query matches the security rules
+ */
+export async function fetchSubOrderProofs(orderId: string, subOrderId: string, ownerId?: string): Promise<Proof[]> {
+  const constraints = [where('orderId', '==', orderId), where('subOrderId', '==', subOrderId)];
+  if (ownerId) {
+    constraints.push(where('userId', '==', ownerId));
+  }
+  const snapshot = await getDocs(query(collection(db, 'proofs'), ...constraints));
+
+  return snapshot.docs
+    .map(proofDoc => ({ id: proofDoc.id, ...proofDoc.data() } as Proof))
+    .sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Upload the next proof version of a sub-order and ask the client to review it
+ * @param getFeedText - Translated order feed text for the allocated version
+ * @returns The allocated version number
+ */
+export async function uploadProof(
+  order: any,
+  subOrderId: string,
+  file: File,
+  note: string,
+  uploader: ProofActor,
+  getFeedText: (version: number) => string
+): Promise<number> {
+  // Stored as proofs/{orderId}/{subOrderId}/{timestamp}_{name}
+  const upload = await uploadFile(file, `proofs/${order.id}`, subOrderId);
+  const subOrderRef = doc(db, 'orders', order.id, 'subOrders', subOrderId);
+  const proofRef = doc(collection(db, 'proofs'));
+
+  return runTransaction(db, async (transaction) => {
+    const subOrderDoc = await transaction.get(subOrderRef);
+    if (!subOrderDoc.exists()) {
+      throw new Error('Sub-order not found');
+    }
+
+    const version = (subOrderDoc.data().proofVersion || 0) + 1;
+
+    transaction.set(proofRef, {
+      orderId: order.id,
+      subOrderId,
+      userId: order.userId,
+      version,
+      fileName: upload.name,
+      fileURL: upload.url,
+      filePath: upload.path,
+      fileType: upload.type,
+      note,
+      status: ProofStatus.PENDING,
+      uploadedBy: uploader.uid,
+      uploadedByName: uploader.name,
+      createdAt: serverTimestamp()
+    });
+
+    transaction.update(subOrderRef, {
+      proofVersion: version,
+      proofStatus: ProofStatus.PENDING,
+      proofId: proofRef.id,
+      updatedAt: Timestamp.now()
+    });
+
+    transaction.set(doc(collection(db, 'orderUpdates')), {
+      orderId: order.id,
+      userId: uploader.uid,
+      userName: uploader.name,
+      userEmail: uploader.email,
+      text: getFeedText(version),
+      isSystem: true,
+      createdAt: Timestamp.now()
+    });
+
+    if (order.userId && order.userId !== uploader.uid) {
+      transaction.set(doc(collection(db, 'notifications')), {
+        userId: order.userId,
+        type: 'proof_uploaded',
+        title: 'Machetă nouă de aprobat',
+        message: `Versiunea ${version} a machetei pentru comanda ${getOrderNumber(order)} așteaptă aprobarea ta`,
+        orderId: order.id,
+        read: false,
+        createdAt: Timestamp.now()
+      });
+    }
+
+    return version;
+  });
+}
+
+/**
+ * Approve the latest proof of a sub-order or send it back with comments.
+ * Only the latest, still pending version can be decided, and only once.
+ * @param feedText - Translated order feed text
+ */
+export async function decideProof(
+  order: any,
+  proof: Proof,
+  decision: { status: Exclude<ProofStatusType, 'pending'>; comment: string },
+  decider: ProofActor,
+  feedText: string
+): Promise<void> {
+  const subOrderRef = doc(db, 'orders', order.id, 'subOrders', proof.subOrderId);
+  const proofRef = doc(db, 'proofs', proof.id!);
+
+  await runTransaction(db, async (transaction) => {
+    const [subOrderDoc, proofDoc] = await Promise.all([transaction.get(subOrderRef), transaction.get(proofRef)]);
+    if (!subOrderDoc.exists() || !proofDoc.exists()) {
+      throw new Error('Proof not found');
+    }
+    if (proofDoc.data().status !== ProofStatus.PENDING || subOrderDoc.data().proofVersion !== proof.version) {
+      throw new Error('Only the latest pending proof can be decided');
+    }
+
+    transaction.update(proofRef, {
+      status: decision.status,
+      decidedBy: decider.uid,
+      decidedByName: decider.name,
+      decisionComment: decision.comment,
+      decidedAt: serverTimestamp()
+    });
+
+    transaction.update(subOrderRef, {
+      proofStatus: decision.status,
+      updatedAt: Timestamp.now()
+    });
+
+    transaction.set(doc(collection(db, 'orderUpdates')), {
+      orderId: order.id,
+      userId: decider.uid,
+      userName: decider.name,
+      userEmail: decider.email,
+      text: feedText,
+      isSystem: true,
+      createdAt: Timestamp.now()
+    });
+  });
+}
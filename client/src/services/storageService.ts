@@ -1,5 +1,15 @@
 import { storage } from '../firebase';
-import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
+import { ALLOWED_UPLOAD_TYPES, UPLOAD_SIZE_LIMITS_MB } from '../constants';
+import { getAllowedUploadType } from '../utils/validation';
+import {
+  ref,
+  uploadBytesResumable,
+  getDownloadURL,
+  deleteObject,
+  StorageError,
+  StorageErrorCode,
+  UploadTask as FirebaseUploadTask
+} from 'firebase/storage';
 
 /**
  * Result returned from file upload operations
@@ -13,49 +23,226 @@ export interface UploadResult {
 }
 
 /**
- * Upload a file to Firebase Storage
+ * Why an upload failed, so the UI can tell a lost connection from a refused file
+ */
+export const UploadErrorReason = {
+  NO_FILE: 'no_file',
+  FILE_TYPE: 'file_type',
+  FILE_TOO_LARGE: 'file_too_large',
+  CANCELED: 'canceled',
+  UNAUTHORIZED: 'unauthorized',
+  QUOTA_EXCEEDED: 'quota_exceeded',
+  NETWORK: 'network',
+  UNKNOWN: 'unknown'
+} as const;
+
+export type UploadErrorReasonType = typeof UploadErrorReason[keyof typeof UploadErrorReason];
+
+export class UploadError extends Error {
+  reason: UploadErrorReasonType;
+  params?: Record<string, string | number>; // Interpolation values for the localized message
+
+  constructor(reason: UploadErrorReasonType, message: string, params?: Record<string, string | number>) {
+    super(message);
+    this.name = 'UploadError';
+    this.reason = reason;
+    this.params = params;
+  }
+}
+
+export interface UploadProgress {
+  bytesTransferred: number;
+  totalBytes: number;
+  percent: number;
+}
+
+export interface UploadOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  // Called before an automatic retry; attempt starts at 1
+  onRetry?: (attempt: number, maxRetries: number) => void;
+  maxRetries?: number;
+}
+
+/**
+ * A running upload. pause/resume/cancel return false when the upload is not
+ * in a state where that applies.
+ */
+export interface UploadTask {
+  promise: Promise<UploadResult>;
+  pause: () => boolean;
+  resume: () => boolean;
+  cancel: () => boolean;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+// The SDK retries failed chunks of a resumable upload by itself for this long
+// before giving up; after that the upload is restarted with backoff below
+storage.maxUploadRetryTime = 60 * 1000;
+
+function toUploadError(error: unknown): UploadError {
+  if (error instanceof UploadError) {
+    return error;
+  }
+
+  const code = error instanceof StorageError ? error.code : '';
+  const reasons: Record<string, UploadErrorReasonType> = {
+    [StorageErrorCode.CANCELED]: UploadErrorReason.CANCELED,
+    [StorageErrorCode.UNAUTHORIZED]: UploadErrorReason.UNAUTHORIZED,
+    [StorageErrorCode.UNAUTHENTICATED]: UploadErrorReason.UNAUTHORIZED,
+    [StorageErrorCode.QUOTA_EXCEEDED]: UploadErrorReason.QUOTA_EXCEEDED,
+    [StorageErrorCode.RETRY_LIMIT_EXCEEDED]: UploadErrorReason.NETWORK
+  };
+  const reason = reasons[code.replace('storage/', '')] ||
+    (typeof navigator !== 'undefined' && !navigator.onLine ? UploadErrorReason.NETWORK : UploadErrorReason.UNKNOWN);
+
+  return new UploadError(reason, 'Failed to upload file');
+}
+
+function getSizeLimitMb(folder: string): number | undefined {
+  // Limits are set per top-level folder, e.g. designs for designs/{userId}
+  const topFolder = folder.split('/')[0];
+  return Object.keys(UPLOAD_SIZE_LIMITS_MB).includes(topFolder) ? UPLOAD_SIZE_LIMITS_MB[topFolder] : undefined;
+}
+
+/**
+ * Check a file against the format allow-list and the size cap of the folder
+ * it goes to. storage.rules enforces the same limits on designs/ and updates/.
+ * @returns The rejection, or null when the file can be uploaded
+ */
+export function validateUpload(file: File, folder: string): UploadError | null {
+  const maxSizeMb = getSizeLimitMb(folder);
+  if (maxSizeMb === undefined) {
+    return null;
+  }
+
+  if (!getAllowedUploadType(file)) {
+    const formats = Object.keys(ALLOWED_UPLOAD_TYPES)
+      .filter(extension => extension !== 'tif')
+      .map(extension => extension.toUpperCase())
+      .join(', ');
+    return new UploadError(UploadErrorReason.FILE_TYPE, `File type not accepted: ${file.name}`, { formats });
+  }
+  if (file.size > maxSizeMb * 1024 * 1024) {
+    return new UploadError(UploadErrorReason.FILE_TOO_LARGE, `File too large: ${file.name}`, { max: maxSizeMb });
+  }
+  return null;
+}
+
+function isRetryable(error: UploadError): boolean {
+  return error.reason === UploadErrorReason.NETWORK || error.reason === UploadErrorReason.UNKNOWN;
+}
+
+/**
+ * Start a resumable upload to Firebase Storage. Network failures are retried
+ * with exponential backoff (1s, 2s, 4s, ...); errors are rejected as UploadError.
  * @param file - The file to upload
  * @param folder - The folder path in storage (e.g., 'designs', 'updates')
  * @param userId - The user ID for organizing files
- * @returns Download URL and storage path information
+ * @returns Controls for the upload and a promise of its result
  */
-export async function uploadFile(
+export function startUpload(
   file: File,
   folder: string,
-  userId: string
-): Promise<UploadResult> {
-  if (!file) {
-    throw new Error('No file provided');
-  }
+  userId: string,
+  options: UploadOptions = {}
+): UploadTask {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  let task: FirebaseUploadTask | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let canceled = false;
+  let rejectRetryWait: ((error: UploadError) => void) | null = null;
 
   // Create a unique filename with timestamp
   const timestamp = Date.now();
-  const filename = `${userId}/${timestamp}_${file.name}`;
+  const filename = `${userId}/${timestamp}_${file?.name}`;
   const storagePath = `${folder}/${filename}`;
 
   // Create storage reference
   const storageRef = ref(storage, storagePath);
 
-  try {
-    // Upload file
-    const snapshot = await uploadBytes(storageRef, file);
-
-    // Get download URL
-    const downloadURL = await getDownloadURL(snapshot.ref);
-
-    return {
-      url: downloadURL,
-      path: storagePath,
-      name: file.name,
-      size: file.size,
-      type: file.type
-    };
-  } catch (error) {
-    if (import.meta.env.DEV) {
-      console.error('Error uploading file:', error);
+  async function run(): Promise<UploadResult> {
+    if (!file) {
+      throw new UploadError(UploadErrorReason.NO_FILE, 'No file provided');
+    }
+    const rejection = validateUpload(file, folder);
+    if (rejection) {
+      throw rejection;
+    }
+    // Restricted folders get the canonical type of the extension, which storage.rules checks
+    const contentType = getSizeLimitMb(folder) ? getAllowedUploadType(file)! : file.type || undefined;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        task = uploadBytesResumable(storageRef, file, { contentType });
+        task.on('state_changed', (snapshot) => {
+          options.onProgress?.({
+            bytesTransferred: snapshot.bytesTransferred,
+            totalBytes: snapshot.totalBytes,
+            percent: snapshot.totalBytes ? Math.round((snapshot.bytesTransferred / snapshot.totalBytes) * 100) : 0
+          });
+        });
+        const snapshot = await task;
+
+        // Get download URL
+        const downloadURL = await getDownloadURL(snapshot.ref);
+
+        return {
+          url: downloadURL,
+          path: storagePath,
+          name: file.name,
+          size: file.size,
+          type: file.type
+        };
+      } catch (error) {
+        const uploadError = canceled ? new UploadError(UploadErrorReason.CANCELED, 'Upload canceled') : toUploadError(error);
+        if (!isRetryable(uploadError) || attempt >= maxRetries) {
+          if (import.meta.env.DEV && uploadError.reason !== UploadErrorReason.CANCELED) {
+            console.error('Error uploading file:', error);
+          }
+          throw uploadError;
+        }
+
+        options.onRetry?.(attempt + 1, maxRetries);
+        await new Promise<void>((resolve, reject) => {
+          rejectRetryWait = reject;
+          retryTimer = setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** attempt);
+        });
+        rejectRetryWait = null;
+      }
     }
-    throw new Error('Failed to upload file');
   }
+
+  return {
+    promise: run(),
+    pause: () => task?.pause() ?? false,
+    resume: () => task?.resume() ?? false,
+    cancel: () => {
+      if (canceled) return false;
+      canceled = true;
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+      }
+      rejectRetryWait?.(new UploadError(UploadErrorReason.CANCELED, 'Upload canceled'));
+      return task?.cancel() ?? true;
+    }
+  };
+}
+
+/**
+ * Upload a file to Firebase Storage
+ * @param file - The file to upload
+ * @param folder - The folder path in storage (e.g., 'designs', 'updates')
+ * @param userId - The user ID for organizing files
+ * @returns Download URL and storage path information
+ */
+export async function uploadFile(
+  file: File,
+  folder: string,
+  userId: string,
+  options?: UploadOptions
+): Promise<UploadResult> {
+  return startUpload(file, folder, userId, options).promise;
 }
 
 /**
@@ -84,13 +271,28 @@ export async function deleteFile(storagePath: string): Promise<void> {
  * @param files - Array of files to upload
  * @param folder - The folder path in storage
  * @param userId - The user ID for organizing files
+ * @param onProgress - Combined progress of all files
  * @returns Array of upload results
  */
 export async function uploadMultipleFiles(
   files: File[],
   folder: string,
-  userId: string
+  userId: string,
+  onProgress?: (progress: UploadProgress) => void
 ): Promise<UploadResult[]> {
-  const uploadPromises = files.map(file => uploadFile(file, folder, userId));
+  const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+  const transferred = files.map(() => 0);
+
+  const uploadPromises = files.map((file, index) => uploadFile(file, folder, userId, {
+    onProgress: (progress) => {
+      transferred[index] = progress.bytesTransferred;
+      const bytesTransferred = transferred.reduce((sum, bytes) => sum + bytes, 0);
+      onProgress?.({
+        bytesTransferred,
+        totalBytes,
+        percent: totalBytes ? Math.round((bytesTransferred / totalBytes) * 100) : 0
+      });
+    }
+  }));
   return Promise.all(uploadPromises);
 }
@@ -0,0 +1,182 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { MILLISECONDS_PER_DAY } from '../constants';
+import {
+  OrderTemplate,
+  OrderTemplateItem,
+  OrderTemplateSchedule,
+  RecurrenceFrequency,
+  RecurrenceFrequencyType
+} from '../types';
+import type { SubOrderData } from '../components/SubOrderItem';
+
+const DEFAULT_DELIVERY_TIME_OF_DAY = '09:00';
+
+const FREQUENCY_MONTHS: Record<RecurrenceFrequencyType, number> = {
+  [RecurrenceFrequency.MONTHLY]: 1,
+  [RecurrenceFrequency.QUARTERLY]: 3
+};
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Add calendar months, keeping the day of month where possible
+ * @example addMonths(new Date(2026, 0, 31), 1) // 28 February 2026
+ */
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(date.getFullYear(), date.getMonth() + months, 1, date.getHours(), date.getMinutes());
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(date.getDate(), lastDay));
+  return result;
+}
+
+/**
+ * Date of the run after `from` for a recurrence frequency
+ */
+export function getNextRunDate(frequency: RecurrenceFrequencyType, from: Date): Date {
+  return addMonths(from, FREQUENCY_MONTHS[frequency]);
+}
+
+/**
+ * Delivery time of a template line for an order placed on `orderDate`,
+ * as the datetime-local string stored on sub-orders
+ */
+export function getTemplateDeliveryTime(item: OrderTemplateItem, orderDate: Date): string {
+  const delivery = startOfDay(orderDate);
+  delivery.setDate(delivery.getDate() + item.deliveryLeadDays);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${delivery.getFullYear()}-${pad(delivery.getMonth() + 1)}-${pad(delivery.getDate())}T${item.deliveryTimeOfDay}`;
+}
+
+/**
+ * Build a template from an order and its sub-orders.
+ * Delivery times are kept as lead times from the order date, so every order
+ * created from the template gets its deliveries shifted by the same amount.
+ */
+export function buildOrderTemplate(order: any, name: string, createdBy: string): Omit<OrderTemplate, 'id'> {
+  const orderDate = startOfDay(order.createdAt?.toDate() || new Date());
+  const timestamp = Timestamp.now();
+
+  const items: OrderTemplateItem[] = (order.subOrders || []).map((so: any) => {
+    const delivery = so.deliveryTime ? new Date(so.deliveryTime) : null;
+    const hasDelivery = delivery && !isNaN(delivery.getTime());
+
+    return {
+      productType: so.productType || '',
+      productTypeName: so.productTypeName || '',
+      productTypeCustom: so.productTypeCustom || false,
+      quantity: so.quantity || 0,
+      length: so.length ?? null,
+      width: so.width ?? null,
+      cmp: so.cmp ?? null,
+      unitPrice: so.unitPrice ?? null,
+      lineTotal: so.lineTotal ?? null,
+      setupFee: so.setupFee ?? null,
+      priceSource: so.priceSource ?? null,
+      description: so.description || '',
+      designFile: so.designFile || '',
+      designFilePath: so.designFilePath || '',
+      notes: so.notes || '',
+      departmentId: so.departmentId || null,
+      departmentName: so.departmentName || null,
+      deliveryLeadDays: hasDelivery
+        ? Math.max(0, Math.round((startOfDay(delivery).getTime() - orderDate.getTime()) / MILLISECONDS_PER_DAY))
+        : 0,
+      deliveryTimeOfDay: hasDelivery ? so.deliveryTime.substring(11, 16) : DEFAULT_DELIVERY_TIME_OF_DAY
+    };
+  });
+
+  return {
+    name,
+    orderName: order.orderName || '',
+    clientId: order.clientId || order.userId,
+    clientName: order.clientName || '',
+    clientEmail: order.clientEmail || '',
+    clientPhone: order.clientPhone || '',
+    clientCompany: order.clientCompany || '',
+    userId: order.userId,
+    items,
+    schedule: null,
+    sourceOrderId: order.id,
+    createdBy,
+    createdAt: timestamp,
+    updatedAt: timestamp
+  };
+}
+
+/**
+ * Save an order, with its sub-orders loaded, as a named template for its client
+ */
+export async function saveOrderTemplate(order: any, name: string, createdBy: string): Promise<string> {
+  const templateRef = await addDoc(collection(db, 'orderTemplates'), buildOrderTemplate(order, name, createdBy));
+  return templateRef.id;
+}
+
+/**
+ * Fetch the templates of a client, by name
+ */
+export async function fetchClientTemplates(clientId: string): Promise<OrderTemplate[]> {
+  const snapshot = await getDocs(query(collection(db, 'orderTemplates'), where('clientId', '==', clientId)));
+  return snapshot.docs
+    .map(templateDoc => ({ id: templateDoc.id, ...templateDoc.data() } as OrderTemplate))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Set or clear the recurring schedule of a template.
+ * The generateRecurringOrders Cloud Function creates an order on every run date.
+ */
+export async function updateTemplateSchedule(
+  templateId: string,
+  schedule: Pick<OrderTemplateSchedule, 'frequency' | 'active' | 'nextRunAt'> | null
+): Promise<void> {
+  await updateDoc(doc(db, 'orderTemplates', templateId), {
+    // Dotted paths keep lastRunAt and lastOrderId of an existing schedule
+    ...(schedule
+      ? {
+          'schedule.frequency': schedule.frequency,
+          'schedule.active': schedule.active,
+          'schedule.nextRunAt': schedule.nextRunAt
+        }
+      : { schedule: null }),
+    updatedAt: Timestamp.now()
+  });
+}
+
+export async function deleteOrderTemplate(templateId: string): Promise<void> {
+  await deleteDoc(doc(db, 'orderTemplates', templateId));
+}
+
+/**
+ * Sub-order form rows for a new order placed from a template today
+ */
+export function templateToSubOrders(template: OrderTemplate, orderDate: Date = new Date()): SubOrderData[] {
+  return template.items.map(item => ({
+    id: crypto.randomUUID(),
+    productType: item.productType
+      ? { id: item.productType, name: item.productTypeName || item.productType, isCustom: item.productTypeCustom }
+      : null,
+    quantity: String(item.quantity || ''),
+    length: item.length != null ? String(item.length) : '',
+    width: item.width != null ? String(item.width) : '',
+    cmp: item.cmp != null ? String(item.cmp) : '',
+    description: item.description,
+    designFile: item.designFile,
+    designFilePath: item.designFilePath,
+    deliveryTime: getTemplateDeliveryTime(item, orderDate),
+    notes: item.notes,
+    ...(item.departmentId ? { departmentId: item.departmentId, departmentName: item.departmentName || '' } : {})
+  }));
+}
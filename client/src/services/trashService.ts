@@ -0,0 +1,93 @@
+import { collection, doc, getDoc, getDocs, orderBy, query, setDoc, Timestamp } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../firebase';
+import { TrashItem, TrashItemTypeType } from '../types';
+
+/**
+ * Days trashed records are kept until the team saves its own retention period
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Move a record to the trash. Runs in the moveToTrash Cloud Function, which
+ * takes the sub-orders, updates, notifications and proofs of an order with it,
+ * so it cannot be left half done by the browser going away.
+ * @param type - Kind of record
+ * @param itemId - ID of the record in its collection
+ */
+export async function moveToTrash(type: TrashItemTypeType, itemId: string): Promise<void> {
+  const moveToTrashCallable = httpsCallable<{ type: TrashItemTypeType; itemId: string }, { success: boolean }>(
+    functions,
+    'moveToTrash'
+  );
+  await moveToTrashCallable({ type, itemId });
+}
+
+/**
+ * Fetch the trash, most recently deleted first
+ */
+export async function fetchTrashItems(): Promise<TrashItem[]> {
+  const snapshot = await getDocs(query(collection(db, 'trash'), orderBy('deletedAt', 'desc')));
+  return snapshot.docs.map(trashDoc => ({ id: trashDoc.id, ...trashDoc.data() } as TrashItem));
+}
+
+/**
+ * Put a trashed record back where it was
+ * @param trashId - ID of the trash item
+ */
+export async function restoreFromTrash(trashId: string): Promise<void> {
+  const restoreFromTrashCallable = httpsCallable<{ trashId: string }, { success: boolean }>(functions, 'restoreFromTrash');
+  await restoreFromTrashCallable({ trashId });
+}
+
+/**
+ * Delete a trashed record for good, with the files of a trashed order
+ * @param trashId - ID of the trash item
+ */
+export async function purgeFromTrash(trashId: string): Promise<void> {
+  const purgeFromTrashCallable = httpsCallable<{ trashId: string }, { success: boolean }>(functions, 'purgeFromTrash');
+  await purgeFromTrashCallable({ trashId });
+}
+
+/**
+ * Fetch how many days trashed records are kept before the purgeExpiredTrash
+ * Cloud Function deletes them
+ * @returns Stored retention period, or the default
+ */
+export async function getTrashRetentionDays(): Promise<number> {
+  try {
+    const settingsDoc = await getDoc(doc(db, 'settings', 'trash'));
+    const retentionDays = settingsDoc.exists() ? Number(settingsDoc.data().retentionDays) : 0;
+    if (retentionDays > 0) {
+      return retentionDays;
+    }
+  } catch (error) {
+    if (import.meta.env.DEV) {
+      console.error('Error fetching trash retention:', error);
+    }
+  }
+  return DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Save how many days trashed records are kept
+ * @param retentionDays - Whole number of days, at least one
+ */
+export async function saveTrashRetentionDays(retentionDays: number): Promise<void> {
+  await setDoc(doc(db, 'settings', 'trash'), {
+    retentionDays,
+    updatedAt: Timestamp.now()
+  });
+}
+
+/**
+ * Day a trash item is purged, counted from when it was deleted
+ * @param item - Trash item
+ * @param retentionDays - Current retention period
+ */
+export function getPurgeDate(item: TrashItem, retentionDays: number): Date | null {
+  if (!item.deletedAt) return null;
+  const purgeDate = item.deletedAt.toDate();
+  purgeDate.setDate(purgeDate.getDate() + retentionDays);
+  return purgeDate;
+}
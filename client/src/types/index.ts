@@ -86,6 +86,10 @@ export interface SupplierOrderItem {
   quantity: string;
   client: string; // Text input for client name
   description: string; // Text area for description
+  orderId?: string; // Client order this item is bought for
+  orderNumber?: string;
+  status?: 'cancelled'; // Set when the linked client order is cancelled
+  cancelledAt?: Timestamp;
 }
 
 export interface SupplierOrder {
@@ -93,6 +97,7 @@ export interface SupplierOrder {
   supplierId: string;
   supplierName: string;
   items: SupplierOrderItem[];
+  orderIds?: string[]; // Client orders linked from the items, for array-contains queries
   status: string;
   createdAt?: Timestamp;
   updatedAt?: Timestamp;
@@ -109,3 +114,368 @@ export interface Department {
   updatedAt?: Timestamp;
   createdBy?: string;
 }
+
+// Pricing related types
+export const PricingMode = {
+  UNIT: 'unit',
+  AREA: 'area'
+} as const;
+
+export type PricingModeType = typeof PricingMode[keyof typeof PricingMode];
+
+export const PriceSource = {
+  TABLE: 'table',
+  MANUAL: 'manual'
+} as const;
+
+export type PriceSourceType = typeof PriceSource[keyof typeof PriceSource];
+
+export interface QuantityTier {
+  minQuantity: number;
+  discountPercent: number;
+}
+
+export interface PriceTable {
+  id?: string; // Same as the product type id (built-in value or productTypes document id)
+  productTypeName?: string;
+  mode: PricingModeType;
+  basePrice: number; // RON per unit (minimum unit price in area mode)
+  areaRate?: number; // RON per cm² of print area (area mode only)
+  setupFee?: number; // One-off RON amount added to every line (screens, plates)
+  tiers: QuantityTier[];
+  updatedAt?: Timestamp;
+  updatedBy?: string;
+}
+
+export interface PriceQuote {
+  unitPrice: number;
+  lineTotal: number;
+  source: PriceSourceType;
+  printAreaCm2: number | null;
+  discountPercent: number;
+  setupFee: number;
+}
+
+// Invoice related types
+export const InvoiceType = {
+  INVOICE: 'invoice',
+  CREDIT_NOTE: 'credit_note',
+  PROFORMA: 'proforma' // Non-fiscal, issued before payment
+} as const;
+
+export type InvoiceTypeType = typeof InvoiceType[keyof typeof InvoiceType];
+
+export const InvoiceReversalStatus = {
+  PARTIAL: 'partial',
+  FULL: 'full'
+} as const;
+
+export type InvoiceReversalStatusType = typeof InvoiceReversalStatus[keyof typeof InvoiceReversalStatus];
+
+export interface InvoiceLineItem {
+  description: string;
+  details?: string;
+  quantity: number;
+  unitPrice: number | null;
+  netAmount: number;
+  vatRate: number; // Percent, e.g. 19
+  vatAmount: number;
+  totalAmount: number;
+}
+
+export interface InvoiceTotals {
+  netAmount: number;
+  vatAmount: number;
+  totalAmount: number;
+}
+
+// Fiscal identity of a party on an invoice (seller or buyer)
+export interface InvoiceParty {
+  name: string;
+  taxId?: string; // CUI / CIF, with "RO" prefix for VAT payers
+  registrationNumber?: string; // Trade register number, e.g. J08/123/2020
+  address?: string; // Street and number
+  city?: string;
+  county?: string; // ISO 3166-2:RO subdivision code without the "RO-" prefix, e.g. "BV"
+  countryCode?: string; // ISO 3166-1 alpha-2, defaults to "RO"
+  email?: string;
+  phone?: string;
+}
+
+// Our own company details, stored in settings/company
+export interface CompanySettings extends InvoiceParty {
+  iban?: string;
+  bankName?: string;
+  updatedAt?: Timestamp;
+}
+
+export interface InvoiceSeries {
+  id?: string; // Series code, also the counter document id
+  prefix: string; // e.g. "SB"
+  yearlyReset: boolean; // Restart numbering at 1 every January and include the year in the number
+  padding: number; // Digits of the sequential part, e.g. 6 -> 000123
+  year: number | null; // Year of the last allocated number, null before the first one
+  lastNumber: number;
+  lastInvoiceId?: string; // Document numbered with lastNumber
+  updatedAt?: Timestamp;
+}
+
+export const InvoiceDeliveryStatus = {
+  SENT: 'sent',
+  FAILED: 'failed'
+} as const;
+
+export type InvoiceDeliveryStatusType = typeof InvoiceDeliveryStatus[keyof typeof InvoiceDeliveryStatus];
+
+// Last email delivery attempt, written by the sendInvoiceEmail function
+export interface InvoiceDelivery {
+  status: InvoiceDeliveryStatusType;
+  recipient: string;
+  pdfPath: string; // invoices/{invoiceId}/{fileName}.pdf in Storage
+  messageId?: string;
+  error?: string;
+  attemptedAt: Timestamp;
+  sentBy: string;
+}
+
+// Immutable once written - corrections are made with credit notes
+export interface Invoice {
+  id?: string;
+  type: InvoiceTypeType;
+  series: string;
+  number: number;
+  invoiceNumber: string; // Formatted, e.g. SB-2026-000123
+  orderId: string;
+  orderNumber: string;
+  userId: string; // Order owner, used by security rules
+  clientId?: string;
+  clientName: string;
+  clientEmail: string;
+  clientPhone?: string;
+  clientCompany?: string;
+  seller?: CompanySettings; // Snapshot at issue time
+  buyer?: InvoiceParty; // Snapshot at issue time
+  items: InvoiceLineItem[];
+  totals: InvoiceTotals;
+  currency: string;
+  issuedAt: Timestamp;
+  issuedBy: string;
+  issuedByName?: string;
+  delivery?: InvoiceDelivery;
+  // Credit notes only: the invoice being reversed
+  originalInvoiceId?: string;
+  originalInvoiceNumber?: string;
+  reason?: string;
+  // Invoices only: set once credit notes reverse some or all of the lines
+  reversalStatus?: InvoiceReversalStatusType;
+  creditedQuantities?: number[]; // Quantity credited so far, aligned with items
+  creditNoteIds?: string[];
+  creditNoteNumbers?: string[];
+  // Invoices converted from a proforma
+  proformaId?: string;
+  proformaNumber?: string;
+  // Invoices only, also denormalized on the order for payment tracking
+  paymentDueDate?: Timestamp;
+  // Proformas only
+  validUntil?: Timestamp;
+  convertedInvoiceId?: string;
+  convertedInvoiceNumber?: string;
+}
+
+export const PaymentMethod = {
+  CASH: 'cash',
+  CARD: 'card',
+  BANK_TRANSFER: 'bank_transfer'
+} as const;
+
+export type PaymentMethodType = typeof PaymentMethod[keyof typeof PaymentMethod];
+
+export interface Payment {
+  id?: string;
+  orderId: string;
+  invoiceId?: string; // Missing for advances paid before the order was invoiced
+  invoiceNumber?: string;
+  userId: string; // Order owner, used by security rules
+  clientId?: string;
+  amount: number;
+  method: PaymentMethodType;
+  isAdvance: boolean;
+  reference?: string; // Receipt or bank transfer reference
+  paidAt: Timestamp;
+  recordedBy: string;
+  recordedByName?: string;
+  createdAt: Timestamp;
+  // Mistaken payments are reversed by an entry with the opposite amount
+  reversesPaymentId?: string; // Reversal entries only
+  reason?: string; // Reversal entries only
+  reversedByPaymentId?: string; // Set on the reversed payment
+}
+
+export interface PaymentSummary {
+  total: number;
+  paid: number;
+  due: number;
+  overdue: number; // Part of `due` past the payment due date
+}
+
+// Stored on completed orders as `paymentStatus` by the updateOrderListFields Cloud Function
+export const OrderPaymentStatus = {
+  PAID: 'paid',
+  UNPAID: 'unpaid',
+  OVERDUE: 'overdue'
+} as const;
+
+export type OrderPaymentStatusType = typeof OrderPaymentStatus[keyof typeof OrderPaymentStatus];
+
+// Order templates and recurring orders
+export const RecurrenceFrequency = {
+  MONTHLY: 'monthly',
+  QUARTERLY: 'quarterly'
+} as const;
+
+export type RecurrenceFrequencyType = typeof RecurrenceFrequency[keyof typeof RecurrenceFrequency];
+
+export interface OrderTemplateItem {
+  productType: string;
+  productTypeName: string;
+  productTypeCustom: boolean;
+  quantity: number;
+  length: number | null;
+  width: number | null;
+  cmp: number | null;
+  unitPrice: number | null;
+  lineTotal: number | null;
+  setupFee: number | null;
+  priceSource: PriceSourceType | null;
+  description: string;
+  designFile: string;
+  designFilePath: string;
+  notes: string;
+  departmentId: string | null;
+  departmentName: string | null;
+  deliveryLeadDays: number; // Days between placing the order and delivering this line
+  deliveryTimeOfDay: string; // HH:mm
+}
+
+export interface OrderTemplateSchedule {
+  frequency: RecurrenceFrequencyType;
+  active: boolean;
+  nextRunAt: Timestamp;
+  lastRunAt?: Timestamp;
+  lastOrderId?: string;
+}
+
+export interface OrderTemplate {
+  id?: string;
+  name: string;
+  orderName: string;
+  clientId: string;
+  clientName: string;
+  clientEmail: string;
+  clientPhone: string;
+  clientCompany: string;
+  userId: string; // Client's auth UID, owner of the generated orders
+  items: OrderTemplateItem[];
+  schedule: OrderTemplateSchedule | null;
+  sourceOrderId: string;
+  createdBy: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// Order cancellation
+export interface OrderCancellation {
+  reason: string; // One of the reasons configured in settings/cancellationReasons
+  comment: string;
+  cancelledBy: string;
+  cancelledByName: string;
+  cancelledAt: Timestamp;
+}
+
+// Design proofs
+export const ProofStatus = {
+  PENDING: 'pending',
+  APPROVED: 'approved',
+  CHANGES_REQUESTED: 'changes_requested'
+} as const;
+
+export type ProofStatusType = typeof ProofStatus[keyof typeof ProofStatus];
+
+export interface Proof {
+  id?: string;
+  orderId: string;
+  subOrderId: string;
+  userId: string; // Order owner, used by security rules
+  version: number; // 1, 2, ... per sub-order
+  fileName: string;
+  fileURL: string;
+  filePath: string;
+  fileType: string;
+  note: string;
+  status: ProofStatusType;
+  uploadedBy: string;
+  uploadedByName: string;
+  createdAt: Timestamp; // Server time
+  // Set once, when the client decides
+  decidedBy?: string;
+  decidedByName?: string;
+  decisionComment?: string;
+  decidedAt?: Timestamp; // Server time
+}
+
+// Print-readiness preflight of uploaded design files
+export const PreflightStatus = {
+  PASS: 'pass',
+  WARN: 'warn',
+  FAIL: 'fail'
+} as const;
+
+export type PreflightStatusType = typeof PreflightStatus[keyof typeof PreflightStatus];
+
+// Facts read from the file itself; the report is rebuilt from them when the print size changes
+export interface DesignFileInfo {
+  fileName: string;
+  kind: 'raster' | 'vector' | 'pdf' | 'unsupported' | 'unreadable';
+  widthPx?: number;
+  heightPx?: number;
+  hasTransparency?: boolean;
+  colorMode: 'rgb' | 'cmyk' | 'grayscale' | 'indexed' | 'unknown';
+  pageCount?: number;
+  pageWidthMm?: number;
+  pageHeightMm?: number;
+}
+
+export interface PreflightItem {
+  check: 'file' | 'pixels' | 'resolution' | 'transparency' | 'colorMode' | 'pages' | 'pageSize';
+  status: PreflightStatusType;
+  message: string; // Key under preflight.messages
+  params?: Record<string, string | number>;
+}
+
+export interface PreflightReport {
+  status: PreflightStatusType; // Worst item status
+  fileName: string;
+  items: PreflightItem[];
+}
+
+// Trash - records deleted by the moveToTrash Cloud Function
+export const TrashItemType = {
+  ORDER: 'order',
+  CLIENT: 'client',
+  SUPPLIER: 'supplier',
+  SUPPLIER_ORDER: 'supplierOrder',
+  DEPARTMENT: 'department'
+} as const;
+
+export type TrashItemTypeType = typeof TrashItemType[keyof typeof TrashItemType];
+
+export interface TrashItem {
+  id: string; // {type}_{itemId}
+  type: TrashItemTypeType;
+  itemId: string;
+  name: string; // Order number, client, supplier or department name
+  documentCount: number; // The record and, for orders, its sub-orders, updates, notifications and proofs
+  deletedBy: string;
+  deletedByName: string;
+  deletedAt: Timestamp; // Server time
+}
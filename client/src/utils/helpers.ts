@@ -28,6 +28,20 @@ export function formatFileSize(bytes: number): string {
   return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
 }
 
+/**
+ * Rounds a monetary amount to two decimals (bani)
+ */
+export function roundCurrency(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Formats a monetary amount with two decimals and currency suffix (e.g., "1250.00 RON")
+ */
+export function formatCurrency(amount: number, currency: string = 'RON'): string {
+  return `${roundCurrency(amount).toFixed(2)} ${currency}`;
+}
+
 /**
  * Formats a date to display format (DD.MM.YYYY)
  */
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import firestoreRules from '../../../firestore.rules?raw';
+import { canChangeOrderStatus, canChangeSubOrderStatus, getAllowedStatusTransitions } from './orderStatus';
+import { OrderStatus } from '../types';
+
+/**
+ * Read a transition table from a function of firestore.rules, e.g. teamStatusTransitions
+ */
+function parseRulesTransitions(functionName: string): Record<string, string[]> {
+  const body = firestoreRules.match(new RegExp(`function ${functionName}\\(\\) \\{\\s*return \\{([\\s\\S]*?)\\};`));
+  if (!body) {
+    throw new Error(`${functionName} not found in firestore.rules`);
+  }
+
+  const table: Record<string, string[]> = {};
+  for (const [, from, targets] of body[1].matchAll(/'(\w+)': \[([^\]]*)\]/g)) {
+    table[from] = targets.split(',').map(target => target.trim().replace(/'/g, '')).filter(Boolean);
+  }
+  return table;
+}
+
+/**
+ * The transition table of orderStatus.ts, without the final statuses
+ */
+function getTransitionTable(isTeam: boolean): Record<string, string[]> {
+  const table: Record<string, string[]> = {};
+  Object.values(OrderStatus).forEach(from => {
+    const targets = getAllowedStatusTransitions(from, isTeam);
+    if (targets.length > 0) {
+      table[from] = [...targets];
+    }
+  });
+  return table;
+}
+
+describe('canChangeOrderStatus', () => {
+  it('lets the team move orders through production', () => {
+    expect(canChangeOrderStatus(OrderStatus.PENDING_CONFIRMATION, OrderStatus.PENDING, true)).toBe(true);
+    expect(canChangeOrderStatus(OrderStatus.PENDING, OrderStatus.IN_PROGRESS, true)).toBe(true);
+    expect(canChangeOrderStatus(OrderStatus.IN_PROGRESS, OrderStatus.COMPLETED, true)).toBe(true);
+    expect(canChangeOrderStatus(OrderStatus.IN_PROGRESS, OrderStatus.PENDING, true)).toBe(true);
+  });
+
+  it('does not skip production', () => {
+    expect(canChangeOrderStatus(OrderStatus.PENDING, OrderStatus.COMPLETED, true)).toBe(false);
+    expect(canChangeOrderStatus(OrderStatus.PENDING_CONFIRMATION, OrderStatus.IN_PROGRESS, true)).toBe(false);
+  });
+
+  it('keeps completed and cancelled orders final', () => {
+    Object.values(OrderStatus).forEach(to => {
+      expect(canChangeOrderStatus(OrderStatus.COMPLETED, to, true)).toBe(false);
+      expect(canChangeOrderStatus(OrderStatus.CANCELLED, to, true)).toBe(false);
+    });
+  });
+
+  it('only lets clients confirm their order', () => {
+    expect(canChangeOrderStatus(OrderStatus.PENDING_CONFIRMATION, OrderStatus.PENDING, false)).toBe(true);
+    expect(canChangeOrderStatus(OrderStatus.PENDING_CONFIRMATION, OrderStatus.CANCELLED, false)).toBe(false);
+    expect(canChangeOrderStatus(OrderStatus.PENDING, OrderStatus.IN_PROGRESS, false)).toBe(false);
+  });
+
+  it('allows nothing from an unknown status', () => {
+    expect(getAllowedStatusTransitions('shipped', true)).toEqual([]);
+  });
+});
+
+describe('canChangeSubOrderStatus', () => {
+  it('waits for the client to confirm the order', () => {
+    expect(canChangeSubOrderStatus(OrderStatus.PENDING_CONFIRMATION, OrderStatus.PENDING, OrderStatus.IN_PROGRESS, true)).toBe(false);
+    expect(canChangeSubOrderStatus(OrderStatus.PENDING_CONFIRMATION, OrderStatus.PENDING, OrderStatus.CANCELLED, true)).toBe(false);
+  });
+
+  it('follows the transition table once the order is confirmed', () => {
+    expect(canChangeSubOrderStatus(OrderStatus.PENDING, OrderStatus.PENDING, OrderStatus.IN_PROGRESS, true)).toBe(true);
+    expect(canChangeSubOrderStatus(OrderStatus.IN_PROGRESS, OrderStatus.PENDING, OrderStatus.COMPLETED, true)).toBe(false);
+  });
+});
+
+describe('firestore.rules', () => {
+  it('mirrors the team transitions', () => {
+    expect(parseRulesTransitions('teamStatusTransitions')).toEqual(getTransitionTable(true));
+  });
+
+  it('mirrors the client transitions', () => {
+    expect(parseRulesTransitions('clientStatusTransitions')).toEqual(getTransitionTable(false));
+  });
+
+  it('keeps sub-orders of orders awaiting confirmation unchanged', () => {
+    expect(firestoreRules).toMatch(/function isOrderConfirmed\(\) \{[^}]*\.status != 'pending_confirmation'/);
+  });
+});
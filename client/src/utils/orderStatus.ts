@@ -0,0 +1,55 @@
+/**
+ * Order status state machine
+ *
+ * Single source of truth for which status changes are allowed on orders and
+ * sub-orders. firestore.rules mirrors this table (teamStatusTransitions /
+ * clientStatusTransitions), so keep both in sync when changing it.
+ */
+
+import { OrderStatus, OrderStatusType } from '../types';
+
+type StatusTransitions = Partial<Record<OrderStatusType, OrderStatusType[]>>;
+
+/**
+ * Team members move orders through production; completed and cancelled orders are final
+ */
+const TEAM_STATUS_TRANSITIONS: StatusTransitions = {
+  [OrderStatus.PENDING_CONFIRMATION]: [OrderStatus.PENDING, OrderStatus.CANCELLED],
+  [OrderStatus.PENDING]: [OrderStatus.IN_PROGRESS, OrderStatus.CANCELLED],
+  [OrderStatus.IN_PROGRESS]: [OrderStatus.PENDING, OrderStatus.COMPLETED, OrderStatus.CANCELLED],
+  [OrderStatus.COMPLETED]: [],
+  [OrderStatus.CANCELLED]: []
+};
+
+/**
+ * Clients can only confirm the orders they placed
+ */
+const CLIENT_STATUS_TRANSITIONS: StatusTransitions = {
+  [OrderStatus.PENDING_CONFIRMATION]: [OrderStatus.PENDING]
+};
+
+/**
+ * Statuses an order (or sub-order) can move to from its current status
+ * @param from - Current status
+ * @param isTeam - Whether the user has team access
+ */
+export function getAllowedStatusTransitions(from: string, isTeam: boolean): OrderStatusType[] {
+  const transitions = isTeam ? TEAM_STATUS_TRANSITIONS : CLIENT_STATUS_TRANSITIONS;
+  return transitions[from as OrderStatusType] || [];
+}
+
+/**
+ * Check a status change against the transition table
+ */
+export function canChangeOrderStatus(from: string, to: string, isTeam: boolean): boolean {
+  return getAllowedStatusTransitions(from, isTeam).includes(to as OrderStatusType);
+}
+
+/**
+ * Check a sub-order status change; sub-orders wait for the client to confirm the
+ * order. firestore.rules mirrors this in isOrderConfirmed.
+ * @param orderStatus - Status of the parent order
+ */
+export function canChangeSubOrderStatus(orderStatus: string, from: string, to: string, isTeam: boolean): boolean {
+  return orderStatus !== OrderStatus.PENDING_CONFIRMATION && canChangeOrderStatus(from, to, isTeam);
+}
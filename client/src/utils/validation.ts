@@ -2,7 +2,7 @@
  * Validation utilities for form inputs and data
  */
 
-import { EMAIL_REGEX, PHONE_REGEX, MAX_FILE_SIZE_BYTES } from '../constants';
+import { EMAIL_REGEX, PHONE_REGEX, MAX_FILE_SIZE_BYTES, ALLOWED_UPLOAD_TYPES } from '../constants';
 
 /**
  * Validates email format
@@ -38,6 +38,15 @@ export function isValidFileType(file: File, allowedTypes: string[]): boolean {
   return allowedTypes.includes(file.type);
 }
 
+/**
+ * Content type of an accepted design file, by extension, or null when the
+ * format is not accepted. Browsers leave the type empty for AI, EPS and PSD.
+ */
+export function getAllowedUploadType(file: File): string | null {
+  const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : '';
+  return Object.keys(ALLOWED_UPLOAD_TYPES).includes(extension) ? ALLOWED_UPLOAD_TYPES[extension] : null;
+}
+
 /**
  * Sanitizes string input by trimming and removing dangerous characters
  */
@@ -86,6 +95,14 @@ export function isPositiveNumber(value: number | string): boolean {
   return !isNaN(num) && num > 0;
 }
 
+/**
+ * Validates if value is a whole number greater than zero
+ */
+export function isPositiveInteger(value: number | string): boolean {
+  const num = typeof value === 'string' ? Number(value.trim()) : value;
+  return Number.isInteger(num) && num > 0;
+}
+
 /**
  * Comprehensive validation for email with error message
  */
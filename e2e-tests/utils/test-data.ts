@@ -1,5 +1,5 @@
 import { getAuth, signInWithEmailAndPassword, createUserWithEmailAndPassword } from 'firebase/auth';
-import { getFirestore, collection, doc, setDoc, Timestamp } from 'firebase/firestore';
+import { getFirestore, collection, doc, setDoc, writeBatch, Timestamp } from 'firebase/firestore';
 import { initializeApp } from 'firebase/app';
 import { connectAuthEmulator } from 'firebase/auth';
 import { connectFirestoreEmulator } from 'firebase/firestore';
@@ -136,9 +136,11 @@ export async function seedTestData() {
   // Sign in as client to create their order
   await signInWithEmailAndPassword(auth, client.email, client.password);
 
-  // Create a test order (authenticated as client)
+  // Create a test order with its sub-order (authenticated as client); clients
+  // can only add sub-orders in the batch that places the order
   const orderId = 'test-order-1';
-  await setDoc(doc(db, 'orders', orderId), {
+  const batch = writeBatch(db);
+  batch.set(doc(db, 'orders', orderId), {
     orderName: 'Test Order',
     clientId: client.uid,
     clientName: client.displayName,
@@ -153,8 +155,7 @@ export async function seedTestData() {
     updatedAt: now
   });
 
-  // Create sub-order (still authenticated as client)
-  await setDoc(doc(db, 'orders', orderId, 'subOrders', 'sub-1'), {
+  batch.set(doc(db, 'orders', orderId, 'subOrders', 'sub-1'), {
     userId: client.uid,
     productType: 'mugs',
     productTypeName: 'Mugs',
@@ -172,6 +173,7 @@ export async function seedTestData() {
     createdAt: now,
     updatedAt: now
   });
+  await batch.commit();
 
   // Sign out after seeding
   await auth.signOut();
@@ -0,0 +1,110 @@
+/**
+ * Cascading deletion of orders
+ *
+ * An order owns its sub-orders, order updates, notifications and design
+ * proofs. getOrderDocuments finds them so moveToTrash can take them along in
+ * batched writes. When the order is purged, deleteOrderFiles removes its
+ * design files, mockups, attachments, proofs and their thumbnails from
+ * Storage, with the `filePreviews` records of those files. Files another
+ * order, trashed order or order template still uses are kept, and so are the
+ * order's invoices.
+ */
+
+import {admin, db} from "./admin";
+import {
+  BATCH_SIZE,
+  chunk,
+  deleteFiles,
+  getFilePaths,
+  getTemplateFilePaths,
+} from "./orderFiles";
+
+// Limit of values in an `in` query
+const IN_QUERY_SIZE = 30;
+
+/**
+ * Documents that belong to an order and go to the trash with it
+ * @param {FirebaseFirestore.DocumentReference} orderRef Order
+ * @return {Promise<FirebaseFirestore.QueryDocumentSnapshot[]>} Documents
+ */
+export async function getOrderDocuments(
+  orderRef: FirebaseFirestore.DocumentReference
+): Promise<FirebaseFirestore.QueryDocumentSnapshot[]> {
+  const snapshots = await Promise.all([
+    orderRef.collection("subOrders").get(),
+    orderRef.collection("orderUpdates").get(),
+    db.collection("orderUpdates").where("orderId", "==", orderRef.id).get(),
+    db.collection("notifications").where("orderId", "==", orderRef.id).get(),
+    db.collection("proofs").where("orderId", "==", orderRef.id).get(),
+  ]);
+  return snapshots.flatMap((snapshot) => snapshot.docs);
+}
+
+/**
+ * Delete the files of a purged order, their previews and its proof folder
+ * @param {string} orderId Purged order
+ * @param {FirebaseFirestore.DocumentData[]} documents Data of the order's
+ *   sub-orders, updates and proofs
+ * @param {string} trashId Trash item the order was purged from
+ * @return {Promise<{deletedFiles: number, failedFiles: string[]}>} Outcome;
+ *   files that failed are reported later by findOrphanedFiles
+ */
+export async function deleteOrderFiles(
+  orderId: string,
+  documents: FirebaseFirestore.DocumentData[],
+  trashId: string
+): Promise<{deletedFiles: number; failedFiles: string[]}> {
+  const sourcePaths = Array.from(new Set(
+    documents.flatMap((data) => getFilePaths(data, false))));
+
+  // Keep designs that other orders or templates were created with
+  const templatePaths = await getTemplateFilePaths();
+  const sharedPaths = new Set<string>();
+  await Promise.all(sourcePaths.map(async (path) => {
+    if (templatePaths.has(path)) {
+      sharedPaths.add(path);
+      return;
+    }
+    const [subOrdersSnapshot, trashedSnapshot] = await Promise.all([
+      db.collectionGroup("subOrders")
+        .where("designFilePath", "==", path)
+        .get(),
+      db.collectionGroup("trashedDocuments")
+        .where("data.designFilePath", "==", path)
+        .get(),
+    ]);
+    if (subOrdersSnapshot.docs.some((subOrder) =>
+      subOrder.ref.parent.parent?.id !== orderId) ||
+      trashedSnapshot.docs.some((trashed) =>
+        trashed.ref.parent.parent?.id !== trashId)) {
+      sharedPaths.add(path);
+    }
+  }));
+  const ownPaths = sourcePaths.filter((path) => !sharedPaths.has(path));
+
+  // Previews of the files deleted, found by their source
+  const previewsSnapshots = await Promise.all(
+    chunk(ownPaths, IN_QUERY_SIZE).map((paths) =>
+      db.collection("filePreviews").where("sourcePath", "in", paths).get())
+  );
+  const previewDocs = previewsSnapshots.flatMap((snapshot) => snapshot.docs);
+  const filePaths = new Set(ownPaths);
+  previewDocs.forEach((previewDoc) => {
+    const {thumbnailPath, previewPath} = previewDoc.data();
+    [thumbnailPath, previewPath].forEach((path) => path && filePaths.add(path));
+  });
+
+  // Proof files are only used by this order
+  const [proofFiles] = await admin.storage().bucket()
+    .getFiles({prefix: `proofs/${orderId}/`});
+  proofFiles.forEach((file) => filePaths.add(file.name));
+
+  const failedFiles = await deleteFiles(Array.from(filePaths));
+  for (const batchDocs of chunk(previewDocs, BATCH_SIZE)) {
+    const batch = db.batch();
+    batchDocs.forEach((previewDoc) => batch.delete(previewDoc.ref));
+    await batch.commit();
+  }
+
+  return {deletedFiles: filePaths.size - failedFiles.length, failedFiles};
+}
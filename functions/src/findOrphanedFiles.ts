@@ -0,0 +1,132 @@
+/**
+ * One-off sweep of Storage files no document refers to
+ *
+ * findOrphanedFiles lists the files under designs/, updates/ and proofs/ that
+ * no sub-order, order update, proof or order template uses, including the
+ * ones in the trash, mostly left behind by orders deleted from the browser
+ * before deletion moved to Cloud Functions. With `deleteFiles` it removes them.
+ */
+
+import * as functions from "firebase-functions";
+import {admin, db} from "./admin";
+import {
+  BATCH_SIZE,
+  chunk,
+  deleteFiles,
+  getFilePaths,
+  getTemplateFilePaths,
+} from "./orderFiles";
+
+interface FindOrphanedFilesData {
+  deleteFiles?: boolean;
+}
+
+const ADMIN_ROLES = ["owner", "admin"];
+const SWEPT_FOLDERS = ["designs", "updates", "proofs"];
+// Designs are uploaded before the order is placed; give them time to be used
+const ORPHAN_MIN_AGE_HOURS = 24;
+
+export const findOrphanedFiles = functions
+  .runWith({timeoutSeconds: 540, memory: "1GB"})
+  .https.onCall(
+  async (
+    data: FindOrphanedFilesData,
+    context: functions.https.CallableContext
+  ) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "User must be authenticated to look for orphaned files."
+      );
+    }
+
+    const callerDoc = await db.collection("users").doc(context.auth.uid).get();
+    if (!ADMIN_ROLES.includes(callerDoc.data()?.role)) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "Only owners and admins can look for orphaned files."
+      );
+    }
+
+    const [
+      subOrdersSnapshot,
+      updatesSnapshot,
+      proofsSnapshot,
+      trashedSnapshot,
+      previewsSnapshot,
+      templatePaths,
+    ] = await Promise.all([
+      db.collectionGroup("subOrders").get(),
+      db.collectionGroup("orderUpdates").get(),
+      db.collection("proofs").get(),
+      db.collectionGroup("trashedDocuments").get(),
+      db.collection("filePreviews").get(),
+      getTemplateFilePaths(),
+    ]);
+
+    const referenced = new Set(templatePaths);
+    [
+      ...subOrdersSnapshot.docs,
+      ...updatesSnapshot.docs,
+      ...proofsSnapshot.docs,
+    ].forEach((fileDoc) => getFilePaths(fileDoc.data()).forEach((path) =>
+      referenced.add(path)));
+    // Trashed orders keep their files until they are purged
+    trashedSnapshot.docs.forEach((trashedDoc) =>
+      getFilePaths(trashedDoc.data().data || {}).forEach((path) =>
+        referenced.add(path)));
+    // Thumbnails stay as long as the file they were made from is used
+    previewsSnapshot.docs.forEach((previewDoc) => {
+      const {sourcePath, thumbnailPath, previewPath} = previewDoc.data();
+      if (referenced.has(sourcePath)) {
+        referenced.add(thumbnailPath);
+        referenced.add(previewPath);
+      }
+    });
+
+    const bucket = admin.storage().bucket();
+    const cutoff = Date.now() - ORPHAN_MIN_AGE_HOURS * 60 * 60 * 1000;
+    const orphans: Array<{path: string; size: number; updated: string}> = [];
+    for (const folder of SWEPT_FOLDERS) {
+      const [files] = await bucket.getFiles({prefix: `${folder}/`});
+      files.forEach((file) => {
+        const updated = file.metadata.updated || "";
+        if (!referenced.has(file.name) &&
+          new Date(updated).getTime() < cutoff) {
+          orphans.push({
+            path: file.name,
+            size: Number(file.metadata.size) || 0,
+            updated,
+          });
+        }
+      });
+    }
+
+    const totalBytes = orphans.reduce((sum, orphan) => sum + orphan.size, 0);
+    let failedFiles: string[] = [];
+    if (data?.deleteFiles) {
+      failedFiles = await deleteFiles(orphans.map((orphan) => orphan.path));
+      const orphanPaths = new Set(orphans.map((orphan) => orphan.path));
+      const orphanedPreviews = previewsSnapshot.docs.filter((previewDoc) =>
+        orphanPaths.has(previewDoc.data().sourcePath));
+      for (const previewDocs of chunk(orphanedPreviews, BATCH_SIZE)) {
+        const batch = db.batch();
+        previewDocs.forEach((previewDoc) => batch.delete(previewDoc.ref));
+        await batch.commit();
+      }
+    }
+
+    functions.logger.info(
+      `Found ${orphans.length} orphaned files (${totalBytes} bytes)`,
+      {deleted: !!data?.deleteFiles, failedFiles}
+    );
+
+    return {
+      success: true,
+      orphanCount: orphans.length,
+      totalBytes,
+      orphans,
+      deleted: !!data?.deleteFiles,
+      failedFiles,
+    };
+  });
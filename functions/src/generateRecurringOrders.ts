@@ -0,0 +1,357 @@
+/**
+ * Scheduled Cloud Function creating the orders of recurring order templates
+ *
+ * Every morning, each template in orderTemplates with an active schedule whose
+ * nextRunAt has passed gets a new order awaiting client confirmation. Template
+ * lines store their delivery as a lead time from the order date, so the new
+ * sub-orders are delivered as long after the run as the original ones were
+ * after the source order. Lines are priced again with the current price
+ * tables, as prices may have changed since the template was saved. The client
+ * and every team member are notified in the app, and the client is also
+ * emailed.
+ *
+ * Uses the shared Nodemailer setup from ./mailer, so locally it can be pointed
+ * at an SMTP sink by setting SMTP_HOST in functions/.env.
+ */
+
+import * as functions from "firebase-functions";
+import {admin, db} from "./admin";
+import {createMailer, emailPass, emailUser, escapeHtml} from "./mailer";
+import {formatOrderNumber} from "./orderNumbers";
+import {DEFAULT_PRICE_TABLES, PriceTable, priceSubOrder} from "./pricing";
+
+const TEAM_ROLES = ["owner", "admin", "member"];
+const TIME_ZONE = "Europe/Bucharest";
+const FREQUENCY_MONTHS: Record<string, number> = {
+  monthly: 1,
+  quarterly: 3,
+};
+
+interface CreatedOrder {
+  orderId: string;
+  orderNumber: string;
+  template: FirebaseFirestore.DocumentData;
+}
+
+/**
+ * Add calendar months, keeping the day of month where possible
+ * @param {Date} date Start date
+ * @param {number} months Months to add
+ * @return {Date} The shifted date
+ */
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date.getTime());
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(
+    result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return result;
+}
+
+/**
+ * Calendar date of an instant in the company's time zone
+ * @param {Date} date The instant
+ * @return {Date} Midnight UTC of that calendar date
+ */
+function getLocalDate(date: Date): Date {
+  const [year, month, day] = new Intl.DateTimeFormat("en-CA", {
+    timeZone: TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date).split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Delivery time of a template line for an order placed on `orderDate`
+ * @param {FirebaseFirestore.DocumentData} item Template line
+ * @param {Date} orderDate Calendar date of the order, as from getLocalDate
+ * @return {string} The datetime-local string stored on sub-orders
+ */
+function getDeliveryTime(
+  item: FirebaseFirestore.DocumentData,
+  orderDate: Date
+): string {
+  const delivery = new Date(orderDate.getTime());
+  delivery.setUTCDate(delivery.getUTCDate() + (item.deliveryLeadDays || 0));
+  return `${delivery.toISOString().split("T")[0]}T` +
+    `${item.deliveryTimeOfDay || "09:00"}`;
+}
+
+/**
+ * Fetch all price tables, with the priceTables documents over the defaults
+ * @return {Promise<Record<string, PriceTable>>} Tables by product type id
+ */
+async function fetchPriceTables(): Promise<Record<string, PriceTable>> {
+  const tables = {...DEFAULT_PRICE_TABLES};
+  const snapshot = await db.collection("priceTables").get();
+  snapshot.docs.forEach((tableDoc) => {
+    tables[tableDoc.id] = tableDoc.data() as PriceTable;
+  });
+  return tables;
+}
+
+/**
+ * Create the order of one due template and advance its schedule
+ * @param {FirebaseFirestore.DocumentReference} templateRef Template document
+ * @param {Date} now Time of this run
+ * @param {Record<string, PriceTable>} priceTables Current price tables
+ * @return {Promise<CreatedOrder | null>} The created order, or null when the
+ * template was no longer due
+ */
+async function runTemplate(
+  templateRef: FirebaseFirestore.DocumentReference,
+  now: Date,
+  priceTables: Record<string, PriceTable>
+): Promise<CreatedOrder | null> {
+  const year = getLocalDate(now).getUTCFullYear();
+  const counterRef = db.collection("orderCounters").doc(String(year));
+
+  return db.runTransaction(async (transaction) => {
+    const templateDoc = await transaction.get(templateRef);
+    const template = templateDoc.data();
+    const schedule = template?.schedule;
+    if (!template || !schedule?.active ||
+      schedule.nextRunAt.toDate() > now ||
+      !FREQUENCY_MONTHS[schedule.frequency] ||
+      !(template.items || []).length) {
+      return null;
+    }
+
+    // Same yearly sequence as orders placed from the app
+    const counterDoc = await transaction.get(counterRef);
+    const number = (counterDoc.data()?.lastNumber || 0) + 1;
+    const orderNumber = formatOrderNumber(number, year);
+
+    const timestamp = admin.firestore.Timestamp.fromDate(now);
+    const orderDate = getLocalDate(now);
+    const orderRef = db.collection("orders").doc();
+    const items: FirebaseFirestore.DocumentData[] = template.items;
+
+    transaction.set(counterRef, {
+      year,
+      lastNumber: number,
+      updatedAt: timestamp,
+    });
+
+    transaction.set(orderRef, {
+      orderNumber,
+      productTypes: Array.from(new Set(
+        items.map((item) => item.productType).filter(Boolean))),
+      ...(template.orderName ? {orderName: template.orderName} : {}),
+      clientId: template.clientId,
+      clientName: template.clientName || "",
+      clientEmail: template.clientEmail || "",
+      clientPhone: template.clientPhone || "",
+      clientCompany: template.clientCompany || "",
+      userId: template.userId,
+      userName: "Sistem",
+      userEmail: null,
+      status: "pending_confirmation",
+      templateId: templateRef.id,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    });
+
+    items.forEach((item) => {
+      transaction.set(orderRef.collection("subOrders").doc(), {
+        userId: template.userId,
+        productType: item.productType || "",
+        productTypeName: item.productTypeName || "",
+        productTypeCustom: item.productTypeCustom || false,
+        quantity: item.quantity,
+        length: item.length ?? null,
+        width: item.width ?? null,
+        cmp: item.cmp ?? null,
+        ...priceSubOrder(priceTables[item.productType], item),
+        description: item.description || "",
+        designFile: item.designFile || "",
+        designFilePath: item.designFilePath || "",
+        deliveryTime: getDeliveryTime(item, orderDate),
+        notes: item.notes || "",
+        departmentId: item.departmentId || null,
+        departmentName: item.departmentName || null,
+        status: "pending",
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      });
+    });
+
+    transaction.set(db.collection("orderUpdates").doc(), {
+      orderId: orderRef.id,
+      userId: "system",
+      userName: "Sistem",
+      text: "Comandă recurentă creată din șablonul " +
+        `„${template.name}”. Așteaptă confirmarea clientului.`,
+      isSystem: true,
+      createdAt: timestamp,
+    });
+
+    // Skip runs missed while the function was not running
+    let nextRunAt = schedule.nextRunAt.toDate();
+    do {
+      nextRunAt = addMonths(nextRunAt, FREQUENCY_MONTHS[schedule.frequency]);
+    } while (nextRunAt <= now);
+
+    transaction.update(templateRef, {
+      "schedule.nextRunAt": admin.firestore.Timestamp.fromDate(nextRunAt),
+      "schedule.lastRunAt": timestamp,
+      "schedule.lastOrderId": orderRef.id,
+      "updatedAt": timestamp,
+    });
+
+    return {orderId: orderRef.id, orderNumber, template};
+  });
+}
+
+/**
+ * Notify the client and the team of a created order, and email the client
+ * @param {CreatedOrder} created The created order
+ * @param {string[]} teamIds User ids of the team members
+ * @return {Promise<void>}
+ */
+async function notifyOrderCreated(
+  created: CreatedOrder,
+  teamIds: string[]
+): Promise<void> {
+  const {orderId, orderNumber, template} = created;
+  const batch = db.batch();
+  const createdAt = admin.firestore.FieldValue.serverTimestamp();
+
+  batch.set(db.collection("notifications").doc(), {
+    userId: template.userId,
+    type: "recurring_order_created",
+    title: "Comandă recurentă nouă",
+    message: `Comanda ${orderNumber} a fost creată din șablonul ` +
+      `„${template.name}” și așteaptă confirmarea ta`,
+    orderId,
+    read: false,
+    createdAt,
+  });
+  teamIds.filter((teamId) => teamId !== template.userId).forEach((teamId) => {
+    batch.set(db.collection("notifications").doc(), {
+      userId: teamId,
+      type: "recurring_order_created",
+      title: "Comandă recurentă nouă",
+      message: `Comanda ${orderNumber} pentru ${template.clientName} ` +
+        `a fost creată din șablonul „${template.name}”`,
+      orderId,
+      read: false,
+      createdAt,
+    });
+  });
+  await batch.commit();
+
+  const recipient: string = template.clientEmail || "";
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(recipient)) {
+    return;
+  }
+
+  const {transporter, from} = createMailer();
+  const clientName: string = template.clientName || "";
+  const html = {
+    orderNumber: escapeHtml(orderNumber),
+    templateName: escapeHtml(String(template.name || "")),
+    clientName: escapeHtml(clientName),
+  };
+  await transporter.sendMail({
+    from,
+    to: recipient,
+    subject: `Comanda ${orderNumber} - Serigrafie Brasov`,
+    text: `
+Bună${clientName ? ` ${clientName}` : ""}!
+
+Comanda recurentă ${orderNumber} („${template.name}”) a fost creată.
+Te rugăm să o verifici și să o confirmi în contul tău.
+
+© ${new Date().getFullYear()} Serigrafie Brasov. Toate drepturile rezervate.
+    `,
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Comanda ${html.orderNumber}</title>
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont,
+          'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+          line-height: 1.6; color: #333; max-width: 600px;
+          margin: 0 auto; padding: 20px; background-color: #f5f5f5;">
+          <div style="background: #ffffff; border-radius: 8px; padding: 40px;
+            box-shadow: 0 2px 8px rgba(0, 0, 0, 0.1);">
+            <div style="text-align: center; margin-bottom: 30px;
+              font-size: 28px; font-weight: bold; color: #1a1a1a;">
+              Serigrafie Brasov
+            </div>
+
+            <p>Bună${clientName ? ` ${html.clientName}` : ""}!</p>
+
+            <p>
+              Comanda recurentă <strong>${html.orderNumber}</strong>
+              („${html.templateName}”) a fost creată.
+            </p>
+
+            <p>Te rugăm să o verifici și să o confirmi în contul tău.</p>
+
+            <div style="text-align: center; color: #666; font-size: 12px;
+              margin-top: 30px; padding-top: 20px;
+              border-top: 1px solid #eee;">
+              <p>
+                © ${new Date().getFullYear()} Serigrafie Brasov.
+                Toate drepturile rezervate.
+              </p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `,
+  });
+}
+
+export const generateRecurringOrders = functions
+  .runWith({secrets: [emailUser, emailPass]})
+  .pubsub.schedule("every day 06:00")
+  .timeZone(TIME_ZONE)
+  .onRun(async () => {
+    const now = new Date();
+    const dueSnapshot = await db.collection("orderTemplates")
+      .where("schedule.active", "==", true)
+      .where("schedule.nextRunAt", "<=",
+        admin.firestore.Timestamp.fromDate(now))
+      .get();
+
+    if (dueSnapshot.empty) {
+      return;
+    }
+
+    const teamSnapshot = await db.collection("users")
+      .where("role", "in", TEAM_ROLES)
+      .get();
+    const teamIds = teamSnapshot.docs.map((userDoc) => userDoc.id);
+    const priceTables = await fetchPriceTables();
+
+    // One template at a time: each run advances the shared order counter
+    for (const templateDoc of dueSnapshot.docs) {
+      try {
+        const created = await runTemplate(templateDoc.ref, now, priceTables);
+        if (!created) {
+          continue;
+        }
+
+        functions.logger.info(
+          `Created recurring order ${created.orderNumber}`,
+          {templateId: templateDoc.id, orderId: created.orderId}
+        );
+
+        await notifyOrderCreated(created, teamIds);
+      } catch (error) {
+        functions.logger.error(
+          `Error running order template ${templateDoc.id}`,
+          error
+        );
+      }
+    }
+  });
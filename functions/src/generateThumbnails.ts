@@ -0,0 +1,295 @@
+/**
+ * Web-sized thumbnails and previews of uploaded designs and attachments
+ *
+ * generateThumbnails runs when a file lands under designs/ or updates/ in
+ * Storage. Images are resized with sharp; for PDFs the first page is rendered
+ * with pdf.js first. Both sizes are saved as WebP in a thumbs/ folder next to
+ * the original and recorded in `filePreviews`, keyed by the original path.
+ *
+ * Sub-orders (`designFilePath`) and order updates (`attachmentPath`) already
+ * pointing at the file get the generated paths as `designPreview` /
+ * `attachmentPreview`. Designs are usually uploaded before the order is
+ * placed, so attachSubOrderPreview and attachUpdatePreview copy the record
+ * onto documents created afterwards.
+ */
+
+import * as functions from "firebase-functions";
+import * as crypto from "crypto";
+import * as path from "path";
+import * as sharp from "sharp";
+import {
+  Canvas,
+  DOMMatrix,
+  ImageData,
+  Path2D,
+  SKRSContext2D,
+  createCanvas,
+} from "@napi-rs/canvas";
+import {admin, db} from "./admin";
+
+interface FilePreview {
+  thumbnailPath: string;
+  thumbnailURL: string;
+  previewPath: string;
+  previewURL: string;
+}
+
+interface CanvasAndContext {
+  canvas: Canvas | null;
+  context: SKRSContext2D | null;
+}
+
+const SOURCE_FOLDERS = ["designs", "updates"];
+// Uploads sharp can read; AI, EPS and PSD files get no preview
+const IMAGE_TYPES = ["image/png", "image/tiff", "image/svg+xml", "image/jpeg",
+  "image/webp", "image/gif"];
+const THUMBS_FOLDER = "thumbs";
+const THUMBNAIL_SIZE = 320;
+const PREVIEW_SIZE = 1280;
+// Longest side of the rendered PDF page, before it is resized like an image
+const PDF_RENDER_SIZE = 2048;
+
+/**
+ * Canvases for pdf.js, backed by @napi-rs/canvas instead of the DOM
+ */
+class NodeCanvasFactory {
+  /**
+   * @param {number} width Canvas width
+   * @param {number} height Canvas height
+   * @return {CanvasAndContext} New canvas and its 2D context
+   */
+  create(width: number, height: number): CanvasAndContext {
+    const canvas = createCanvas(width, height);
+    return {canvas, context: canvas.getContext("2d")};
+  }
+
+  /**
+   * @param {CanvasAndContext} target Canvas to resize
+   * @param {number} width New width
+   * @param {number} height New height
+   */
+  reset(target: CanvasAndContext, width: number, height: number): void {
+    target.canvas!.width = width;
+    target.canvas!.height = height;
+  }
+
+  /**
+   * @param {CanvasAndContext} target Canvas to release
+   */
+  destroy(target: CanvasAndContext): void {
+    target.canvas!.width = 0;
+    target.canvas!.height = 0;
+    target.canvas = null;
+    target.context = null;
+  }
+}
+
+/**
+ * Render the first page of a PDF as a PNG on a white background
+ * @param {Buffer} pdf PDF file contents
+ * @return {Promise<Buffer>} PNG image
+ */
+async function renderFirstPdfPage(pdf: Buffer): Promise<Buffer> {
+  // pdf.js polyfills these from the `canvas` package, which is not installed
+  Object.assign(globalThis, {DOMMatrix, ImageData, Path2D});
+  // Loaded on demand so other functions do not pay for it on cold starts
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf");
+  const pdfjsRoot = path.dirname(require.resolve("pdfjs-dist/package.json"));
+
+  const document = await pdfjs.getDocument({
+    data: new Uint8Array(pdf),
+    canvasFactory: new NodeCanvasFactory(),
+    standardFontDataUrl: path.join(pdfjsRoot, "standard_fonts") + path.sep,
+    isEvalSupported: false,
+  }).promise;
+
+  try {
+    const page = await document.getPage(1);
+    const {width, height} = page.getViewport({scale: 1});
+    const viewport = page.getViewport({
+      scale: PDF_RENDER_SIZE / Math.max(width, height),
+    });
+
+    const canvas = createCanvas(
+      Math.ceil(viewport.width),
+      Math.ceil(viewport.height)
+    );
+    const context = canvas.getContext("2d");
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+
+    await page.render({
+      canvasContext: context as unknown as CanvasRenderingContext2D,
+      viewport,
+    }).promise;
+
+    return canvas.toBuffer("image/png");
+  } finally {
+    await document.destroy();
+  }
+}
+
+/**
+ * Build a Firebase download URL for a file saved with a download token
+ * @param {string} bucket Bucket name
+ * @param {string} filePath Path of the file in the bucket
+ * @param {string} token Download token stored in the file metadata
+ * @return {string} Download URL
+ */
+function getDownloadURL(bucket: string, filePath: string, token: string): string {
+  const emulatorHost = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+  const origin = emulatorHost ?
+    `http://${emulatorHost}` :
+    "https://firebasestorage.googleapis.com";
+  return `${origin}/v0/b/${bucket}/o/${encodeURIComponent(filePath)}` +
+    `?alt=media&token=${token}`;
+}
+
+/**
+ * ID of the filePreviews document of an uploaded file
+ * @param {string} filePath Storage path of the original file
+ * @return {string} Document ID
+ */
+function getPreviewId(filePath: string): string {
+  return crypto.createHash("sha1").update(filePath).digest("hex");
+}
+
+/**
+ * Find the previews generated for a file, if any
+ * @param {string} filePath Storage path of the original file
+ * @return {Promise<FilePreview | null>} Generated previews
+ */
+async function findPreview(filePath: string): Promise<FilePreview | null> {
+  const previewDoc = await db.collection("filePreviews")
+    .doc(getPreviewId(filePath))
+    .get();
+  if (!previewDoc.exists) {
+    return null;
+  }
+
+  const {thumbnailPath, thumbnailURL, previewPath, previewURL} =
+    previewDoc.data()!;
+  return {thumbnailPath, thumbnailURL, previewPath, previewURL};
+}
+
+export const generateThumbnails = functions
+  .runWith({memory: "1GB", timeoutSeconds: 120})
+  .storage.object()
+  .onFinalize(async (object) => {
+    const filePath = object.name || "";
+    const segments = filePath.split("/");
+    const contentType = object.contentType || "";
+
+    if (!SOURCE_FOLDERS.includes(segments[0]) ||
+      segments.includes(THUMBS_FOLDER)) {
+      return;
+    }
+    const isPdf = contentType === "application/pdf";
+    if (!isPdf && !IMAGE_TYPES.includes(contentType)) {
+      return;
+    }
+
+    const bucket = admin.storage().bucket(object.bucket);
+    const baseName = path.posix.basename(filePath, path.posix.extname(filePath));
+    const thumbsDir = path.posix.join(path.posix.dirname(filePath), THUMBS_FOLDER);
+
+    let preview: FilePreview;
+    try {
+      const [original] = await bucket.file(filePath).download();
+      const source = isPdf ? await renderFirstPdfPage(original) : original;
+
+      /**
+       * Resize the source to fit a square and save it as WebP
+       * @param {number} size Longest side in pixels
+       * @param {string} suffix File name suffix
+       * @return {Promise<string[]>} Saved path and its download URL
+       */
+      const saveResized = async (size: number, suffix: string) => {
+        const resizedPath = `${thumbsDir}/${baseName}_${suffix}.webp`;
+        const token = crypto.randomUUID();
+        const resized = await sharp(source, {animated: false})
+          .rotate()
+          .resize(size, size, {fit: "inside", withoutEnlargement: true})
+          .webp({quality: 80})
+          .toBuffer();
+
+        await bucket.file(resizedPath).save(resized, {
+          contentType: "image/webp",
+          metadata: {
+            cacheControl: "public, max-age=31536000",
+            metadata: {
+              firebaseStorageDownloadTokens: token,
+              generatedFrom: filePath,
+            },
+          },
+        });
+        return [resizedPath, getDownloadURL(bucket.name, resizedPath, token)];
+      };
+
+      const [[thumbnailPath, thumbnailURL], [previewPath, previewURL]] =
+        await Promise.all([
+          saveResized(THUMBNAIL_SIZE, "thumb"),
+          saveResized(PREVIEW_SIZE, "preview"),
+        ]);
+      preview = {thumbnailPath, thumbnailURL, previewPath, previewURL};
+    } catch (error) {
+      functions.logger.error(`Error generating previews of ${filePath}`, error);
+      return;
+    }
+
+    // Record first, so documents created from now on find it on creation
+    await db.collection("filePreviews").doc(getPreviewId(filePath)).set({
+      sourcePath: filePath,
+      ...preview,
+      createdAt: admin.firestore.Timestamp.now(),
+    });
+
+    const snapshot = segments[0] === "designs" ?
+      await db.collectionGroup("subOrders")
+        .where("designFilePath", "==", filePath)
+        .get() :
+      await db.collection("orderUpdates")
+        .where("attachmentPath", "==", filePath)
+        .get();
+    const field = segments[0] === "designs" ?
+      "designPreview" :
+      "attachmentPreview";
+
+    if (!snapshot.empty) {
+      const batch = db.batch();
+      snapshot.docs.forEach((doc) => batch.update(doc.ref, {[field]: preview}));
+      await batch.commit();
+    }
+
+    functions.logger.info(
+      `Generated previews of ${filePath} for ${snapshot.size} documents`
+    );
+  });
+
+export const attachSubOrderPreview = functions.firestore
+  .document("orders/{orderId}/subOrders/{subOrderId}")
+  .onCreate(async (snapshot) => {
+    const designFilePath: string = snapshot.data().designFilePath || "";
+    if (!designFilePath || snapshot.data().designPreview) {
+      return;
+    }
+
+    const preview = await findPreview(designFilePath);
+    if (preview) {
+      await snapshot.ref.update({designPreview: preview});
+    }
+  });
+
+export const attachUpdatePreview = functions.firestore
+  .document("orderUpdates/{updateId}")
+  .onCreate(async (snapshot) => {
+    const attachmentPath: string = snapshot.data().attachmentPath || "";
+    if (!attachmentPath || snapshot.data().attachmentPreview) {
+      return;
+    }
+
+    const preview = await findPreview(attachmentPath);
+    if (preview) {
+      await snapshot.ref.update({attachmentPreview: preview});
+    }
+  });
@@ -1,4 +1,12 @@
 export * from './sendTeamInvitationEmail';
 export * from './sendClientInvitationEmail';
+export * from './sendInvoiceEmail';
+export * from './rollUpOrderStatus';
+export * from './onOrderCancelled';
+export * from './orderSummaries';
+export * from './generateRecurringOrders';
+export * from './generateThumbnails';
+export * from './trash';
+export * from './findOrphanedFiles';
 export * from './migrateRoles';
 export * from './updateMembersToAdmin';
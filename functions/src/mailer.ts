@@ -0,0 +1,104 @@
+/**
+ * Shared Nodemailer setup for the email functions
+ *
+ * Production sends through Gmail with the EMAIL_USER / EMAIL_PASS secrets.
+ * In the emulator the credentials come from functions/.env instead, and
+ * setting SMTP_HOST (and optionally SMTP_PORT) there routes every email to a
+ * local SMTP sink such as Mailpit or MailHog without any credentials.
+ */
+
+import * as functions from "firebase-functions";
+import {defineSecret} from "firebase-functions/params";
+import * as nodemailer from "nodemailer";
+
+// Define secrets for email configuration
+export const emailUser = defineSecret("EMAIL_USER");
+export const emailPass = defineSecret("EMAIL_PASS");
+
+export const FROM_NAME = "Serigrafie Brasov";
+
+const DEFAULT_SMTP_SINK_PORT = 1025;
+const DEFAULT_SMTP_SINK_SENDER = "no-reply@serigrafie-brasov.ro";
+
+export interface Mailer {
+  transporter: nodemailer.Transporter;
+  from: string;
+}
+
+/**
+ * Escape text stored in the app before putting it in an HTML email
+ * @param {string} text Raw text
+ * @return {string} HTML-safe text
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Create a transporter for the current environment
+ * @return {Mailer} Transporter and the formatted sender address
+ */
+export function createMailer(): Mailer {
+  // Get email credentials (from secrets in production, env vars in local)
+  let emailUserValue: string;
+  let emailPassValue: string;
+
+  // Check if running in emulator (local development)
+  if (process.env.FUNCTIONS_EMULATOR === "true") {
+    // A local SMTP sink needs no credentials
+    const smtpHost = process.env.SMTP_HOST || "";
+    if (smtpHost) {
+      const sender = process.env.EMAIL_USER || DEFAULT_SMTP_SINK_SENDER;
+      return {
+        transporter: nodemailer.createTransport({
+          host: smtpHost,
+          port: Number(process.env.SMTP_PORT) || DEFAULT_SMTP_SINK_PORT,
+          secure: false,
+        }),
+        from: `"${FROM_NAME}" <${sender}>`,
+      };
+    }
+
+    // Use environment variables for local development
+    emailUserValue = process.env.EMAIL_USER || "";
+    emailPassValue = process.env.EMAIL_PASS || "";
+
+    if (!emailUserValue || !emailPassValue) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        "Email service is not configured for local development. " +
+        "Please create functions/.env file with EMAIL_USER and EMAIL_PASS " +
+        "or SMTP_HOST."
+      );
+    }
+  } else {
+    // Use Secret Manager for production
+    emailUserValue = emailUser.value();
+    emailPassValue = emailPass.value();
+
+    if (!emailUserValue || !emailPassValue) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        "Email service is not configured. " +
+        "Please set EMAIL_USER and EMAIL_PASS secrets."
+      );
+    }
+  }
+
+  // Create transporter with secret values
+  return {
+    transporter: nodemailer.createTransport({
+      service: "gmail", // Change to 'outlook', 'yahoo', etc. if needed
+      auth: {
+        user: emailUserValue,
+        pass: emailPassValue,
+      },
+    }),
+    from: `"${FROM_NAME}" <${emailUserValue}>`,
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * Firestore trigger finishing the cancellation of an order
+ *
+ * The client cancels the order and its active sub-orders in one batch, with
+ * the reason stored under `cancellation`, and notifies the client in the app.
+ * This trigger does the parts the client cannot: it cancels the supplier
+ * order items bought for the order (supplier orders are restricted to owners
+ * and admins) and emails the client the reason. Orders cancelled without a
+ * reason, e.g. by a direct write, get no email.
+ *
+ * Uses the shared Nodemailer setup from ./mailer, so locally it can be pointed
+ * at an SMTP sink by setting SMTP_HOST in functions/.env.
+ */
+
+import * as functions from "firebase-functions";
+import {admin, db} from "./admin";
+import {createMailer, emailPass, emailUser, escapeHtml} from "./mailer";
+
+const CANCELLED = "cancelled";
+
+/**
+ * Mark the supplier order items linked to an order as cancelled
+ * @param {string} orderId Cancelled order
+ * @return {Promise<number>} Number of cancelled items
+ */
+async function cancelSupplierItems(orderId: string): Promise<number> {
+  const snapshot = await db.collection("supplierOrders")
+    .where("orderIds", "array-contains", orderId)
+    .get();
+
+  const timestamp = admin.firestore.Timestamp.now();
+
+  // Counted from the committed attempts, as transactions may be retried
+  const cancelled = await Promise.all(snapshot.docs.map((supplierOrderDoc) =>
+    db.runTransaction(async (transaction) => {
+      const current = await transaction.get(supplierOrderDoc.ref);
+      const items: FirebaseFirestore.DocumentData[] =
+        current.data()?.items || [];
+      let changed = 0;
+
+      const updatedItems = items.map((item) => {
+        if (item.orderId !== orderId || item.status === CANCELLED) {
+          return item;
+        }
+        changed++;
+        return {...item, status: CANCELLED, cancelledAt: timestamp};
+      });
+
+      if (changed > 0) {
+        transaction.update(supplierOrderDoc.ref, {
+          items: updatedItems,
+          updatedAt: timestamp,
+        });
+      }
+      return changed;
+    })
+  ));
+
+  return cancelled.reduce((sum, changed) => sum + changed, 0);
+}
+
+export const onOrderCancelled = functions
+  .runWith({secrets: [emailUser, emailPass]})
+  .firestore.document("orders/{orderId}")
+  .onUpdate(async (change, context) => {
+    const before = change.before.data();
+    const after = change.after.data();
+
+    if (before.status === CANCELLED || after.status !== CANCELLED) {
+      return;
+    }
+
+    const {orderId} = context.params;
+    const orderNumber: string = after.orderNumber || orderId;
+    const cancellation = after.cancellation || {};
+
+    try {
+      const cancelledItems = await cancelSupplierItems(orderId);
+      if (cancelledItems > 0) {
+        functions.logger.info(
+          `Cancelled ${cancelledItems} supplier order items of ${orderNumber}`
+        );
+      }
+    } catch (error) {
+      functions.logger.error(
+        `Error cancelling supplier order items of ${orderNumber}`,
+        error
+      );
+    }
+
+    const reason: string = cancellation.reason || "";
+    if (!reason) {
+      functions.logger.warn(
+        `Order ${orderNumber} cancelled without a reason; no email sent`
+      );
+      return;
+    }
+
+    const recipient: string = after.clientEmail || "";
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(recipient)) {
+      functions.logger.info(
+        `Order ${orderNumber} cancelled; the client has no email address`
+      );
+      return;
+    }
+
+    const clientName: string = after.clientName || "";
+    const comment: string = cancellation.comment || "";
+
+    try {
+      const {transporter, from} = createMailer();
+      await transporter.sendMail({
+        from,
+        to: recipient,
+        subject: `Comanda ${orderNumber} a fost anulată - Serigrafie Brasov`,
+        text: `
+Bună${clientName ? ` ${clientName}` : ""}!
+
+Comanda ${orderNumber}${after.orderName ? ` („${after.orderName}”)` : ""} a fost anulată.
+Motiv: ${reason}
+${comment ? `${comment}\n` : ""}
+Pentru întrebări, răspunde la acest email.
+
+© ${new Date().getFullYear()} Serigrafie Brasov. Toate drepturile rezervate.
+        `,
+        html: `
+          <!DOCTYPE html>
+          <html>
+            <head>
+              <meta charset="utf-8">
+              <meta name="viewport" content="width=device-width, initial-scale=1.0">
+              <title>Comanda ${escapeHtml(orderNumber)} a fost anulată</title>
+            </head>
+            <body style="font-family: -apple-system, BlinkMacSystemFont,
+              'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+              line-height: 1.6; color: #333; max-width: 600px;
+              margin: 0 auto; padding: 20px; background-color: #f5f5f5;">
+              <div style="background: #ffffff; border-radius: 8px; padding: 40px;
+                box-shadow: 0 2px 8px rgba(0, 0, 0, 0.1);">
+                <div style="text-align: center; margin-bottom: 30px;
+                  font-size: 28px; font-weight: bold; color: #1a1a1a;">
+                  Serigrafie Brasov
+                </div>
+
+                <p>Bună${clientName ? ` ${escapeHtml(clientName)}` : ""}!</p>
+
+                <p>
+                  Comanda <strong>${escapeHtml(orderNumber)}</strong>
+                  ${after.orderName ? `(„${escapeHtml(after.orderName)}”)` : ""}
+                  a fost anulată.
+                </p>
+
+                <p><strong>Motiv:</strong> ${escapeHtml(reason)}</p>
+                ${comment ? `<p style="white-space: pre-wrap;">${escapeHtml(comment)}</p>` : ""}
+
+                <p>Pentru întrebări, răspunde la acest email.</p>
+
+                <div style="text-align: center; color: #666; font-size: 12px;
+                  margin-top: 30px; padding-top: 20px;
+                  border-top: 1px solid #eee;">
+                  <p>
+                    © ${new Date().getFullYear()} Serigrafie Brasov. Toate drepturile rezervate.
+                  </p>
+                </div>
+              </div>
+            </body>
+          </html>
+        `,
+      });
+
+      functions.logger.info(`Cancellation email for ${orderNumber} sent`);
+    } catch (error) {
+      functions.logger.error(
+        `Error sending the cancellation email for ${orderNumber}`,
+        error
+      );
+    }
+  });
@@ -0,0 +1,107 @@
+/**
+ * Storage files of orders, shared by the functions that delete them
+ *
+ * Sub-orders, order updates and proofs point at their files by path, or only
+ * by download URL in older documents. Order templates reuse the design files
+ * of the orders they were saved from, so a design is only deleted once no
+ * order, trashed order or template uses it any more.
+ */
+
+import * as functions from "firebase-functions";
+import {admin, db} from "./admin";
+
+// Firestore accepts at most 500 writes per batch
+export const BATCH_SIZE = 500;
+
+const PATH_FIELDS = [
+  "designFilePath",
+  "mockupFilePath",
+  "attachmentPath",
+  "filePath",
+];
+const URL_FIELDS = ["designFile", "mockupFile", "attachmentURL", "fileURL"];
+const PREVIEW_FIELDS = ["designPreview", "attachmentPreview"];
+
+/**
+ * Storage path of a Firebase download URL
+ * @param {string} url Download URL
+ * @return {string | null} Path of the file in the bucket
+ */
+function getPathFromURL(url: string): string | null {
+  const match = url.match(/\/o\/([^?]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+/**
+ * Storage paths a document refers to. Older documents only stored download
+ * URLs, so those are read too.
+ * @param {FirebaseFirestore.DocumentData} data Document data
+ * @param {boolean} withPreviews Whether to include generated previews
+ * @return {string[]} Paths of the files in the bucket
+ */
+export function getFilePaths(
+  data: FirebaseFirestore.DocumentData,
+  withPreviews = true
+): string[] {
+  const paths: unknown[] = PATH_FIELDS.map((field) => data[field]);
+  URL_FIELDS.forEach((field) => {
+    if (typeof data[field] === "string") {
+      paths.push(getPathFromURL(data[field]));
+    }
+  });
+  if (withPreviews) {
+    PREVIEW_FIELDS.forEach((field) => {
+      paths.push(data[field]?.thumbnailPath, data[field]?.previewPath);
+    });
+  }
+
+  return paths.filter((path): path is string =>
+    typeof path === "string" && path.length > 0);
+}
+
+/**
+ * Split values into chunks
+ * @param {T[]} values Values to split
+ * @param {number} size Largest chunk
+ * @return {T[][]} Chunks, in order
+ */
+export function chunk<T>(values: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Design files referenced by order templates
+ * @return {Promise<Set<string>>} Storage paths
+ */
+export async function getTemplateFilePaths(): Promise<Set<string>> {
+  const templatesSnapshot = await db.collection("orderTemplates").get();
+  const paths = new Set<string>();
+  templatesSnapshot.docs.forEach((templateDoc) => {
+    const items: FirebaseFirestore.DocumentData[] =
+      templateDoc.data().items || [];
+    items.forEach((item) => getFilePaths(item).forEach((path) =>
+      paths.add(path)));
+  });
+  return paths;
+}
+
+/**
+ * Delete Storage files, ignoring the ones already gone
+ * @param {string[]} paths Paths of the files in the default bucket
+ * @return {Promise<string[]>} Paths that could not be deleted
+ */
+export async function deleteFiles(paths: string[]): Promise<string[]> {
+  const bucket = admin.storage().bucket();
+  const results = await Promise.allSettled(paths.map((path) =>
+    bucket.file(path).delete({ignoreNotFound: true})));
+
+  const failed = paths.filter((_path, i) => results[i].status === "rejected");
+  if (failed.length > 0) {
+    functions.logger.error(`Could not delete ${failed.length} files`, {failed});
+  }
+  return failed;
+}
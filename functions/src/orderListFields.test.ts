@@ -0,0 +1,87 @@
+import {describe, it, expect} from "vitest";
+import {
+  PaymentStatus,
+  buildSearchKeywords,
+  estimateOrderTotal,
+  getOrderSearchKeywords,
+  getPaymentStatus,
+  splitSearchWords,
+} from "./orderListFields";
+
+const now = new Date("2026-03-15T10:00:00Z");
+const timestamp = (iso: string) => ({toMillis: () => Date.parse(iso)});
+
+describe("splitSearchWords", () => {
+  it("lowercases and strips Romanian diacritics", () => {
+    expect(splitSearchWords("Ștefan-Țăran Brașov")).toEqual(
+      ["stefan", "taran", "brasov"]);
+  });
+});
+
+describe("buildSearchKeywords", () => {
+  it("indexes every prefix of at least two characters", () => {
+    expect(buildSearchKeywords(["Ana Pop"])).toEqual(
+      ["an", "ana", "po", "pop"]);
+  });
+
+  it("caps prefixes at fifteen characters", () => {
+    const keywords = buildSearchKeywords(["abcdefghijklmnopqrst"]);
+    expect(keywords).toContain("abcdefghijklmno");
+    expect(keywords).not.toContain("abcdefghijklmnop");
+  });
+
+  it("skips missing fields", () => {
+    expect(buildSearchKeywords([undefined, null, 42])).toEqual([]);
+  });
+});
+
+describe("getOrderSearchKeywords", () => {
+  it("finds an order by number, email and phone digits", () => {
+    const keywords = getOrderSearchKeywords({
+      orderNumber: "CMD-2026-0042",
+      clientEmail: "ion@firma.ro",
+      clientPhone: "+40 721 123 456",
+    });
+    expect(keywords).toEqual(expect.arrayContaining(
+      ["cmd", "0042", "ion", "firma", "40721123456"]));
+  });
+});
+
+describe("estimateOrderTotal", () => {
+  it("adds VAT per line and invoices setup fees", () => {
+    expect(estimateOrderTotal([
+      {quantity: "10", unitPrice: 2.5, setupFee: 50},
+      {quantity: 3, cmp: 10},
+      {quantity: 5},
+    ])).toBe(29.75 + 59.5 + 35.7);
+  });
+});
+
+describe("getPaymentStatus", () => {
+  const completed = {status: "completed", invoiceTotal: 119};
+
+  it("leaves orders that are not completed out", () => {
+    expect(getPaymentStatus({...completed, status: "in_progress"}, now))
+      .toBeNull();
+  });
+
+  it("tells paid from unpaid orders", () => {
+    expect(getPaymentStatus({...completed, amountPaid: 119}, now))
+      .toBe(PaymentStatus.PAID);
+    expect(getPaymentStatus({...completed, amountPaid: 100}, now))
+      .toBe(PaymentStatus.UNPAID);
+  });
+
+  it("marks unpaid orders overdue after the due date", () => {
+    expect(getPaymentStatus({
+      ...completed,
+      paymentDueDate: timestamp("2026-03-14T00:00:00Z"),
+    }, now)).toBe(PaymentStatus.OVERDUE);
+  });
+
+  it("falls back to the estimated total before invoicing", () => {
+    expect(getPaymentStatus(
+      {status: "completed", estimatedTotal: 50, amountPaid: 50}, now))
+      .toBe(PaymentStatus.PAID);
+  });
+});
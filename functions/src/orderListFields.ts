@@ -0,0 +1,148 @@
+/**
+ * Fields stored on every order so the order list can search, filter by
+ * payment and sort in Firestore instead of over the pages loaded so far.
+ * The search tokenization matches getSearchTerms in
+ * client/src/services/orderService.ts, and the estimated total matches
+ * getOrderTotal in client/src/services/paymentService.ts.
+ */
+
+import {OrderStatus} from "./orderStatus";
+
+export const PaymentStatus = {
+  PAID: "paid",
+  UNPAID: "unpaid",
+  OVERDUE: "overdue",
+} as const;
+
+export type PaymentStatusType =
+  typeof PaymentStatus[keyof typeof PaymentStatus];
+
+// Matches SEARCH_KEYWORD_MIN_LENGTH / MAX_LENGTH in client/src/constants.ts
+export const SEARCH_KEYWORD_MIN_LENGTH = 2;
+export const SEARCH_KEYWORD_MAX_LENGTH = 15;
+
+// Matches VAT_RATE_PERCENT in client/src/constants.ts
+const VAT_RATE_PERCENT = 19;
+
+/**
+ * Round an amount to bani, like roundCurrency on the client
+ * @param {number} amount Amount in RON
+ * @return {number} The rounded amount
+ */
+function roundCurrency(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Split text into lowercase words without diacritics, e.g. "Ștefan-Ion" into
+ * ["stefan", "ion"]
+ * @param {string} text Free text
+ * @return {string[]} The words
+ */
+export function splitSearchWords(text: string): string[] {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 0);
+}
+
+/**
+ * Every prefix of every word of the given values, so an order can be found
+ * with `array-contains` by the start of any word in it
+ * @param {unknown[]} values Searchable order fields; non-strings are skipped
+ * @return {string[]} The distinct keywords
+ */
+export function buildSearchKeywords(values: unknown[]): string[] {
+  const keywords = new Set<string>();
+
+  values
+    .filter((value): value is string => typeof value === "string")
+    .flatMap(splitSearchWords)
+    .forEach((word) => {
+      const longest = Math.min(word.length, SEARCH_KEYWORD_MAX_LENGTH);
+      for (let length = SEARCH_KEYWORD_MIN_LENGTH; length <= longest;
+        length++) {
+        keywords.add(word.substring(0, length));
+      }
+    });
+
+  return Array.from(keywords);
+}
+
+/**
+ * Searchable keywords of an order document
+ * @param {FirebaseFirestore.DocumentData} order Order document
+ * @return {string[]} The keywords stored as `searchKeywords`
+ */
+export function getOrderSearchKeywords(
+  order: FirebaseFirestore.DocumentData
+): string[] {
+  return buildSearchKeywords([
+    order.orderNumber,
+    order.orderName,
+    order.clientName,
+    order.clientEmail,
+    order.clientPhone,
+    // Phone numbers are also searchable without their separators
+    order.clientPhone?.replace(/\D/g, ""),
+    order.clientCompany,
+    order.userName,
+    order.userEmail,
+    ...(order.productTypes || []),
+    ...(order.productTypeNames || []),
+  ]);
+}
+
+/**
+ * Gross total of the priced sub-orders, setup fees included, rounded per line
+ * like the invoice lines built from them
+ * @param {FirebaseFirestore.DocumentData[]} subOrders Sub-order documents
+ * @return {number} The estimated order total, VAT included
+ */
+export function estimateOrderTotal(
+  subOrders: FirebaseFirestore.DocumentData[]
+): number {
+  const lineTotal = (quantity: number, unitPrice: number): number => {
+    const net = roundCurrency(unitPrice * quantity);
+    return roundCurrency(net + roundCurrency(net * VAT_RATE_PERCENT / 100));
+  };
+
+  return roundCurrency(subOrders.reduce((sum, subOrder) => {
+    const quantity = Number(subOrder.quantity) || 0;
+    const unitPrice = typeof subOrder.unitPrice === "number" ?
+      subOrder.unitPrice :
+      (typeof subOrder.cmp === "number" && subOrder.cmp > 0 ? subOrder.cmp : 0);
+    const setupFee = subOrder.setupFee > 0 ?
+      lineTotal(1, subOrder.setupFee) : 0;
+    return sum + lineTotal(quantity, unitPrice) + setupFee;
+  }, 0));
+}
+
+/**
+ * Payment status of a completed order; other orders owe nothing yet.
+ * Invoiced orders owe the invoice total, the others the estimated total.
+ * @param {FirebaseFirestore.DocumentData} order Order document
+ * @param {Date} now Reference time for the due date
+ * @return {PaymentStatusType | null} The status stored as `paymentStatus`
+ */
+export function getPaymentStatus(
+  order: FirebaseFirestore.DocumentData,
+  now: Date
+): PaymentStatusType | null {
+  if (order.status !== OrderStatus.COMPLETED) {
+    return null;
+  }
+
+  const total = typeof order.invoiceTotal === "number" ?
+    order.invoiceTotal : order.estimatedTotal || 0;
+  const due = roundCurrency(total - (order.amountPaid || 0));
+  if (due <= 0) {
+    return PaymentStatus.PAID;
+  }
+  if (order.paymentDueDate && order.paymentDueDate.toMillis() < now.getTime()) {
+    return PaymentStatus.OVERDUE;
+  }
+  return PaymentStatus.UNPAID;
+}
@@ -0,0 +1,18 @@
+/**
+ * Sequential order numbers, e.g. CMD-2026-0457, restarting every year.
+ * Matches formatOrderNumber and the ORDER_NUMBER_* constants of the client.
+ */
+
+export const ORDER_NUMBER_PREFIX = "CMD";
+export const ORDER_NUMBER_PADDING = 4;
+
+/**
+ * Format a sequential order number
+ * @param {number} number Number within the year
+ * @param {number} year Year of the order
+ * @return {string} The order number, e.g. CMD-2026-0457
+ */
+export function formatOrderNumber(number: number, year: number): string {
+  return `${ORDER_NUMBER_PREFIX}-${year}-` +
+    String(number).padStart(ORDER_NUMBER_PADDING, "0");
+}
@@ -0,0 +1,63 @@
+import {describe, it, expect} from "vitest";
+import {
+  OrderStatus,
+  deriveOrderStatus,
+  getRolledUpStatus,
+} from "./orderStatus";
+
+const {
+  PENDING_CONFIRMATION,
+  PENDING,
+  IN_PROGRESS,
+  COMPLETED,
+  CANCELLED,
+} = OrderStatus;
+
+describe("deriveOrderStatus", () => {
+  it("keeps the order pending until a sub-order starts", () => {
+    expect(deriveOrderStatus([PENDING, PENDING])).toBe(PENDING);
+  });
+
+  it("starts the order as soon as any sub-order starts or is done", () => {
+    expect(deriveOrderStatus([PENDING, IN_PROGRESS])).toBe(IN_PROGRESS);
+    expect(deriveOrderStatus([PENDING, COMPLETED])).toBe(IN_PROGRESS);
+  });
+
+  it("completes the order once every sub-order is done", () => {
+    expect(deriveOrderStatus([COMPLETED, COMPLETED])).toBe(COMPLETED);
+  });
+
+  it("ignores cancelled sub-orders", () => {
+    expect(deriveOrderStatus([COMPLETED, CANCELLED])).toBe(COMPLETED);
+    expect(deriveOrderStatus([PENDING, CANCELLED])).toBe(PENDING);
+  });
+
+  it("never cancels the order itself", () => {
+    expect(deriveOrderStatus([CANCELLED, CANCELLED])).toBeNull();
+    expect(deriveOrderStatus([])).toBeNull();
+  });
+});
+
+describe("getRolledUpStatus", () => {
+  it("follows the sub-orders of a started order", () => {
+    expect(getRolledUpStatus(PENDING, [IN_PROGRESS, PENDING]))
+      .toBe(IN_PROGRESS);
+    expect(getRolledUpStatus(IN_PROGRESS, [COMPLETED, COMPLETED]))
+      .toBe(COMPLETED);
+  });
+
+  it("keeps an order the team started in progress", () => {
+    expect(getRolledUpStatus(IN_PROGRESS, [PENDING, PENDING])).toBeNull();
+  });
+
+  it("leaves orders awaiting confirmation and final orders alone", () => {
+    expect(getRolledUpStatus(PENDING_CONFIRMATION, [IN_PROGRESS]))
+      .toBeNull();
+    expect(getRolledUpStatus(COMPLETED, [IN_PROGRESS])).toBeNull();
+    expect(getRolledUpStatus(CANCELLED, [COMPLETED])).toBeNull();
+  });
+
+  it("changes nothing when the status stays the same", () => {
+    expect(getRolledUpStatus(PENDING, [PENDING])).toBeNull();
+  });
+});
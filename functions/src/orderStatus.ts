@@ -0,0 +1,69 @@
+/**
+ * Order statuses, matching OrderStatus in client/src/types, and how an order's
+ * status follows from its sub-orders
+ */
+
+export const OrderStatus = {
+  PENDING_CONFIRMATION: "pending_confirmation",
+  PENDING: "pending",
+  IN_PROGRESS: "in_progress",
+  COMPLETED: "completed",
+  CANCELLED: "cancelled",
+} as const;
+
+/**
+ * Derive the parent status from the sub-order statuses. Cancelled sub-orders
+ * are ignored; when all of them are cancelled the order is left as it is, as
+ * cancelling an order takes a reason only the team can give.
+ * @param {string[]} statuses Status of every sub-order
+ * @return {string | null} The rolled-up order status, or null to keep it
+ */
+export function deriveOrderStatus(statuses: string[]): string | null {
+  const active = statuses.filter((status) =>
+    status !== OrderStatus.CANCELLED);
+
+  if (active.length === 0) {
+    return null;
+  }
+  if (active.every((status) => status === OrderStatus.COMPLETED)) {
+    return OrderStatus.COMPLETED;
+  }
+  if (active.some((status) =>
+    status === OrderStatus.IN_PROGRESS || status === OrderStatus.COMPLETED)) {
+    return OrderStatus.IN_PROGRESS;
+  }
+  return OrderStatus.PENDING;
+}
+
+// Left alone by the roll-up: orders awaiting client confirmation, whose
+// sub-orders cannot change yet, and final orders
+const FROZEN_STATUSES: string[] = [
+  OrderStatus.PENDING_CONFIRMATION,
+  OrderStatus.COMPLETED,
+  OrderStatus.CANCELLED,
+];
+
+/**
+ * Next status of an order after one of its sub-orders changed. An order the
+ * team started is not sent back to pending when none of its sub-orders has
+ * started yet; moving it back is left to the team.
+ * @param {string} currentStatus Status of the order
+ * @param {string[]} statuses Status of every sub-order
+ * @return {string | null} The new order status, or null to keep it
+ */
+export function getRolledUpStatus(
+  currentStatus: string,
+  statuses: string[]
+): string | null {
+  if (FROZEN_STATUSES.includes(currentStatus)) {
+    return null;
+  }
+
+  const nextStatus = deriveOrderStatus(statuses);
+  if (!nextStatus || nextStatus === currentStatus ||
+    (currentStatus === OrderStatus.IN_PROGRESS &&
+      nextStatus === OrderStatus.PENDING)) {
+    return null;
+  }
+  return nextStatus;
+}
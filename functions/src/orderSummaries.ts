@@ -0,0 +1,270 @@
+/**
+ * Denormalized order summaries and team-wide order counters
+ *
+ * updateOrderSummary keeps a summary of the sub-orders on every order
+ * document, so order lists can render a row without reading the subOrders
+ * subcollection: sub-order count, total quantity, delivery window, product
+ * types and names, department ids and the estimated total.
+ * `subOrdersUpdatedAt` changes on every sub-order write and lets clients tell
+ * when sub-orders they cached are stale.
+ *
+ * updateOrderListFields keeps the fields the order list queries by in step
+ * with each order: `searchKeywords` and `paymentStatus` (see orderListFields).
+ * markOverdueOrders turns unpaid orders overdue once their due date passes.
+ *
+ * updateOrderStats keeps stats/orders in step with order creations, deletions
+ * and status changes. Triggers can run more than once for the same write, so
+ * each event is recorded in statsEvents and counted only once; the records
+ * expire through a TTL policy on `expiresAt`. rebuildOrderSummaries recomputes all of them from
+ * scratch, for orders created before these triggers existed.
+ */
+
+import * as functions from "firebase-functions";
+import {admin, db} from "./admin";
+import {
+  PaymentStatus,
+  PaymentStatusType,
+  estimateOrderTotal,
+  getOrderSearchKeywords,
+  getPaymentStatus,
+} from "./orderListFields";
+
+interface OrderSummary {
+  subOrderCount: number;
+  totalQuantity: number;
+  earliestDeliveryTime: string | null;
+  latestDeliveryTime: string | null;
+  productTypes: string[];
+  productTypeNames: string[];
+  departmentIds: string[];
+  estimatedTotal: number;
+}
+
+interface OrderListFields {
+  searchKeywords: string[];
+  paymentStatus: PaymentStatusType | null;
+}
+
+const ADMIN_ROLES = ["owner", "admin"];
+const STATS_DOC = "stats/orders";
+const STATS_EVENTS_COLLECTION = "statsEvents";
+const STATS_EVENT_RETENTION_DAYS = 7;
+const TIME_ZONE = "Europe/Bucharest";
+
+/**
+ * Summarize the sub-orders of an order
+ * @param {FirebaseFirestore.DocumentData[]} subOrders Sub-order documents
+ * @return {OrderSummary} The summary stored on the order
+ */
+function computeOrderSummary(
+  subOrders: FirebaseFirestore.DocumentData[]
+): OrderSummary {
+  // Delivery times are stored as datetime-local strings
+  const deliveryTimes = subOrders
+    .map((subOrder) => subOrder.deliveryTime)
+    .filter((deliveryTime): deliveryTime is string => !!deliveryTime)
+    .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+
+  const distinct = (values: unknown[]): string[] => Array.from(new Set(
+    values.filter((value): value is string => typeof value === "string" &&
+      value.length > 0)
+  ));
+
+  return {
+    subOrderCount: subOrders.length,
+    totalQuantity: subOrders.reduce(
+      (sum, subOrder) => sum + (Number(subOrder.quantity) || 0), 0),
+    earliestDeliveryTime: deliveryTimes[0] || null,
+    latestDeliveryTime: deliveryTimes[deliveryTimes.length - 1] || null,
+    productTypes: distinct(subOrders.map((subOrder) => subOrder.productType)),
+    productTypeNames: distinct(
+      subOrders.map((subOrder) => subOrder.productTypeName)),
+    departmentIds: distinct(
+      subOrders.map((subOrder) => subOrder.departmentId)),
+    estimatedTotal: estimateOrderTotal(subOrders),
+  };
+}
+
+/**
+ * Compute the list fields of an order
+ * @param {FirebaseFirestore.DocumentData} order Order document
+ * @param {Date} now Reference time for the payment due date
+ * @return {OrderListFields} The fields stored on the order
+ */
+function computeOrderListFields(
+  order: FirebaseFirestore.DocumentData,
+  now: Date
+): OrderListFields {
+  return {
+    searchKeywords: getOrderSearchKeywords(order),
+    paymentStatus: getPaymentStatus(order, now),
+  };
+}
+
+export const updateOrderSummary = functions.firestore
+  .document("orders/{orderId}/subOrders/{subOrderId}")
+  .onWrite(async (_change, context) => {
+    const {orderId} = context.params;
+    const orderRef = db.collection("orders").doc(orderId);
+
+    await db.runTransaction(async (transaction) => {
+      const orderDoc = await transaction.get(orderRef);
+      // Sub-orders are deleted after their order; nothing left to summarize
+      if (!orderDoc.exists) {
+        return;
+      }
+
+      const subOrdersSnapshot = await transaction.get(
+        orderRef.collection("subOrders")
+      );
+      transaction.update(orderRef, {
+        ...computeOrderSummary(
+          subOrdersSnapshot.docs.map((subOrder) => subOrder.data())),
+        subOrdersUpdatedAt: admin.firestore.Timestamp.now(),
+      });
+    });
+  });
+
+export const updateOrderListFields = functions.firestore
+  .document("orders/{orderId}")
+  .onWrite(async (change) => {
+    if (!change.after.exists) {
+      return;
+    }
+
+    const order = change.after.data() || {};
+    const fields = computeOrderListFields(order, new Date());
+    // Our own update triggers this function again; stop once nothing changes
+    const keywords: string[] = order.searchKeywords || [];
+    if (order.paymentStatus === fields.paymentStatus &&
+      keywords.length === fields.searchKeywords.length &&
+      keywords.every((keyword, i) => keyword === fields.searchKeywords[i])) {
+      return;
+    }
+
+    await change.after.ref.update({...fields});
+  });
+
+export const markOverdueOrders = functions.pubsub
+  .schedule("every day 00:05")
+  .timeZone(TIME_ZONE)
+  .onRun(async () => {
+    const overdueSnapshot = await db.collection("orders")
+      .where("paymentStatus", "==", PaymentStatus.UNPAID)
+      .where("paymentDueDate", "<", admin.firestore.Timestamp.now())
+      .get();
+
+    const bulkWriter = db.bulkWriter();
+    overdueSnapshot.docs.forEach((orderDoc) => {
+      bulkWriter.update(orderDoc.ref, {paymentStatus: PaymentStatus.OVERDUE});
+    });
+    await bulkWriter.close();
+
+    functions.logger.info(`Marked ${overdueSnapshot.size} orders overdue`);
+  });
+
+export const updateOrderStats = functions.firestore
+  .document("orders/{orderId}")
+  .onWrite(async (change, context) => {
+    const before: string | null = change.before.exists ?
+      change.before.data()?.status || null : null;
+    const after: string | null = change.after.exists ?
+      change.after.data()?.status || null : null;
+
+    const created = !change.before.exists && change.after.exists;
+    const deleted = change.before.exists && !change.after.exists;
+    if (!created && !deleted && before === after) {
+      return;
+    }
+
+    const increment = admin.firestore.FieldValue.increment;
+    const byStatus: Record<string, FirebaseFirestore.FieldValue> = {};
+    if (before) {
+      byStatus[before] = increment(-1);
+    }
+    if (after) {
+      byStatus[after] = increment(1);
+    }
+
+    const eventRef = db.collection(STATS_EVENTS_COLLECTION)
+      .doc(context.eventId);
+    await db.runTransaction(async (transaction) => {
+      const eventDoc = await transaction.get(eventRef);
+      // A retried or duplicate delivery of an event already counted
+      if (eventDoc.exists) {
+        return;
+      }
+
+      const now = admin.firestore.Timestamp.now();
+      transaction.set(eventRef, {
+        orderId: context.params.orderId,
+        processedAt: now,
+        expiresAt: admin.firestore.Timestamp.fromMillis(now.toMillis() +
+          STATS_EVENT_RETENTION_DAYS * 24 * 60 * 60 * 1000),
+      });
+      transaction.set(db.doc(STATS_DOC), {
+        ...(created ? {total: increment(1)} : {}),
+        ...(deleted ? {total: increment(-1)} : {}),
+        byStatus,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }, {merge: true});
+    });
+  });
+
+export const rebuildOrderSummaries = functions
+  .runWith({timeoutSeconds: 540, memory: "512MB"})
+  .https.onCall(async (_data, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "User must be authenticated to rebuild order summaries."
+      );
+    }
+
+    const callerDoc = await db.collection("users").doc(context.auth.uid).get();
+    if (!ADMIN_ROLES.includes(callerDoc.data()?.role)) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "Only owners and admins can rebuild order summaries."
+      );
+    }
+
+    const ordersSnapshot = await db.collection("orders").get();
+    const byStatus: Record<string, number> = {};
+    const now = new Date();
+    const bulkWriter = db.bulkWriter();
+
+    for (const orderDoc of ordersSnapshot.docs) {
+      const status: string = orderDoc.data().status || "";
+      if (status) {
+        byStatus[status] = (byStatus[status] || 0) + 1;
+      }
+
+      const subOrdersSnapshot = await orderDoc.ref.collection("subOrders").get();
+      const summary = computeOrderSummary(
+        subOrdersSnapshot.docs.map((subOrder) => subOrder.data()));
+      bulkWriter.update(orderDoc.ref, {
+        ...summary,
+        ...computeOrderListFields({...orderDoc.data(), ...summary}, now),
+        subOrdersUpdatedAt: admin.firestore.Timestamp.now(),
+      });
+    }
+
+    await bulkWriter.close();
+    await db.doc(STATS_DOC).set({
+      total: ordersSnapshot.size,
+      byStatus,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    functions.logger.info(
+      `Rebuilt summaries of ${ordersSnapshot.size} orders`,
+      {byStatus}
+    );
+
+    return {
+      success: true,
+      orderCount: ordersSnapshot.size,
+      byStatus,
+    };
+  });
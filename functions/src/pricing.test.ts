@@ -0,0 +1,53 @@
+import {describe, it, expect} from "vitest";
+import {
+  DEFAULT_PRICE_TABLES,
+  PriceSource,
+  PricingMode,
+  priceSubOrder,
+} from "./pricing";
+
+const unitTable = {
+  mode: PricingMode.UNIT,
+  basePrice: 25,
+  setupFee: 0,
+  tiers: [
+    {minQuantity: 100, discountPercent: 10},
+    {minQuantity: 50, discountPercent: 5},
+  ],
+};
+
+describe("priceSubOrder", () => {
+  it("applies the highest quantity break reached", () => {
+    expect(priceSubOrder(unitTable, {quantity: "100"})).toEqual({
+      unitPrice: 22.5,
+      lineTotal: 2250,
+      setupFee: 0,
+      priceSource: PriceSource.TABLE,
+    });
+  });
+
+  it("prices area mode by print area, never below the base price", () => {
+    const table = DEFAULT_PRICE_TABLES["t-shirts"];
+    expect(priceSubOrder(table, {quantity: 10, length: 10, width: 10}))
+      .toMatchObject({unitPrice: 20, lineTotal: 250, setupFee: 50});
+    expect(priceSubOrder(table, {quantity: 10, length: 30, width: 20}))
+      .toMatchObject({unitPrice: 30, lineTotal: 350});
+  });
+
+  it("lets a manual unit cost win over the table", () => {
+    expect(priceSubOrder(unitTable, {quantity: 3, cmp: 12.345})).toEqual({
+      unitPrice: 12.35,
+      lineTotal: 37.04,
+      setupFee: 0,
+      priceSource: PriceSource.MANUAL,
+    });
+  });
+
+  it("leaves lines without a table or quantity unpriced", () => {
+    const unpriced = {
+      unitPrice: null, lineTotal: null, setupFee: null, priceSource: null,
+    };
+    expect(priceSubOrder(undefined, {quantity: 10})).toEqual(unpriced);
+    expect(priceSubOrder(unitTable, {quantity: 0})).toEqual(unpriced);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Sub-order pricing for orders created by Cloud Functions, matching
+ * calculatePrice and DEFAULT_PRICE_TABLES in
+ * client/src/services/pricingService.ts
+ */
+
+interface QuantityTier {
+  minQuantity: number;
+  discountPercent: number;
+}
+
+export interface PriceTable {
+  mode: string;
+  basePrice: number;
+  areaRate?: number;
+  setupFee?: number;
+  tiers: QuantityTier[];
+}
+
+export interface SubOrderPricing {
+  unitPrice: number | null;
+  lineTotal: number | null;
+  setupFee: number | null;
+  priceSource: string | null;
+}
+
+export const PricingMode = {
+  UNIT: "unit",
+  AREA: "area",
+} as const;
+
+export const PriceSource = {
+  TABLE: "table",
+  MANUAL: "manual",
+} as const;
+
+// Built-in tables of the default product types; priceTables documents with
+// the same id override them
+export const DEFAULT_PRICE_TABLES: Record<string, PriceTable> = {
+  "mugs": {
+    mode: PricingMode.UNIT,
+    basePrice: 25,
+    setupFee: 0,
+    tiers: [
+      {minQuantity: 50, discountPercent: 5},
+      {minQuantity: 100, discountPercent: 10},
+      {minQuantity: 500, discountPercent: 15},
+    ],
+  },
+  "t-shirts": {
+    mode: PricingMode.AREA,
+    basePrice: 20,
+    areaRate: 0.05,
+    setupFee: 50,
+    tiers: [
+      {minQuantity: 50, discountPercent: 5},
+      {minQuantity: 100, discountPercent: 10},
+      {minQuantity: 500, discountPercent: 20},
+    ],
+  },
+  "hoodies": {
+    mode: PricingMode.AREA,
+    basePrice: 45,
+    areaRate: 0.05,
+    setupFee: 50,
+    tiers: [
+      {minQuantity: 50, discountPercent: 5},
+      {minQuantity: 100, discountPercent: 10},
+    ],
+  },
+  "bags": {
+    mode: PricingMode.AREA,
+    basePrice: 12,
+    areaRate: 0.04,
+    setupFee: 50,
+    tiers: [
+      {minQuantity: 100, discountPercent: 10},
+      {minQuantity: 500, discountPercent: 15},
+    ],
+  },
+  "caps": {
+    mode: PricingMode.UNIT,
+    basePrice: 18,
+    setupFee: 30,
+    tiers: [
+      {minQuantity: 50, discountPercent: 5},
+      {minQuantity: 200, discountPercent: 10},
+    ],
+  },
+};
+
+/**
+ * Round an amount to bani, like roundCurrency on the client
+ * @param {number} amount Amount in RON
+ * @return {number} The rounded amount
+ */
+function roundCurrency(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Read a stored or typed number, treating anything else as 0
+ * @param {unknown} value Number or numeric string
+ * @return {number} The number
+ */
+function toNumber(value: unknown): number {
+  const num = typeof value === "number" ? value : parseFloat(String(value));
+  return isNaN(num) ? 0 : num;
+}
+
+/**
+ * Price a sub-order line. A manual unit cost in `cmp` wins over the table; in
+ * area mode the unit price is the print area times the area rate, never less
+ * than the base price. The highest quantity break reached applies.
+ * @param {PriceTable | undefined} table Table of the line's product type
+ * @param {FirebaseFirestore.DocumentData} line Quantity, length, width, cmp
+ * @return {SubOrderPricing} The pricing fields stored on the sub-order, all
+ * null when the line cannot be priced
+ */
+export function priceSubOrder(
+  table: PriceTable | undefined,
+  line: FirebaseFirestore.DocumentData
+): SubOrderPricing {
+  const unpriced = {
+    unitPrice: null, lineTotal: null, setupFee: null, priceSource: null,
+  };
+  const quantity = Math.floor(toNumber(line.quantity));
+  if (quantity <= 0) {
+    return unpriced;
+  }
+
+  const manualUnitPrice = toNumber(line.cmp);
+  if (manualUnitPrice > 0) {
+    return {
+      unitPrice: roundCurrency(manualUnitPrice),
+      lineTotal: roundCurrency(manualUnitPrice * quantity),
+      setupFee: 0,
+      priceSource: PriceSource.MANUAL,
+    };
+  }
+
+  if (!table) {
+    return unpriced;
+  }
+
+  const length = toNumber(line.length);
+  const width = toNumber(line.width);
+  const printAreaCm2 = length > 0 && width > 0 ?
+    roundCurrency(length * width) : null;
+  let baseUnitPrice = table.basePrice;
+  if (table.mode === PricingMode.AREA && printAreaCm2 && table.areaRate) {
+    baseUnitPrice = Math.max(table.basePrice, printAreaCm2 * table.areaRate);
+  }
+
+  const discountPercent = (table.tiers || [])
+    .filter((tier) => quantity >= tier.minQuantity)
+    .reduce<QuantityTier | null>((best, tier) =>
+      !best || tier.minQuantity > best.minQuantity ? tier : best, null)
+    ?.discountPercent || 0;
+  const unitPrice = roundCurrency(baseUnitPrice * (1 - discountPercent / 100));
+  const setupFee = roundCurrency(table.setupFee || 0);
+
+  return {
+    unitPrice,
+    lineTotal: roundCurrency(unitPrice * quantity + setupFee),
+    setupFee,
+    priceSource: PriceSource.TABLE,
+  };
+}
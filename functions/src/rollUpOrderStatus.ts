@@ -0,0 +1,92 @@
+/**
+ * Firestore trigger that keeps an order's status in line with its sub-orders
+ *
+ * Runs on every sub-order write and derives the parent status from the
+ * children: in progress as soon as any of them starts and completed once all
+ * of them are done. Cancelled sub-orders are ignored, and an order whose
+ * sub-orders were all cancelled keeps its status: cancelling the order itself
+ * records a reason, which the team gives. Each change is posted to the order's
+ * update feed as a system message.
+ *
+ * Orders still awaiting client confirmation and orders that are already
+ * completed or cancelled are left alone, and an order the team started is not
+ * sent back to pending. Sub-orders written back by restoreFromTrash are
+ * skipped too, as their order is restored with the status it had.
+ */
+
+import * as functions from "firebase-functions";
+import {admin, db} from "./admin";
+import {OrderStatus, getRolledUpStatus} from "./orderStatus";
+
+// Romanian labels, matching orderStatus.* in the client locales
+const STATUS_LABELS: Record<string, string> = {
+  [OrderStatus.PENDING]: "în așteptare",
+  [OrderStatus.IN_PROGRESS]: "în lucru",
+  [OrderStatus.COMPLETED]: "finalizat",
+};
+
+export const rollUpOrderStatus = functions.firestore
+  .document("orders/{orderId}/subOrders/{subOrderId}")
+  .onWrite(async (change, context) => {
+    const before = change.before.exists ? change.before.data()?.status : null;
+    const after = change.after.exists ? change.after.data()?.status : null;
+
+    // Edits that leave the status untouched cannot change the roll-up
+    if (change.before.exists && change.after.exists && before === after) {
+      return;
+    }
+
+    if (!change.before.exists && change.after.data()?.restoredAt) {
+      return;
+    }
+
+    const {orderId} = context.params;
+    const orderRef = db.collection("orders").doc(orderId);
+
+    const result = await db.runTransaction(async (transaction) => {
+      const orderDoc = await transaction.get(orderRef);
+      if (!orderDoc.exists) {
+        return null;
+      }
+
+      const currentStatus: string = orderDoc.data()?.status || "";
+      const subOrdersSnapshot = await transaction.get(
+        orderRef.collection("subOrders")
+      );
+      if (subOrdersSnapshot.empty) {
+        return null;
+      }
+
+      const nextStatus = getRolledUpStatus(
+        currentStatus,
+        subOrdersSnapshot.docs.map((subOrder) => subOrder.data().status || "")
+      );
+      if (!nextStatus) {
+        return null;
+      }
+
+      const now = admin.firestore.Timestamp.now();
+      transaction.update(orderRef, {
+        status: nextStatus,
+        updatedAt: now,
+      });
+      transaction.set(db.collection("orderUpdates").doc(), {
+        orderId,
+        userId: "system",
+        userName: "Sistem",
+        userEmail: "",
+        text: "Status comandă actualizat automat din articole: " +
+          STATUS_LABELS[nextStatus],
+        isSystem: true,
+        createdAt: now,
+      });
+
+      return {from: currentStatus, to: nextStatus};
+    });
+
+    if (result) {
+      functions.logger.info(
+        `Order ${orderId} status rolled up from ${result.from} to ${result.to}`
+      );
+    }
+  });
@@ -3,8 +3,8 @@
  */
 
 import * as functions from "firebase-functions";
-import {defineSecret} from "firebase-functions/params";
 import * as nodemailer from "nodemailer";
+import {createMailer, emailPass, emailUser} from "./mailer";
 
 interface ClientInvitationEmailData {
   email: string;
@@ -14,12 +14,6 @@ interface ClientInvitationEmailData {
   invitationLink: string;
 }
 
-// Define secrets for email configuration
-const emailUser = defineSecret("EMAIL_USER");
-const emailPass = defineSecret("EMAIL_PASS");
-
-const FROM_NAME = "Serigrafie Brasov";
-
 export const sendClientInvitationEmail = functions
   .runWith({secrets: [emailUser, emailPass]})
   .https.onCall(
@@ -35,45 +29,7 @@ export const sendClientInvitationEmail = functions
       );
     }
 
-    // Get email credentials (from secrets in production, env vars in local)
-    let emailUserValue: string;
-    let emailPassValue: string;
-
-    // Check if running in emulator (local development)
-    if (process.env.FUNCTIONS_EMULATOR === "true") {
-      // Use environment variables for local development
-      emailUserValue = process.env.EMAIL_USER || "";
-      emailPassValue = process.env.EMAIL_PASS || "";
-
-      if (!emailUserValue || !emailPassValue) {
-        throw new functions.https.HttpsError(
-          "failed-precondition",
-          "Email service is not configured for local development. " +
-          "Please create functions/.env file with EMAIL_USER and EMAIL_PASS."
-        );
-      }
-    } else {
-      // Use Secret Manager for production
-      emailUserValue = emailUser.value();
-      emailPassValue = emailPass.value();
-
-      if (!emailUserValue || !emailPassValue) {
-        throw new functions.https.HttpsError(
-          "failed-precondition",
-          "Email service is not configured. " +
-          "Please set EMAIL_USER and EMAIL_PASS secrets."
-        );
-      }
-    }
-
-    // Create transporter with secret values
-    const transporter = nodemailer.createTransport({
-      service: "gmail",
-      auth: {
-        user: emailUserValue,
-        pass: emailPassValue,
-      },
-    });
+    const {transporter, from} = createMailer();
 
     // Validate required fields
     const {email, clientName, inviterName, inviterEmail, invitationLink} = data;
@@ -260,7 +216,7 @@ Dacă nu te așteptai la această invitație, poți ignora acest email în sigur
     try {
       // Send email using Nodemailer
       const mailOptions: nodemailer.SendMailOptions = {
-        from: `"${FROM_NAME}" <${emailUserValue}>`,
+        from,
         to: email,
         subject:
           `Invitație de comenzi de la ${inviterName} - Serigrafie Brasov`,
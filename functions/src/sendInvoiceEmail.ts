@@ -0,0 +1,235 @@
+/**
+ * Firebase Cloud Function to email an issued invoice PDF to the client
+ *
+ * A team member's browser uploads the rendered PDF to invoices/{invoiceId}/ in
+ * Storage, where only the team may write, and calls this function with the
+ * invoice id and the uploaded path. The PDF is
+ * attached to the email and the outcome is recorded on the invoice document
+ * under `delivery`, for both successful and failed attempts.
+ *
+ * Uses the shared Nodemailer setup from ./mailer, so locally it can be pointed
+ * at an SMTP sink by setting SMTP_HOST in functions/.env.
+ */
+
+import * as functions from "firebase-functions";
+import * as nodemailer from "nodemailer";
+import {admin, db} from "./admin";
+import {createMailer, emailPass, emailUser, escapeHtml} from "./mailer";
+
+interface InvoiceEmailData {
+  invoiceId: string;
+  pdfPath: string;
+}
+
+const TEAM_ROLES = ["owner", "admin", "member"];
+
+export const sendInvoiceEmail = functions
+  .runWith({secrets: [emailUser, emailPass]})
+  .https.onCall(
+  async (
+    data: InvoiceEmailData,
+    context: functions.https.CallableContext
+  ) => {
+    // Verify the user is authenticated
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "User must be authenticated to send invoices."
+      );
+    }
+
+    // Validate required fields
+    const {invoiceId, pdfPath} = data;
+
+    if (!invoiceId || !pdfPath) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Missing required fields: invoiceId or pdfPath"
+      );
+    }
+
+    // Only PDFs stored next to this invoice may be attached
+    if (!pdfPath.startsWith(`invoices/${invoiceId}/`) ||
+      !pdfPath.toLowerCase().endsWith(".pdf")) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "The PDF must be stored under the invoice's Storage folder"
+      );
+    }
+
+    const invoiceRef = db.collection("invoices").doc(invoiceId);
+    const invoiceDoc = await invoiceRef.get();
+    if (!invoiceDoc.exists) {
+      throw new functions.https.HttpsError(
+        "not-found",
+        "Invoice not found"
+      );
+    }
+    const invoice = invoiceDoc.data() || {};
+
+    // Only the team sends invoices from the company mailbox
+    const callerDoc = await db.collection("users").doc(context.auth.uid).get();
+    if (!TEAM_ROLES.includes(callerDoc.data()?.role)) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "Only team members can send invoices."
+      );
+    }
+
+    const recipient: string = invoice.clientEmail || "";
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(recipient)) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        "The invoice has no valid client email address"
+      );
+    }
+
+    const {transporter, from} = createMailer();
+
+    const pdfFile = admin.storage().bucket().file(pdfPath);
+    const [pdfExists] = await pdfFile.exists();
+    if (!pdfExists) {
+      throw new functions.https.HttpsError(
+        "not-found",
+        "Invoice PDF not found in Storage"
+      );
+    }
+    const [pdfContent] = await pdfFile.download();
+
+    const invoiceNumber: string = invoice.invoiceNumber;
+    const clientName: string = invoice.clientName || "";
+    const totalAmount = Number(invoice.totals?.totalAmount || 0)
+      .toFixed(2);
+    const currency: string = invoice.currency || "RON";
+    const fileName = pdfPath.split("/").pop() || `${invoiceNumber}.pdf`;
+    const html = {
+      invoiceNumber: escapeHtml(invoiceNumber),
+      orderNumber: escapeHtml(String(invoice.orderNumber || "")),
+      clientName: escapeHtml(clientName),
+      currency: escapeHtml(currency),
+    };
+
+    // HTML Email Template (Romanian)
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Factura ${html.invoiceNumber}</title>
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont,
+          'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+          line-height: 1.6; color: #333; max-width: 600px;
+          margin: 0 auto; padding: 20px; background-color: #f5f5f5;">
+          <div style="background: #ffffff; border-radius: 8px; padding: 40px;
+            box-shadow: 0 2px 8px rgba(0, 0, 0, 0.1);">
+            <div style="text-align: center; margin-bottom: 30px;
+              font-size: 28px; font-weight: bold; color: #1a1a1a;">
+              Serigrafie Brasov
+            </div>
+
+            <p>Bună${html.clientName ? ` ${html.clientName}` : ""}!</p>
+
+            <p>
+              Îți mulțumim pentru comandă. Atașat găsești factura
+              <strong>${html.invoiceNumber}</strong> pentru comanda
+              <strong>${html.orderNumber}</strong>.
+            </p>
+
+            <p>
+              Total de plată: <strong>${totalAmount} ${html.currency}</strong>
+            </p>
+
+            <div style="text-align: center; color: #666; font-size: 12px;
+              margin-top: 30px; padding-top: 20px;
+              border-top: 1px solid #eee;">
+              <p>
+                © ${new Date().getFullYear()} Serigrafie Brasov. Toate drepturile rezervate.
+              </p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    // Plain Text Email Template (Romanian)
+    const textContent = `
+Bună${clientName ? ` ${clientName}` : ""}!
+
+Îți mulțumim pentru comandă. Atașat găsești factura ${invoiceNumber} pentru comanda ${invoice.orderNumber}.
+
+Total de plată: ${totalAmount} ${currency}
+
+© ${new Date().getFullYear()} Serigrafie Brasov. Toate drepturile rezervate.
+    `;
+
+    try {
+      // Send email using Nodemailer
+      const mailOptions: nodemailer.SendMailOptions = {
+        from,
+        to: recipient,
+        subject: `Factura ${invoiceNumber} - Serigrafie Brasov`,
+        text: textContent,
+        html: htmlContent,
+        attachments: [{
+          filename: fileName,
+          content: pdfContent,
+          contentType: "application/pdf",
+        }],
+      };
+
+      const info = await transporter.sendMail(mailOptions);
+
+      await invoiceRef.update({
+        delivery: {
+          status: "sent",
+          recipient,
+          pdfPath,
+          messageId: info.messageId,
+          attemptedAt: admin.firestore.FieldValue.serverTimestamp(),
+          sentBy: context.auth.uid,
+        },
+      });
+
+      functions.logger.info(
+        `Invoice ${invoiceNumber} sent successfully to ${recipient}`,
+        {messageId: info.messageId, invoiceId}
+      );
+
+      return {
+        success: true,
+        message: "Invoice email sent successfully",
+        messageId: info.messageId,
+        recipient,
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ?
+        error.message : "Unknown error";
+      functions.logger.error("Error sending invoice email:", {
+        error: errorMessage,
+        invoiceId,
+        recipient,
+      });
+
+      await invoiceRef.update({
+        delivery: {
+          status: "failed",
+          recipient,
+          pdfPath,
+          error: errorMessage,
+          attemptedAt: admin.firestore.FieldValue.serverTimestamp(),
+          sentBy: context.auth.uid,
+        },
+      });
+
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to send invoice email. " +
+        "Please check your email configuration.",
+        errorMessage
+      );
+    }
+  }
+);
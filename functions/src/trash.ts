@@ -0,0 +1,343 @@
+/**
+ * Trash for orders, clients, suppliers, supplier orders and departments
+ *
+ * moveToTrash moves a record into trash/{type}_{id}; orders take their
+ * sub-orders, updates, notifications and proofs with them. Every document is
+ * copied to the item's trashedDocuments subcollection together with its path,
+ * then deleted, so the rest of the app no longer sees it. Copies are written
+ * first and the record itself is deleted last, so an interrupted move can be
+ * started again. Storage files stay in place while an item is in the trash.
+ *
+ * Owners and admins who may delete an item's type put it back with
+ * restoreFromTrash, which writes every document back to its path stamped with
+ * `restoredAt`, or delete it for good with purgeFromTrash, which also removes
+ * the files of purged orders. purgeExpiredTrash purges the items kept longer
+ * than `retentionDays` in settings/trash. Invoices of trashed orders are never
+ * touched.
+ */
+
+import * as functions from "firebase-functions";
+import * as crypto from "crypto";
+import {admin, db} from "./admin";
+import {BATCH_SIZE, chunk} from "./orderFiles";
+import {deleteOrderFiles, getOrderDocuments} from "./deleteOrder";
+import {
+  TRASH_TYPES,
+  TrashItemType,
+  belongsToTrashItem,
+  canManageTrashItem,
+  canMoveToTrash,
+  getTrashType,
+} from "./trashTypes";
+
+interface MoveToTrashData {
+  type: TrashItemType;
+  itemId: string;
+}
+
+interface TrashItemData {
+  trashId: string;
+}
+
+interface PurgeResult {
+  deletedDocuments: number;
+  deletedFiles: number;
+  failedFiles: string[];
+}
+
+const TIME_ZONE = "Europe/Bucharest";
+const DEFAULT_RETENTION_DAYS = 30;
+
+/**
+ * Name the trash view lists an item by
+ * @param {TrashItemType} type Item type
+ * @param {FirebaseFirestore.DocumentData} data Item document
+ * @return {string} Order number, client, supplier or department name
+ */
+function getItemName(
+  type: TrashItemType,
+  data: FirebaseFirestore.DocumentData
+): string {
+  switch (type) {
+  case "order":
+    return data.orderNumber || data.orderName || "";
+  case "client":
+    return data.name || data.company || data.email || "";
+  case "supplierOrder":
+    return data.supplierName || "";
+  default:
+    return data.name || "";
+  }
+}
+
+/**
+ * Ensure the caller may restore or purge a trash item
+ * @param {functions.https.CallableContext} context Call context
+ * @param {TrashItemData} data Call data
+ * @param {string} action What the caller tries to do, for the error message
+ * @return {Promise<FirebaseFirestore.DocumentSnapshot>} Trash item
+ */
+async function getManagedTrashDoc(
+  context: functions.https.CallableContext,
+  data: TrashItemData,
+  action: string
+): Promise<FirebaseFirestore.DocumentSnapshot> {
+  if (!context.auth) {
+    throw new functions.https.HttpsError(
+      "unauthenticated",
+      `User must be authenticated to ${action}.`
+    );
+  }
+
+  const trashDoc = await getTrashDoc(data);
+  const callerDoc = await db.collection("users").doc(context.auth.uid).get();
+  if (!canManageTrashItem(trashDoc.data()?.type, callerDoc.data()?.role)) {
+    throw new functions.https.HttpsError(
+      "permission-denied",
+      `Only owners and admins can ${action}.`
+    );
+  }
+  return trashDoc;
+}
+
+/**
+ * Read a trash item from the id a client sent
+ * @param {TrashItemData} data Call data
+ * @return {Promise<FirebaseFirestore.DocumentSnapshot>} Trash item
+ */
+async function getTrashDoc(
+  data: TrashItemData
+): Promise<FirebaseFirestore.DocumentSnapshot> {
+  if (!data?.trashId) {
+    throw new functions.https.HttpsError(
+      "invalid-argument",
+      "Missing required field: trashId"
+    );
+  }
+
+  const trashDoc = await db.collection("trash").doc(data.trashId).get();
+  if (!trashDoc.exists) {
+    throw new functions.https.HttpsError(
+      "not-found",
+      "Trash item not found"
+    );
+  }
+  return trashDoc;
+}
+
+/**
+ * Delete the copies of a trash item, then the item itself
+ * @param {FirebaseFirestore.DocumentReference} trashRef Trash item
+ * @param {FirebaseFirestore.QueryDocumentSnapshot[]} trashedDocs Its copies
+ */
+async function deleteTrashItem(
+  trashRef: FirebaseFirestore.DocumentReference,
+  trashedDocs: FirebaseFirestore.QueryDocumentSnapshot[]
+): Promise<void> {
+  for (const batchDocs of chunk(trashedDocs, BATCH_SIZE)) {
+    const batch = db.batch();
+    batchDocs.forEach((trashedDoc) => batch.delete(trashedDoc.ref));
+    await batch.commit();
+  }
+  await trashRef.delete();
+}
+
+/**
+ * Delete a trash item for good, with the files of a trashed order
+ * @param {FirebaseFirestore.DocumentReference} trashRef Trash item
+ * @return {Promise<PurgeResult>} What was deleted
+ */
+async function purgeTrashItem(
+  trashRef: FirebaseFirestore.DocumentReference
+): Promise<PurgeResult> {
+  const [trashDoc, trashedSnapshot] = await Promise.all([
+    trashRef.get(),
+    trashRef.collection("trashedDocuments").get(),
+  ]);
+  const {type, itemId} = trashDoc.data() || {};
+
+  let files = {deletedFiles: 0, failedFiles: [] as string[]};
+  if (type === "order") {
+    files = await deleteOrderFiles(
+      itemId,
+      trashedSnapshot.docs.map((trashedDoc) => trashedDoc.data().data || {}),
+      trashRef.id
+    );
+  }
+
+  await deleteTrashItem(trashRef, trashedSnapshot.docs);
+  return {deletedDocuments: trashedSnapshot.size, ...files};
+}
+
+export const moveToTrash = functions
+  .runWith({timeoutSeconds: 300})
+  .https.onCall(
+  async (
+    data: MoveToTrashData,
+    context: functions.https.CallableContext
+  ) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "User must be authenticated to delete records."
+      );
+    }
+
+    const type = getTrashType(data?.type);
+    const itemId = data?.itemId;
+    if (!type || !itemId) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Missing or invalid fields: type or itemId"
+      );
+    }
+
+    const itemRef = db.collection(TRASH_TYPES[type].collection).doc(itemId);
+    const itemDoc = await itemRef.get();
+    if (!itemDoc.exists) {
+      throw new functions.https.HttpsError(
+        "not-found",
+        "Record not found"
+      );
+    }
+
+    const callerDoc = await db.collection("users").doc(context.auth.uid).get();
+    const caller = callerDoc.data() || {};
+    if (!canMoveToTrash(type, caller.role,
+      itemDoc.data()?.userId === context.auth.uid)) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "You do not have access to this record."
+      );
+    }
+
+    // The record itself last, so a failed move leaves it in place to retry
+    const documents = type === "order" ?
+      [...await getOrderDocuments(itemRef), itemDoc] :
+      [itemDoc];
+    const trashRef = db.collection("trash").doc(`${type}_${itemId}`);
+
+    for (const batchDocs of chunk(documents, BATCH_SIZE)) {
+      const batch = db.batch();
+      batchDocs.forEach((document) => {
+        const copyId = crypto.createHash("sha1")
+          .update(document.ref.path)
+          .digest("hex");
+        batch.set(trashRef.collection("trashedDocuments").doc(copyId), {
+          path: document.ref.path,
+          data: document.data() || {},
+        });
+      });
+      await batch.commit();
+    }
+
+    await trashRef.set({
+      type,
+      itemId,
+      name: getItemName(type, itemDoc.data() || {}),
+      documentCount: documents.length,
+      deletedBy: context.auth.uid,
+      deletedByName: caller.displayName || caller.email || "",
+      deletedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    for (const batchDocs of chunk(documents, BATCH_SIZE)) {
+      const batch = db.batch();
+      batchDocs.forEach((document) => batch.delete(document.ref));
+      await batch.commit();
+    }
+
+    functions.logger.info(`Moved ${type} ${itemId} to the trash`, {
+      documents: documents.length,
+    });
+
+    return {success: true, trashId: trashRef.id};
+  });
+
+export const restoreFromTrash = functions
+  .runWith({timeoutSeconds: 300})
+  .https.onCall(
+  async (
+    data: TrashItemData,
+    context: functions.https.CallableContext
+  ) => {
+    const trashDoc = await getManagedTrashDoc(
+      context, data, "restore deleted records");
+    const trashRef = trashDoc.ref;
+    const {itemId} = trashDoc.data() || {};
+    const type = trashDoc.data()?.type as TrashItemType;
+    const itemPath = `${TRASH_TYPES[type].collection}/${itemId}`;
+
+    const trashedSnapshot = await trashRef.collection("trashedDocuments").get();
+    if (trashedSnapshot.docs.some((trashedDoc) => !belongsToTrashItem(
+      type, itemId, trashedDoc.data().path, trashedDoc.data().data || {}))) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        "Trash item holds documents of other records."
+      );
+    }
+
+    // The record first, so triggers on its sub-orders find the order
+    const trashedDocs = [...trashedSnapshot.docs].sort((a, b) =>
+      Number(b.data().path === itemPath) - Number(a.data().path === itemPath));
+
+    const restoredAt = admin.firestore.Timestamp.now();
+    for (const batchDocs of chunk(trashedDocs, BATCH_SIZE)) {
+      const batch = db.batch();
+      batchDocs.forEach((trashedDoc) => {
+        const {path, data: documentData} = trashedDoc.data();
+        // Tells rollUpOrderStatus the sub-orders keep their order's status
+        batch.set(db.doc(path), {...documentData, restoredAt});
+      });
+      await batch.commit();
+    }
+
+    await deleteTrashItem(trashRef, trashedSnapshot.docs);
+
+    functions.logger.info(`Restored ${type} ${itemId} from the trash`, {
+      documents: trashedSnapshot.size,
+    });
+
+    return {success: true, restoredDocuments: trashedSnapshot.size};
+  });
+
+export const purgeFromTrash = functions
+  .runWith({timeoutSeconds: 300})
+  .https.onCall(
+  async (
+    data: TrashItemData,
+    context: functions.https.CallableContext
+  ) => {
+    const trashDoc = await getManagedTrashDoc(
+      context, data, "permanently delete records");
+    const result = await purgeTrashItem(trashDoc.ref);
+
+    functions.logger.info(`Purged ${trashDoc.id} from the trash`, result);
+
+    return {success: true, ...result};
+  });
+
+export const purgeExpiredTrash = functions
+  .runWith({timeoutSeconds: 540})
+  .pubsub.schedule("every day 03:00")
+  .timeZone(TIME_ZONE)
+  .onRun(async () => {
+    const settingsDoc = await db.collection("settings").doc("trash").get();
+    const retentionDays = Number(settingsDoc.data()?.retentionDays) ||
+      DEFAULT_RETENTION_DAYS;
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+    const expiredSnapshot = await db.collection("trash")
+      .where("deletedAt", "<=", admin.firestore.Timestamp.fromDate(cutoff))
+      .get();
+
+    // One item at a time: order purges check other trashed orders' files
+    for (const trashDoc of expiredSnapshot.docs) {
+      try {
+        const result = await purgeTrashItem(trashDoc.ref);
+        functions.logger.info(`Purged ${trashDoc.id} from the trash`, result);
+      } catch (error) {
+        functions.logger.error(`Error purging ${trashDoc.id}`, error);
+      }
+    }
+  });
@@ -0,0 +1,80 @@
+import {describe, it, expect} from "vitest";
+import {readFileSync} from "fs";
+import {resolve} from "path";
+import {
+  TRASH_TYPES,
+  belongsToTrashItem,
+  canManageTrashItem,
+  canMoveToTrash,
+  getTrashType,
+} from "./trashTypes";
+
+describe("getTrashType", () => {
+  it("accepts only the types the trash knows", () => {
+    expect(getTrashType("supplierOrder")).toBe("supplierOrder");
+    expect(getTrashType("users")).toBeNull();
+    expect(getTrashType(undefined)).toBeNull();
+  });
+});
+
+describe("canMoveToTrash", () => {
+  it("lets members and owners of a record delete orders and clients", () => {
+    expect(canMoveToTrash("order", "member", false)).toBe(true);
+    expect(canMoveToTrash("client", "client", true)).toBe(true);
+    expect(canMoveToTrash("order", "client", false)).toBe(false);
+  });
+
+  it("keeps suppliers and departments to owners and admins", () => {
+    expect(canMoveToTrash("supplier", "member", false)).toBe(false);
+    expect(canMoveToTrash("department", "client", true)).toBe(false);
+    expect(canMoveToTrash("department", "admin", false)).toBe(true);
+  });
+});
+
+describe("canManageTrashItem", () => {
+  it("lets owners and admins restore and purge every type", () => {
+    expect(canManageTrashItem("order", "owner")).toBe(true);
+    expect(canManageTrashItem("supplier", "admin")).toBe(true);
+  });
+
+  it("turns away members, clients and unknown types", () => {
+    expect(canManageTrashItem("order", "member")).toBe(false);
+    expect(canManageTrashItem("client", "client")).toBe(false);
+    expect(canManageTrashItem("users", "owner")).toBe(false);
+  });
+});
+
+describe("belongsToTrashItem", () => {
+  it("restores a record only to its own path", () => {
+    expect(belongsToTrashItem("client", "c1", "clients/c1", {})).toBe(true);
+    expect(belongsToTrashItem("client", "c1", "clients/c2", {})).toBe(false);
+    expect(belongsToTrashItem("client", "c1", "clients/c1/notes/n1", {}))
+      .toBe(false);
+  });
+
+  it("restores the documents of the order they were trashed with", () => {
+    expect(belongsToTrashItem("order", "o1", "orders/o1/subOrders/s1", {}))
+      .toBe(true);
+    expect(belongsToTrashItem("order", "o1", "proofs/p1", {orderId: "o1"}))
+      .toBe(true);
+    expect(belongsToTrashItem("order", "o1", "orders/o2/subOrders/s1", {}))
+      .toBe(false);
+    expect(belongsToTrashItem("order", "o1", "proofs/p1", {orderId: "o2"}))
+      .toBe(false);
+    expect(belongsToTrashItem("order", "o1", "users/u1", {orderId: "o1"}))
+      .toBe(false);
+  });
+});
+
+describe("firestore.rules", () => {
+  const rules = readFileSync(
+    resolve(__dirname, "../../firestore.rules"), "utf8");
+
+  it("leaves deleting every trash type to moveToTrash", () => {
+    Object.values(TRASH_TYPES).forEach(({collection}) => {
+      const match = rules.match(new RegExp(
+        `match /${collection}/\\{\\w+\\} \\{[\\s\\S]*?allow delete: ([^;]*);`));
+      expect(match?.[1], collection).toBe("if false");
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * What can go to the trash, who may delete and restore it, and which
+ * documents a trash item may write back when it is restored
+ */
+
+export type TrashItemType =
+  "order" | "client" | "supplier" | "supplierOrder" | "department";
+
+const TEAM_ROLES = ["owner", "admin", "member"];
+const ADMIN_ROLES = ["owner", "admin"];
+
+// Top-level collections whose documents belong to an order by `orderId`
+const ORDER_COLLECTIONS = ["orderUpdates", "notifications", "proofs"];
+// Subcollections of an order document
+const ORDER_SUBCOLLECTIONS = ["subOrders", "orderUpdates"];
+
+// Who may move each type to the trash. firestore.rules blocks direct deletes of
+// these collections, so moveToTrash is the only way to delete them
+export const TRASH_TYPES: Record<TrashItemType, {
+  collection: string;
+  roles: string[];
+  ownerMayDelete: boolean;
+}> = {
+  order: {collection: "orders", roles: TEAM_ROLES, ownerMayDelete: true},
+  client: {collection: "clients", roles: TEAM_ROLES, ownerMayDelete: true},
+  supplier: {collection: "suppliers", roles: ADMIN_ROLES, ownerMayDelete: false},
+  supplierOrder: {
+    collection: "supplierOrders",
+    roles: ADMIN_ROLES,
+    ownerMayDelete: false,
+  },
+  department: {
+    collection: "departments",
+    roles: ADMIN_ROLES,
+    ownerMayDelete: false,
+  },
+};
+
+/**
+ * Read an item type sent by a client or stored on a trash item
+ * @param {unknown} type Type to check
+ * @return {TrashItemType | null} The type, or null when it is not one
+ */
+export function getTrashType(type: unknown): TrashItemType | null {
+  return typeof type === "string" && Object.keys(TRASH_TYPES).includes(type) ?
+    type as TrashItemType : null;
+}
+
+/**
+ * Whether a user may move a record to the trash
+ * @param {TrashItemType} type Item type
+ * @param {string} role Role of the user
+ * @param {boolean} isOwner Whether the record belongs to the user
+ * @return {boolean} True when the delete rules would allow it
+ */
+export function canMoveToTrash(
+  type: TrashItemType,
+  role: string,
+  isOwner: boolean
+): boolean {
+  const config = TRASH_TYPES[type];
+  return config.roles.includes(role) || (config.ownerMayDelete && isOwner);
+}
+
+/**
+ * Whether a user may restore or purge a trash item. The trash is only shown
+ * to owners and admins, and only to the ones who may delete its type.
+ * @param {unknown} type Type stored on the trash item
+ * @param {string} role Role of the user
+ * @return {boolean} True when the user may manage the item
+ */
+export function canManageTrashItem(type: unknown, role: string): boolean {
+  const trashType = getTrashType(type);
+  return !!trashType && ADMIN_ROLES.includes(role) &&
+    TRASH_TYPES[trashType].roles.includes(role);
+}
+
+/**
+ * Whether a trashed document belongs to the item it was trashed with, so
+ * restoring the item cannot write anywhere else
+ * @param {TrashItemType} type Item type
+ * @param {string} itemId Item id
+ * @param {string} path Path the document is restored to
+ * @param {FirebaseFirestore.DocumentData} data Document data
+ * @return {boolean} True for the record itself and, for orders, the
+ *   documents moveToTrash takes along with it
+ */
+export function belongsToTrashItem(
+  type: TrashItemType,
+  itemId: string,
+  path: string,
+  data: FirebaseFirestore.DocumentData
+): boolean {
+  const collection = TRASH_TYPES[type].collection;
+  if (path === `${collection}/${itemId}`) {
+    return true;
+  }
+  if (type !== "order") {
+    return false;
+  }
+
+  const segments = path.split("/");
+  if (segments.length === 4) {
+    return segments[0] === collection && segments[1] === itemId &&
+      ORDER_SUBCOLLECTIONS.includes(segments[2]);
+  }
+  return segments.length === 2 && ORDER_COLLECTIONS.includes(segments[0]) &&
+    data.orderId === itemId;
+}